@@ -0,0 +1,679 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, statSync } from 'fs';
+import { basename } from 'path';
+import { BackupMetadata, BackupRecovery } from '../utils/backup-recovery';
+import { BackupReplication } from '../utils/backup-replication';
+import { ChangeSnapshot } from '../utils/change-snapshot';
+import { BackupRetentionPolicy, Config } from '../utils/config';
+import { formatBytes, parseBytes } from '../utils/disk-space';
+
+interface ListOptions {
+  env?: string;
+  site?: string;
+  since?: string;
+  until?: string;
+  remote?: boolean;
+  json?: boolean;
+  workDir?: string;
+}
+
+interface BackupOptions {
+  json?: boolean;
+  workDir?: string;
+}
+
+interface VerifyOptions extends BackupOptions {
+  remote?: boolean;
+}
+
+interface UploadOptions extends BackupOptions {
+  verify: boolean;
+  verbose?: boolean;
+}
+
+interface RestoreBackupOptions extends BackupOptions {
+  remote?: boolean;
+  networkTables?: boolean;
+  sites?: string;
+  force?: boolean;
+  backup: boolean;
+  timeout: string;
+}
+
+interface DeleteOptions extends BackupOptions {
+  force?: boolean;
+}
+
+interface PruneOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  keepLast?: string;
+  maxAge?: string;
+  maxSize?: string;
+  workDir?: string;
+}
+
+const WORK_DIR_DESCRIPTION =
+  'Backup directory (default: backup.localPath or ~/.wfuwp/backups)';
+
+export const backupsCommand = new Command('backups')
+  .description('Manage database backups, locally and offsite in S3')
+  .addCommand(
+    new Command('list')
+      .description('List backups, newest first')
+      .option('--env <env>', 'Only backups of this environment')
+      .option('--site <site-id>', 'Only backups containing this site')
+      .option('--since <date>', 'Only backups taken on or after this date')
+      .option('--until <date>', 'Only backups taken on or before this date')
+      .option('--remote', 'List the offsite copies in S3')
+      .option('--json', 'Print the backups as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (options: ListOptions) => {
+        try {
+          await listBackups(options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description('Show a backup with its files, sizes and checksums')
+      .argument('<backup-id>', 'Backup ID from "wfuwp backups list"')
+      .option('--json', 'Print the backup as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action((backupId: string, options: BackupOptions) => {
+        try {
+          showBackup(backupId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('verify')
+      .description('Check that a backup has all its files and checksums match')
+      .argument('<backup-id>', 'Backup ID from "wfuwp backups list"')
+      .option(
+        '--remote',
+        'Verify the offsite copy in S3 (downloads it to a scratch directory)'
+      )
+      .option('--json', 'Print the result as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (backupId: string, options: VerifyOptions) => {
+        try {
+          if (!(await verifyBackup(backupId, options))) {
+            process.exit(1);
+          }
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('upload')
+      .description(
+        'Copy a backup to S3 (s3.bucket under backup.offsitePrefix) and verify it'
+      )
+      .argument('<backup-id>', 'Backup ID from "wfuwp backups list"')
+      .option('--no-verify', 'Skip downloading the copy to check checksums')
+      .option('-v, --verbose', 'Show each file as it is uploaded')
+      .option('--json', 'Print the result as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (backupId: string, options: UploadOptions) => {
+        try {
+          await uploadBackup(backupId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('restore')
+      .description(
+        'Restore sites and/or network tables from a backup into the environment it was taken from'
+      )
+      .argument('<backup-id>', 'Backup ID from "wfuwp backups list"')
+      .option('--remote', 'Download the backup from S3 first if not local')
+      .option('--network-tables', 'Restore the network tables')
+      .option(
+        '--sites <ids>',
+        'Comma-separated site IDs to restore, e.g. 12,34'
+      )
+      .option('-f, --force', 'Skip the confirmation prompt')
+      .option('--no-backup', 'Skip snapshotting the tables being overwritten')
+      .option(
+        '--timeout <minutes>',
+        'Custom timeout in minutes for large databases (default: 20)',
+        '20'
+      )
+      .option('--json', 'Print the result as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (backupId: string, options: RestoreBackupOptions) => {
+        try {
+          await restoreBackup(backupId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('delete')
+      .description('Delete a backup')
+      .argument('<backup-id>', 'Backup ID from "wfuwp backups list"')
+      .option('-f, --force', 'Skip the confirmation prompt')
+      .option('--json', 'Print the result as JSON')
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (backupId: string, options: DeleteOptions) => {
+        try {
+          await deleteBackup(backupId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('prune')
+      .description(
+        'Remove backups and change snapshots outside the retention policy (backup.keepLast, backup.retentionDays, backup.maxTotalSize)'
+      )
+      .option('--dry-run', 'Show what would be removed without deleting')
+      .option('-f, --force', 'Skip the confirmation prompt')
+      .option(
+        '--keep-last <count>',
+        'Backups to keep per environment and site set'
+      )
+      .option('--max-age <days>', 'Remove backups older than this many days')
+      .option(
+        '--max-size <size>',
+        'Remove the oldest backups until the rest fit, e.g. 20GB'
+      )
+      .option('--work-dir <path>', WORK_DIR_DESCRIPTION)
+      .action(async (options: PruneOptions) => {
+        try {
+          await pruneBackups(options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  );
+
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${option} must be a date such as 2026-10-01`);
+  }
+  return date;
+}
+
+// Every file the backup refers to, with its size on disk (null if missing)
+function getBackupFiles(
+  metadata: BackupMetadata
+): Array<{ label: string; path: string; size: number | null }> {
+  const files: Array<{ label: string; path: string }> = [];
+  if (metadata.backupPaths.networkTablesFile) {
+    files.push({
+      label: 'network tables',
+      path: metadata.backupPaths.networkTablesFile,
+    });
+  }
+  for (const [siteId, path] of Object.entries(
+    metadata.backupPaths.sitesFiles
+  )) {
+    files.push({ label: `site ${siteId}`, path });
+  }
+  return files.map((file) => ({
+    ...file,
+    size: existsSync(file.path) ? statSync(file.path).size : null,
+  }));
+}
+
+async function listBackups(options: ListOptions): Promise<void> {
+  const since = options.since ? parseDate(options.since, '--since') : null;
+  // A bare date means the whole day
+  const until = options.until ? parseDate(options.until, '--until') : null;
+  if (until && /^\d{4}-\d{2}-\d{2}$/.test(options.until!)) {
+    until.setUTCHours(23, 59, 59, 999);
+  }
+  const siteId = options.site ? parseInt(options.site, 10) : null;
+
+  const available = options.remote
+    ? await BackupReplication.listRemoteBackups()
+    : BackupRecovery.listAvailableBackups(options.workDir);
+  const backups = available.filter((backup) => {
+    const takenAt = new Date(backup.timestamp);
+    return (
+      (!options.env || backup.environment === options.env) &&
+      (siteId === null || backup.sites.includes(siteId)) &&
+      (!since || takenAt >= since) &&
+      (!until || takenAt <= until)
+    );
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(backups, null, 2));
+    return;
+  }
+
+  if (backups.length === 0) {
+    console.log(
+      chalk.yellow(
+        options.remote ? 'No offsite backups found' : 'No backups found'
+      )
+    );
+    return;
+  }
+
+  console.log(chalk.blue.bold(`Backups (${backups.length}):\n`));
+  for (const backup of backups) {
+    console.log(chalk.white.bold(backup.backupId));
+    console.log(chalk.gray(`  ${BackupRecovery.getRetentionGroup(backup)}`));
+    console.log(
+      chalk.gray(`  Taken: ${new Date(backup.timestamp).toLocaleString()}`)
+    );
+    console.log(chalk.gray(`  Size: ${formatBytes(backup.totalSize)}`));
+    console.log();
+  }
+}
+
+function showBackup(backupId: string, options: BackupOptions): void {
+  const metadata = BackupRecovery.loadBackupMetadata(backupId, options.workDir);
+  const files = getBackupFiles(metadata);
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...metadata, files }, null, 2));
+    return;
+  }
+
+  console.log(chalk.blue.bold(`Backup ${metadata.backupId}\n`));
+  console.log(chalk.cyan(`Environment: ${metadata.environment}`));
+  console.log(
+    chalk.cyan(`Taken: ${new Date(metadata.timestamp).toLocaleString()}`)
+  );
+  console.log(
+    chalk.cyan(
+      `Sites: ${metadata.sites.length > 0 ? metadata.sites.join(', ') : 'none'}`
+    )
+  );
+  console.log(
+    chalk.cyan(
+      `Network tables: ${metadata.networkTables.length > 0 ? metadata.networkTables.join(', ') : 'none'}`
+    )
+  );
+  console.log(chalk.cyan(`Total size: ${formatBytes(metadata.totalSize)}`));
+  console.log(chalk.cyan(`Compression: ${metadata.compression || 'none'}`));
+  console.log(
+    chalk.cyan(
+      `Encryption: ${metadata.encryption ? `${metadata.encryption.algorithm} (key from ${metadata.encryption.keySource})` : 'none'}`
+    )
+  );
+
+  console.log(chalk.blue('\nFiles:'));
+  for (const file of files) {
+    const size =
+      file.size === null ? chalk.red('missing') : formatBytes(file.size);
+    const checksum = metadata.checksums[basename(file.path)];
+    console.log(`  ${file.label.padEnd(16)} ${size}`);
+    console.log(chalk.gray(`    ${file.path}`));
+    if (checksum) {
+      console.log(chalk.gray(`    sha256 ${checksum}`));
+    }
+  }
+}
+
+async function verifyBackup(
+  backupId: string,
+  options: VerifyOptions
+): Promise<boolean> {
+  const result = options.remote
+    ? await BackupReplication.verifyRemoteBackup(backupId)
+    : await BackupRecovery.verifyBackupIntegrity(
+        BackupRecovery.loadBackupMetadata(backupId, options.workDir)
+      );
+
+  if (options.json) {
+    console.log(JSON.stringify({ backupId, ...result }, null, 2));
+  } else if (result.valid) {
+    console.log(chalk.green(`✓ Backup ${backupId} verified`));
+  } else {
+    console.log(chalk.red(`✗ Backup ${backupId} failed verification:`));
+    for (const error of result.errors) {
+      console.log(chalk.red(`  - ${error}`));
+    }
+  }
+  return result.valid;
+}
+
+async function confirm(message: string): Promise<boolean> {
+  const { default: inquirer } = await import('inquirer');
+  const { proceed } = await inquirer.prompt([
+    { type: 'confirm', name: 'proceed', message, default: false },
+  ]);
+  return proceed;
+}
+
+async function uploadBackup(
+  backupId: string,
+  options: UploadOptions
+): Promise<void> {
+  const result = await BackupReplication.uploadBackup(backupId, {
+    workDir: options.workDir,
+    verbose: options.verbose && !options.json,
+    verify: options.verify,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  console.log(chalk.green(`✓ Uploaded ${backupId} to ${result.location}`));
+  console.log(
+    result.verified
+      ? chalk.green('✓ Offsite copy matches the recorded checksums')
+      : chalk.yellow('Offsite copy not verified (--no-verify)')
+  );
+}
+
+// Without --sites or --network-tables every site in the backup is restored;
+// network tables are only restored when asked for
+async function restoreBackup(
+  backupId: string,
+  options: RestoreBackupOptions
+): Promise<void> {
+  if (options.remote && !options.json) {
+    console.log(chalk.gray(`Fetching ${backupId} from S3...`));
+  }
+  const metadata = options.remote
+    ? await BackupReplication.downloadBackup(backupId, {
+        workDir: options.workDir,
+      })
+    : BackupRecovery.loadBackupMetadata(backupId, options.workDir);
+  const environment = metadata.environment;
+  if (!Config.hasRequiredEnvironmentConfig(environment)) {
+    throw new Error(`Environment '${environment}' is not configured`);
+  }
+
+  let sites = metadata.sites;
+  if (options.sites) {
+    sites = options.sites.split(',').map((value) => {
+      const siteId = Number(value.trim());
+      if (!Number.isInteger(siteId) || siteId < 1) {
+        throw new Error(`Invalid site ID '${value.trim()}' in --sites`);
+      }
+      if (!metadata.sites.includes(siteId)) {
+        throw new Error(`Backup ${backupId} does not contain site ${siteId}`);
+      }
+      return siteId;
+    });
+  } else if (options.networkTables) {
+    sites = [];
+  }
+  if (options.networkTables && !metadata.backupPaths.networkTablesFile) {
+    throw new Error(`Backup ${backupId} does not contain network tables`);
+  }
+  if (sites.length === 0 && !options.networkTables) {
+    throw new Error(`Backup ${backupId} has nothing to restore`);
+  }
+
+  const integrity = await BackupRecovery.verifyBackupIntegrity(metadata);
+  if (!integrity.valid) {
+    throw new Error(
+      `Backup ${backupId} failed verification: ${integrity.errors.join(', ')}`
+    );
+  }
+
+  if (!options.json) {
+    console.log(chalk.cyan(`Backup: ${backupId}`));
+    console.log(chalk.cyan(`Environment: ${environment}`));
+    console.log(
+      chalk.cyan(
+        `Restore: ${[
+          ...(options.networkTables ? ['network tables'] : []),
+          ...(sites.length > 0 ? [`sites ${sites.join(', ')}`] : []),
+        ].join(' and ')}`
+      )
+    );
+  }
+
+  if (
+    !options.force &&
+    !(await confirm(
+      `Overwrite these tables in ${environment} with the backup from ${new Date(metadata.timestamp).toLocaleString()}?`
+    ))
+  ) {
+    console.log(chalk.yellow('Restore cancelled'));
+    return;
+  }
+
+  const siteTables = await Promise.all(
+    sites.map((siteId) => BackupRecovery.getSiteTableNames(environment, siteId))
+  );
+  const snapshot = await ChangeSnapshot.beforeChange(
+    environment,
+    [
+      ...(options.networkTables ? metadata.networkTables : []),
+      ...siteTables.flat(),
+    ],
+    {
+      backup: options.backup,
+      workDir: options.workDir,
+      timeout: parseInt(options.timeout, 10),
+      quiet: options.json,
+    }
+  );
+
+  const result = await BackupRecovery.restoreFromBackup(backupId, environment, {
+    networkTables: Boolean(options.networkTables),
+    sites,
+    skipConfirmation: true,
+    timeout: parseInt(options.timeout, 10),
+    workDir: options.workDir,
+    quiet: options.json,
+  });
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          backupId,
+          environment,
+          snapshotId: snapshot?.snapshotId ?? null,
+          ...result,
+        },
+        null,
+        2
+      )
+    );
+  }
+  if (!result.success) {
+    throw new Error(result.errors.join(', '));
+  }
+}
+
+async function deleteBackup(
+  backupId: string,
+  options: DeleteOptions
+): Promise<void> {
+  const metadata = BackupRecovery.loadBackupMetadata(backupId, options.workDir);
+
+  if (
+    !options.force &&
+    !(await confirm(
+      `Delete backup ${backupId} (${BackupRecovery.getRetentionGroup(metadata)}, ${formatBytes(metadata.totalSize)})?`
+    ))
+  ) {
+    console.log(chalk.yellow('Delete cancelled'));
+    return;
+  }
+
+  const deleted = await BackupRecovery.deleteBackup(backupId, options.workDir);
+  if (!deleted) {
+    throw new Error(`Could not delete backup ${backupId}`);
+  }
+  if (options.json) {
+    console.log(JSON.stringify({ backupId, deleted }, null, 2));
+  } else {
+    console.log(chalk.green(`✓ Deleted backup ${backupId}`));
+  }
+}
+
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${option} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+// Command-line options override the configured policy rule by rule
+function resolvePolicy(options: PruneOptions): BackupRetentionPolicy {
+  const policy = Config.getBackupRetention();
+  if (options.keepLast !== undefined) {
+    policy.keepLast = parsePositiveInteger(options.keepLast, '--keep-last');
+  }
+  if (options.maxAge !== undefined) {
+    policy.maxAgeDays = parsePositiveInteger(options.maxAge, '--max-age');
+  }
+  if (options.maxSize !== undefined) {
+    const maxTotalSize = parseBytes(options.maxSize);
+    if (!maxTotalSize) {
+      throw new Error('--max-size must be a size such as 500MB or 20GB');
+    }
+    policy.maxTotalSize = maxTotalSize;
+  }
+  return policy;
+}
+
+function describePolicy(policy: BackupRetentionPolicy): string {
+  const rules: string[] = [];
+  if (policy.keepLast) {
+    rules.push(`keep last ${policy.keepLast}`);
+  }
+  if (policy.maxAgeDays) {
+    rules.push(`max age ${policy.maxAgeDays} days`);
+  }
+  if (policy.maxTotalSize) {
+    rules.push(`max total ${formatBytes(policy.maxTotalSize)}`);
+  }
+  return rules.join(', ');
+}
+
+async function pruneBackups(options: PruneOptions): Promise<void> {
+  const policy = resolvePolicy(options);
+  if (!BackupRecovery.hasRetentionRules(policy)) {
+    throw new Error(
+      'No retention policy. Set backup.keepLast, backup.retentionDays or backup.maxTotalSize with "wfuwp config set", or pass --keep-last, --max-age or --max-size'
+    );
+  }
+
+  console.log(chalk.blue(`Retention policy: ${describePolicy(policy)}`));
+  const plan = BackupRecovery.planPrune(policy, options.workDir);
+  const count = plan.remove.length + plan.removeSnapshots.length;
+
+  if (count === 0) {
+    console.log(
+      chalk.green(
+        `✓ Nothing to prune (${plan.keep.length} backups and ${plan.keepSnapshots.length} snapshots within policy)`
+      )
+    );
+    return;
+  }
+
+  if (plan.remove.length > 0) {
+    console.log(
+      chalk.cyan(
+        `\n${options.dryRun ? 'Would remove' : 'Removing'} ${plan.remove.length} backups:`
+      )
+    );
+    for (const candidate of plan.remove) {
+      const { backup } = candidate;
+      console.log(
+        `  ${chalk.white(backup.backupId)}  ${BackupRecovery.getRetentionGroup(backup)}  ${new Date(backup.timestamp).toLocaleString()}  ${formatBytes(candidate.size)}`
+      );
+      console.log(chalk.gray(`    ${candidate.reason}`));
+    }
+  }
+  if (plan.removeSnapshots.length > 0) {
+    console.log(
+      chalk.cyan(
+        `\n${options.dryRun ? 'Would remove' : 'Removing'} ${plan.removeSnapshots.length} snapshots:`
+      )
+    );
+    for (const candidate of plan.removeSnapshots) {
+      const { snapshot } = candidate;
+      console.log(
+        `  ${chalk.white(snapshot.snapshotId)}  ${snapshot.environment}  ${new Date(snapshot.timestamp).toLocaleString()}  ${formatBytes(candidate.size)}`
+      );
+      console.log(chalk.gray(`    ${candidate.reason}`));
+    }
+  }
+  console.log(
+    `\n${options.dryRun ? 'Space that would be reclaimed' : 'Space reclaimed'}: ${chalk.white(formatBytes(plan.reclaimedBytes))}`
+  );
+  console.log(
+    chalk.gray(
+      `Keeping ${plan.keep.length} backups and ${plan.keepSnapshots.length} snapshots`
+    )
+  );
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\nDry run: nothing was removed'));
+    return;
+  }
+
+  if (
+    !options.force &&
+    !(await confirm(`Delete ${count} backups and snapshots?`))
+  ) {
+    console.log(chalk.yellow('Prune cancelled'));
+    return;
+  }
+
+  const result = await BackupRecovery.pruneBackups(policy, {
+    workDir: options.workDir,
+  });
+  if (result.errors.length > 0) {
+    throw new Error(result.errors.join(', '));
+  }
+  console.log(
+    chalk.green(
+      `✓ Removed ${result.remove.length} backups and ${result.removeSnapshots.length} snapshots (${formatBytes(result.reclaimedBytes)})`
+    )
+  );
+}
@@ -52,7 +52,10 @@ export const cleanLowerEnvsCommand = new Command('clean-lower-envs')
   .option('--execute', 'Actually perform the cleanup operations', false)
   .option('-f, --force', 'Skip confirmation prompts', false)
   .option('-v, --verbose', 'Show detailed output', false)
-  .option('--no-backup', 'Skip creating backups before deletion', false)
+  .option(
+    '--no-backup',
+    'Skip snapshotting the affected tables before deletion'
+  )
   .option('--parallel', 'Process environments in parallel', false)
   .action(async (options: CleanLowerEnvsOptions & { execute?: boolean }) => {
     try {
@@ -228,7 +231,9 @@ export const cleanLowerEnvsCommand = new Command('clean-lower-envs')
           chalk.red(`  • Drop ${totalTables} orphaned database tables`)
         );
         if (options.backup !== false) {
-          console.log(chalk.blue(`  • Create backups before deletion`));
+          console.log(
+            chalk.blue(`  • Snapshot the affected tables before deletion`)
+          );
         }
 
         const { default: inquirer } = await import('inquirer');
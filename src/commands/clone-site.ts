@@ -0,0 +1,156 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { SiteClone, SiteClonePlan } from '../utils/site-clone';
+
+interface CloneSiteOptions {
+  env: string;
+  fromEnv?: string;
+  domain: string;
+  path: string;
+  skipS3?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+  timeout: string;
+}
+
+const VALID_ENVIRONMENTS = ['dev', 'uat', 'pprd', 'prod'];
+
+export const cloneSiteCommand = new Command('clone-site')
+  .description(
+    'Create a new subsite as a copy of an existing one, within or across environments'
+  )
+  .argument('<source-id>', 'Site ID to copy')
+  .requiredOption(
+    '--env <env>',
+    'Environment to create the new site in (dev, uat, pprd, prod)'
+  )
+  .requiredOption(
+    '--domain <domain>',
+    'Domain of the new site, e.g. fall26.wfu.edu'
+  )
+  .option('--path <path>', 'Path of the new site', '/')
+  .option(
+    '--from-env <env>',
+    'Environment to copy the source site from (default: --env)'
+  )
+  .option('--skip-s3', 'Do not copy the S3 uploads')
+  .option('--dry-run', 'Show the plan without making changes', false)
+  .option('-f, --force', 'Skip the confirmation prompt', false)
+  .option('-v, --verbose', 'Show detailed output', false)
+  .option(
+    '--timeout <minutes>',
+    'Custom timeout in minutes for large databases (default: 20)',
+    '20'
+  )
+  .action(async (sourceIdArg: string, options: CloneSiteOptions) => {
+    try {
+      await runClone(sourceIdArg, options);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+async function runClone(
+  sourceIdArg: string,
+  options: CloneSiteOptions
+): Promise<void> {
+  const sourceId = Number(sourceIdArg);
+  if (!Number.isInteger(sourceId) || sourceId <= 0) {
+    throw new Error('Site ID must be a positive number');
+  }
+  for (const environment of [options.env, options.fromEnv]) {
+    if (environment && !VALID_ENVIRONMENTS.includes(environment)) {
+      throw new Error(
+        `Invalid environment "${environment}". Must be one of: ${VALID_ENVIRONMENTS.join(', ')}`
+      );
+    }
+  }
+
+  const plan = await SiteClone.plan(sourceId, {
+    environment: options.env,
+    fromEnv: options.fromEnv,
+    domain: options.domain,
+    path: options.path,
+  });
+  printPlan(plan, options);
+
+  if (options.dryRun) {
+    console.log(chalk.green('\n🎭 Clone dry run completed - no changes made'));
+    return;
+  }
+
+  if (!options.force) {
+    const { default: inquirer } = await import('inquirer');
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: `Create ${plan.domain}${plan.path} in ${plan.targetEnv} as a copy of site ${sourceId}?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow('Clone cancelled'));
+      return;
+    }
+  }
+
+  console.log(chalk.cyan('\n🚀 Cloning site...'));
+  const result = await SiteClone.clone(plan, {
+    skipS3: options.skipS3,
+    verbose: options.verbose,
+    timeout: parseInt(options.timeout, 10),
+  });
+
+  console.log(
+    chalk.green(
+      `\n✅ Cloned site ${sourceId} as site ${result.newSiteId} at ${plan.domain}${plan.path}`
+    )
+  );
+  console.log(`  ${chalk.green('•')} Tables copied: ${result.tables.length}`);
+  if (plan.copyUserRoles) {
+    console.log(
+      `  ${chalk.green('•')} User roles copied: ${result.userRolesCopied}`
+    );
+  }
+  if (result.s3) {
+    console.log(
+      result.s3.success
+        ? `  ${chalk.green('•')} S3 uploads: ${result.s3.message}`
+        : chalk.yellow(
+            `  ⚠ ${result.s3.message}. Copy the uploads later with the AWS CLI from sites/${sourceId}/ to sites/${result.newSiteId}/`
+          )
+    );
+  }
+}
+
+function printPlan(plan: SiteClonePlan, options: CloneSiteOptions): void {
+  console.log(chalk.bold.cyan('🔍 Site Clone Plan'));
+  console.log(
+    `Source: site ${chalk.yellow(plan.sourceSiteId)} (${plan.source.domain}${plan.source.path}) in ${chalk.yellow(plan.sourceEnv)}`
+  );
+  console.log(
+    `Target: ${chalk.yellow(`${plan.domain}${plan.path}`)} in ${chalk.yellow(plan.targetEnv)}`
+  );
+  console.log(`Tables: ${plan.tables.length}`);
+  console.log(
+    `URL replacements: ${plan.replacements.length + 1} (including sites/${plan.sourceSiteId}/ uploads paths)`
+  );
+  if (options.verbose) {
+    for (const replacement of plan.replacements) {
+      console.log(chalk.gray(`  ${replacement.from} → ${replacement.to}`));
+    }
+  }
+  console.log(
+    `User roles: ${plan.copyUserRoles ? 'copied from the source site' : 'not copied across environments'}`
+  );
+  console.log(
+    `S3 uploads: ${options.skipS3 ? 'skipped (--skip-s3)' : `copied from sites/${plan.sourceSiteId}/`}`
+  );
+}
@@ -1,6 +1,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { Config } from '../utils/config';
+import { EnvironmentMappingService } from '../utils/environment-mapping';
+import { SerializedReplace } from '../utils/serialized-replace';
 
 export const configCommand = new Command('config')
   .description('Manage configuration settings')
@@ -120,7 +122,126 @@ export const configCommand = new Command('config')
           process.exit(1);
         }
       })
+  )
+  .addCommand(
+    new Command('mappings')
+      .description(
+        'Inspect URL and S3 replacement mappings between environments'
+      )
+      .addCommand(
+        new Command('show')
+          .description(
+            'Show the merged replacement rules for a migration path, or list all paths'
+          )
+          .argument('[from]', 'Source environment')
+          .argument('[to]', 'Target environment')
+          .action((from?: string, to?: string) => {
+            try {
+              showMappings(from, to);
+            } catch (error) {
+              console.error(
+                chalk.red(
+                  `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+                )
+              );
+              process.exit(1);
+            }
+          })
+      )
+      .addCommand(
+        new Command('test')
+          .description('Preview how a string is rewritten for a migration path')
+          .argument('<from>', 'Source environment')
+          .argument('<to>', 'Target environment')
+          .argument('<string>', 'Text, URL or serialized value to rewrite')
+          .action((from: string, to: string, value: string) => {
+            try {
+              testMapping(from, to, value);
+            } catch (error) {
+              console.error(
+                chalk.red(
+                  `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+                )
+              );
+              process.exit(1);
+            }
+          })
+      )
+  );
+
+function showMappings(from?: string, to?: string): void {
+  if (!from || !to) {
+    console.log(chalk.blue.bold('Supported migration paths:'));
+    for (const path of EnvironmentMappingService.getSupportedMigrationPaths()) {
+      const [pathFrom, pathTo] = path.split('->');
+      const sources = EnvironmentMappingService.getMappingSources(
+        pathFrom,
+        pathTo
+      )
+        .map((source) => source.source)
+        .join(', ');
+      console.log(`  ${chalk.cyan(path.padEnd(12))} ${chalk.gray(sources)}`);
+    }
+    console.log(
+      chalk.gray('\nUse "wfuwp config mappings show <from> <to>" for the rules')
+    );
+    return;
+  }
+
+  const mapping = EnvironmentMappingService.getEnvironmentMapping(from, to);
+  const replacements = SerializedReplace.fromMapping(mapping);
+
+  console.log(chalk.blue.bold(`Mapping ${from} -> ${to}`));
+  console.log(chalk.cyan('\nSources (applied in this order):'));
+  for (const source of EnvironmentMappingService.getMappingSources(from, to)) {
+    const detail = source.path ? ` (${source.path})` : '';
+    const replaced = source.replaceBuiltIn ? ' - replaces built-in rules' : '';
+    console.log(chalk.gray(`  ${source.source}${detail}${replaced}`));
+  }
+
+  console.log(chalk.cyan('\nRules:'));
+  replacements.forEach((replacement, index) => {
+    const section = index < mapping.urlReplacements.length ? 'url' : 's3 ';
+    console.log(
+      chalk.gray(
+        `  ${String(index + 1).padStart(2)}. [${section}] "${replacement.from}" → "${replacement.to}"`
+      )
+    );
+  });
+
+  printOrderIssues(replacements);
+}
+
+function testMapping(from: string, to: string, value: string): void {
+  const replacements = SerializedReplace.fromMapping(
+    EnvironmentMappingService.getEnvironmentMapping(from, to)
   );
+  const result = SerializedReplace.replace(value, replacements);
+
+  console.log(chalk.cyan(`Input:  ${value}`));
+  console.log(chalk.cyan(`Output: ${result}`));
+  if (result === value) {
+    console.log(chalk.yellow('No rules matched'));
+  }
+
+  printOrderIssues(replacements);
+}
+
+function printOrderIssues(
+  replacements: Array<{ from: string; to: string }>
+): void {
+  const issues =
+    EnvironmentMappingService.validateReplacementOrder(replacements);
+  if (issues.length === 0) {
+    console.log(chalk.green('\n✓ No rule ordering problems found'));
+    return;
+  }
+
+  console.log(chalk.yellow(`\n⚠ ${issues.length} rule ordering problem(s):`));
+  for (const issue of issues) {
+    console.log(chalk.yellow(`  • ${issue.message}`));
+  }
+}
 
 async function runConfigWizard(): Promise<void> {
   console.log(chalk.blue.bold('WFU WordPress Migration Configuration Wizard'));
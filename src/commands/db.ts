@@ -1,7 +1,67 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { spawn } from 'child_process';
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { basename, join, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
 import { Config } from '../utils/config';
 import { DatabaseOperations } from '../utils/database';
+import { DbConnectionManager } from '../utils/db-connection';
+import { formatBytes } from '../utils/disk-space';
+import {
+  FileNaming,
+  SQL_FILE_PURPOSES,
+  SqlFileOptions,
+} from '../utils/file-naming';
+import { MysqlCli } from '../utils/mysql-cli';
+import { NetworkTableOperations } from '../utils/network-tables';
+import { QueryGuard } from '../utils/query-guard';
+import {
+  QUERY_OUTPUT_FORMATS,
+  QueryOutput,
+  QueryOutputFormat,
+} from '../utils/query-output';
+import { ContentDiff } from '../utils/content-diff';
+import {
+  SITE_DIFF_FORMATS,
+  SiteDiff,
+  SiteDiffFormat,
+} from '../utils/site-diff';
+import { SqlFileAnalyzer } from '../utils/sql-file-analyzer';
+
+// Environments where db query and db shell are read-only by default, and
+// where db import asks for a typed confirmation
+const PROTECTED_ENVIRONMENTS = ['prod'];
+
+interface ExportOptions {
+  outputDir: string;
+  purpose: string;
+  gzip?: boolean;
+  verbose?: boolean;
+  timeout: string;
+}
+
+interface DiffOptions {
+  from: string;
+  to: string;
+  checksum?: boolean;
+  format: string;
+  verbose?: boolean;
+}
+
+interface ImportOptions {
+  siteId?: string;
+  force?: boolean;
+  verbose?: boolean;
+  timeout: string;
+}
 
 export const dbCommand = new Command('db')
   .description('Database connection utilities')
@@ -40,8 +100,324 @@ export const dbCommand = new Command('db')
           process.exit(1);
         }
       })
+  )
+  .addCommand(
+    new Command('query')
+      .description('Run a single SQL statement and print the result')
+      .argument(
+        '<environment>',
+        'Environment to query (dev, uat, pprd, prod, local)'
+      )
+      .argument('<sql>', 'SQL statement to run (quote it for the shell)')
+      .option(
+        '-f, --format <format>',
+        `Output format (${QUERY_OUTPUT_FORMATS.join(', ')})`,
+        'table'
+      )
+      .option(
+        '--allow-write',
+        'Allow statements that change data on prod (asks for confirmation)'
+      )
+      .action(
+        async (
+          environment: string,
+          sql: string,
+          options: { format: string; allowWrite?: boolean }
+        ) => {
+          try {
+            await runQuery(environment, sql, options);
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+              )
+            );
+            process.exit(1);
+          }
+        }
+      )
+  )
+  .addCommand(
+    new Command('shell')
+      .description('Open an interactive mysql session for an environment')
+      .argument(
+        '<environment>',
+        'Environment to connect to (dev, uat, pprd, prod, local)'
+      )
+      .option(
+        '--allow-write',
+        'Open a read-write session on prod (asks for confirmation)'
+      )
+      .action(
+        async (environment: string, options: { allowWrite?: boolean }) => {
+          try {
+            const exitCode = await openShell(environment, options);
+            if (exitCode !== 0) {
+              process.exit(exitCode);
+            }
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+              )
+            );
+            process.exit(1);
+          }
+        }
+      )
+  )
+  .addCommand(
+    new Command('export')
+      .description('Export a site or the network tables to a SQL file')
+      .argument(
+        '<environment>',
+        'Environment to export from (dev, uat, pprd, prod, local)'
+      )
+      .argument('<site>', 'Site ID, or "network" for the network tables')
+      .option('-o, --output-dir <dir>', 'Directory for the export file', '.')
+      .option(
+        '--purpose <purpose>',
+        `Purpose used in the filename (${SQL_FILE_PURPOSES.join(', ')})`,
+        'backup-export'
+      )
+      .option('-z, --gzip', 'Compress the export with gzip')
+      .option('-v, --verbose', 'Show detailed output')
+      .option(
+        '--timeout <minutes>',
+        'Custom timeout in minutes for large databases (default: 15)',
+        '15'
+      )
+      .action(
+        async (environment: string, site: string, options: ExportOptions) => {
+          try {
+            await exportDatabase(environment, site, options);
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+              )
+            );
+            process.exit(1);
+          }
+        }
+      )
+  )
+  .addCommand(
+    new Command('import')
+      .description(
+        'Import a site or network SQL file (plain or gzip) into an environment'
+      )
+      .argument(
+        '<environment>',
+        'Environment to import into (dev, uat, pprd, prod, local)'
+      )
+      .argument('<file>', 'SQL file named like wfuwp db export names them')
+      .option(
+        '--site-id <id>',
+        'Site ID the file holds, required when the filename is not standard'
+      )
+      .option('-f, --force', 'Skip the confirmation prompt (not on prod)')
+      .option('-v, --verbose', 'Show detailed output')
+      .option(
+        '--timeout <minutes>',
+        'Custom timeout in minutes for large databases (default: 20)',
+        '20'
+      )
+      .action(
+        async (environment: string, file: string, options: ImportOptions) => {
+          try {
+            await importDatabase(environment, file, options);
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+              )
+            );
+            process.exit(1);
+          }
+        }
+      )
+  )
+  .addCommand(
+    new Command('diff')
+      .description(
+        "Compare a site's tables, columns and row counts between two environments"
+      )
+      .argument('<site-id>', 'Site ID to compare')
+      .requiredOption('--from <env>', 'Source environment, e.g. prod')
+      .requiredOption('--to <env>', 'Target environment, e.g. pprd')
+      .option(
+        '--checksum',
+        'Also compare CHECKSUM TABLE values (reads every row, slow on large tables)'
+      )
+      .option(
+        '-f, --format <format>',
+        `Output format (${SITE_DIFF_FORMATS.join(', ')})`,
+        'table'
+      )
+      .option('-v, --verbose', 'Show each table as it is compared')
+      .action(async (siteId: string, options: DiffOptions) => {
+        try {
+          await diffSite(siteId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('content-diff')
+      .description(
+        "Compare a site's posts and options between two environments, ignoring URL-only differences"
+      )
+      .argument('<site-id>', 'Site ID to compare')
+      .requiredOption('--from <env>', 'Source environment, e.g. pprd')
+      .requiredOption('--to <env>', 'Target environment, e.g. prod')
+      .option(
+        '-f, --format <format>',
+        `Output format (${SITE_DIFF_FORMATS.join(', ')})`,
+        'table'
+      )
+      .option('-v, --verbose', 'Show progress while comparing')
+      .action(async (siteId: string, options: DiffOptions) => {
+        try {
+          await diffSiteContent(siteId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
   );
 
+function requireConfiguredEnvironment(environment: string): void {
+  if (!Config.getValidEnvironments().includes(environment)) {
+    throw new Error(
+      `Invalid environment '${environment}'. Valid environments: ${Config.getValidEnvironments().join(', ')}`
+    );
+  }
+  if (!Config.hasRequiredEnvironmentConfig(environment)) {
+    throw new Error(
+      `Environment '${environment}' is not configured. Run 'wfuwp config wizard' to set up.`
+    );
+  }
+}
+
+async function confirmWrite(environment: string): Promise<void> {
+  console.log(
+    chalk.red.bold(
+      `⚠️  Write access to ${environment.toUpperCase()} - changes cannot be undone`
+    )
+  );
+  const { default: inquirer } = await import('inquirer');
+  await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'typeConfirmation',
+      message: `Type "WRITE ${environment}" to confirm:`,
+      validate: (input: string) => {
+        return (
+          input === `WRITE ${environment}` || 'Confirmation text does not match'
+        );
+      },
+    },
+  ]);
+}
+
+async function runQuery(
+  environment: string,
+  sql: string,
+  options: { format: string; allowWrite?: boolean }
+): Promise<void> {
+  if (!QueryOutput.isFormat(options.format)) {
+    throw new Error(
+      `Invalid format '${options.format}'. Valid formats: ${QUERY_OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+  const format: QueryOutputFormat = options.format;
+  requireConfiguredEnvironment(environment);
+
+  const statements = QueryGuard.splitStatements(sql);
+  if (statements.length === 0) {
+    throw new Error('No SQL statement given');
+  }
+  if (statements.length > 1) {
+    throw new Error(
+      'db query runs one statement at a time; use db shell for scripts'
+    );
+  }
+
+  const readOnly = QueryGuard.isReadOnly(statements[0]);
+  if (!readOnly && PROTECTED_ENVIRONMENTS.includes(environment)) {
+    if (!options.allowWrite) {
+      throw new Error(
+        `Refusing to run a statement that may write to ${environment}. Re-run with --allow-write to confirm.`
+      );
+    }
+    await confirmWrite(environment);
+  }
+
+  const connection = DbConnectionManager.get(environment);
+  if (readOnly) {
+    const rows = await connection.query(statements[0]);
+    console.log(QueryOutput.format(rows, format));
+  } else {
+    const result = await connection.execute(statements[0]);
+    console.log(
+      chalk.green(
+        `✓ Query OK, ${result.affectedRows} ${result.affectedRows === 1 ? 'row' : 'rows'} affected`
+      )
+    );
+  }
+}
+
+async function openShell(
+  environment: string,
+  options: { allowWrite?: boolean }
+): Promise<number> {
+  requireConfiguredEnvironment(environment);
+
+  const readOnly =
+    PROTECTED_ENVIRONMENTS.includes(environment) && !options.allowWrite;
+  if (PROTECTED_ENVIRONMENTS.includes(environment) && options.allowWrite) {
+    await confirmWrite(environment);
+  }
+
+  const envConfig = Config.getEnvironmentConfig(environment);
+  const mysqlArgs = [
+    `--prompt=${environment}${readOnly ? ' (read-only)' : ''}> `,
+  ];
+  if (readOnly) {
+    // Server-side guard: every transaction in the session is read-only
+    mysqlArgs.push('--init-command=SET SESSION TRANSACTION READ ONLY');
+  }
+  const { command, args, env } = MysqlCli.buildInteractiveCommand(
+    envConfig,
+    mysqlArgs
+  );
+
+  console.log(
+    chalk.blue(
+      `Connecting to ${environment} (${envConfig.host} → ${envConfig.database})${readOnly ? ' read-only' : ''}...`
+    )
+  );
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: 'inherit', env });
+    child.on('error', (error) =>
+      reject(new Error(`Could not start ${command}: ${error.message}`))
+    );
+    child.on('exit', (code) => resolve(code ?? 1));
+  });
+}
+
 async function testDatabaseConnection(environment: string): Promise<void> {
   console.log(chalk.blue.bold(`Testing ${environment} database connection...`));
 
@@ -76,6 +452,7 @@ async function testDatabaseConnection(environment: string): Promise<void> {
   }
   console.log(chalk.gray(`  User: ${config.user}`));
   console.log(chalk.gray(`  Database: ${config.database}`));
+  console.log(chalk.gray(`  Backend: ${Config.getDatabaseBackend()}`));
   console.log(
     chalk.gray(`  Password: ${'*'.repeat(config.password?.length || 0)}`)
   );
@@ -206,3 +583,255 @@ function listDatabaseEnvironments(): void {
     );
   }
 }
+
+function isNetworkTarget(site: string): boolean {
+  return site === 'network';
+}
+
+// Whether a table in a dump belongs to the site (or network) being imported
+function belongsToTarget(table: string, site: string): boolean {
+  if (isNetworkTarget(site)) {
+    return NetworkTableOperations.getNetworkTables().some(
+      (networkTable) => networkTable.name === table
+    );
+  }
+  return DatabaseOperations.isSiteTable(table, site);
+}
+
+// parseFilename accepts any name with enough dashes; only trust names that
+// look like ones db export writes
+function parseStandardFilename(
+  filename: string
+): Partial<SqlFileOptions> | null {
+  const parsed = FileNaming.parseFilename(filename);
+  if (
+    !parsed?.siteId ||
+    !(isNetworkTarget(parsed.siteId) || /^[1-9]\d*$/.test(parsed.siteId)) ||
+    !(SQL_FILE_PURPOSES as readonly string[]).includes(parsed.purpose || '')
+  ) {
+    return null;
+  }
+  return parsed;
+}
+
+async function gzipFile(filePath: string): Promise<string> {
+  const gzipPath = `${filePath}.gz`;
+  await pipeline(
+    createReadStream(filePath),
+    createGzip(),
+    createWriteStream(gzipPath)
+  );
+  unlinkSync(filePath);
+  return gzipPath;
+}
+
+async function exportDatabase(
+  environment: string,
+  site: string,
+  options: ExportOptions
+): Promise<void> {
+  requireConfiguredEnvironment(environment);
+  if (!isNetworkTarget(site) && !/^[1-9]\d*$/.test(site)) {
+    throw new Error(
+      `Invalid site '${site}'. Use a positive site ID or "network".`
+    );
+  }
+  if (!(SQL_FILE_PURPOSES as readonly string[]).includes(options.purpose)) {
+    throw new Error(
+      `Invalid purpose '${options.purpose}'. Valid purposes: ${SQL_FILE_PURPOSES.join(', ')}`
+    );
+  }
+
+  const siteName = isNetworkTarget(site)
+    ? 'network'
+    : await FileNaming.getSiteName(site, environment);
+  const filePath = join(
+    resolve(options.outputDir),
+    FileNaming.generateSqlFilename({
+      siteId: site,
+      environment,
+      purpose: options.purpose as SqlFileOptions['purpose'],
+      siteName,
+    })
+  );
+  const timeoutMinutes = parseInt(options.timeout, 10);
+
+  console.log(
+    chalk.blue.bold(
+      `Exporting ${isNetworkTarget(site) ? 'network tables' : `site ${site} (${siteName})`} from ${environment}...`
+    )
+  );
+
+  const result = isNetworkTarget(site)
+    ? await NetworkTableOperations.exportNetworkTables(
+        environment,
+        filePath,
+        options.verbose,
+        timeoutMinutes
+      )
+    : await DatabaseOperations.exportSiteTables(
+        site,
+        environment,
+        filePath,
+        options.verbose,
+        timeoutMinutes
+      );
+
+  const fileTableCount = await SqlFileAnalyzer.countTablesInSqlFile(filePath);
+  if (fileTableCount !== result.tableCount) {
+    throw new Error(
+      `Export verification failed: expected ${result.tableCount} tables but ${filePath} contains ${fileTableCount}`
+    );
+  }
+  console.log(chalk.green(`✓ Verified ${fileTableCount} tables in export`));
+
+  const outputPath = options.gzip ? await gzipFile(filePath) : filePath;
+  console.log(
+    chalk.green(
+      `✓ Exported to ${outputPath} (${formatBytes(statSync(outputPath).size)})`
+    )
+  );
+}
+
+async function importDatabase(
+  environment: string,
+  file: string,
+  options: ImportOptions
+): Promise<void> {
+  requireConfiguredEnvironment(environment);
+  if (!existsSync(file)) {
+    throw new Error(`SQL file not found: ${file}`);
+  }
+
+  const parsed = parseStandardFilename(basename(file));
+  if (parsed && options.siteId && parsed.siteId !== options.siteId) {
+    throw new Error(
+      `--site-id ${options.siteId} does not match site ${parsed.siteId} in the filename`
+    );
+  }
+  const site = options.siteId || parsed?.siteId;
+  if (!site) {
+    throw new Error(
+      `Cannot read a site ID from '${basename(file)}'. Pass --site-id <id> (or "network") to import it anyway.`
+    );
+  }
+
+  const fileTables = await SqlFileAnalyzer.getTableNamesInSqlFile(file);
+  if (fileTables.length === 0) {
+    throw new Error(`No CREATE TABLE statements found in ${file}`);
+  }
+  const foreignTables = fileTables.filter(
+    (table) => !belongsToTarget(table, site)
+  );
+  if (foreignTables.length > 0) {
+    throw new Error(
+      `${file} has tables that do not belong to ${isNetworkTarget(site) ? 'the network' : `site ${site}`}: ${foreignTables.join(', ')}`
+    );
+  }
+
+  console.log(chalk.cyan('\n📊 Import details:'));
+  console.log(`  File: ${chalk.white(file)}`);
+  console.log(
+    `  Site: ${chalk.white(isNetworkTarget(site) ? 'network tables' : site)}${parsed?.siteName && !isNetworkTarget(site) ? chalk.gray(` (${parsed.siteName})`) : ''}`
+  );
+  if (parsed) {
+    console.log(
+      `  Exported from: ${chalk.white(`${parsed.environment} (${parsed.purpose}, ${parsed.date?.toLocaleDateString()})`)}`
+    );
+  }
+  console.log(`  Tables: ${chalk.white(fileTables.length)}`);
+  console.log(`  Target: ${chalk.white(environment)}`);
+
+  if (PROTECTED_ENVIRONMENTS.includes(environment)) {
+    await confirmWrite(environment);
+  } else if (!options.force) {
+    const { default: inquirer } = await import('inquirer');
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: `Import ${isNetworkTarget(site) ? 'the network tables' : `site ${site}`} into ${environment}? Existing tables with the same names are replaced.`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow('Import cancelled'));
+      return;
+    }
+  }
+
+  console.log(chalk.blue('\nImporting...'));
+  await DatabaseOperations.importSqlFile(
+    file,
+    Config.getEnvironmentConfig(environment),
+    options.verbose,
+    parseInt(options.timeout, 10)
+  );
+
+  DatabaseOperations.clearTableCache();
+  const presentTables = await DatabaseOperations.getAllTables(environment);
+  const missingTables = fileTables.filter(
+    (table) => !presentTables.includes(table)
+  );
+  if (missingTables.length > 0) {
+    throw new Error(
+      `Import verification failed: ${missingTables.length} tables missing from ${environment}: ${missingTables.join(', ')}`
+    );
+  }
+  console.log(
+    chalk.green(
+      `✓ Imported and verified ${fileTables.length} tables in ${environment}`
+    )
+  );
+}
+
+// Shared argument checks for db diff and db content-diff
+function validateDiffArguments(siteId: string, options: DiffOptions): void {
+  if (!SiteDiff.isFormat(options.format)) {
+    throw new Error(
+      `Invalid format '${options.format}'. Valid formats: ${SITE_DIFF_FORMATS.join(', ')}`
+    );
+  }
+  if (!/^[1-9]\d*$/.test(siteId)) {
+    throw new Error(`Invalid site ID '${siteId}'`);
+  }
+  if (options.from === options.to) {
+    throw new Error('--from and --to must be different environments');
+  }
+  requireConfiguredEnvironment(options.from);
+  requireConfiguredEnvironment(options.to);
+}
+
+async function diffSite(siteId: string, options: DiffOptions): Promise<void> {
+  validateDiffArguments(siteId, options);
+
+  const report = await SiteDiff.compare(siteId, options.from, options.to, {
+    checksum: options.checksum,
+    verbose: options.verbose,
+  });
+  if (report.tables.length === 0) {
+    throw new Error(
+      `No tables found for site ${siteId} in ${options.from} or ${options.to}`
+    );
+  }
+
+  console.log(SiteDiff.format(report, options.format as SiteDiffFormat));
+}
+
+async function diffSiteContent(
+  siteId: string,
+  options: DiffOptions
+): Promise<void> {
+  validateDiffArguments(siteId, options);
+
+  const report = await ContentDiff.compare(siteId, options.from, options.to, {
+    verbose: options.verbose,
+  });
+  if (options.format === 'table') {
+    for (const warning of report.warnings) {
+      console.log(chalk.yellow(`⚠ ${warning}`));
+    }
+  }
+
+  console.log(ContentDiff.format(report, options.format as SiteDiffFormat));
+}
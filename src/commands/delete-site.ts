@@ -3,8 +3,9 @@ import chalk from 'chalk';
 import { Config } from '../utils/config';
 import { DatabaseOperations } from '../utils/database';
 import { SiteEnumerator } from '../utils/site-enumerator';
-import { BackupRecovery } from '../utils/backup-recovery';
+import { ChangeSnapshot } from '../utils/change-snapshot';
 import { EnvironmentCleanupService } from '../utils/environment-cleanup';
+import { SiteArchive } from '../utils/site-archive';
 
 interface DeleteSiteOptions {
   force?: boolean;
@@ -12,6 +13,7 @@ interface DeleteSiteOptions {
   backup?: boolean;
   dryRun?: boolean;
   skipConfirmation?: boolean;
+  archiveTo?: string;
 }
 
 export const deleteSiteCommand = new Command('delete-site')
@@ -23,7 +25,11 @@ export const deleteSiteCommand = new Command('delete-site')
   .option('--dry-run', 'Preview changes without executing', false)
   .option('-f, --force', 'Skip all confirmation prompts', false)
   .option('-v, --verbose', 'Show detailed output', false)
-  .option('--no-backup', 'Skip creating backup before deletion', false)
+  .option('--no-backup', 'Skip snapshotting the site tables before deletion')
+  .option(
+    '--archive-to <s3-uri|dir>',
+    'Archive the site (tables, uploads, wp_blogs row) before deleting it'
+  )
   .option(
     '--skip-confirmation',
     'Skip detailed confirmation (but still show preview)',
@@ -103,7 +109,7 @@ export const deleteSiteCommand = new Command('delete-site')
           process.exit(1);
         }
 
-        const siteTables = DatabaseOperations.getSiteTables(
+        const siteTables = await DatabaseOperations.getSiteTables(
           siteId.toString(),
           environment
         );
@@ -168,19 +174,21 @@ export const deleteSiteCommand = new Command('delete-site')
         if (options.dryRun) {
           console.log(chalk.blue('\n🔍 DRY RUN - No changes will be made'));
           console.log(chalk.gray('Operations that would be performed:'));
-          console.log(
-            chalk.gray(
-              `  1. ${options.backup !== false ? 'Create backup of site data' : 'Skip backup (--no-backup)'}`
-            )
-          );
-          console.log(
-            chalk.gray(`  2. Delete site ${siteId} from wp_blogs table`)
-          );
-          if (siteTables.length > 0) {
-            console.log(
-              chalk.gray(`  3. Drop ${siteTables.length} site-specific tables`)
-            );
-          }
+          const operations = [
+            ...(options.archiveTo
+              ? [`Archive the site to ${options.archiveTo}`]
+              : []),
+            options.backup !== false
+              ? 'Snapshot the site tables and its wp_blogs row'
+              : 'Skip snapshot (--no-backup)',
+            `Delete site ${siteId} from wp_blogs table`,
+            ...(siteTables.length > 0
+              ? [`Drop ${siteTables.length} site-specific tables`]
+              : []),
+          ];
+          operations.forEach((operation, index) => {
+            console.log(chalk.gray(`  ${index + 1}. ${operation}`));
+          });
           console.log(
             chalk.green('\n✓ Dry run completed - use --force to execute')
           );
@@ -207,6 +215,13 @@ export const deleteSiteCommand = new Command('delete-site')
               )
             );
           }
+          if (options.archiveTo) {
+            console.log(
+              chalk.yellow(
+                `An archive is written to ${options.archiveTo} first`
+              )
+            );
+          }
 
           const { default: inquirer } = await import('inquirer');
           const { confirmDelete } = await inquirer.prompt([
@@ -241,53 +256,45 @@ export const deleteSiteCommand = new Command('delete-site')
         console.log(chalk.cyan('\n🚀 Starting site deletion...'));
         const startTime = Date.now();
 
-        if (options.backup !== false) {
+        // Nothing is deleted unless the whole archive was written
+        if (options.archiveTo) {
+          console.log(chalk.gray(`Archiving site ${siteId}...`));
           try {
-            console.log(chalk.gray('Creating backup before deletion...'));
-            const timestamp = new Date()
-              .toISOString()
-              .replace(/[:.]/g, '-')
-              .slice(0, 19);
-            const backupPath = require('path').join(
-              process.cwd(),
-              `site-${siteId}-${environment}-${timestamp}.sql`
-            );
-            await BackupRecovery.backupSiteTables(
-              environment,
+            const archive = await SiteArchive.create(
               siteId,
-              backupPath
+              environment,
+              options.archiveTo,
+              { verbose: options.verbose }
             );
-            console.log(chalk.green('✓ Backup created successfully'));
+            console.log(chalk.green(`✓ Archived to ${archive.location}`));
           } catch (error) {
-            console.error(
-              chalk.red(
-                `❌ Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-              )
+            throw new Error(
+              `Archive failed, site ${siteId} was not deleted: ${error instanceof Error ? error.message : 'Unknown error'}`
             );
-
-            if (!options.force) {
-              const { default: inquirer } = await import('inquirer');
-              const { proceedWithoutBackup } = await inquirer.prompt([
-                {
-                  type: 'confirm',
-                  name: 'proceedWithoutBackup',
-                  message: 'Backup failed. Proceed with deletion anyway?',
-                  default: false,
-                },
-              ]);
-
-              if (!proceedWithoutBackup) {
-                console.log(
-                  chalk.yellow('Operation cancelled due to backup failure')
-                );
-                process.exit(1);
-              }
-            }
           }
-        } else if (options.verbose) {
-          console.log(chalk.gray('Skipping backup (--no-backup specified)'));
         }
 
+        await ChangeSnapshot.beforeChange(environment, siteTables, {
+          rows: { wp_blogs: `blog_id = ${siteId}` },
+          backup: options.backup,
+          verbose: options.verbose,
+          proceedWithoutSnapshot: async () => {
+            if (options.force) {
+              return true;
+            }
+            const { default: inquirer } = await import('inquirer');
+            const { proceedWithoutBackup } = await inquirer.prompt([
+              {
+                type: 'confirm',
+                name: 'proceedWithoutBackup',
+                message: 'Snapshot failed. Proceed with deletion anyway?',
+                default: false,
+              },
+            ]);
+            return proceedWithoutBackup;
+          },
+        });
+
         const result =
           await EnvironmentCleanupService.deleteSiteFromEnvironment(
             siteId,
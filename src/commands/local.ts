@@ -6,6 +6,7 @@ import { DDEVManager } from '../utils/ddev-manager';
 import { LocalInstaller } from '../utils/local-installer';
 import { LocalContentManager } from '../utils/local-content-manager';
 import { LocalConfigWizard } from '../utils/local-config-wizard';
+import { ChangeSnapshot } from '../utils/change-snapshot';
 import { Config } from '../utils/config';
 
 export const localCommand = new Command('local')
@@ -905,6 +906,7 @@ localCommand
     'Reset to fresh state (git main, composer update, initial database)'
   )
   .option('-f, --force', 'Skip confirmation prompts', false)
+  .option('--no-backup', 'Skip snapshotting the local database first')
   .action(async (options) => {
     try {
       if (!options.force) {
@@ -915,6 +917,11 @@ localCommand
         console.log('  • Switch to main branch and pull latest changes');
         console.log('  • Update Composer dependencies');
         console.log('  • Import initial multisite database');
+        if (options.backup) {
+          console.log(
+            '  • Snapshot the current DDEV database first (wfuwp undo)'
+          );
+        }
 
         console.log();
         console.log(chalk.dim('Use --force to proceed with reset'));
@@ -924,6 +931,14 @@ localCommand
 
       console.log(chalk.bold('\n🔄 Resetting to Fresh State\n'));
 
+      // Taken before anything changes, so a failed snapshot stops the reset.
+      // The reset imports into the DDEV project here, so that is what gets
+      // snapshotted, not a configured local environment
+      await ChangeSnapshot.beforeChange('local', undefined, {
+        backup: options.backup,
+        ddevProject: process.cwd(),
+      });
+
       const { execSync } = require('child_process');
 
       try {
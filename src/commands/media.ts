@@ -0,0 +1,238 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { formatBytes } from '../utils/disk-space';
+import {
+  MediaAudit,
+  MediaAuditReport,
+  MediaFile,
+  MediaFixPlan,
+} from '../utils/media-audit';
+import { QueryOutput } from '../utils/query-output';
+import { S3Sync } from '../utils/s3sync';
+
+interface AuditOptions {
+  env: string;
+  fix?: boolean;
+  from?: string;
+  json?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+}
+
+const VALID_ENVIRONMENTS = ['dev', 'uat', 'pprd', 'prod'];
+
+// Files listed by name unless --verbose
+const PREVIEW_LIMIT = 10;
+
+export const mediaCommand = new Command('media')
+  .description('Check media library files against S3')
+  .addCommand(
+    new Command('audit')
+      .description(
+        "Compare a site's attachment records with its S3 uploads and report missing and orphaned files"
+      )
+      .argument('<site-id>', 'Site ID to audit')
+      .requiredOption(
+        '--env <env>',
+        'Environment to audit (dev, uat, pprd, prod)'
+      )
+      .option('--fix', 'Copy missing files from the --from environment')
+      .option(
+        '--from <env>',
+        'Environment to copy missing files from, e.g. prod'
+      )
+      .option('--json', 'Print the report as JSON')
+      .option('-f, --force', 'Skip the confirmation prompt for --fix', false)
+      .option('-v, --verbose', 'List every missing and orphaned file', false)
+      .action(async (siteIdArg: string, options: AuditOptions) => {
+        try {
+          await auditMedia(siteIdArg, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  );
+
+async function auditMedia(
+  siteIdArg: string,
+  options: AuditOptions
+): Promise<void> {
+  const siteId = Number(siteIdArg);
+  if (!Number.isInteger(siteId) || siteId <= 0) {
+    throw new Error('Site ID must be a positive number');
+  }
+  for (const environment of [options.env, options.from]) {
+    if (environment && !VALID_ENVIRONMENTS.includes(environment)) {
+      throw new Error(
+        `Invalid environment "${environment}". Must be one of: ${VALID_ENVIRONMENTS.join(', ')}`
+      );
+    }
+  }
+  if (options.fix && !options.from) {
+    throw new Error('--fix needs --from <env> to copy the missing files from');
+  }
+  if (options.fix && options.from === options.env) {
+    throw new Error('--from must be another environment than --env');
+  }
+  if (options.fix && options.json) {
+    throw new Error('--json cannot be combined with --fix');
+  }
+  if (!S3Sync.checkAwsCli()) {
+    throw new Error(
+      'AWS CLI is not installed or not in PATH. Install it or run "wfuwp config set s3.backend sdk".'
+    );
+  }
+
+  const report = await MediaAudit.audit(siteId, options.env, {
+    verbose: options.verbose && !options.json,
+  });
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  printReport(report, options);
+
+  if (!options.fix) {
+    return;
+  }
+  if (report.missing.length === 0) {
+    console.log(chalk.green('\nNo missing files to copy'));
+    return;
+  }
+
+  const plan = await MediaAudit.planFix(report, options.from!);
+  printFixPlan(plan, options);
+  if (plan.copy.length === 0) {
+    return;
+  }
+
+  if (!options.force) {
+    const { default: inquirer } = await import('inquirer');
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: `Copy ${plan.copy.length} files from ${options.from} into site ${siteId}'s uploads in ${options.env}?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow('Fix cancelled'));
+      return;
+    }
+  }
+
+  console.log(chalk.cyan('\n🚀 Copying missing files...'));
+  const result = await MediaAudit.fix(plan, { verbose: options.verbose });
+  for (const failure of result.failed) {
+    console.log(chalk.red(`  ✗ ${failure.key}: ${failure.error}`));
+  }
+  if (result.failed.length > 0) {
+    throw new Error(
+      `Copied ${result.copied} files (${formatBytes(result.copiedBytes)}), ${result.failed.length} failed`
+    );
+  }
+  console.log(
+    chalk.green(
+      `✅ Copied ${result.copied} files (${formatBytes(result.copiedBytes)}) from ${options.from}`
+    )
+  );
+}
+
+function printReport(report: MediaAuditReport, options: AuditOptions): void {
+  console.log(
+    chalk.bold.cyan(
+      `🔍 Media audit: site ${report.siteId} in ${report.environment}`
+    )
+  );
+  console.log(`Uploads: ${chalk.gray(report.location)}`);
+  console.log(
+    `Attachments: ${report.attachments} (${report.expected} files including generated sizes)`
+  );
+
+  console.log(
+    report.missing.length > 0
+      ? chalk.red(
+          `\nMissing from S3: ${report.missing.length} files (${formatBytes(report.missingBytes)} where recorded)`
+        )
+      : chalk.green('\nMissing from S3: none')
+  );
+  printFiles(
+    report.missing.map((file) => fileRow(file)),
+    options
+  );
+
+  console.log(
+    report.orphaned.length > 0
+      ? chalk.yellow(
+          `\nOrphaned in S3: ${report.orphaned.length} files (${formatBytes(report.orphanedBytes)}) no attachment refers to`
+        )
+      : chalk.green('\nOrphaned in S3: none')
+  );
+  printFiles(
+    report.orphaned.map((object) => ({
+      file: object.key,
+      size: formatBytes(object.size),
+      modified: object.lastModified,
+    })),
+    options
+  );
+
+  if (report.skipped > 0) {
+    console.log(
+      chalk.gray(
+        `\nNot checked: ${report.skipped} objects outside the media library folders`
+      )
+    );
+  }
+  for (const warning of report.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+}
+
+function printFixPlan(plan: MediaFixPlan, options: AuditOptions): void {
+  const bytes = plan.copy.reduce((total, file) => total + (file.size || 0), 0);
+  console.log(chalk.blue(`\nFix from ${options.from}: ${plan.source}`));
+  console.log(`  Copy: ${plan.copy.length} files (${formatBytes(bytes)})`);
+  if (plan.unavailable.length > 0) {
+    console.log(
+      chalk.yellow(
+        `  Not in ${options.from} either: ${plan.unavailable.length} files`
+      )
+    );
+    printFiles(
+      plan.unavailable.map((file) => fileRow(file)),
+      options
+    );
+  }
+}
+
+function fileRow(file: MediaFile): Record<string, string | number> {
+  return {
+    attachment: file.attachmentId,
+    file: file.key,
+    variant: file.variant,
+    size: file.size === null ? '' : formatBytes(file.size),
+  };
+}
+
+function printFiles(
+  rows: Array<Record<string, string | number>>,
+  options: AuditOptions
+): void {
+  if (rows.length === 0) {
+    return;
+  }
+  const shown = options.verbose ? rows : rows.slice(0, PREVIEW_LIMIT);
+  console.log(QueryOutput.formatTable(shown));
+  if (shown.length < rows.length) {
+    console.log(
+      chalk.gray(`  ... and ${rows.length - shown.length} more (--verbose)`)
+    );
+  }
+}
@@ -0,0 +1,616 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+import { Config } from '../utils/config';
+import { DatabaseOperations } from '../utils/database';
+import { NetworkTableOperations } from '../utils/network-tables';
+import {
+  EnvironmentMappingService,
+  SiteDomainReplacement,
+} from '../utils/environment-mapping';
+import { SerializedReplace } from '../utils/serialized-replace';
+import { BackupRecovery } from '../utils/backup-recovery';
+import { ErrorRecovery } from '../utils/error-recovery';
+import { S3Sync } from '../utils/s3sync';
+import { CacheFlush } from '../utils/cache-flush';
+import {
+  MIGRATION_STEPS,
+  MigrationJournal,
+  MigrationJournalData,
+  MigrationStep,
+} from '../utils/migration-journal';
+import {
+  checkDiskSpace,
+  displayDiskSpaceStatus,
+  shouldBlockMigration,
+} from '../utils/disk-space';
+
+interface MigrateOptions {
+  from: string;
+  to: string;
+  dryRun?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+  workDir?: string;
+  resume?: string;
+  rollback?: boolean;
+  skipS3?: boolean;
+  skipCacheFlush?: boolean;
+  keepFiles?: boolean;
+  timeout?: string;
+}
+
+type MigrationContext = ReturnType<typeof ErrorRecovery.createMigrationContext>;
+
+const ENVIRONMENTS = ['dev', 'uat', 'pprd', 'prod'];
+
+export const migrateCommand = new Command('migrate')
+  .description(
+    'Migrate a WordPress site between environments (database, S3 files and cache)'
+  )
+  .argument('<site-id>', 'Site ID to migrate')
+  .requiredOption('--from <env>', 'Source environment (dev, uat, pprd, prod)')
+  .requiredOption('--to <env>', 'Target environment (dev, uat, pprd, prod)')
+  .option('--dry-run', 'Preview the migration without making changes', false)
+  .option('-f, --force', 'Skip confirmation prompts', false)
+  .option('-v, --verbose', 'Show detailed output', false)
+  .option(
+    '--work-dir <path>',
+    'Base directory for migration journals and export files (default: ~/.wfuwp/migrations)'
+  )
+  .option(
+    '--resume <migration-id>',
+    'Resume a failed migration from its last completed step'
+  )
+  .option('--no-rollback', 'Do not restore the target backup if a step fails')
+  .option('--skip-s3', 'Skip syncing WordPress files in S3', false)
+  .option('--skip-cache-flush', 'Skip flushing the target cache', false)
+  .option('--keep-files', 'Keep the work directory after success', false)
+  .option(
+    '--timeout <minutes>',
+    'Timeout in minutes for each database export/import',
+    '20'
+  )
+  .action(async (siteId: string, options: MigrateOptions) => {
+    try {
+      await runMigration(siteId, options);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Migration failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+async function runMigration(
+  siteId: string,
+  options: MigrateOptions
+): Promise<void> {
+  validateInputs(siteId, options);
+
+  const timeoutMinutes = parseInt(options.timeout || '20', 10);
+  const resumed = options.resume
+    ? loadResumeJournal(siteId, options)
+    : undefined;
+
+  console.log(chalk.blue.bold('Starting site migration'));
+  console.log(chalk.cyan(`Site ID: ${siteId}`));
+  console.log(chalk.cyan(`Source: ${options.from}`));
+  console.log(chalk.cyan(`Target: ${options.to}`));
+  if (resumed) {
+    const lastStep = MigrationJournal.getLastCompletedStep(resumed);
+    console.log(chalk.cyan(`Resuming: ${resumed.migrationId}`));
+    console.log(chalk.cyan(`Last completed step: ${lastStep || 'none'}`));
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('DRY RUN MODE - No changes will be made'));
+  }
+
+  await runPreflightChecks(options);
+
+  const siteMapping = await EnvironmentMappingService.getSiteReplacements(
+    parseInt(siteId, 10),
+    options.from,
+    options.to
+  );
+  // Site domains go first so the generic environment rules cannot shadow them
+  const replacements = [
+    ...siteMapping.replacements,
+    ...SerializedReplace.fromMapping(
+      EnvironmentMappingService.getEnvironmentMapping(options.from, options.to)
+    ),
+  ];
+  for (const warning of siteMapping.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+  for (const issue of EnvironmentMappingService.validateReplacementOrder(
+    replacements
+  )) {
+    console.log(chalk.yellow(`⚠ ${issue.message}`));
+  }
+
+  if (options.dryRun) {
+    printPlan(siteId, options, replacements, siteMapping.domains, resumed);
+    console.log(
+      chalk.green('\n🎭 Migration dry run completed - no changes made')
+    );
+    return;
+  }
+
+  if (!options.force) {
+    const confirmed = await confirmMigration(siteId, options.from, options.to);
+    if (!confirmed) {
+      console.log(chalk.yellow('Migration cancelled'));
+      return;
+    }
+  }
+
+  const journal =
+    resumed ||
+    MigrationJournal.create(siteId, options.from, options.to, options.workDir);
+  const workDir = journal.workDir;
+  const exportFile = join(workDir, `site-${siteId}-${options.from}-export.sql`);
+  const transformedFile = join(
+    workDir,
+    `site-${siteId}-${options.from}-to-${options.to}.sql`
+  );
+  console.log(chalk.cyan(`Migration ID: ${journal.migrationId}`));
+  console.log(chalk.gray(`Work directory: ${workDir}`));
+
+  const startTime = Date.now();
+  let context: MigrationContext = ErrorRecovery.createMigrationContext(
+    options.from,
+    options.to,
+    options
+  );
+  if (journal.backupId && MigrationJournal.isStepCompleted(journal, 'backup')) {
+    context = ErrorRecovery.updateMigrationContext(context, {
+      backupId: journal.backupId,
+    });
+  }
+  let targetModified = MigrationJournal.isStepCompleted(journal, 'import');
+
+  const skipOrStart = (step: MigrationStep): boolean => {
+    if (MigrationJournal.isStepCompleted(journal, step)) {
+      console.log(chalk.gray(`  Skipping ${step} (completed in previous run)`));
+      return true;
+    }
+    context = ErrorRecovery.updateMigrationContext(context, {
+      currentStep: step,
+    });
+    MigrationJournal.startStep(journal, step);
+    return false;
+  };
+
+  try {
+    // Steps 1 & 2: export and transform. The export is only trusted while
+    // its file is still on disk. Transform writes transformedFile beside it
+    // and removes it once the step is journaled, so a transform cut short
+    // is redone from the untouched export rather than applied twice.
+    if (
+      MigrationJournal.isStepCompleted(journal, 'transform') &&
+      existsSync(transformedFile)
+    ) {
+      console.log(chalk.gray('  Reusing transformed export from previous run'));
+    } else {
+      if (
+        MigrationJournal.isStepCompleted(journal, 'export') &&
+        existsSync(exportFile)
+      ) {
+        console.log(chalk.gray('  Reusing export from previous run'));
+      } else {
+        context = ErrorRecovery.updateMigrationContext(context, {
+          currentStep: 'export',
+        });
+        MigrationJournal.startStep(journal, 'export');
+        console.log(
+          chalk.blue(`\n1. Exporting site ${siteId} from ${options.from}...`)
+        );
+        // Export to a partial file so an interrupted dump is never reused
+        const exportResult = await DatabaseOperations.exportSiteTables(
+          siteId,
+          options.from,
+          `${exportFile}.partial`,
+          options.verbose,
+          timeoutMinutes
+        );
+        renameSync(`${exportFile}.partial`, exportFile);
+        MigrationJournal.finishStep(
+          journal,
+          'export',
+          'completed',
+          `Exported ${exportResult.tableCount} tables`
+        );
+        console.log(
+          chalk.green(`  ✓ Exported ${exportResult.tableCount} tables`)
+        );
+      }
+
+      context = ErrorRecovery.updateMigrationContext(context, {
+        currentStep: 'transform',
+      });
+      MigrationJournal.startStep(journal, 'transform');
+      console.log(chalk.blue(`\n2. Transforming URLs for ${options.to}...`));
+      await NetworkTableOperations.transformSqlFile(
+        exportFile,
+        replacements,
+        options.verbose,
+        { outputPath: transformedFile }
+      );
+      MigrationJournal.finishStep(
+        journal,
+        'transform',
+        'completed',
+        `Applied ${replacements.length} replacement rules`
+      );
+      rmSync(exportFile, { force: true });
+      console.log(
+        chalk.green(`  ✓ Applied ${replacements.length} replacement rules`)
+      );
+    }
+
+    context = ErrorRecovery.updateMigrationContext(context, {
+      sitesInProgress: [parseInt(siteId, 10)],
+    });
+
+    // Step 3: back up the target so a failed import can be rolled back
+    if (!skipOrStart('backup')) {
+      console.log(
+        chalk.blue(`\n3. Backing up site ${siteId} in ${options.to}...`)
+      );
+      const backup = await BackupRecovery.createFullEnvironmentBackup(
+        options.to,
+        {
+          sites: [parseInt(siteId, 10)],
+          skipNetworkTables: true,
+          verbose: options.verbose,
+          timeout: timeoutMinutes,
+          migrationJournal: journal.workDir,
+        }
+      );
+      if (!backup.success) {
+        throw new Error(`Target backup failed: ${backup.errors.join(', ')}`);
+      }
+      context = ErrorRecovery.updateMigrationContext(context, {
+        backupId: backup.backupId,
+      });
+      journal.backupId = backup.backupId;
+      MigrationJournal.finishStep(
+        journal,
+        'backup',
+        'completed',
+        `Backup created: ${backup.backupId}`
+      );
+      console.log(chalk.green(`  ✓ Backup created: ${backup.backupId}`));
+    }
+
+    // Step 4: import
+    if (!skipOrStart('import')) {
+      console.log(chalk.blue(`\n4. Importing into ${options.to}...`));
+      targetModified = true;
+      const importResult = await DatabaseOperations.importSqlFile(
+        transformedFile,
+        Config.getEnvironmentConfig(options.to),
+        options.verbose,
+        timeoutMinutes
+      );
+      if (!importResult.success) {
+        throw new Error('Import operation failed');
+      }
+      MigrationJournal.finishStep(
+        journal,
+        'import',
+        'completed',
+        `Imported ${importResult.tableCount} tables`
+      );
+      console.log(
+        chalk.green(`  ✓ Imported ${importResult.tableCount} tables`)
+      );
+    }
+
+    // Step 5: S3 files
+    if (options.skipS3) {
+      console.log(chalk.gray('\n5. Skipping S3 sync (--skip-s3)'));
+      MigrationJournal.finishStep(journal, 's3-sync', 'skipped');
+    } else if (!skipOrStart('s3-sync')) {
+      console.log(chalk.blue('\n5. Syncing WordPress files in S3...'));
+      const syncResult = await S3Sync.syncWordPressFiles(
+        siteId,
+        options.from,
+        options.to,
+        { verbose: options.verbose }
+      );
+      if (!syncResult.success) {
+        throw new Error(syncResult.message);
+      }
+      MigrationJournal.finishStep(
+        journal,
+        's3-sync',
+        'completed',
+        syncResult.message
+      );
+      console.log(chalk.green(`  ✓ ${syncResult.message}`));
+    }
+
+    context = ErrorRecovery.updateMigrationContext(context, {
+      sitesInProgress: [],
+      completedSites: [parseInt(siteId, 10)],
+    });
+
+    // Step 6: cache flush (failure here does not undo the migration)
+    if (options.skipCacheFlush) {
+      console.log(chalk.gray('\n6. Skipping cache flush (--skip-cache-flush)'));
+      MigrationJournal.finishStep(journal, 'cache-flush', 'skipped');
+    } else if (!skipOrStart('cache-flush')) {
+      console.log(chalk.blue(`\n6. Flushing ${options.to} cache...`));
+      const flushResult = await CacheFlush.flushCache(options.to, {
+        verbose: options.verbose,
+      });
+      if (flushResult.success) {
+        MigrationJournal.finishStep(
+          journal,
+          'cache-flush',
+          'completed',
+          flushResult.message
+        );
+        console.log(chalk.green(`  ✓ ${flushResult.message}`));
+      } else {
+        MigrationJournal.finishStep(
+          journal,
+          'cache-flush',
+          'skipped',
+          `Cache flush failed: ${flushResult.message}`
+        );
+        console.log(
+          chalk.yellow(`  ⚠ Cache flush failed: ${flushResult.message}`)
+        );
+      }
+    }
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error('Unknown error');
+    console.log(
+      chalk.red(`\n❌ Migration failed during ${context.currentStep}`)
+    );
+    MigrationJournal.markFailed(
+      journal,
+      context.currentStep as MigrationStep,
+      failure.message
+    );
+
+    if (targetModified && options.rollback !== false) {
+      const rollback = await ErrorRecovery.performRollback(context, {
+        skipConfirmation: true,
+      });
+      if (rollback.success) {
+        MigrationJournal.markRolledBack(journal);
+      }
+    } else if (targetModified) {
+      console.log(
+        chalk.yellow(
+          `  Rollback disabled. Restore manually from backup ${context.backupId}`
+        )
+      );
+    }
+
+    console.log(
+      chalk.cyan(
+        `  Resume with: wfuwp migrate ${siteId} --from ${options.from} --to ${options.to} --resume ${journal.migrationId}` +
+          (options.workDir ? ` --work-dir ${options.workDir}` : '')
+      )
+    );
+    throw failure;
+  }
+
+  MigrationJournal.markCompleted(journal);
+
+  // Keep the journal so the run can still be inspected with `wfuwp migrations`
+  if (!options.keepFiles) {
+    for (const file of [exportFile, transformedFile]) {
+      rmSync(file, { force: true });
+    }
+  }
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+  console.log(
+    chalk.green(
+      `\n🎉 Site ${siteId} migrated from ${options.from} to ${options.to} in ${duration}s`
+    )
+  );
+}
+
+function loadResumeJournal(
+  siteId: string,
+  options: MigrateOptions
+): MigrationJournalData {
+  const journal = MigrationJournal.load(options.resume!, options.workDir);
+
+  if (
+    journal.siteId !== siteId ||
+    journal.sourceEnv !== options.from ||
+    journal.targetEnv !== options.to
+  ) {
+    throw new Error(
+      `Migration ${journal.migrationId} is for site ${journal.siteId} from ${journal.sourceEnv} to ${journal.targetEnv}`
+    );
+  }
+
+  if (journal.status === 'completed') {
+    throw new Error(`Migration ${journal.migrationId} already completed`);
+  }
+
+  return journal;
+}
+
+function validateInputs(siteId: string, options: MigrateOptions): void {
+  if (!/^\d+$/.test(siteId) || parseInt(siteId, 10) <= 0) {
+    throw new Error('Site ID must be a positive number');
+  }
+
+  if (!ENVIRONMENTS.includes(options.from)) {
+    throw new Error(
+      `Invalid source environment. Must be one of: ${ENVIRONMENTS.join(', ')}`
+    );
+  }
+
+  if (options.to === 'local') {
+    throw new Error(
+      'Migrating to local is not supported; use "wfuwp local refresh" to copy a site into the local environment'
+    );
+  }
+  if (!ENVIRONMENTS.includes(options.to)) {
+    throw new Error(
+      `Invalid target environment. Must be one of: ${ENVIRONMENTS.join(', ')}`
+    );
+  }
+
+  if (options.from === options.to) {
+    throw new Error('Source and target environments must be different');
+  }
+
+  if (
+    !EnvironmentMappingService.isMigrationPathSupported(
+      options.from,
+      options.to
+    )
+  ) {
+    throw new Error(
+      `Migration path ${options.from} -> ${options.to} is not supported`
+    );
+  }
+}
+
+async function runPreflightChecks(options: MigrateOptions): Promise<void> {
+  console.log(chalk.blue('\nRunning pre-flight checks...'));
+
+  for (const environment of [options.from, options.to]) {
+    if (!Config.hasRequiredEnvironmentConfig(environment)) {
+      throw new Error(
+        `Environment '${environment}' is not configured. Run 'wfuwp config wizard'.`
+      );
+    }
+
+    console.log(chalk.gray(`  Testing ${environment} database connection...`));
+    const connected = await DatabaseOperations.testConnection(environment);
+    if (!connected) {
+      throw new Error(`Cannot connect to ${environment} database`);
+    }
+  }
+
+  if (!options.skipS3) {
+    if (!S3Sync.checkAwsCli()) {
+      throw new Error('AWS CLI is not installed (use --skip-s3 to skip files)');
+    }
+    if (!S3Sync.checkAwsCredentials()) {
+      throw new Error(
+        'AWS credentials are not valid (use --skip-s3 to skip files)'
+      );
+    }
+  }
+
+  const diskCheck = await checkDiskSpace(
+    MigrationJournal.getMigrationsDirectory(options.workDir)
+  );
+  displayDiskSpaceStatus(diskCheck, options.verbose);
+  if (shouldBlockMigration(diskCheck)) {
+    throw new Error('Not enough disk space to run the migration');
+  }
+
+  console.log(chalk.green('✓ Pre-flight checks passed'));
+}
+
+function printPlan(
+  siteId: string,
+  options: MigrateOptions,
+  replacements: Array<{ from: string; to: string }>,
+  siteDomains: SiteDomainReplacement[],
+  resumed?: MigrationJournalData
+): void {
+  console.log(chalk.blue('\nMigration plan:'));
+  console.log(
+    chalk.gray(`  1. Export site ${siteId} tables from ${options.from}`)
+  );
+  console.log(
+    chalk.gray(`  2. Transform the export with ${replacements.length} rules`)
+  );
+  for (const replacement of replacements) {
+    console.log(
+      chalk.gray(`       "${replacement.from}" → "${replacement.to}"`)
+    );
+  }
+  if (siteDomains.length > 0) {
+    console.log(chalk.gray('     Site domains:'));
+    for (const domain of siteDomains) {
+      console.log(
+        chalk.gray(
+          `       ${domain.sourceDomain} → ${domain.targetDomain} (${domain.origin})`
+        )
+      );
+    }
+  }
+  console.log(chalk.gray(`  3. Back up site ${siteId} in ${options.to}`));
+  console.log(chalk.gray(`  4. Import the export into ${options.to}`));
+  console.log(
+    chalk.gray(
+      options.skipS3
+        ? '  5. Skip S3 sync'
+        : `  5. Sync sites/${siteId}/ files from ${options.from} to ${options.to}`
+    )
+  );
+  console.log(
+    chalk.gray(
+      options.skipCacheFlush
+        ? '  6. Skip cache flush'
+        : `  6. Flush the ${options.to} cache`
+    )
+  );
+  if (resumed) {
+    const completed = MIGRATION_STEPS.filter((step) =>
+      MigrationJournal.isStepCompleted(resumed, step)
+    );
+    console.log(
+      chalk.gray(
+        `  Completed steps from ${resumed.migrationId} will be skipped: ${completed.join(', ') || 'none'}`
+      )
+    );
+  }
+}
+
+async function confirmMigration(
+  siteId: string,
+  from: string,
+  to: string
+): Promise<boolean> {
+  const readline = require('readline').createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const message =
+    to === 'prod'
+      ? chalk.red(
+          `⚠️  This will OVERWRITE site ${siteId} in PRODUCTION with data from ${from}.\n` +
+            `Type "prod" to continue: `
+        )
+      : chalk.yellow(
+          `⚠️  This will OVERWRITE site ${siteId} in ${to} with data from ${from}.\n` +
+            `Are you sure you want to continue? (y/N): `
+        );
+
+  return new Promise((resolve) => {
+    // Ring bell to draw attention to the destructive operation confirmation
+    process.stdout.write('\x07');
+    readline.question(message, (answer: string) => {
+      readline.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(
+        to === 'prod'
+          ? answer.trim() === 'prod'
+          : normalized === 'y' || normalized === 'yes'
+      );
+    });
+  });
+}
@@ -0,0 +1,149 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  MIGRATION_STEPS,
+  MigrationJournal,
+  MigrationJournalData,
+  MigrationStatus,
+} from '../utils/migration-journal';
+
+export const migrationsCommand = new Command('migrations')
+  .description('Inspect past and interrupted site migrations')
+  .addCommand(
+    new Command('list')
+      .description('List recorded migrations, newest first')
+      .option(
+        '--work-dir <path>',
+        'Base directory used for the migrations (default: ~/.wfuwp/migrations)'
+      )
+      .option('--site <site-id>', 'Only show migrations for this site')
+      .option('--status <status>', 'Only show migrations with this status')
+      .action(
+        (options: { workDir?: string; site?: string; status?: string }) => {
+          try {
+            listMigrations(options);
+          } catch (error) {
+            console.error(
+              chalk.red(
+                `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+              )
+            );
+            process.exit(1);
+          }
+        }
+      )
+  )
+  .addCommand(
+    new Command('show')
+      .description('Show the step journal of a migration')
+      .argument('<migration-id>', 'Migration ID from "wfuwp migrations list"')
+      .option(
+        '--work-dir <path>',
+        'Base directory used for the migration (default: ~/.wfuwp/migrations)'
+      )
+      .action((migrationId: string, options: { workDir?: string }) => {
+        try {
+          showMigration(migrationId, options);
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+          process.exit(1);
+        }
+      })
+  );
+
+function colorStatus(status: MigrationStatus | string): string {
+  switch (status) {
+    case 'completed':
+      return chalk.green(status);
+    case 'failed':
+      return chalk.red(status);
+    case 'rolled-back':
+      return chalk.yellow(status);
+    default:
+      return chalk.cyan(status);
+  }
+}
+
+function listMigrations(options: {
+  workDir?: string;
+  site?: string;
+  status?: string;
+}): void {
+  const migrations = MigrationJournal.listMigrations(options.workDir).filter(
+    (migration) =>
+      (!options.site || migration.siteId === options.site) &&
+      (!options.status || migration.status === options.status)
+  );
+
+  if (migrations.length === 0) {
+    console.log(chalk.yellow('No migrations found'));
+    return;
+  }
+
+  console.log(chalk.blue.bold(`Migrations (${migrations.length}):\n`));
+  for (const migration of migrations) {
+    const lastStep = MigrationJournal.getLastCompletedStep(migration);
+    console.log(chalk.white.bold(migration.migrationId));
+    console.log(
+      chalk.gray(
+        `  Site ${migration.siteId}: ${migration.sourceEnv} → ${migration.targetEnv}`
+      )
+    );
+    console.log(`  Status: ${colorStatus(migration.status)}`);
+    console.log(chalk.gray(`  Started: ${migration.startedAt}`));
+    console.log(chalk.gray(`  Last completed step: ${lastStep || 'none'}`));
+    console.log();
+  }
+}
+
+function showMigration(
+  migrationId: string,
+  options: { workDir?: string }
+): void {
+  const migration: MigrationJournalData = MigrationJournal.load(
+    migrationId,
+    options.workDir
+  );
+
+  console.log(chalk.blue.bold(`Migration ${migration.migrationId}\n`));
+  console.log(chalk.cyan(`Site ID: ${migration.siteId}`));
+  console.log(chalk.cyan(`Source: ${migration.sourceEnv}`));
+  console.log(chalk.cyan(`Target: ${migration.targetEnv}`));
+  console.log(`Status: ${colorStatus(migration.status)}`);
+  console.log(chalk.gray(`Started: ${migration.startedAt}`));
+  console.log(chalk.gray(`Updated: ${migration.updatedAt}`));
+  if (migration.finishedAt) {
+    console.log(chalk.gray(`Finished: ${migration.finishedAt}`));
+  }
+  console.log(chalk.gray(`Work directory: ${migration.workDir}`));
+  if (migration.backupId) {
+    console.log(chalk.gray(`Target backup: ${migration.backupId}`));
+  }
+
+  console.log(chalk.blue('\nSteps:'));
+  for (const step of MIGRATION_STEPS) {
+    const record = migration.steps[step];
+    if (!record) {
+      console.log(chalk.gray(`  ${step.padEnd(12)} pending`));
+      continue;
+    }
+    const detail = record.message ? chalk.gray(` - ${record.message}`) : '';
+    console.log(`  ${step.padEnd(12)} ${colorStatus(record.status)}${detail}`);
+  }
+
+  if (migration.status === 'failed' || migration.status === 'rolled-back') {
+    console.log(
+      chalk.red(`\nFailed during ${migration.failedStep}: ${migration.error}`)
+    );
+    console.log(
+      chalk.cyan(
+        `Resume with: wfuwp migrate ${migration.siteId} --from ${migration.sourceEnv} --to ${migration.targetEnv} --resume ${migration.migrationId}` +
+          (options.workDir ? ` --work-dir ${options.workDir}` : '')
+      )
+    );
+  }
+}
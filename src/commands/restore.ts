@@ -1,13 +1,32 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { existsSync } from 'fs';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { ChangeSnapshot } from '../utils/change-snapshot';
 import { Config } from '../utils/config';
+import { DbConnectionManager } from '../utils/db-connection';
+import { formatBytes } from '../utils/disk-space';
+import { SiteRemap, SiteRemapPlan } from '../utils/site-remap';
+import { SqlFileAnalyzer } from '../utils/sql-file-analyzer';
+import {
+  SqlStreamTransformer,
+  SqlTransformOptions,
+} from '../utils/sql-stream-transformer';
 
 interface RestoreOptions {
   to: string;
+  asSite?: string;
+  fromEnv?: string;
+  domain?: string;
+  path?: string;
+  tables?: string;
+  excludeTables?: string;
+  preview?: boolean;
   dryRun?: boolean;
   force?: boolean;
   verbose?: boolean;
+  backup?: boolean;
   timeout?: string;
 }
 
@@ -15,9 +34,38 @@ export const restoreCommand = new Command('restore')
   .description('Restore WordPress site from SQL backup file')
   .argument('<sql-file>', 'Path to SQL backup file to restore')
   .requiredOption('--to <env>', 'Target environment (dev, uat, pprd, prod)')
+  .option(
+    '--as-site <id>',
+    'Restore a single-site dump under this site ID, renaming its wp_<id>_ tables'
+  )
+  .option(
+    '--domain <domain>',
+    'Domain for an --as-site ID that is not in wp_blogs yet, e.g. www.wfu.edu'
+  )
+  .option(
+    '--path <path>',
+    'Path for an --as-site ID that is not in wp_blogs yet (default: /)'
+  )
+  .option(
+    '--from-env <env>',
+    'Environment the dump was taken from; its URLs are rewritten for --to'
+  )
+  .option(
+    '--tables <tables>',
+    'Comma-separated tables to restore; the rest of the file is skipped'
+  )
+  .option('--exclude-tables <tables>', 'Comma-separated tables to skip')
+  .option(
+    '--preview',
+    'List the tables, row estimates and which target tables would be overwritten, then stop'
+  )
   .option('--dry-run', 'Preview restore without executing', false)
   .option('-f, --force', 'Skip confirmation prompts', false)
   .option('-v, --verbose', 'Show detailed output', false)
+  .option(
+    '--no-backup',
+    'Skip snapshotting the tables in the SQL file before importing'
+  )
   .option(
     '--timeout <minutes>',
     'Custom timeout in minutes for large databases (default: 20)',
@@ -51,6 +99,17 @@ async function runRestore(
       `Invalid environment. Must be one of: ${validEnvs.join(', ')}`
     );
   }
+  if (options.fromEnv && !validEnvs.includes(options.fromEnv)) {
+    throw new Error(
+      `Invalid --from-env. Must be one of: ${validEnvs.join(', ')}`
+    );
+  }
+  if ((options.domain || options.path) && options.asSite === undefined) {
+    throw new Error('--domain and --path need --as-site');
+  }
+  if (options.path && !options.domain) {
+    throw new Error('--path needs --domain');
+  }
 
   // Import required utilities
   const { DatabaseOperations } = await import('../utils/database');
@@ -58,6 +117,9 @@ async function runRestore(
   console.log(chalk.blue.bold('Starting database restore'));
   console.log(chalk.cyan(`SQL File: ${sqlFile}`));
   console.log(chalk.cyan(`Target Environment: ${options.to}`));
+  if (options.fromEnv) {
+    console.log(chalk.cyan(`Source Environment: ${options.fromEnv}`));
+  }
 
   if (options.dryRun) {
     console.log(chalk.yellow('DRY RUN MODE - No changes will be made'));
@@ -66,6 +128,32 @@ async function runRestore(
   // Pre-flight checks
   await runPreflightChecks(options.to, DatabaseOperations);
 
+  const timeoutMinutes = parseInt(options.timeout || '20', 10);
+  const includeTable = getTableFilter(options);
+  let tables = selectTables(
+    await SqlFileAnalyzer.getTableNamesInSqlFile(sqlFile),
+    options,
+    includeTable
+  );
+  const importCount = tables.length;
+  let plan: SiteRemapPlan | undefined;
+  if (options.asSite !== undefined || options.fromEnv) {
+    plan = await SiteRemap.plan(tables, {
+      to: options.to,
+      asSite: options.asSite !== undefined ? Number(options.asSite) : undefined,
+      fromEnv: options.fromEnv,
+      domain: options.domain,
+      path: options.path,
+    });
+    tables = plan.tables;
+    printRemapPlan(plan, options.verbose);
+  }
+
+  if (options.preview) {
+    await printPreview(sqlFile, options.to, includeTable, plan);
+    return;
+  }
+
   if (!options.force && !options.dryRun) {
     const confirmation = await confirmRestore(sqlFile, options.to);
     if (!confirmation) {
@@ -75,34 +163,246 @@ async function runRestore(
   }
 
   if (!options.dryRun) {
+    await ChangeSnapshot.beforeChange(options.to, tables, {
+      // Only the target site's wp_blogs row, not the whole network's
+      rows:
+        plan?.blog && plan.targetSiteId !== undefined
+          ? { wp_blogs: `blog_id = ${plan.targetSiteId}` }
+          : undefined,
+      backup: options.backup,
+      verbose: options.verbose,
+      timeout: timeoutMinutes,
+      proceedWithoutSnapshot: async () =>
+        Boolean(options.force) ||
+        ask(chalk.yellow('Snapshot failed. Restore anyway? (y/N): ')),
+    });
+
     console.log(chalk.blue('Importing SQL file to target environment...'));
 
-    const timeoutMinutes = parseInt(options.timeout || '20', 10);
     const targetConfig = Config.getEnvironmentConfig(options.to);
 
-    const importResult = await DatabaseOperations.importSqlFile(
-      sqlFile,
-      targetConfig,
-      options.verbose,
-      timeoutMinutes
-    );
+    // The filtered or rewritten dump goes to a scratch copy; the original is
+    // left as is
+    const transform: SqlTransformOptions | undefined =
+      plan || includeTable
+        ? {
+            replacements: plan?.replacements,
+            tablePrefix: plan?.tablePrefix,
+            includeTable,
+          }
+        : undefined;
+    const scratchDir = transform
+      ? mkdtempSync(join(tmpdir(), 'wfuwp-restore-'))
+      : undefined;
+    try {
+      let importFile = sqlFile;
+      if (transform && scratchDir) {
+        importFile = join(scratchDir, basename(sqlFile));
+        await SqlStreamTransformer.transformFile(
+          sqlFile,
+          importFile,
+          transform
+        );
+      }
 
-    if (importResult.success) {
+      const importResult = await DatabaseOperations.importSqlFile(
+        importFile,
+        targetConfig,
+        options.verbose,
+        timeoutMinutes
+      );
+      if (!importResult.success) {
+        throw new Error('Import operation failed');
+      }
       console.log(
         chalk.green(`✓ Successfully restored ${importResult.tableCount} tables`)
       );
-      console.log(chalk.green('\n🎉 Database restore completed successfully!'));
-    } else {
-      throw new Error('Import operation failed');
+    } finally {
+      if (scratchDir) {
+        rmSync(scratchDir, { recursive: true, force: true });
+      }
     }
+
+    if (plan?.blog) {
+      await SiteRemap.syncBlogRow(plan);
+      console.log(
+        chalk.green(
+          `✓ ${plan.blog.action === 'insert' ? 'Added' : 'Updated'} site ${plan.targetSiteId} in wp_blogs`
+        )
+      );
+    }
+    console.log(chalk.green('\n🎉 Database restore completed successfully!'));
   } else {
-    console.log(chalk.gray('  Would import SQL file to target environment'));
+    if (options.backup !== false) {
+      console.log(
+        chalk.gray(
+          `  Would snapshot ${tables.length} tables${plan?.blog ? ' and the wp_blogs row' : ''} before importing`
+        )
+      );
+    }
+    if (plan) {
+      console.log(
+        chalk.gray(
+          `  Would rewrite ${plan.tables.length} tables with ${plan.replacements.length} URL replacements`
+        )
+      );
+    }
+    console.log(
+      chalk.gray(
+        includeTable
+          ? `  Would import ${importCount} tables from the SQL file to target environment`
+          : '  Would import SQL file to target environment'
+      )
+    );
+    if (plan?.blog) {
+      console.log(
+        chalk.gray(
+          `  Would ${plan.blog.action === 'insert' ? 'add' : 'update'} site ${plan.targetSiteId} in wp_blogs`
+        )
+      );
+    }
     console.log(
       chalk.green('\n🎭 Restore dry run completed - no changes made')
     );
   }
 }
 
+function parseTableList(value?: string): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((table) => table.trim())
+    .filter((table) => table.length > 0);
+}
+
+function getTableFilter(
+  options: RestoreOptions
+): ((table: string) => boolean) | undefined {
+  const include = parseTableList(options.tables);
+  const exclude = parseTableList(options.excludeTables) || [];
+  if (!include && exclude.length === 0) {
+    return undefined;
+  }
+  return (table) =>
+    (!include || include.includes(table)) && !exclude.includes(table);
+}
+
+// Named tables must be in the file, so a typo cannot silently restore nothing
+function selectTables(
+  fileTables: string[],
+  options: RestoreOptions,
+  includeTable?: (table: string) => boolean
+): string[] {
+  if (!includeTable) {
+    return fileTables;
+  }
+  const unknown = [
+    ...(parseTableList(options.tables) || []),
+    ...(parseTableList(options.excludeTables) || []),
+  ].filter((table) => !fileTables.includes(table));
+  if (unknown.length > 0) {
+    throw new Error(`Tables not in the SQL file: ${unknown.join(', ')}`);
+  }
+
+  const selected = fileTables.filter(includeTable);
+  if (selected.length === 0) {
+    throw new Error(
+      'No tables left to restore after --tables and --exclude-tables'
+    );
+  }
+  return selected;
+}
+
+async function printPreview(
+  sqlFile: string,
+  environment: string,
+  includeTable: ((table: string) => boolean) | undefined,
+  plan: SiteRemapPlan | undefined
+): Promise<void> {
+  const stats = await SqlFileAnalyzer.getTableStats(sqlFile);
+  const rows = await DbConnectionManager.get(environment).query('SHOW TABLES');
+  const existing = new Set(rows.map((row) => String(Object.values(row)[0])));
+  const prefix = plan?.tablePrefix;
+  const targetName = (table: string): string =>
+    prefix && table.startsWith(prefix.from)
+      ? prefix.to + table.slice(prefix.from.length)
+      : table;
+
+  const selected = stats.filter(
+    (table) => !includeTable || includeTable(table.name)
+  );
+  const skipped = stats.length - selected.length;
+  const width = Math.max(
+    5,
+    ...selected.map((table) => targetName(table.name).length)
+  );
+
+  console.log(chalk.blue.bold(`\nTables to restore into ${environment}:`));
+  console.log(
+    chalk.gray(
+      `  ${'Table'.padEnd(width)}  ${'Rows (est.)'.padStart(11)}  ${'Data'.padStart(9)}  Target`
+    )
+  );
+  let overwritten = 0;
+  for (const table of selected) {
+    const name = targetName(table.name);
+    const overwrites = existing.has(name);
+    if (overwrites) {
+      overwritten++;
+    }
+    console.log(
+      `  ${name.padEnd(width)}  ${table.estimatedRows.toLocaleString().padStart(11)}  ${formatBytes(table.insertBytes).padStart(9)}  ` +
+        (overwrites ? chalk.yellow('overwrite') : chalk.green('new'))
+    );
+  }
+
+  console.log();
+  console.log(
+    chalk.cyan(
+      `${selected.length} tables: ${overwritten} would be overwritten, ${selected.length - overwritten} created`
+    )
+  );
+  if (skipped > 0) {
+    console.log(chalk.gray(`${skipped} tables in the file would be skipped`));
+  }
+  if (plan?.blog) {
+    console.log(
+      chalk.gray(
+        `wp_blogs would ${plan.blog.action === 'insert' ? 'gain' : 'keep'} a row for site ${plan.targetSiteId}`
+      )
+    );
+  }
+  console.log(chalk.green('\n🔍 Preview completed - no changes made'));
+}
+
+function printRemapPlan(plan: SiteRemapPlan, verbose?: boolean): void {
+  if (plan.sourceSiteId !== undefined) {
+    console.log(
+      chalk.cyan(`Site: ${plan.sourceSiteId} → ${plan.targetSiteId}`)
+    );
+  }
+  if (plan.tablePrefix) {
+    console.log(
+      chalk.cyan(`Tables: ${plan.tablePrefix.from}* → ${plan.tablePrefix.to}*`)
+    );
+  }
+  console.log(chalk.cyan(`URL replacements: ${plan.replacements.length}`));
+  if (verbose) {
+    for (const replacement of plan.replacements) {
+      console.log(chalk.gray(`  ${replacement.from} → ${replacement.to}`));
+    }
+  }
+  if (plan.blog) {
+    console.log(
+      chalk.cyan(
+        `wp_blogs: ${plan.blog.action === 'insert' ? 'add' : 'update'} site ${plan.targetSiteId} at ${plan.blog.domain}${plan.blog.path}`
+      )
+    );
+  }
+  for (const warning of plan.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+}
+
 async function runPreflightChecks(
   environment: string,
   DatabaseOperations: any
@@ -138,20 +438,24 @@ async function confirmRestore(
   sqlFile: string,
   environment: string
 ): Promise<boolean> {
+  // Ring bell to draw attention to the destructive operation confirmation
+  process.stdout.write('\x07');
+  return ask(
+    chalk.yellow(
+      `⚠️  This will OVERWRITE the existing ${environment} database with data from:\n` +
+        `   ${sqlFile}\n\n` +
+        `Are you sure you want to continue? (y/N): `
+    )
+  );
+}
+
+async function ask(message: string): Promise<boolean> {
   const readline = require('readline').createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
-  const message = chalk.yellow(
-    `⚠️  This will OVERWRITE the existing ${environment} database with data from:\n` +
-      `   ${sqlFile}\n\n` +
-      `Are you sure you want to continue? (y/N): `
-  );
-
   return new Promise((resolve) => {
-    // Ring bell to draw attention to the destructive operation confirmation
-    process.stdout.write('\x07');
     readline.question(message, (answer: string) => {
       readline.close();
       resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
@@ -1,7 +1,18 @@
 import { Command } from 'commander';
-import { execSync } from 'child_process';
 import chalk from 'chalk';
+import * as path from 'path';
 import * as readline from 'readline';
+import { Config } from '../utils/config';
+import { formatBytes } from '../utils/disk-space';
+import { QueryOutput } from '../utils/query-output';
+import {
+  S3BucketSyncPlan,
+  S3ObjectInfo,
+  S3Sync,
+  S3SyncOptions,
+  S3SyncPlan,
+  S3SyncResult,
+} from '../utils/s3sync';
 
 const VALID_ENVIRONMENTS = ['dev', 'uat', 'pprd', 'prod'];
 
@@ -9,8 +20,18 @@ interface SyncOptions {
   dryRun?: boolean;
   force?: boolean;
   verbose?: boolean;
+  include?: string;
+  exclude?: string;
+  since?: string;
+  delete?: boolean;
+  verify?: boolean;
+  plan?: string;
+  savePlan?: string;
 }
 
+// Objects listed by name in the preview
+const PREVIEW_LIMIT = 10;
+
 function validateEnvironment(env: string): boolean {
   return VALID_ENVIRONMENTS.includes(env.toLowerCase());
 }
@@ -19,13 +40,98 @@ function validateSiteId(id: string): boolean {
   return /^\d+$/.test(id) && parseInt(id) > 0;
 }
 
-function checkAwsCli(): boolean {
-  try {
-    execSync('aws --version', { stdio: 'ignore' });
-    return true;
-  } catch {
-    return false;
+function parseGlobList(value?: string): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0);
+}
+
+function printPlan(plan: S3SyncPlan, options: SyncOptions): void {
+  const summary = S3Sync.summarizePlan(plan);
+  console.log(chalk.blue('\nSync plan:'));
+  console.log(
+    `  Copy: ${chalk.green(summary.copied)} files (${formatBytes(summary.copiedBytes)})`
+  );
+  console.log(`  Unchanged: ${plan.unchanged} files`);
+  if (options.delete) {
+    console.log(
+      `  Delete: ${chalk.red(summary.deleted)} files (${formatBytes(summary.deletedBytes)})`
+    );
+  }
+
+  printObjects('copy', plan.copy, options, chalk.gray);
+  printObjects('delete', plan.delete, options, chalk.red);
+}
+
+function printObjects(
+  action: string,
+  objects: S3ObjectInfo[],
+  options: SyncOptions,
+  color: (text: string) => string
+): void {
+  const listed = options.verbose ? objects : objects.slice(0, PREVIEW_LIMIT);
+  for (const object of listed) {
+    console.log(
+      color(`    ${action} ${object.key} (${formatBytes(object.size)})`)
+    );
+  }
+  if (listed.length < objects.length) {
+    console.log(
+      color(
+        `    ... and ${objects.length - listed.length} more to ${action} (--verbose lists all)`
+      )
+    );
+  }
+}
+
+function printBucketPlan(plan: S3BucketSyncPlan, options: SyncOptions): void {
+  const diff = S3Sync.diffBucketPlan(plan);
+  const { total } = diff;
+  console.log(chalk.blue('\nBucket sync plan:'));
+  if (diff.folders.length > 0) {
+    console.log(
+      QueryOutput.formatTable(
+        diff.folders.map((counts) => ({
+          folder: counts.folder || '(bucket root)',
+          added: counts.added,
+          overwritten: counts.overwritten,
+          deleted: counts.deleted,
+          'to copy': formatBytes(counts.addedBytes + counts.overwrittenBytes),
+        }))
+      )
+    );
+  }
+  console.log(
+    `  Add: ${chalk.green(total.added)} objects (${formatBytes(total.addedBytes)})`
+  );
+  console.log(
+    `  Overwrite: ${chalk.yellow(total.overwritten)} objects (${formatBytes(total.overwrittenBytes)})`
+  );
+  console.log(
+    `  Delete: ${chalk.red(total.deleted)} objects (${formatBytes(total.deletedBytes)})`
+  );
+  console.log(`  Unchanged: ${plan.unchanged} objects`);
+
+  printObjects('copy', plan.copy, options, chalk.gray);
+  printObjects('delete', plan.delete, options, chalk.red);
+}
+
+function printSyncResult(result: S3SyncResult, toEnv: string): void {
+  if (result.verification) {
+    for (const key of result.verification.missing.slice(0, PREVIEW_LIMIT)) {
+      console.log(chalk.red(`  missing in ${toEnv}: ${key}`));
+    }
+    for (const key of result.verification.mismatched.slice(0, PREVIEW_LIMIT)) {
+      console.log(chalk.red(`  size or ETag differs: ${key}`));
+    }
+  }
+
+  if (!result.success) {
+    console.error(chalk.red(`\n✗ ${result.message}`));
+    process.exit(1);
   }
+  console.log(chalk.green(`✓ ${result.message}`));
 }
 
 function askConfirmation(message: string): Promise<boolean> {
@@ -42,14 +148,40 @@ function askConfirmation(message: string): Promise<boolean> {
   });
 }
 
+function askTypedConfirmation(expected: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(chalk.yellow(`Type "${expected}" to confirm: `), (answer) => {
+      rl.close();
+      resolve(answer.trim() === expected);
+    });
+  });
+}
+
 async function syncS3(
   siteId: string,
   fromEnv: string,
   toEnv: string,
   options: SyncOptions
 ): Promise<void> {
-  if (!validateSiteId(siteId)) {
-    console.error(chalk.red('Error: Site ID must be a positive integer'));
+  const entireBucket = siteId === 'all';
+  if (!entireBucket && !validateSiteId(siteId)) {
+    console.error(
+      chalk.red('Error: Site ID must be a positive integer, or "all"')
+    );
+    process.exit(1);
+  }
+
+  if (!entireBucket && (options.plan || options.savePlan)) {
+    console.error(
+      chalk.red(
+        'Error: --plan and --save-plan are for whole-bucket syncs (site ID "all")'
+      )
+    );
     process.exit(1);
   }
 
@@ -78,33 +210,68 @@ async function syncS3(
     process.exit(1);
   }
 
-  if (!checkAwsCli()) {
+  if (!S3Sync.checkAwsCli()) {
     console.error(chalk.red('Error: AWS CLI is not installed or not in PATH'));
     console.error(
-      chalk.yellow('Please install the AWS CLI: https://aws.amazon.com/cli/')
+      chalk.yellow(
+        'Please install the AWS CLI (https://aws.amazon.com/cli/) or run "wfuwp config set s3.backend sdk"'
+      )
     );
     process.exit(1);
   }
 
-  const sourceBucket = `s3://wfu-cer-wordpress-${fromEnv}-us-east-1/sites/${siteId}/`;
-  const destBucket = `s3://wfu-cer-wordpress-${toEnv}-us-east-1/sites/${siteId}/`;
+  let since: Date | undefined;
+  if (options.since) {
+    since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      console.error(
+        chalk.red('Error: --since must be a date such as 2026-10-01')
+      );
+      process.exit(1);
+    }
+  }
+
+  if (since && options.delete) {
+    console.error(chalk.red('Error: --delete cannot be combined with --since'));
+    process.exit(1);
+  }
+
+  const syncOptions: S3SyncOptions = {
+    include: parseGlobList(options.include),
+    exclude: parseGlobList(options.exclude),
+    since,
+    delete: options.delete,
+    verify: options.verify,
+    verbose: options.verbose,
+  };
+
+  if (entireBucket) {
+    await syncBucket(fromEnv, toEnv, syncOptions, options);
+    return;
+  }
 
   console.log(chalk.blue.bold('WFU WordPress S3 Sync'));
   console.log(`Site ID: ${chalk.green(siteId)}`);
   console.log(`From: ${chalk.green(fromEnv)} → To: ${chalk.green(toEnv)}`);
-  console.log(`Source: ${chalk.gray(sourceBucket)}`);
-  console.log(`Destination: ${chalk.gray(destBucket)}`);
+
+  let plan: S3SyncPlan;
+  try {
+    plan = await S3Sync.planSync(siteId, fromEnv, toEnv, syncOptions);
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `Error: Could not list the buckets: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+    process.exit(1);
+  }
+
+  console.log(`Source: ${chalk.gray(plan.source)}`);
+  console.log(`Destination: ${chalk.gray(plan.destination)}`);
+  printPlan(plan, options);
 
   if (options.dryRun) {
-    console.log(chalk.yellow('\n--- DRY RUN MODE ---'));
-    try {
-      const dryRunCommand = `aws s3 sync ${sourceBucket} ${destBucket} --dryrun`;
-      console.log(chalk.gray(`Command: ${dryRunCommand}`));
-      execSync(dryRunCommand, { stdio: 'inherit' });
-    } catch (error) {
-      console.error(chalk.red('Error running dry-run sync'));
-      process.exit(1);
-    }
+    console.log(chalk.yellow('\n--- DRY RUN MODE --- no changes made'));
     return;
   }
 
@@ -117,39 +284,143 @@ async function syncS3(
       console.log(chalk.yellow('Sync cancelled'));
       return;
     }
-  }
 
-  try {
-    const syncCommand = `aws s3 sync ${sourceBucket} ${destBucket}`;
-    console.log(chalk.blue('\nSyncing...'));
-    if (options.verbose) {
-      console.log(chalk.gray(`Command: ${syncCommand}`));
+    if (plan.delete.length > 0) {
+      const shouldDelete = await askConfirmation(
+        `Delete ${plan.delete.length} files from ${toEnv} that ${fromEnv} does not have?`
+      );
+      if (!shouldDelete) {
+        console.log(chalk.yellow('Sync cancelled'));
+        return;
+      }
     }
+  }
 
-    const stdio = options.verbose ? 'inherit' : 'pipe';
-    const result = execSync(syncCommand, { stdio, encoding: 'utf8' });
+  console.log(chalk.blue('\nSyncing...'));
+  const result = await S3Sync.syncWordPressFiles(siteId, fromEnv, toEnv, {
+    ...syncOptions,
+    plan,
+  });
+  printSyncResult(result, toEnv);
+}
 
-    if (!options.verbose && result) {
-      const lines = result.split('\n').filter((line) => line.trim());
-      if (lines.length > 0) {
-        console.log(chalk.green(`✓ Synced ${lines.length} files`));
-      } else {
-        console.log(chalk.yellow('✓ No files to sync (already up to date)'));
+// Whole-bucket syncs always run from a plan: the one just printed, or one
+// saved with --save-plan and applied with --plan, so what was reviewed is
+// what runs. Past the configured thresholds they need the destination
+// typed out, --force or not
+async function syncBucket(
+  fromEnv: string,
+  toEnv: string,
+  syncOptions: S3SyncOptions,
+  options: SyncOptions
+): Promise<void> {
+  console.log(chalk.blue.bold('WFU WordPress S3 Sync: entire bucket'));
+  console.log(`From: ${chalk.green(fromEnv)} → To: ${chalk.green(toEnv)}`);
+
+  let plan: S3BucketSyncPlan;
+  if (options.plan) {
+    if (options.include || options.exclude || options.since || options.delete) {
+      console.error(
+        chalk.red(
+          'Error: --plan cannot be combined with --include, --exclude, --since or --delete; the plan records them'
+        )
+      );
+      process.exit(1);
+    }
+    try {
+      plan = S3Sync.loadBucketPlan(options.plan, fromEnv, toEnv);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    }
+    console.log(`Plan: ${chalk.gray(options.plan)} (made ${plan.createdAt})`);
+  } else {
+    try {
+      plan = await S3Sync.planBucketSync(fromEnv, toEnv, syncOptions);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: Could not list the buckets: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    }
+    if (options.savePlan) {
+      const planPath = path.resolve(options.savePlan);
+      try {
+        S3Sync.saveBucketPlan(plan, planPath);
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Error: Could not save the plan: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
       }
-    } else if (options.verbose) {
-      console.log(chalk.green.bold('\n✓ Sync completed successfully'));
-    } else {
-      console.log(chalk.yellow('✓ No files to sync (already up to date)'));
+      console.log(`Plan saved to ${chalk.gray(planPath)}`);
+      console.log(
+        chalk.gray(
+          `  Apply it later with: wfuwp syncs3 all ${fromEnv} ${toEnv} --plan ${planPath}`
+        )
+      );
     }
-  } catch (error) {
-    console.error(chalk.red('\n✗ Sync failed'));
-    process.exit(1);
   }
+
+  console.log(`Source: ${chalk.gray(plan.source)}`);
+  console.log(`Destination: ${chalk.gray(plan.destination)}`);
+  printBucketPlan(plan, options);
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n--- DRY RUN MODE --- no changes made'));
+    return;
+  }
+  if (plan.copy.length + plan.delete.length === 0) {
+    console.log(chalk.green('\n✓ No files to sync (already up to date)'));
+    return;
+  }
+
+  const exceeded = S3Sync.exceededThresholds(
+    S3Sync.diffBucketPlan(plan),
+    Config.getBucketSyncThresholds()
+  );
+  if (exceeded.length > 0) {
+    console.log(chalk.red.bold('\n⚠️  This sync is larger than usual:'));
+    for (const reason of exceeded) {
+      console.log(chalk.red(`  - ${reason}`));
+    }
+    if (!(await askTypedConfirmation(`SYNC ${toEnv}`))) {
+      console.log(chalk.yellow('Sync cancelled'));
+      return;
+    }
+  } else if (!options.force) {
+    const shouldProceed = await askConfirmation(
+      `This will sync the entire ${fromEnv} bucket to ${toEnv}. Continue?`
+    );
+    if (!shouldProceed) {
+      console.log(chalk.yellow('Sync cancelled'));
+      return;
+    }
+  }
+
+  console.log(chalk.blue('\nSyncing...'));
+  const result = await S3Sync.syncEntireBucket(fromEnv, toEnv, {
+    include: plan.include,
+    exclude: plan.exclude,
+    since: plan.since ? new Date(plan.since) : undefined,
+    verify: options.verify,
+    verbose: options.verbose,
+    plan,
+  });
+  printSyncResult(result, toEnv);
 }
 
 export const syncS3Command = new Command('syncs3')
   .description('Sync WordPress site files between S3 environments')
-  .argument('<site-id>', 'Site ID (numeric)')
+  .argument('<site-id>', 'Site ID (numeric), or "all" for the entire bucket')
   .argument(
     '<from-env>',
     `Source environment (${VALID_ENVIRONMENTS.join('|')})`
@@ -164,6 +435,28 @@ export const syncS3Command = new Command('syncs3')
   )
   .option('-f, --force', 'Skip confirmation prompt')
   .option('-v, --verbose', 'Show detailed output including all synced files')
+  .option(
+    '--include <globs>',
+    'Only sync keys matching these comma-separated globs, e.g. "2026/*"'
+  )
+  .option(
+    '--exclude <globs>',
+    'Skip keys matching these comma-separated globs, e.g. "*.pdf,cache/*"'
+  )
+  .option('--since <date>', 'Only copy files modified on or after this date')
+  .option(
+    '--delete',
+    'Delete destination files the source does not have (listed and confirmed first)'
+  )
+  .option('--verify', 'Compare sizes and ETags of both buckets after the sync')
+  .option(
+    '--save-plan <file>',
+    'With "all": save the plan to this file, to apply later with --plan'
+  )
+  .option(
+    '--plan <file>',
+    'With "all": apply a saved plan instead of listing the buckets again'
+  )
   .action(
     async (
       siteId: string,
@@ -182,5 +475,10 @@ Examples:
   $ wfuwp syncs3 43 uat pprd -d      # Dry run to preview changes
   $ wfuwp syncs3 43 uat pprd -f      # Force sync without confirmation
   $ wfuwp syncs3 43 uat pprd -v      # Show detailed output with all file transfers
+  $ wfuwp syncs3 43 prod uat --exclude "*.pdf,cache/*"
+  $ wfuwp syncs3 43 prod uat --since 2026-10-01 --verify
+  $ wfuwp syncs3 43 prod uat --delete -d   # Preview a mirror, deletions included
+  $ wfuwp syncs3 all prod uat -d --save-plan prod-to-uat.json   # Plan the entire bucket
+  $ wfuwp syncs3 all prod uat --plan prod-to-uat.json
 `
   );
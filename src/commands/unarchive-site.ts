@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import chalk from 'chalk';
+import { SiteArchive, SiteUnarchivePlan } from '../utils/site-archive';
+
+interface UnarchiveSiteOptions {
+  skipS3?: boolean;
+  dryRun?: boolean;
+  force?: boolean;
+  verbose?: boolean;
+  timeout: string;
+}
+
+export const unarchiveSiteCommand = new Command('unarchive-site')
+  .description(
+    'Bring back a site archived with delete-site --archive-to, under its original ID where it is free'
+  )
+  .argument('<archive>', 'Archive directory or s3:// URI')
+  .option('--skip-s3', 'Do not restore the S3 uploads')
+  .option('--dry-run', 'Verify the archive and show the plan only', false)
+  .option('-f, --force', 'Skip the confirmation prompt', false)
+  .option('-v, --verbose', 'Show detailed output', false)
+  .option(
+    '--timeout <minutes>',
+    'Custom timeout in minutes for large databases (default: 20)',
+    '20'
+  )
+  .action(async (archive: string, options: UnarchiveSiteOptions) => {
+    const workDir = mkdtempSync(join(tmpdir(), 'wfuwp-unarchive-'));
+    try {
+      await runUnarchive(archive, workDir, options);
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
+async function runUnarchive(
+  archive: string,
+  workDir: string,
+  options: UnarchiveSiteOptions
+): Promise<void> {
+  if (SiteArchive.isS3Uri(archive)) {
+    console.log(chalk.gray(`Downloading ${archive}...`));
+  }
+  const plan = await SiteArchive.planUnarchive(archive, workDir);
+  printPlan(plan, options);
+
+  if (options.dryRun) {
+    console.log(
+      chalk.green('\n🎭 Unarchive dry run completed - no changes made')
+    );
+    return;
+  }
+
+  const { manifest } = plan;
+  if (!options.force) {
+    const { default: inquirer } = await import('inquirer');
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: `Restore ${manifest.domain}${manifest.path} into ${manifest.environment}?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      console.log(chalk.yellow('Unarchive cancelled'));
+      return;
+    }
+  }
+
+  console.log(chalk.cyan('\n🚀 Restoring site...'));
+  const result = await SiteArchive.unarchive(plan, {
+    skipS3: options.skipS3,
+    verbose: options.verbose,
+    timeout: parseInt(options.timeout, 10),
+  });
+
+  console.log(
+    chalk.green(
+      `\n✅ Restored ${manifest.domain}${manifest.path} as site ${result.siteId} in ${manifest.environment}`
+    )
+  );
+  console.log(`  ${chalk.green('•')} Tables restored: ${result.tables.length}`);
+  console.log(
+    `  ${chalk.green('•')} User roles restored: ${result.userRolesRestored}`
+  );
+  if (result.uploads) {
+    console.log(
+      result.uploads.success
+        ? `  ${chalk.green('•')} S3 uploads: ${result.uploads.message}`
+        : chalk.yellow(
+            `  ⚠ ${result.uploads.message}. Extract uploads.tar.gz from the archive and copy it to sites/${result.siteId}/ with the AWS CLI`
+          )
+    );
+  }
+}
+
+function printPlan(
+  plan: SiteUnarchivePlan,
+  options: UnarchiveSiteOptions
+): void {
+  const { manifest } = plan;
+  console.log(chalk.bold.cyan('🔍 Site Unarchive Plan'));
+  console.log(`Archive: ${plan.location} (verified)`);
+  console.log(
+    `Site: ${chalk.yellow(manifest.siteId)} (${manifest.domain}${manifest.path}), archived from ${chalk.yellow(manifest.environment)} on ${manifest.createdAt}`
+  );
+  console.log(
+    plan.siteId === null
+      ? chalk.yellow(
+          `Site ID: new (${plan.blogIdTaken}); tables and uploads paths are renumbered`
+        )
+      : `Site ID: ${plan.siteId} (original)`
+  );
+  console.log(`Tables: ${manifest.tables.length}`);
+  if (options.verbose) {
+    for (const table of manifest.tables) {
+      console.log(chalk.gray(`  ${table}`));
+    }
+  }
+  console.log(
+    `User roles: ${plan.userRoles.filter((role) => String(role.meta_key).endsWith('capabilities')).length}`
+  );
+  console.log(
+    `S3 uploads: ${
+      !manifest.uploads
+        ? 'none in the archive'
+        : options.skipS3
+          ? 'skipped (--skip-s3)'
+          : `${manifest.uploads.files} files`
+    }`
+  );
+}
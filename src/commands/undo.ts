@@ -0,0 +1,215 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  ChangeSnapshot,
+  ChangeSnapshotMetadata,
+} from '../utils/change-snapshot';
+import { formatBytes } from '../utils/disk-space';
+
+interface UndoOptions {
+  list?: boolean;
+  env?: string;
+  force?: boolean;
+  backup: boolean;
+  timeout: string;
+  json?: boolean;
+  workDir?: string;
+}
+
+export const undoCommand = new Command('undo')
+  .description(
+    'Put back the tables a destructive command changed, from the snapshot it took'
+  )
+  .argument(
+    '[snapshot-id]',
+    'Snapshot ID printed by the command, or from "wfuwp undo --list"'
+  )
+  .option('--list', 'List snapshots, newest first')
+  .option('--env <env>', 'With --list, only snapshots of this environment')
+  .option('-f, --force', 'Skip the confirmation prompt')
+  .option('--no-backup', 'Skip snapshotting the current tables before undoing')
+  .option(
+    '--timeout <minutes>',
+    'Custom timeout in minutes for large databases (default: 20)',
+    '20'
+  )
+  .option('--json', 'Print the result as JSON')
+  .option(
+    '--work-dir <path>',
+    'Backup directory holding snapshots/ (default: backup.localPath or ~/.wfuwp/backups)'
+  )
+  .action(async (snapshotId: string | undefined, options: UndoOptions) => {
+    try {
+      if (options.list) {
+        listSnapshots(options);
+      } else if (snapshotId) {
+        await undoSnapshot(snapshotId, options);
+      } else {
+        throw new Error(
+          'Give a snapshot ID, or use --list to see the snapshots'
+        );
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+function describeTables(snapshot: ChangeSnapshotMetadata): string {
+  if (snapshot.ddevProject) {
+    return `whole DDEV database in ${snapshot.ddevProject}`;
+  }
+  const parts = [`${snapshot.tables.length} tables`];
+  if (snapshot.rows) {
+    parts.push(`rows of ${Object.keys(snapshot.rows).join(', ')}`);
+  }
+  if (snapshot.absentTables.length > 0) {
+    parts.push(`${snapshot.absentTables.length} to drop`);
+  }
+  return parts.join(', ');
+}
+
+function listSnapshots(options: UndoOptions): void {
+  const snapshots = ChangeSnapshot.listSnapshots(options.workDir).filter(
+    (snapshot) => !options.env || snapshot.environment === options.env
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(snapshots, null, 2));
+    return;
+  }
+
+  if (snapshots.length === 0) {
+    console.log(chalk.yellow('No snapshots found'));
+    return;
+  }
+
+  console.log(chalk.blue.bold(`Snapshots (${snapshots.length}):\n`));
+  for (const snapshot of snapshots) {
+    console.log(
+      chalk.white.bold(snapshot.snapshotId) +
+        (snapshot.undoneAt ? chalk.yellow(' (undone)') : '')
+    );
+    console.log(
+      chalk.gray(`  ${snapshot.environment}: ${describeTables(snapshot)}`)
+    );
+    console.log(
+      chalk.gray(
+        `  Taken: ${new Date(snapshot.timestamp).toLocaleString()} by ${snapshot.user}`
+      )
+    );
+    console.log(chalk.gray(`  Command: ${snapshot.command}`));
+    console.log(chalk.gray(`  Size: ${formatBytes(snapshot.size)}`));
+    console.log();
+  }
+}
+
+async function confirm(message: string): Promise<boolean> {
+  const { default: inquirer } = await import('inquirer');
+  const { proceed } = await inquirer.prompt([
+    { type: 'confirm', name: 'proceed', message, default: false },
+  ]);
+  return proceed;
+}
+
+async function undoSnapshot(
+  snapshotId: string,
+  options: UndoOptions
+): Promise<void> {
+  const snapshot = ChangeSnapshot.loadSnapshot(snapshotId, options.workDir);
+  const integrity = await ChangeSnapshot.verifySnapshot(snapshot);
+  if (!integrity.valid) {
+    throw new Error(
+      `Snapshot ${snapshotId} failed verification: ${integrity.errors.join(', ')}`
+    );
+  }
+
+  if (!options.json) {
+    console.log(chalk.cyan(`Snapshot: ${snapshotId}`));
+    console.log(chalk.cyan(`Environment: ${snapshot.environment}`));
+    console.log(
+      chalk.cyan(
+        `Taken: ${new Date(snapshot.timestamp).toLocaleString()} by ${snapshot.user}`
+      )
+    );
+    console.log(chalk.cyan(`Command: ${snapshot.command}`));
+    console.log(chalk.cyan(`Tables: ${describeTables(snapshot)}`));
+    if (snapshot.undoneAt) {
+      console.log(
+        chalk.yellow(
+          `Already undone on ${new Date(snapshot.undoneAt).toLocaleString()}`
+        )
+      );
+    }
+  }
+
+  if (
+    !options.force &&
+    !(await confirm(
+      snapshot.ddevProject
+        ? `Replace the DDEV database in ${snapshot.ddevProject} with the snapshot?`
+        : `Overwrite these tables in ${snapshot.environment} with the snapshot?`
+    ))
+  ) {
+    console.log(chalk.yellow('Undo cancelled'));
+    return;
+  }
+
+  const timeout = parseInt(options.timeout, 10);
+  // Undoing is itself destructive, so it can be undone in turn
+  const safety = await ChangeSnapshot.beforeChange(
+    snapshot.environment,
+    snapshot.ddevProject
+      ? undefined
+      : [...snapshot.tables, ...snapshot.absentTables],
+    {
+      backup: options.backup,
+      workDir: options.workDir,
+      timeout,
+      quiet: options.json,
+      rows: snapshot.rows,
+      ddevProject: snapshot.ddevProject,
+    }
+  );
+
+  const result = await ChangeSnapshot.undo(snapshotId, {
+    workDir: options.workDir,
+    timeout,
+  });
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          snapshotId,
+          environment: result.environment,
+          restoredTables: result.tables,
+          droppedTables: result.absentTables,
+          // The snapshot taken just now, to undo this undo
+          newSnapshotId: safety?.snapshotId ?? null,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+  if (result.ddevProject) {
+    console.log(
+      chalk.green(`✓ Restored the DDEV database in ${result.ddevProject}`)
+    );
+    return;
+  }
+  console.log(
+    chalk.green(
+      `✓ Restored ${result.tables.length} tables in ${result.environment}` +
+        (result.absentTables.length > 0
+          ? ` and dropped ${result.absentTables.length}`
+          : '')
+    )
+  );
+}
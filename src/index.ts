@@ -3,6 +3,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { syncS3Command } from './commands/syncs3';
+import { mediaCommand } from './commands/media';
 import { listIpsCommand } from './commands/listips';
 import { sshAwsCommand } from './commands/sshaws';
 import { removeHostKeyCommand } from './commands/removehostkey';
@@ -12,9 +13,15 @@ import { configCommand } from './commands/config';
 import { dbCommand } from './commands/db';
 import { downloadLocalCommand } from './commands/download-local';
 import { deleteSiteCommand } from './commands/delete-site';
+import { cloneSiteCommand } from './commands/clone-site';
+import { unarchiveSiteCommand } from './commands/unarchive-site';
 import { cleanLowerEnvsCommand } from './commands/clean-lower-envs';
 import { md2wpblockCommand } from './commands/md2wpblock';
 import { restoreCommand } from './commands/restore';
+import { migrateCommand } from './commands/migrate';
+import { migrationsCommand } from './commands/migrations';
+import { backupsCommand } from './commands/backups';
+import { undoCommand } from './commands/undo';
 import { clickupCommand } from './commands/clickup';
 import { localCommand } from './commands/local';
 import { cleanupCommand } from './commands/cleanup';
@@ -24,6 +31,7 @@ import { registerDoctorCommand } from './commands/doctor';
 import { registerDocsCommand } from './commands/docs';
 import { registerInstallDepsCommand } from './commands/install-deps';
 import { checkFirstRun, showConfigurationHint } from './utils/first-run';
+import { DbConnectionManager } from './utils/db-connection';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -61,6 +69,7 @@ ${chalk.bold('🚀 First Time?')}
 const isFirstRun = checkFirstRun();
 
 program.addCommand(syncS3Command);
+program.addCommand(mediaCommand);
 program.addCommand(listIpsCommand);
 program.addCommand(sshAwsCommand);
 program.addCommand(removeHostKeyCommand);
@@ -70,9 +79,15 @@ program.addCommand(configCommand);
 program.addCommand(dbCommand);
 program.addCommand(downloadLocalCommand);
 program.addCommand(deleteSiteCommand);
+program.addCommand(cloneSiteCommand);
+program.addCommand(unarchiveSiteCommand);
 program.addCommand(cleanLowerEnvsCommand);
 program.addCommand(md2wpblockCommand);
 program.addCommand(restoreCommand);
+program.addCommand(migrateCommand);
+program.addCommand(migrationsCommand);
+program.addCommand(backupsCommand);
+program.addCommand(undoCommand);
 program.addCommand(clickupCommand);
 program.addCommand(localCommand);
 program.addCommand(cleanupCommand);
@@ -105,6 +120,10 @@ program
       chalk.green('  syncs3') +
         '      - Sync WordPress sites between S3 environments'
     );
+    console.log(
+      chalk.green('  media') +
+        "       - Audit a site's media library against its S3 uploads"
+    );
     console.log(
       chalk.green('  listips') +
         '     - List EC2 instance IP addresses for an environment'
@@ -131,12 +150,35 @@ program
     );
     console.log(
       chalk.green('  db') +
-        '          - Database connection utilities (test, list)'
+        '          - Database utilities (query, shell, export/import, diff)'
+    );
+    console.log(
+      chalk.green('  migrate') +
+        '     - Migrate a site between environments (database, S3, cache)'
+    );
+    console.log(
+      chalk.green('  migrations') + '  - List and inspect past migration runs'
+    );
+    console.log(
+      chalk.green('  backups') +
+        '     - Manage database backups (list, show, verify, upload, restore, delete, prune)'
+    );
+    console.log(
+      chalk.green('  undo') +
+        '        - Undo a destructive command from the snapshot it took'
+    );
+    console.log(
+      chalk.green('  clone-site') +
+        '  - Create a new subsite as a copy of an existing one'
     );
     console.log(
       chalk.green('  delete-site') +
         ' - Delete a WordPress site and all its tables from an environment'
     );
+    console.log(
+      chalk.green('  unarchive-site') +
+        ' - Bring back a site archived by delete-site --archive-to'
+    );
     console.log(
       chalk.green('  clean-lower-envs') +
         ' - Clean up orphaned sites and tables in lower environments'
@@ -165,13 +207,6 @@ program
       chalk.green('  maintenance') +
         ' - Control the wfu.edu down/maintenance page (ALB switch)'
     );
-    console.log('\n' + chalk.bold('💡 Database Migration:'));
-    console.log(
-      '  Use ' +
-        chalk.cyan('wfu-migrate') +
-        ' for database migrations between environments.'
-    );
-    console.log('  Install: ' + chalk.cyan('npm install -g wfu-migrate'));
     console.log(
       '\nUse "wfuwp <command> --help" for more information about a command.'
     );
@@ -194,4 +229,16 @@ if (process.argv.length <= 2) {
   program.help();
 }
 
-program.parse(process.argv);
+// Report errors a command lets escape instead of an unhandled rejection, and
+// close pooled database connections so the process can exit
+program
+  .parseAsync(process.argv)
+  .catch((error) => {
+    console.error(
+      chalk.red(
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+    process.exitCode = 1;
+  })
+  .finally(() => DbConnectionManager.closeAll());
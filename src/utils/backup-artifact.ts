@@ -0,0 +1,369 @@
+import { execFileSync, spawn } from 'child_process';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+import {
+  appendFileSync,
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  openSync,
+  readSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { basename } from 'path';
+import { Duplex, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { BackupCompression, BackupKeySource } from './config';
+
+export interface BackupEncryption {
+  algorithm: 'aes-256-gcm';
+  keySource: Exclude<BackupKeySource, 'none'>;
+  // scrypt salt for deriving the key from the passphrase, hex
+  salt: string;
+}
+
+// How a backup's files are stored, as recorded in BackupMetadata
+export interface BackupArtifactScheme {
+  compression: BackupCompression;
+  encryption?: BackupEncryption;
+}
+
+export const BACKUP_PASSPHRASE_ENV = 'WFUWP_BACKUP_PASSPHRASE';
+
+const KEYCHAIN_SERVICE = 'wfuwp-backup';
+
+// Encrypted files: magic, IV, AES-256-GCM ciphertext, then the auth tag
+const ENCRYPTED_MAGIC = Buffer.from('WFUWPENC1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = ENCRYPTED_MAGIC.length + IV_LENGTH;
+
+const COMPRESSION_MAGIC: Record<BackupCompression, Buffer | null> = {
+  none: null,
+  gzip: Buffer.from([0x1f, 0x8b]),
+  zstd: Buffer.from([0x28, 0xb5, 0x2f, 0xfd]),
+};
+
+const COMPRESSION_EXTENSIONS: Record<BackupCompression, string> = {
+  none: '',
+  gzip: '.gz',
+  zstd: '.zst',
+};
+
+/**
+ * Compression and encryption of backup files. Files are compressed first,
+ * then encrypted; decoding reverses both. Checksums in BackupMetadata are
+ * taken over the stored bytes, so verifying a backup never needs the key.
+ */
+export class BackupArtifact {
+  // A fresh salt per backup, so the same passphrase gives a different key
+  static createScheme(
+    compression: BackupCompression = 'none',
+    keySource: BackupKeySource = 'none'
+  ): BackupArtifactScheme {
+    const scheme: BackupArtifactScheme = { compression };
+    if (keySource !== 'none') {
+      scheme.encryption = {
+        algorithm: 'aes-256-gcm',
+        keySource,
+        salt: randomBytes(16).toString('hex'),
+      };
+    }
+    return scheme;
+  }
+
+  // Backups from before compression was added record neither field
+  static getScheme(metadata: {
+    compression?: BackupCompression;
+    encryption?: BackupEncryption;
+  }): BackupArtifactScheme {
+    return {
+      compression: metadata.compression || 'none',
+      ...(metadata.encryption ? { encryption: metadata.encryption } : {}),
+    };
+  }
+
+  static isPlain(scheme: BackupArtifactScheme): boolean {
+    return scheme.compression === 'none' && !scheme.encryption;
+  }
+
+  static getExtension(scheme: BackupArtifactScheme): string {
+    return (
+      COMPRESSION_EXTENSIONS[scheme.compression] +
+      (scheme.encryption ? '.enc' : '')
+    );
+  }
+
+  static deriveKey(encryption: BackupEncryption): Buffer {
+    return scryptSync(
+      this.getPassphrase(encryption.keySource),
+      Buffer.from(encryption.salt, 'hex'),
+      32
+    );
+  }
+
+  static getPassphrase(keySource: Exclude<BackupKeySource, 'none'>): string {
+    if (keySource === 'passphrase') {
+      const passphrase = process.env[BACKUP_PASSPHRASE_ENV];
+      if (!passphrase) {
+        throw new Error(
+          `Backup encryption uses a passphrase; set ${BACKUP_PASSPHRASE_ENV}`
+        );
+      }
+      return passphrase;
+    }
+
+    const [command, args, hint] =
+      process.platform === 'darwin'
+        ? [
+            'security',
+            ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-w'],
+            `security add-generic-password -s ${KEYCHAIN_SERVICE} -a wfuwp -w`,
+          ]
+        : [
+            'secret-tool',
+            ['lookup', 'service', KEYCHAIN_SERVICE],
+            `secret-tool store --label="wfuwp backups" service ${KEYCHAIN_SERVICE}`,
+          ];
+    let passphrase = '';
+    try {
+      passphrase = execFileSync(command, args, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).replace(/\r?\n$/, '');
+    } catch {
+      // Reported below
+    }
+    if (!passphrase) {
+      throw new Error(
+        `No backup passphrase found in the keychain. Add one with: ${hint}`
+      );
+    }
+    return passphrase;
+  }
+
+  /**
+   * Compress and/or encrypt a plain SQL file in place. Returns the path of
+   * the stored file (the plain file is removed), or the same path when the
+   * scheme is plain.
+   */
+  static async encode(
+    plainPath: string,
+    scheme: BackupArtifactScheme,
+    key?: Buffer
+  ): Promise<string> {
+    if (this.isPlain(scheme)) {
+      return plainPath;
+    }
+    if (scheme.encryption && !key) {
+      throw new Error('An encryption key is required to encrypt backups');
+    }
+
+    const storedPath = plainPath + this.getExtension(scheme);
+    const stages: Duplex[] = [];
+    if (scheme.compression !== 'none') {
+      stages.push(this.createCompressor(scheme.compression));
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = scheme.encryption
+      ? createCipheriv('aes-256-gcm', key!, iv)
+      : null;
+    if (cipher) {
+      stages.push(cipher);
+      writeFileSync(storedPath, Buffer.concat([ENCRYPTED_MAGIC, iv]), {
+        mode: 0o600,
+      });
+    }
+
+    try {
+      await pipeline([
+        createReadStream(plainPath),
+        ...stages,
+        createWriteStream(storedPath, {
+          flags: cipher ? 'a' : 'w',
+          mode: 0o600,
+        }),
+      ]);
+      if (cipher) {
+        appendFileSync(storedPath, cipher.getAuthTag());
+      }
+    } catch (error) {
+      if (existsSync(storedPath)) {
+        unlinkSync(storedPath);
+      }
+      throw new Error(
+        `Failed to store ${basename(plainPath)}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    unlinkSync(plainPath);
+    return storedPath;
+  }
+
+  // Write the plain SQL of a stored file to outputPath (mode 0600)
+  static async decode(
+    storedPath: string,
+    outputPath: string,
+    scheme: BackupArtifactScheme,
+    key?: Buffer
+  ): Promise<void> {
+    const stages: Duplex[] = [];
+    let source: Readable;
+
+    if (scheme.encryption) {
+      if (!key) {
+        throw new Error('An encryption key is required to decrypt backups');
+      }
+      const { iv, tag, size } = this.readEnvelope(storedPath);
+      const decipher = createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      stages.push(decipher);
+      source =
+        size > HEADER_LENGTH + TAG_LENGTH
+          ? createReadStream(storedPath, {
+              start: HEADER_LENGTH,
+              end: size - TAG_LENGTH - 1,
+            })
+          : Readable.from([]);
+    } else {
+      source = createReadStream(storedPath);
+    }
+
+    if (scheme.compression !== 'none') {
+      stages.push(this.createDecompressor(scheme.compression));
+    }
+
+    try {
+      await pipeline([
+        source,
+        ...stages,
+        createWriteStream(outputPath, { mode: 0o600 }),
+      ]);
+    } catch (error) {
+      if (existsSync(outputPath)) {
+        unlinkSync(outputPath);
+      }
+      // Crypto errors don't always pass instanceof Error (e.g. under jest)
+      const message = String((error as { message?: string })?.message ?? error);
+      throw new Error(
+        /unable to authenticate/i.test(message)
+          ? `Could not decrypt ${basename(storedPath)}: wrong passphrase or the file has been modified`
+          : `Failed to read ${basename(storedPath)}: ${message}`
+      );
+    }
+  }
+
+  /**
+   * SHA-256 of a stored file, read as a stream so large backups are never
+   * held in memory
+   */
+  static async checksum(storedPath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(storedPath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Check that a stored file starts the way the scheme says it should, so a
+   * plain file recorded as encrypted (or the reverse) is caught without the
+   * key. Returns a description of the problem, or null.
+   */
+  static checkFormat(
+    storedPath: string,
+    scheme: BackupArtifactScheme
+  ): string | null {
+    const expected = scheme.encryption
+      ? ENCRYPTED_MAGIC
+      : COMPRESSION_MAGIC[scheme.compression];
+    if (!expected) {
+      return null;
+    }
+
+    const header = Buffer.alloc(expected.length);
+    const fd = openSync(storedPath, 'r');
+    try {
+      readSync(fd, header, 0, expected.length, 0);
+    } finally {
+      closeSync(fd);
+    }
+    if (header.equals(expected)) {
+      return null;
+    }
+    return scheme.encryption
+      ? `${basename(storedPath)} is not an encrypted backup file`
+      : `${basename(storedPath)} is not ${scheme.compression}-compressed`;
+  }
+
+  private static readEnvelope(storedPath: string): {
+    iv: Buffer;
+    tag: Buffer;
+    size: number;
+  } {
+    const size = statSync(storedPath).size;
+    const header = Buffer.alloc(HEADER_LENGTH);
+    const tag = Buffer.alloc(TAG_LENGTH);
+    const fd = openSync(storedPath, 'r');
+    try {
+      if (size >= HEADER_LENGTH + TAG_LENGTH) {
+        readSync(fd, header, 0, HEADER_LENGTH, 0);
+        readSync(fd, tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+      }
+    } finally {
+      closeSync(fd);
+    }
+    if (!header.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC)) {
+      throw new Error(
+        `${basename(storedPath)} is not an encrypted backup file`
+      );
+    }
+    return { iv: header.subarray(ENCRYPTED_MAGIC.length), tag, size };
+  }
+
+  private static createCompressor(compression: BackupCompression): Duplex {
+    return compression === 'gzip' ? createGzip() : this.zstd(['-q', '-c']);
+  }
+
+  private static createDecompressor(compression: BackupCompression): Duplex {
+    return compression === 'gzip'
+      ? createGunzip()
+      : this.zstd(['-q', '-d', '-c']);
+  }
+
+  // zlib has no zstd before Node 22, so the zstd CLI does the work
+  private static zstd(args: string[]): Duplex {
+    const child = spawn('zstd', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stream = Duplex.from({
+      writable: child.stdin,
+      readable: child.stdout,
+    });
+    let stderr = '';
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', (error: Error & { code?: string }) =>
+      stream.destroy(
+        error.code === 'ENOENT'
+          ? new Error('zstd is not installed or not in PATH')
+          : error
+      )
+    );
+    child.on('close', (code) => {
+      if (code !== 0) {
+        stream.destroy(
+          new Error(`zstd exited with code ${code}: ${stderr.trim()}`)
+        );
+      }
+    });
+    return stream;
+  }
+}
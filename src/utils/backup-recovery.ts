@@ -6,11 +6,25 @@ import {
   readFileSync,
   unlinkSync,
   readdirSync,
+  statSync,
 } from 'fs';
 import { join, dirname, basename } from 'path';
 import { homedir } from 'os';
 import chalk from 'chalk';
-import { Config } from './config';
+import {
+  BackupArtifact,
+  BackupArtifactScheme,
+  BackupEncryption,
+} from './backup-artifact';
+import { BackupReplication } from './backup-replication';
+import { ChangeSnapshot, ChangeSnapshotMetadata } from './change-snapshot';
+import { getDirectorySize } from './cleanup-utils';
+import { BackupCompression, BackupRetentionPolicy, Config } from './config';
+import { DbConnectionManager } from './db-connection';
+import { formatBytes } from './disk-space';
+import { MigrationJournal } from './migration-journal';
+import { MysqlCli } from './mysql-cli';
+import { SqlBuilder } from './sql';
 import { SiteEnumerator, SiteInfo } from './site-enumerator';
 import { NetworkTableOperations } from './network-tables';
 
@@ -26,7 +40,14 @@ export interface BackupMetadata {
     sitesFiles: Record<number, string>;
     metadataFile: string;
   };
+  // Checksums of the files as stored, i.e. after compression and encryption
   checksums: Record<string, string>;
+  // How the files are stored; absent on older, plain backups
+  compression?: BackupCompression;
+  encryption?: BackupEncryption;
+  // Directory of the migration journal this backup is the rollback point
+  // for, which may sit under a --work-dir rather than ~/.wfuwp/migrations
+  migrationJournal?: string;
 }
 
 interface BackupResult {
@@ -37,14 +58,43 @@ interface BackupResult {
   errors: string[];
 }
 
-interface RestoreOptions {
+export interface RestoreOptions {
   networkTables?: boolean;
   sites?: number[];
   skipConfirmation?: boolean;
   timeout?: number;
+  workDir?: string;
+  // Suppress progress output, e.g. for JSON output
+  quiet?: boolean;
+}
+
+export interface PruneCandidate {
+  backup: BackupMetadata;
+  size: number;
+  reason: string;
 }
 
-interface RestoreResult {
+export interface SnapshotPruneCandidate {
+  snapshot: ChangeSnapshotMetadata;
+  size: number;
+  reason: string;
+}
+
+export interface PrunePlan {
+  remove: PruneCandidate[];
+  keep: BackupMetadata[];
+  // Change snapshots under <backup directory>/snapshots
+  removeSnapshots: SnapshotPruneCandidate[];
+  keepSnapshots: ChangeSnapshotMetadata[];
+  reclaimedBytes: number;
+}
+
+export interface PruneResult extends PrunePlan {
+  dryRun: boolean;
+  errors: string[];
+}
+
+export interface RestoreResult {
   success: boolean;
   restoredNetworkTables: boolean;
   restoredSites: number[];
@@ -53,55 +103,6 @@ interface RestoreResult {
 }
 
 export class BackupRecovery {
-  private static mysqlClientAvailable: boolean | null = null;
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
   static generateBackupId(): string {
     const timestamp = new Date()
       .toISOString()
@@ -120,9 +121,8 @@ export class BackupRecovery {
       return workDir;
     }
 
-    // Use consistent location in ~/.wfuwp/backups
-    const wfuwpDir = join(homedir(), '.wfuwp');
-    const baseDir = join(wfuwpDir, 'backups');
+    // backup.localPath when configured, otherwise ~/.wfuwp/backups
+    const baseDir = Config.getBackupPath().replace(/^~(?=$|\/)/, homedir());
     if (!existsSync(baseDir)) {
       mkdirSync(baseDir, { recursive: true });
     }
@@ -137,6 +137,7 @@ export class BackupRecovery {
       timeout?: number;
       sites?: number[];
       skipNetworkTables?: boolean;
+      migrationJournal?: string;
     } = {}
   ): Promise<BackupResult> {
     const backupId = this.generateBackupId();
@@ -168,9 +169,26 @@ export class BackupRecovery {
         metadataFile: join(backupDir, 'metadata.json'),
       },
       checksums: {},
+      ...(options.migrationJournal
+        ? { migrationJournal: options.migrationJournal }
+        : {}),
     };
 
     try {
+      const scheme = BackupArtifact.createScheme(
+        Config.getBackupCompression(),
+        Config.getBackupEncryption()
+      );
+      const key = scheme.encryption
+        ? BackupArtifact.deriveKey(scheme.encryption)
+        : undefined;
+      if (scheme.compression !== 'none') {
+        metadata.compression = scheme.compression;
+      }
+      if (scheme.encryption) {
+        metadata.encryption = scheme.encryption;
+      }
+
       // Backup network tables unless skipped
       if (!options.skipNetworkTables) {
         try {
@@ -190,15 +208,22 @@ export class BackupRecovery {
               options.timeout || 20
             );
 
+          const stored = await this.storeBackupFile(
+            networkBackupPath,
+            networkResult.fileSize,
+            scheme,
+            key
+          );
+
           metadata.networkTables =
             NetworkTableOperations.getMigrateableNetworkTables();
-          metadata.backupPaths.networkTablesFile = networkBackupPath;
-          totalSize += networkResult.fileSize;
+          metadata.backupPaths.networkTablesFile = stored.path;
+          totalSize += stored.size;
 
           if (options.verbose) {
             console.log(
               chalk.green(
-                `    ✓ Network tables backup completed (${(networkResult.fileSize / 1024 / 1024).toFixed(2)} MB)`
+                `    ✓ Network tables backup completed (${(stored.size / 1024 / 1024).toFixed(2)} MB)`
               )
             );
           }
@@ -250,21 +275,26 @@ export class BackupRecovery {
               backupDir,
               `site-${siteId}-${environment}.sql`
             );
-            const siteSize = await this.backupSiteTables(
-              environment,
-              siteId,
+            const stored = await this.storeBackupFile(
               siteBackupPath,
-              options.timeout || 20
+              await this.backupSiteTables(
+                environment,
+                siteId,
+                siteBackupPath,
+                options.timeout || 20
+              ),
+              scheme,
+              key
             );
 
             metadata.sites.push(siteId);
-            metadata.backupPaths.sitesFiles[siteId] = siteBackupPath;
-            totalSize += siteSize;
+            metadata.backupPaths.sitesFiles[siteId] = stored.path;
+            totalSize += stored.size;
 
             if (options.verbose) {
               console.log(
                 chalk.green(
-                  `    ✓ Site ${siteId} backup completed (${(siteSize / 1024 / 1024).toFixed(2)} MB)`
+                  `    ✓ Site ${siteId} backup completed (${(stored.size / 1024 / 1024).toFixed(2)} MB)`
                 )
               );
             }
@@ -287,10 +317,8 @@ export class BackupRecovery {
       for (const filePath of allFiles) {
         if (existsSync(filePath)) {
           try {
-            const checksum = execSync(`shasum -a 256 "${filePath}"`, {
-              encoding: 'utf8',
-            }).split(' ')[0];
-            metadata.checksums[basename(filePath)] = checksum;
+            metadata.checksums[basename(filePath)] =
+              await BackupArtifact.checksum(filePath);
           } catch (error) {
             if (options.verbose) {
               console.log(
@@ -311,6 +339,10 @@ export class BackupRecovery {
       );
 
       const success = errors.length === 0;
+      if (success) {
+        await this.replicateOffsite(backupId, options.workDir, options.verbose);
+        await this.applyRetention(options.workDir, options.verbose);
+      }
       if (options.verbose) {
         if (success) {
           console.log(
@@ -428,30 +460,16 @@ export class BackupRecovery {
     environment: string,
     siteId: number
   ): Promise<string[]> {
-    const envConfig = Config.getEnvironmentConfig(environment);
     const tablePrefix = siteId === 1 ? 'wp_' : `wp_${siteId}_`;
 
     try {
-      const output = execSync(
-        this.buildMysqlCommand(envConfig, [
-          '-e',
-          `"SHOW TABLES LIKE '${tablePrefix}%'"`,
-          '-s',
-        ]),
-        {
-          encoding: 'utf8',
-          env: {
-            ...process.env,
-            MYSQL_PWD: envConfig.password,
-            PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-          },
-        }
+      const rows = await DbConnectionManager.get(environment).query(
+        'SHOW TABLES LIKE ?',
+        [SqlBuilder.startsWithPattern(tablePrefix)]
       );
 
-      return output
-        .trim()
-        .split('\n')
-        .filter((line) => line.trim().length > 0)
+      return rows
+        .map((row) => String(Object.values(row)[0]))
         .filter((tableName) => {
           // Exclude network tables for individual site backups
           const networkTables = [
@@ -473,49 +491,75 @@ export class BackupRecovery {
     }
   }
 
-  static async restoreFromBackup(
+  static loadBackupMetadata(
     backupId: string,
-    targetEnvironment: string,
-    options: RestoreOptions = {}
-  ): Promise<RestoreResult> {
-    const backupDir = join(this.getBackupDirectory(), backupId);
-    const metadataPath = join(backupDir, 'metadata.json');
+    workDir?: string
+  ): BackupMetadata {
+    const metadataPath = join(
+      this.getBackupDirectory(workDir),
+      backupId,
+      'metadata.json'
+    );
 
     if (!existsSync(metadataPath)) {
       throw new Error(`Backup metadata not found: ${metadataPath}`);
     }
 
-    const metadata: BackupMetadata = JSON.parse(
-      readFileSync(metadataPath, 'utf8')
-    );
+    return JSON.parse(readFileSync(metadataPath, 'utf8'));
+  }
+
+  static async restoreFromBackup(
+    backupId: string,
+    targetEnvironment: string,
+    options: RestoreOptions = {}
+  ): Promise<RestoreResult> {
+    const metadata = this.loadBackupMetadata(backupId, options.workDir);
+    const log = options.quiet ? () => undefined : console.log;
     const errors: string[] = [];
     let restoredNetworkTables = false;
     const restoredSites: number[] = [];
     const failedSites: number[] = [];
 
-    console.log(
+    log(
       chalk.blue(
         `Restoring from backup ${backupId} to environment '${targetEnvironment}'...`
       )
     );
 
     // Verify backup integrity
-    console.log(chalk.gray('  Verifying backup integrity...'));
-    const integrityCheck = this.verifyBackupIntegrity(metadata);
+    log(chalk.gray('  Verifying backup integrity...'));
+    const integrityCheck = await this.verifyBackupIntegrity(metadata);
     if (!integrityCheck.valid) {
       errors.push(
         `Backup integrity check failed: ${integrityCheck.errors.join(', ')}`
       );
-      console.log(chalk.red(`  ✗ Backup integrity check failed`));
+      log(chalk.red(`  ✗ Backup integrity check failed`));
 
       if (!options.skipConfirmation) {
-        console.log(
-          chalk.yellow('  Backup may be corrupted. Continue anyway? (y/N)')
-        );
+        log(chalk.yellow('  Backup may be corrupted. Continue anyway? (y/N)'));
         // Add confirmation logic here if needed
       }
     } else {
-      console.log(chalk.green('  ✓ Backup integrity verified'));
+      log(chalk.green('  ✓ Backup integrity verified'));
+    }
+
+    const scheme = BackupArtifact.getScheme(metadata);
+    let key: Buffer | undefined;
+    if (scheme.encryption) {
+      try {
+        key = BackupArtifact.deriveKey(scheme.encryption);
+      } catch (error) {
+        const errorMessage = `Cannot decrypt backup: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        errors.push(errorMessage);
+        log(chalk.red(`  ✗ ${errorMessage}`));
+        return {
+          success: false,
+          restoredNetworkTables,
+          restoredSites,
+          failedSites: options.sites || metadata.sites,
+          errors,
+        };
+      }
     }
 
     // Restore network tables if requested
@@ -524,26 +568,32 @@ export class BackupRecovery {
       metadata.backupPaths.networkTablesFile
     ) {
       try {
-        console.log(chalk.gray('  Restoring network tables...'));
-        await NetworkTableOperations.importNetworkTables(
+        log(chalk.gray('  Restoring network tables...'));
+        await this.withPlainSql(
           metadata.backupPaths.networkTablesFile,
-          targetEnvironment,
-          true,
-          options.timeout || 20
+          scheme,
+          key,
+          (sqlFile) =>
+            NetworkTableOperations.importNetworkTables(
+              sqlFile,
+              targetEnvironment,
+              true,
+              options.timeout || 20
+            )
         );
         restoredNetworkTables = true;
-        console.log(chalk.green('  ✓ Network tables restored successfully'));
+        log(chalk.green('  ✓ Network tables restored successfully'));
       } catch (error) {
         const errorMessage = `Network tables restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
         errors.push(errorMessage);
-        console.log(chalk.red(`  ✗ ${errorMessage}`));
+        log(chalk.red(`  ✗ ${errorMessage}`));
       }
     }
 
     // Restore sites
     const sitesToRestore = options.sites || metadata.sites;
     if (sitesToRestore.length > 0) {
-      console.log(chalk.gray(`  Restoring ${sitesToRestore.length} sites...`));
+      log(chalk.gray(`  Restoring ${sitesToRestore.length} sites...`));
 
       for (const siteId of sitesToRestore) {
         if (
@@ -551,36 +601,40 @@ export class BackupRecovery {
           existsSync(metadata.backupPaths.sitesFiles[siteId])
         ) {
           try {
-            await this.restoreSiteTables(
+            await this.withPlainSql(
               metadata.backupPaths.sitesFiles[siteId],
-              targetEnvironment,
-              siteId,
-              options.timeout || 20
+              scheme,
+              key,
+              (sqlFile) =>
+                this.restoreSiteTables(
+                  sqlFile,
+                  targetEnvironment,
+                  siteId,
+                  options.timeout || 20
+                )
             );
             restoredSites.push(siteId);
-            console.log(
-              chalk.green(`    ✓ Site ${siteId} restored successfully`)
-            );
+            log(chalk.green(`    ✓ Site ${siteId} restored successfully`));
           } catch (error) {
             const errorMessage = `Site ${siteId} restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
             errors.push(errorMessage);
             failedSites.push(siteId);
-            console.log(chalk.red(`    ✗ ${errorMessage}`));
+            log(chalk.red(`    ✗ ${errorMessage}`));
           }
         } else {
           const errorMessage = `Backup file not found for site ${siteId}`;
           errors.push(errorMessage);
           failedSites.push(siteId);
-          console.log(chalk.red(`    ✗ ${errorMessage}`));
+          log(chalk.red(`    ✗ ${errorMessage}`));
         }
       }
     }
 
     const success = errors.length === 0;
     if (success) {
-      console.log(chalk.green('✓ Backup restoration completed successfully'));
+      log(chalk.green('✓ Backup restoration completed successfully'));
     } else {
-      console.log(
+      log(
         chalk.yellow(
           `⚠ Backup restoration completed with ${errors.length} errors`
         )
@@ -612,19 +666,12 @@ export class BackupRecovery {
     }
 
     try {
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            timeout: timeoutMinutes * 60 * 1000,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { timeout: timeoutMinutes * 60 * 1000 };
       execSync(
-        `${this.buildMysqlCommand(envConfig)} < "${backupFilePath}"`,
-        execOptions
+        `${MysqlCli.buildCommand(envConfig, [], true)} < "${backupFilePath}"`,
+        {
+          timeout: timeoutMinutes * 60 * 1000,
+          ...MysqlCli.getExecEnv(envConfig),
+        }
       );
     } catch (error) {
       throw new Error(
@@ -633,10 +680,9 @@ export class BackupRecovery {
     }
   }
 
-  static verifyBackupIntegrity(metadata: BackupMetadata): {
-    valid: boolean;
-    errors: string[];
-  } {
+  static async verifyBackupIntegrity(
+    metadata: BackupMetadata
+  ): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
     // Check if metadata file exists
@@ -661,6 +707,21 @@ export class BackupRecovery {
       }
     }
 
+    // Check stored files match the recorded compression and encryption
+    const scheme = BackupArtifact.getScheme(metadata);
+    const files = Object.values(metadata.backupPaths.sitesFiles);
+    if (metadata.backupPaths.networkTablesFile) {
+      files.push(metadata.backupPaths.networkTablesFile);
+    }
+    for (const filePath of files) {
+      if (existsSync(filePath)) {
+        const formatError = BackupArtifact.checkFormat(filePath, scheme);
+        if (formatError) {
+          errors.push(formatError);
+        }
+      }
+    }
+
     // Verify checksums if available
     for (const [fileName, expectedChecksum] of Object.entries(
       metadata.checksums
@@ -680,9 +741,7 @@ export class BackupRecovery {
 
       if (filePath && existsSync(filePath)) {
         try {
-          const actualChecksum = execSync(`shasum -a 256 "${filePath}"`, {
-            encoding: 'utf8',
-          }).split(' ')[0];
+          const actualChecksum = await BackupArtifact.checksum(filePath);
           if (actualChecksum !== expectedChecksum) {
             errors.push(
               `Checksum mismatch for ${fileName}: expected ${expectedChecksum}, got ${actualChecksum}`
@@ -708,7 +767,8 @@ export class BackupRecovery {
       const entries = readdirSync(backupDir, { withFileTypes: true });
 
       for (const entry of entries) {
-        if (entry.isDirectory()) {
+        // Hidden directories are offsite downloads still in progress
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
           const metadataPath = join(backupDir, entry.name, 'metadata.json');
           if (existsSync(metadataPath)) {
             try {
@@ -749,4 +809,297 @@ export class BackupRecovery {
       return false;
     }
   }
+
+  /**
+   * Work out which backups and change snapshots the retention policy
+   * removes. Backups are grouped by environment and the set of sites they
+   * hold, snapshots by environment; within a group everything past the
+   * newest `keepLast` goes, as does anything older than `maxAgeDays`.
+   * `maxTotalSize` then drops the oldest remaining backups and snapshots
+   * until the rest fit. The newest of each group and backups an unfinished
+   * migration can still roll back to are never removed.
+   */
+  static planPrune(
+    policy: BackupRetentionPolicy,
+    workDir?: string,
+    now = new Date()
+  ): PrunePlan {
+    const backupDir = this.getBackupDirectory(workDir);
+    const backups = this.listAvailableBackups(workDir);
+    const snapshots = ChangeSnapshot.listSnapshots(workDir);
+    // Journals in the default migrations directory, plus the ones backups
+    // record, for migrations run with --work-dir
+    const journals = [
+      ...MigrationJournal.listMigrations(),
+      ...backups.map((backup) =>
+        backup.migrationJournal
+          ? MigrationJournal.read(backup.migrationJournal)
+          : undefined
+      ),
+    ];
+    const protectedIds = new Set(
+      journals
+        .filter(
+          (journal) =>
+            journal?.backupId &&
+            (journal.status === 'running' || journal.status === 'failed')
+        )
+        .map((journal) => journal!.backupId)
+    );
+    const entries = [
+      ...backups.map((backup) => ({
+        id: backup.backupId,
+        timestamp: backup.timestamp,
+        group: this.getRetentionGroup(backup),
+        label: `backups for ${this.getRetentionGroup(backup)}`,
+        size: getDirectorySize(join(backupDir, backup.backupId)),
+      })),
+      ...snapshots.map((snapshot) => ({
+        id: snapshot.snapshotId,
+        timestamp: snapshot.timestamp,
+        group: `${snapshot.environment} snapshots`,
+        label: `${snapshot.environment} snapshots`,
+        size: getDirectorySize(
+          join(backupDir, 'snapshots', snapshot.snapshotId)
+        ),
+      })),
+    ].sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+    const sizes = new Map(entries.map((entry) => [entry.id, entry.size]));
+
+    const reasons = new Map<string, string>();
+    const groupCounts = new Map<string, number>();
+    const newestInGroup = new Set<string>();
+
+    // Newest first
+    for (const entry of entries) {
+      const position = (groupCounts.get(entry.group) || 0) + 1;
+      groupCounts.set(entry.group, position);
+      if (position === 1) {
+        newestInGroup.add(entry.id);
+        continue;
+      }
+      if (protectedIds.has(entry.id)) {
+        continue;
+      }
+
+      const ageDays =
+        (now.getTime() - new Date(entry.timestamp).getTime()) /
+        (24 * 60 * 60 * 1000);
+      if (policy.keepLast && position > policy.keepLast) {
+        reasons.set(entry.id, `more than ${policy.keepLast} ${entry.label}`);
+      } else if (policy.maxAgeDays && ageDays > policy.maxAgeDays) {
+        reasons.set(
+          entry.id,
+          `older than ${policy.maxAgeDays} days (${Math.floor(ageDays)} days)`
+        );
+      }
+    }
+
+    if (policy.maxTotalSize) {
+      let totalSize = entries
+        .filter((entry) => !reasons.has(entry.id))
+        .reduce((sum, entry) => sum + entry.size, 0);
+      for (const entry of [...entries].reverse()) {
+        if (totalSize <= policy.maxTotalSize) {
+          break;
+        }
+        if (
+          reasons.has(entry.id) ||
+          newestInGroup.has(entry.id) ||
+          protectedIds.has(entry.id)
+        ) {
+          continue;
+        }
+        reasons.set(
+          entry.id,
+          `total size over ${formatBytes(policy.maxTotalSize)}`
+        );
+        totalSize -= entry.size;
+      }
+    }
+
+    const remove = backups
+      .filter((backup) => reasons.has(backup.backupId))
+      .map((backup) => ({
+        backup,
+        size: sizes.get(backup.backupId) || 0,
+        reason: reasons.get(backup.backupId)!,
+      }));
+    const removeSnapshots = snapshots
+      .filter((snapshot) => reasons.has(snapshot.snapshotId))
+      .map((snapshot) => ({
+        snapshot,
+        size: sizes.get(snapshot.snapshotId) || 0,
+        reason: reasons.get(snapshot.snapshotId)!,
+      }));
+    return {
+      remove,
+      keep: backups.filter((backup) => !reasons.has(backup.backupId)),
+      removeSnapshots,
+      keepSnapshots: snapshots.filter(
+        (snapshot) => !reasons.has(snapshot.snapshotId)
+      ),
+      reclaimedBytes: [...remove, ...removeSnapshots].reduce(
+        (sum, candidate) => sum + candidate.size,
+        0
+      ),
+    };
+  }
+
+  static async pruneBackups(
+    policy: BackupRetentionPolicy,
+    options: { dryRun?: boolean; workDir?: string } = {}
+  ): Promise<PruneResult> {
+    const plan = this.planPrune(policy, options.workDir);
+    const errors: string[] = [];
+
+    if (!options.dryRun) {
+      for (const candidate of plan.remove) {
+        if (
+          !(await this.deleteBackup(candidate.backup.backupId, options.workDir))
+        ) {
+          errors.push(`Could not delete ${candidate.backup.backupId}`);
+        }
+      }
+      for (const { snapshot } of plan.removeSnapshots) {
+        if (
+          !ChangeSnapshot.deleteSnapshot(snapshot.snapshotId, options.workDir)
+        ) {
+          errors.push(`Could not delete ${snapshot.snapshotId}`);
+        }
+      }
+    }
+
+    return { ...plan, dryRun: Boolean(options.dryRun), errors };
+  }
+
+  static hasRetentionRules(policy: BackupRetentionPolicy): boolean {
+    return Boolean(policy.keepLast || policy.maxAgeDays || policy.maxTotalSize);
+  }
+
+  // Label used to group backups for keepLast, e.g. "uat site 43"
+  static getRetentionGroup(backup: BackupMetadata): string {
+    const parts = [backup.environment];
+    if (backup.networkTables.length > 0) {
+      parts.push('network');
+    }
+    const sites = [...backup.sites].sort((a, b) => a - b);
+    if (sites.length > 0) {
+      parts.push(
+        sites.length === 1 ? `site ${sites[0]}` : `sites ${sites.join(',')}`
+      );
+    }
+    return parts.join(' ');
+  }
+
+  // Compress and/or encrypt a fresh dump; plain schemes leave it untouched
+  private static async storeBackupFile(
+    filePath: string,
+    size: number,
+    scheme: BackupArtifactScheme,
+    key?: Buffer
+  ): Promise<{ path: string; size: number }> {
+    if (BackupArtifact.isPlain(scheme)) {
+      return { path: filePath, size };
+    }
+    try {
+      const storedPath = await BackupArtifact.encode(filePath, scheme, key);
+      return { path: storedPath, size: statSync(storedPath).size };
+    } catch (error) {
+      // Don't leave the unencrypted dump behind
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+      throw error;
+    }
+  }
+
+  // Imports need plain SQL, so stored files are decoded to a private file
+  // beside them for the duration of the import
+  private static async withPlainSql<T>(
+    storedPath: string,
+    scheme: BackupArtifactScheme,
+    key: Buffer | undefined,
+    importFile: (sqlFile: string) => Promise<T>
+  ): Promise<T> {
+    if (BackupArtifact.isPlain(scheme)) {
+      return importFile(storedPath);
+    }
+
+    const plainPath = join(
+      dirname(storedPath),
+      `.restore-${basename(storedPath)}.sql`
+    );
+    try {
+      await BackupArtifact.decode(storedPath, plainPath, scheme, key);
+      return await importFile(plainPath);
+    } finally {
+      if (existsSync(plainPath)) {
+        unlinkSync(plainPath);
+      }
+    }
+  }
+
+  // A failed upload leaves the local backup usable, so it only warns
+  private static async replicateOffsite(
+    backupId: string,
+    workDir?: string,
+    verbose = false
+  ): Promise<void> {
+    if (!Config.isOffsiteBackupEnabled()) {
+      return;
+    }
+
+    try {
+      const result = await BackupReplication.uploadBackup(backupId, {
+        workDir,
+        verbose,
+      });
+      if (verbose) {
+        console.log(chalk.gray(`  Copied offsite to ${result.location}`));
+      }
+    } catch (error) {
+      console.log(
+        chalk.yellow(
+          `  Warning: offsite copy failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+    }
+  }
+
+  // Prune with the configured policy after a backup; a failure here must not
+  // fail the backup that was just taken (always the newest in its group)
+  private static async applyRetention(
+    workDir?: string,
+    verbose = false
+  ): Promise<void> {
+    const policy = Config.getBackupRetention();
+    if (!this.hasRetentionRules(policy)) {
+      return;
+    }
+
+    try {
+      const result = await this.pruneBackups(policy, { workDir });
+      const removed = result.remove.length + result.removeSnapshots.length;
+      if (verbose && removed > 0) {
+        console.log(
+          chalk.gray(
+            `  Pruned ${removed} old backups and snapshots (${formatBytes(result.reclaimedBytes)})`
+          )
+        );
+      }
+      for (const error of result.errors) {
+        console.log(chalk.yellow(`  Warning: ${error}`));
+      }
+    } catch (error) {
+      console.log(
+        chalk.yellow(
+          `  Warning: backup pruning failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+    }
+  }
 }
@@ -0,0 +1,277 @@
+import { existsSync, mkdtempSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import chalk from 'chalk';
+import { BackupMetadata, BackupRecovery } from './backup-recovery';
+import { Config } from './config';
+import { S3Storage, S3StorageManager } from './s3-storage';
+
+export interface ReplicationOptions {
+  workDir?: string;
+  verbose?: boolean;
+  // Download the uploaded copy again and check it against the checksums
+  verify?: boolean;
+}
+
+export interface ReplicationResult {
+  backupId: string;
+  location: string;
+  files: string[];
+  verified: boolean;
+}
+
+/**
+ * Offsite copies of BackupRecovery backups in s3.bucket, one key prefix per
+ * backup holding the SQL files and metadata.json. metadata.json is uploaded
+ * last and downloads are staged in a hidden directory, so a partial copy is
+ * never listed.
+ */
+export class BackupReplication {
+  static getRemoteLocation(backupId?: string): string {
+    const s3Config = Config.getS3Config();
+    if (!Config.hasRequiredS3Config()) {
+      throw new Error(
+        'S3 configuration is incomplete. Run "wfuwp config set s3.bucket <bucket>" to set up.'
+      );
+    }
+    const location = `s3://${s3Config.bucket}/${Config.getOffsiteBackupPrefix()}/`;
+    return backupId ? `${location}${backupId}/` : location;
+  }
+
+  static async uploadBackup(
+    backupId: string,
+    options: ReplicationOptions = {}
+  ): Promise<ReplicationResult> {
+    const metadata = BackupRecovery.loadBackupMetadata(
+      backupId,
+      options.workDir
+    );
+    const location = this.getRemoteLocation(backupId);
+    const { bucket, prefix } = S3StorageManager.parseLocation(location);
+    const files = this.getBackupFiles(metadata);
+
+    for (const file of files) {
+      if (!existsSync(file)) {
+        throw new Error(`Backup file missing: ${file}`);
+      }
+    }
+
+    for (const file of [...files, metadata.backupPaths.metadataFile]) {
+      if (options.verbose) {
+        console.log(chalk.gray(`  Uploading ${basename(file)}...`));
+      }
+      await this.getStorage().uploadFile(
+        file,
+        bucket,
+        `${prefix}${basename(file)}`
+      );
+    }
+
+    if (options.verify !== false) {
+      const integrity = await this.verifyRemoteBackup(backupId);
+      if (!integrity.valid) {
+        throw new Error(
+          `Offsite copy of ${backupId} failed verification: ${integrity.errors.join(', ')}`
+        );
+      }
+    }
+
+    return {
+      backupId,
+      location,
+      files: [...files, metadata.backupPaths.metadataFile].map((file) =>
+        basename(file)
+      ),
+      verified: options.verify !== false,
+    };
+  }
+
+  // Newest first, like BackupRecovery.listAvailableBackups. Only backups
+  // whose metadata.json was uploaded are listed.
+  static async listRemoteBackups(): Promise<BackupMetadata[]> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(
+      this.getRemoteLocation()
+    );
+    const backupIds = (await this.getStorage().listObjects(bucket, prefix))
+      .map((object) => object.key.slice(prefix.length).split('/'))
+      .filter((parts) => parts.length === 2 && parts[1] === 'metadata.json')
+      .map(([backupId]) => backupId);
+
+    const backups: BackupMetadata[] = [];
+    for (const backupId of backupIds) {
+      try {
+        backups.push(await this.loadRemoteMetadata(backupId));
+      } catch {
+        // Skip uploads that never completed
+      }
+    }
+
+    return backups.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  static async loadRemoteMetadata(backupId: string): Promise<BackupMetadata> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(
+      this.getRemoteLocation(backupId)
+    );
+    let output: string;
+    try {
+      output = await this.getStorage().getObjectText(
+        bucket,
+        `${prefix}metadata.json`
+      );
+    } catch {
+      throw new Error(`Offsite backup not found: ${backupId}`);
+    }
+    return JSON.parse(output);
+  }
+
+  /**
+   * Download the offsite copy to a scratch directory and check every file
+   * against the checksums recorded when the backup was taken.
+   */
+  static async verifyRemoteBackup(
+    backupId: string
+  ): Promise<{ valid: boolean; errors: string[] }> {
+    const scratchDir = mkdtempSync(join(tmpdir(), 'wfuwp-backup-verify-'));
+    try {
+      const metadata = await this.fetchBackup(backupId, scratchDir);
+      return await this.verifyFetchedBackup(metadata);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      };
+    } finally {
+      rmSync(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Copy an offsite backup into the local backup directory so it can be
+   * listed, verified and restored like any other. A backup that is already
+   * present locally is left as it is.
+   */
+  static async downloadBackup(
+    backupId: string,
+    options: ReplicationOptions = {}
+  ): Promise<BackupMetadata> {
+    const backupRoot = BackupRecovery.getBackupDirectory(options.workDir);
+    const backupDir = join(backupRoot, backupId);
+    if (existsSync(join(backupDir, 'metadata.json'))) {
+      return BackupRecovery.loadBackupMetadata(backupId, options.workDir);
+    }
+
+    // Staged beside the final directory so the move is a rename
+    const stagingDir = mkdtempSync(join(backupRoot, `.${backupId}-`));
+    try {
+      const staged = await this.fetchBackup(
+        backupId,
+        stagingDir,
+        options.verbose
+      );
+      const integrity = await this.verifyFetchedBackup(staged);
+      if (!integrity.valid) {
+        throw new Error(
+          `Offsite copy of ${backupId} failed verification: ${integrity.errors.join(', ')}`
+        );
+      }
+
+      rmSync(backupDir, { recursive: true, force: true });
+      renameSync(stagingDir, backupDir);
+      const metadata = this.localizeMetadata(staged, backupDir);
+      writeFileSync(
+        metadata.backupPaths.metadataFile,
+        JSON.stringify(metadata, null, 2)
+      );
+      return metadata;
+    } catch (error) {
+      rmSync(stagingDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  // Downloads the backup into directory, with metadata.json rewritten to
+  // point at the downloaded files
+  private static async fetchBackup(
+    backupId: string,
+    directory: string,
+    verbose = false
+  ): Promise<BackupMetadata> {
+    const remote = await this.loadRemoteMetadata(backupId);
+    const { bucket, prefix } = S3StorageManager.parseLocation(
+      this.getRemoteLocation(backupId)
+    );
+    const metadata = this.localizeMetadata(remote, directory);
+
+    for (const file of this.getBackupFiles(metadata)) {
+      if (verbose) {
+        console.log(chalk.gray(`  Downloading ${basename(file)}...`));
+      }
+      await this.getStorage().downloadFile(
+        bucket,
+        `${prefix}${basename(file)}`,
+        file
+      );
+    }
+    writeFileSync(
+      metadata.backupPaths.metadataFile,
+      JSON.stringify(metadata, null, 2)
+    );
+    return metadata;
+  }
+
+  // Unlike a local verify, every file must have a recorded checksum
+  private static async verifyFetchedBackup(
+    metadata: BackupMetadata
+  ): Promise<{ valid: boolean; errors: string[] }> {
+    const errors = this.getBackupFiles(metadata)
+      .map((file) => basename(file))
+      .filter((file) => !metadata.checksums[file])
+      .map((file) => `No checksum recorded for ${file}`);
+    errors.push(
+      ...(await BackupRecovery.verifyBackupIntegrity(metadata)).errors
+    );
+    return { valid: errors.length === 0, errors };
+  }
+
+  // Backup paths are absolute, so they are rewritten for wherever the copy is
+  private static localizeMetadata(
+    metadata: BackupMetadata,
+    directory: string
+  ): BackupMetadata {
+    const localPath = (file: string): string => join(directory, basename(file));
+    const localized: BackupMetadata = {
+      ...metadata,
+      backupPaths: {
+        sitesFiles: Object.fromEntries(
+          Object.entries(metadata.backupPaths.sitesFiles).map(
+            ([siteId, file]) => [siteId, localPath(file)]
+          )
+        ),
+        metadataFile: join(directory, 'metadata.json'),
+      },
+    };
+    if (metadata.backupPaths.networkTablesFile) {
+      localized.backupPaths.networkTablesFile = localPath(
+        metadata.backupPaths.networkTablesFile
+      );
+    }
+    return localized;
+  }
+
+  private static getBackupFiles(metadata: BackupMetadata): string[] {
+    const files = Object.values(metadata.backupPaths.sitesFiles);
+    if (metadata.backupPaths.networkTablesFile) {
+      files.unshift(metadata.backupPaths.networkTablesFile);
+    }
+    return files;
+  }
+
+  // s3.bucket, with s3.endpoint and s3.region applied
+  private static getStorage(): S3Storage {
+    return S3StorageManager.getForConfiguredBucket();
+  }
+}
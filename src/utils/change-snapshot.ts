@@ -0,0 +1,559 @@
+import { execFileSync, execSync } from 'child_process';
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { userInfo } from 'os';
+import { basename, dirname, join } from 'path';
+import chalk from 'chalk';
+import {
+  BackupArtifact,
+  BackupArtifactScheme,
+  BackupEncryption,
+} from './backup-artifact';
+import { BackupRecovery } from './backup-recovery';
+import { BackupCompression, Config } from './config';
+import { DbConnectionManager } from './db-connection';
+import { MysqlCli } from './mysql-cli';
+
+export interface ChangeSnapshotMetadata {
+  snapshotId: string;
+  timestamp: string;
+  environment: string;
+  // The command line that took the snapshot, and who ran it
+  command: string;
+  user: string;
+  // Tables dumped into the snapshot file
+  tables: string[];
+  // Tables the command was about to create; undo drops them
+  absentTables: string[];
+  // Tables of which only some rows were dumped, with the WHERE condition
+  // that picks them; undo deletes those rows and inserts the dumped ones
+  rows?: Record<string, string>;
+  // Set for snapshots of a DDEV project's whole database, taken and put
+  // back with ddev export-db and import-db in this directory
+  ddevProject?: string;
+  // Stored dump, absent when none of the tables existed yet
+  file?: string;
+  size: number;
+  // sha256 of the file as stored, i.e. after compression and encryption
+  checksum?: string;
+  compression?: BackupCompression;
+  encryption?: BackupEncryption;
+  undoneAt?: string;
+}
+
+export interface SnapshotOptions {
+  workDir?: string;
+  timeout?: number;
+  // Only snapshot the rows of these tables that match the WHERE condition,
+  // e.g. one site's wp_blogs row, so undo leaves the other rows alone
+  rows?: Record<string, string>;
+  // Snapshot the DDEV project in this directory rather than a configured
+  // environment's database, e.g. for local reset
+  ddevProject?: string;
+}
+
+export interface SnapshotGuardOptions extends SnapshotOptions {
+  // false when the command was run with --no-backup
+  backup?: boolean;
+  verbose?: boolean;
+  // Suppress progress output, e.g. for JSON output
+  quiet?: boolean;
+  // Asked when the snapshot fails; resolve true to go ahead without one
+  proceedWithoutSnapshot?: (error: Error) => Promise<boolean>;
+}
+
+const METADATA_FILE = 'metadata.json';
+const DUMP_FILE = 'tables.sql';
+
+/**
+ * Point-in-time copies of the tables a destructive command is about to
+ * touch, taken just before it writes. Each snapshot lives in its own
+ * directory under <backup directory>/snapshots and is stored with the
+ * configured backup compression and encryption. `wfuwp undo <snapshot-id>`
+ * puts the tables back.
+ */
+export class ChangeSnapshot {
+  static generateSnapshotId(): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')
+      .slice(0, 19);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `snapshot-${timestamp}-${random}`;
+  }
+
+  static getSnapshotDirectory(workDir?: string): string {
+    const snapshotDir = join(
+      BackupRecovery.getBackupDirectory(workDir),
+      'snapshots'
+    );
+    if (!existsSync(snapshotDir)) {
+      mkdirSync(snapshotDir, { recursive: true });
+    }
+    return snapshotDir;
+  }
+
+  /**
+   * Dump the given tables of an environment, or every table when none are
+   * given. Tables that don't exist yet are recorded rather than dumped.
+   */
+  static async capture(
+    environment: string,
+    tables?: string[],
+    options: SnapshotOptions = {}
+  ): Promise<ChangeSnapshotMetadata> {
+    const { ddevProject } = options;
+    if (!ddevProject && !Config.hasRequiredEnvironmentConfig(environment)) {
+      throw new Error(`Environment '${environment}' is not configured`);
+    }
+
+    // DDEV snapshots hold the whole database, so no tables are listed
+    const existing = ddevProject ? [] : await this.listTables(environment);
+    const rowTables = Object.keys(options.rows || {});
+    const requested = (tables ? [...new Set(tables)] : existing).filter(
+      (table) => !rowTables.includes(table)
+    );
+    const snapshotId = this.generateSnapshotId();
+    const snapshotDir = join(
+      this.getSnapshotDirectory(options.workDir),
+      snapshotId
+    );
+    mkdirSync(snapshotDir, { recursive: true });
+
+    const metadata: ChangeSnapshotMetadata = {
+      snapshotId,
+      timestamp: new Date().toISOString(),
+      environment,
+      command: this.describeCommandLine(),
+      user: this.getUser(),
+      tables: requested.filter((table) => existing.includes(table)),
+      absentTables: ddevProject
+        ? []
+        : requested.filter((table) => !existing.includes(table)),
+      ...(ddevProject ? { ddevProject } : {}),
+      size: 0,
+    };
+    const rows = Object.entries(options.rows || {}).filter(
+      ([table]) => !ddevProject && existing.includes(table)
+    );
+    if (rows.length > 0) {
+      metadata.rows = Object.fromEntries(rows);
+    }
+
+    try {
+      if (metadata.tables.length > 0 || rows.length > 0 || ddevProject) {
+        const scheme = BackupArtifact.createScheme(
+          Config.getBackupCompression(),
+          Config.getBackupEncryption()
+        );
+        const key = scheme.encryption
+          ? BackupArtifact.deriveKey(scheme.encryption)
+          : undefined;
+        if (scheme.compression !== 'none') {
+          metadata.compression = scheme.compression;
+        }
+        if (scheme.encryption) {
+          metadata.encryption = scheme.encryption;
+        }
+
+        const dumpPath = join(snapshotDir, DUMP_FILE);
+        if (ddevProject) {
+          this.runDdev(
+            ddevProject,
+            ['export-db', '--gzip=false', `--file=${dumpPath}`],
+            options.timeout || 20
+          );
+        } else {
+          if (metadata.tables.length > 0) {
+            this.dumpTables(
+              environment,
+              metadata.tables,
+              dumpPath,
+              options.timeout || 20
+            );
+          }
+          // The DELETE goes in the dump, so undo swaps the rows in one import
+          for (const [table, where] of rows) {
+            appendFileSync(
+              dumpPath,
+              `DELETE FROM \`${table}\` WHERE ${where};\n`,
+              { mode: 0o600 }
+            );
+            this.dumpTables(
+              environment,
+              [table],
+              dumpPath,
+              options.timeout || 20,
+              where
+            );
+          }
+        }
+        const storedPath = await BackupArtifact.encode(dumpPath, scheme, key);
+        metadata.file = storedPath;
+        metadata.size = statSync(storedPath).size;
+        metadata.checksum = await BackupArtifact.checksum(storedPath);
+      }
+
+      writeFileSync(
+        join(snapshotDir, METADATA_FILE),
+        JSON.stringify(metadata, null, 2)
+      );
+    } catch (error) {
+      // A snapshot without metadata can't be undone, so don't keep it
+      rmSync(snapshotDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * What destructive commands call before they write: takes the snapshot
+   * unless --no-backup was given, and reports how to undo. When it fails the
+   * command stops unless proceedWithoutSnapshot says otherwise.
+   */
+  static async beforeChange(
+    environment: string,
+    tables: string[] | undefined,
+    options: SnapshotGuardOptions = {}
+  ): Promise<ChangeSnapshotMetadata | null> {
+    const log = options.quiet ? () => undefined : console.log;
+    if (options.backup === false) {
+      if (options.verbose) {
+        log(chalk.gray('Skipping snapshot (--no-backup specified)'));
+      }
+      return null;
+    }
+
+    log(
+      chalk.gray(
+        options.ddevProject
+          ? `Snapshotting the DDEV database in ${options.ddevProject}...`
+          : tables
+            ? `Snapshotting ${tables.length} tables in ${environment}...`
+            : `Snapshotting all tables in ${environment}...`
+      )
+    );
+    try {
+      const snapshot = await this.capture(environment, tables, options);
+      log(
+        chalk.green(
+          `✓ Snapshot ${snapshot.snapshotId} saved. Undo with: wfuwp undo ${snapshot.snapshotId}`
+        )
+      );
+      return snapshot;
+    } catch (error) {
+      const failure = new Error(
+        `Snapshot failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      if (options.proceedWithoutSnapshot) {
+        console.error(chalk.red(`❌ ${failure.message}`));
+        if (await options.proceedWithoutSnapshot(failure)) {
+          log(chalk.yellow('Continuing without a snapshot'));
+          return null;
+        }
+      }
+      throw new Error(
+        `${failure.message}. Re-run with --no-backup to go ahead without one`
+      );
+    }
+  }
+
+  static loadSnapshot(
+    snapshotId: string,
+    workDir?: string
+  ): ChangeSnapshotMetadata {
+    const metadataPath = join(
+      this.getSnapshotDirectory(workDir),
+      snapshotId,
+      METADATA_FILE
+    );
+    if (!existsSync(metadataPath)) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return JSON.parse(readFileSync(metadataPath, 'utf8'));
+  }
+
+  static listSnapshots(workDir?: string): ChangeSnapshotMetadata[] {
+    const snapshotDir = this.getSnapshotDirectory(workDir);
+    const snapshots: ChangeSnapshotMetadata[] = [];
+
+    for (const entry of readdirSync(snapshotDir, { withFileTypes: true })) {
+      const metadataPath = join(snapshotDir, entry.name, METADATA_FILE);
+      if (entry.isDirectory() && existsSync(metadataPath)) {
+        try {
+          snapshots.push(JSON.parse(readFileSync(metadataPath, 'utf8')));
+        } catch {
+          // Skip invalid metadata files
+        }
+      }
+    }
+
+    return snapshots.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  static deleteSnapshot(snapshotId: string, workDir?: string): boolean {
+    const snapshotDir = join(this.getSnapshotDirectory(workDir), snapshotId);
+    if (!existsSync(snapshotDir)) {
+      return false;
+    }
+    rmSync(snapshotDir, { recursive: true, force: true });
+    return true;
+  }
+
+  static async verifySnapshot(metadata: ChangeSnapshotMetadata): Promise<{
+    valid: boolean;
+    errors: string[];
+  }> {
+    const errors: string[] = [];
+    if (metadata.file) {
+      if (!existsSync(metadata.file)) {
+        errors.push(`Snapshot file missing: ${basename(metadata.file)}`);
+      } else if (
+        metadata.checksum !== (await BackupArtifact.checksum(metadata.file))
+      ) {
+        errors.push(`Checksum mismatch for ${basename(metadata.file)}`);
+      } else {
+        const formatError = BackupArtifact.checkFormat(
+          metadata.file,
+          BackupArtifact.getScheme(metadata)
+        );
+        if (formatError) {
+          errors.push(formatError);
+        }
+      }
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Put the snapshot's tables back as they were and drop the tables the
+   * command created. The snapshot is kept and marked as undone.
+   */
+  static async undo(
+    snapshotId: string,
+    options: SnapshotOptions = {}
+  ): Promise<ChangeSnapshotMetadata> {
+    const metadata = this.loadSnapshot(snapshotId, options.workDir);
+    const { environment } = metadata;
+    if (
+      !metadata.ddevProject &&
+      !Config.hasRequiredEnvironmentConfig(environment)
+    ) {
+      throw new Error(`Environment '${environment}' is not configured`);
+    }
+
+    const integrity = await this.verifySnapshot(metadata);
+    if (!integrity.valid) {
+      throw new Error(
+        `Snapshot ${snapshotId} failed verification: ${integrity.errors.join(', ')}`
+      );
+    }
+
+    if (metadata.file) {
+      const scheme = BackupArtifact.getScheme(metadata);
+      let key: Buffer | undefined;
+      if (scheme.encryption) {
+        try {
+          key = BackupArtifact.deriveKey(scheme.encryption);
+        } catch (error) {
+          throw new Error(
+            `Cannot decrypt snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+      await this.importFile(
+        metadata.file,
+        scheme,
+        key,
+        metadata,
+        options.timeout || 20
+      );
+    }
+
+    for (const table of metadata.absentTables) {
+      await DbConnectionManager.get(environment).execute(
+        'DROP TABLE IF EXISTS ??',
+        [table]
+      );
+    }
+
+    metadata.undoneAt = new Date().toISOString();
+    writeFileSync(
+      join(
+        this.getSnapshotDirectory(options.workDir),
+        snapshotId,
+        METADATA_FILE
+      ),
+      JSON.stringify(metadata, null, 2)
+    );
+    return metadata;
+  }
+
+  private static async listTables(environment: string): Promise<string[]> {
+    const rows =
+      await DbConnectionManager.get(environment).query('SHOW TABLES');
+    return rows.map((row) => String(Object.values(row)[0]));
+  }
+
+  // mysqldump writes straight to the file, so no shell sees the table names.
+  // With a WHERE condition only the matching rows are appended to the file.
+  private static dumpTables(
+    environment: string,
+    tables: string[],
+    outputPath: string,
+    timeoutMinutes: number,
+    where?: string
+  ): void {
+    const envConfig = Config.getEnvironmentConfig(environment);
+    const native = MysqlCli.hasNativeClient();
+    const host =
+      !native &&
+      (envConfig.host === '127.0.0.1' || envConfig.host === 'localhost')
+        ? 'host.docker.internal'
+        : envConfig.host || '';
+    const dumpArgs = [
+      '--single-transaction',
+      '--lock-tables=false',
+      '--no-tablespaces',
+      ...(where
+        ? ['--no-create-info', `--where=${where}`]
+        : ['--add-drop-table']),
+      '--complete-insert',
+      '-h',
+      host,
+      ...(envConfig.port ? [`--port=${envConfig.port}`] : []),
+      '-u',
+      envConfig.user || '',
+      envConfig.database || '',
+      ...tables,
+    ];
+    const [command, args] = native
+      ? ['mysqldump', dumpArgs]
+      : [
+          'docker',
+          [
+            'run',
+            '--rm',
+            '-e',
+            'MYSQL_PWD',
+            'mysql:8.0',
+            'mysqldump',
+            ...dumpArgs,
+          ],
+        ];
+
+    const fd = openSync(outputPath, where ? 'a' : 'w', 0o600);
+    try {
+      execFileSync(command, args, {
+        stdio: ['ignore', fd, 'pipe'],
+        timeout: timeoutMinutes * 60 * 1000,
+        env: {
+          ...process.env,
+          MYSQL_PWD: envConfig.password,
+          PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
+        },
+      });
+    } catch (error) {
+      closeSync(fd);
+      unlinkSync(outputPath);
+      const stderr = String((error as { stderr?: Buffer }).stderr || '').trim();
+      throw new Error(
+        `mysqldump failed: ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`
+      );
+    }
+    closeSync(fd);
+  }
+
+  // Imports need plain SQL, so stored files are decoded beside themselves
+  private static async importFile(
+    storedPath: string,
+    scheme: BackupArtifactScheme,
+    key: Buffer | undefined,
+    metadata: ChangeSnapshotMetadata,
+    timeoutMinutes: number
+  ): Promise<void> {
+    const plain = BackupArtifact.isPlain(scheme);
+    const sqlFile = plain
+      ? storedPath
+      : join(dirname(storedPath), `.undo-${basename(storedPath)}.sql`);
+
+    try {
+      if (!plain) {
+        await BackupArtifact.decode(storedPath, sqlFile, scheme, key);
+      }
+      if (metadata.ddevProject) {
+        this.runDdev(
+          metadata.ddevProject,
+          ['import-db', `--file=${sqlFile}`],
+          timeoutMinutes
+        );
+      } else {
+        const envConfig = Config.getEnvironmentConfig(metadata.environment);
+        execSync(
+          `${MysqlCli.buildCommand(envConfig, [], true)} < "${sqlFile}"`,
+          {
+            timeout: timeoutMinutes * 60 * 1000,
+            ...MysqlCli.getExecEnv(envConfig),
+          }
+        );
+      }
+    } catch (error) {
+      throw new Error(
+        `Undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      if (!plain && existsSync(sqlFile)) {
+        unlinkSync(sqlFile);
+      }
+    }
+  }
+
+  private static runDdev(
+    projectDir: string,
+    args: string[],
+    timeoutMinutes: number
+  ): void {
+    try {
+      execFileSync('ddev', args, {
+        cwd: projectDir,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: timeoutMinutes * 60 * 1000,
+      });
+    } catch (error) {
+      const stderr = String((error as { stderr?: Buffer }).stderr || '').trim();
+      throw new Error(
+        `ddev ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`
+      );
+    }
+  }
+
+  private static describeCommandLine(): string {
+    const args = process.argv
+      .slice(2)
+      .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg)));
+    return ['wfuwp', ...args].join(' ');
+  }
+
+  private static getUser(): string {
+    try {
+      return userInfo().username;
+    } catch {
+      return process.env.USER || process.env.USERNAME || 'unknown';
+    }
+  }
+}
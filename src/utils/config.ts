@@ -2,8 +2,9 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 import * as crypto from 'crypto';
+import { parseBytes } from './disk-space';
 
-interface EnvironmentConfig {
+export interface EnvironmentConfig {
   host?: string;
   port?: string;
   user?: string;
@@ -19,6 +20,35 @@ export interface LocalConfig {
   backupBeforeRefresh?: boolean;
 }
 
+export interface MappingOverride {
+  urlReplacements?: Array<{ from: string; to: string }>;
+  s3Replacements?: Array<{ from: string; to: string }>;
+  replaceBuiltIn?: boolean;
+}
+
+export type DatabaseBackend = 'native' | 'cli';
+
+export type S3Backend = 'cli' | 'sdk';
+
+export type BackupCompression = 'none' | 'gzip' | 'zstd';
+
+// Where the backup encryption passphrase comes from; 'none' leaves files plain
+export type BackupKeySource = 'none' | 'passphrase' | 'keychain';
+
+// Whole-bucket syncs past any of these ask for a typed confirmation
+export interface BucketSyncThresholds {
+  overwrites: number;
+  deletes: number;
+  bytes: number;
+}
+
+export interface BackupRetentionPolicy {
+  // Backups kept per environment and site set, newest first
+  keepLast?: number;
+  maxAgeDays?: number;
+  maxTotalSize?: number; // bytes
+}
+
 interface ConfigData {
   environments?: {
     dev?: EnvironmentConfig;
@@ -31,9 +61,23 @@ interface ConfigData {
     bucket?: string;
     region?: string;
     prefix?: string;
+    // S3-compatible endpoint such as MinIO or LocalStack
+    endpoint?: string;
+    backend?: S3Backend;
+    confirmOverwrites?: number;
+    confirmDeletes?: number;
+    confirmSize?: string;
   };
   backup?: {
     localPath?: string;
+    keepLast?: number;
+    retentionDays?: number;
+    maxTotalSize?: string;
+    // Upload each backup to s3.bucket once it is taken
+    offsite?: boolean;
+    offsitePrefix?: string;
+    compression?: BackupCompression;
+    encryption?: BackupKeySource;
   };
   clickup?: {
     token?: string; // encrypted
@@ -47,6 +91,10 @@ interface ConfigData {
   release?: {
     environments?: string;
   };
+  mappings?: Record<string, MappingOverride>;
+  database?: {
+    backend?: DatabaseBackend;
+  };
 }
 
 export class Config {
@@ -109,7 +157,7 @@ export class Config {
 
     if (keys.length < 2) {
       throw new Error(
-        'Invalid config key. Use format: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, or release.<key>'
+        'Invalid config key. Use format: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, release.<key>, or database.<key>'
       );
     }
 
@@ -129,9 +177,11 @@ export class Config {
       this.setWordPressConfig(config, keys, value);
     } else if (section === 'release') {
       this.setReleaseConfig(config, keys, value);
+    } else if (section === 'database') {
+      this.setDatabaseConfig(config, keys, value);
     } else {
       throw new Error(
-        'Invalid config section. Use: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, or release.<key>'
+        'Invalid config section. Use: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, release.<key>, or database.<key>'
       );
     }
 
@@ -202,17 +252,46 @@ export class Config {
 
     const s3Key = keys[1];
 
-    if (!['bucket', 'region', 'prefix'].includes(s3Key)) {
+    if (
+      ![
+        'bucket',
+        'region',
+        'prefix',
+        'endpoint',
+        'backend',
+        'confirmOverwrites',
+        'confirmDeletes',
+        'confirmSize',
+      ].includes(s3Key)
+    ) {
       throw new Error(
-        'Invalid S3 config key. Valid keys: bucket, region, prefix'
+        'Invalid S3 config key. Valid keys: bucket, region, prefix, endpoint, backend, confirmOverwrites, confirmDeletes, confirmSize'
       );
     }
+    if (s3Key === 'backend' && !['cli', 'sdk'].includes(value)) {
+      throw new Error('Invalid S3 backend. Valid backends: cli, sdk');
+    }
 
     if (!config.s3) {
       config.s3 = {};
     }
 
-    config.s3[s3Key as keyof NonNullable<ConfigData['s3']>] = value;
+    if (s3Key === 'backend') {
+      config.s3.backend = value as S3Backend;
+    } else if (s3Key === 'confirmOverwrites' || s3Key === 'confirmDeletes') {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`${s3Key} must be a whole number`);
+      }
+      config.s3[s3Key] = count;
+    } else if (s3Key === 'confirmSize') {
+      if (!parseBytes(value)) {
+        throw new Error('confirmSize must be a size such as 500MB or 20GB');
+      }
+      config.s3.confirmSize = value;
+    } else {
+      config.s3[s3Key as 'bucket' | 'region' | 'prefix' | 'endpoint'] = value;
+    }
   }
 
   private static setBackupConfig(
@@ -226,15 +305,63 @@ export class Config {
 
     const backupKey = keys[1];
 
-    if (!['localPath'].includes(backupKey)) {
-      throw new Error('Invalid backup config key. Valid keys: localPath');
+    if (
+      ![
+        'localPath',
+        'keepLast',
+        'retentionDays',
+        'maxTotalSize',
+        'offsite',
+        'offsitePrefix',
+        'compression',
+        'encryption',
+      ].includes(backupKey)
+    ) {
+      throw new Error(
+        'Invalid backup config key. Valid keys: localPath, keepLast, retentionDays, maxTotalSize, offsite, offsitePrefix, compression, encryption'
+      );
     }
 
     if (!config.backup) {
       config.backup = {};
     }
 
-    config.backup[backupKey as keyof NonNullable<ConfigData['backup']>] = value;
+    if (backupKey === 'keepLast' || backupKey === 'retentionDays') {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`${backupKey} must be a positive whole number`);
+      }
+      config.backup[backupKey] = count;
+    } else if (backupKey === 'maxTotalSize') {
+      if (!parseBytes(value)) {
+        throw new Error('maxTotalSize must be a size such as 500MB or 20GB');
+      }
+      config.backup.maxTotalSize = value;
+    } else if (backupKey === 'offsite') {
+      const boolValue = value.toLowerCase();
+      if (!['true', 'false'].includes(boolValue)) {
+        throw new Error("offsite must be either 'true' or 'false'");
+      }
+      config.backup.offsite = boolValue === 'true';
+    } else if (backupKey === 'compression') {
+      if (!['none', 'gzip', 'zstd'].includes(value)) {
+        throw new Error(
+          'Invalid backup compression. Valid values: none, gzip, zstd'
+        );
+      }
+      config.backup.compression = value as BackupCompression;
+    } else if (backupKey === 'encryption') {
+      if (!['none', 'passphrase', 'keychain'].includes(value)) {
+        throw new Error(
+          'Invalid backup encryption. Valid values: none, passphrase, keychain'
+        );
+      }
+      config.backup.encryption = value as BackupKeySource;
+    } else if (backupKey === 'offsitePrefix') {
+      config.backup.offsitePrefix = value.replace(/^\/+|\/+$/g, '');
+    } else {
+      config.backup.localPath = value;
+    }
   }
 
   private static setClickUpConfig(
@@ -360,13 +487,36 @@ export class Config {
     (config.release as any)[releaseKey] = value;
   }
 
+  private static setDatabaseConfig(
+    config: ConfigData,
+    keys: string[],
+    value: string
+  ): void {
+    if (keys.length !== 2) {
+      throw new Error(
+        'Invalid database config key. Use format: database.<key>'
+      );
+    }
+    const databaseKey = keys[1];
+    if (!['backend'].includes(databaseKey)) {
+      throw new Error('Invalid database config key. Valid keys: backend');
+    }
+    if (!['native', 'cli'].includes(value)) {
+      throw new Error('Invalid database backend. Valid backends: native, cli');
+    }
+    if (!config.database) {
+      config.database = {};
+    }
+    config.database.backend = value as DatabaseBackend;
+  }
+
   static get(key: string): string | undefined {
     const config = this.loadConfig();
     const keys = key.split('.');
 
     if (keys.length < 2) {
       throw new Error(
-        'Invalid config key. Use format: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, or release.<key>'
+        'Invalid config key. Use format: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, release.<key>, or database.<key>'
       );
     }
 
@@ -386,9 +536,11 @@ export class Config {
       return this.getWordPressConfigValue(config, keys);
     } else if (section === 'release') {
       return this.getReleaseConfigValue(config, keys);
+    } else if (section === 'database') {
+      return this.getDatabaseConfigValue(config, keys);
     } else {
       throw new Error(
-        'Invalid config section. Use: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, or release.<key>'
+        'Invalid config section. Use: env.<environment>.<key>, s3.<key>, backup.<key>, clickup.<key>, local.<key>, wordpress.<key>, release.<key>, or database.<key>'
       );
     }
   }
@@ -446,7 +598,8 @@ export class Config {
       return undefined;
     }
 
-    return config.s3[s3Key as keyof NonNullable<ConfigData['s3']>];
+    const value = config.s3[s3Key as keyof NonNullable<ConfigData['s3']>];
+    return value === undefined ? undefined : String(value);
   }
 
   private static getBackupConfigValue(
@@ -463,7 +616,9 @@ export class Config {
       return undefined;
     }
 
-    return config.backup[backupKey as keyof NonNullable<ConfigData['backup']>];
+    const value =
+      config.backup[backupKey as keyof NonNullable<ConfigData['backup']>];
+    return value === undefined ? undefined : String(value);
   }
 
   private static getClickUpConfigValue(
@@ -555,6 +710,22 @@ export class Config {
     return (config.release as any)[releaseKey];
   }
 
+  private static getDatabaseConfigValue(
+    config: ConfigData,
+    keys: string[]
+  ): string | undefined {
+    if (keys.length !== 2) {
+      throw new Error(
+        'Invalid database config key. Use format: database.<key>'
+      );
+    }
+    const databaseKey = keys[1];
+    if (!config.database) {
+      return undefined;
+    }
+    return (config.database as any)[databaseKey];
+  }
+
   static list(): ConfigData {
     const config = this.loadConfig();
 
@@ -612,7 +783,7 @@ export class Config {
     };
   }
 
-  static getS3Config(): { bucket?: string; region?: string; prefix?: string } {
+  static getS3Config(): NonNullable<ConfigData['s3']> {
     const config = this.loadConfig();
     return config.s3 || {};
   }
@@ -632,11 +803,47 @@ export class Config {
     return !!s3Config.bucket;
   }
 
-  static getBackupConfig(): { localPath?: string } {
+  static getBackupConfig(): NonNullable<ConfigData['backup']> {
     const config = this.loadConfig();
     return config.backup || {};
   }
 
+  // Retention rules for BackupRecovery.pruneBackups; empty when none are set
+  static getBackupRetention(): BackupRetentionPolicy {
+    const backupConfig = this.getBackupConfig();
+    const policy: BackupRetentionPolicy = {};
+    if (backupConfig.keepLast) {
+      policy.keepLast = backupConfig.keepLast;
+    }
+    if (backupConfig.retentionDays) {
+      policy.maxAgeDays = backupConfig.retentionDays;
+    }
+    const maxTotalSize = backupConfig.maxTotalSize
+      ? parseBytes(backupConfig.maxTotalSize)
+      : null;
+    if (maxTotalSize) {
+      policy.maxTotalSize = maxTotalSize;
+    }
+    return policy;
+  }
+
+  static getBackupCompression(): BackupCompression {
+    return this.getBackupConfig().compression || 'none';
+  }
+
+  static getBackupEncryption(): BackupKeySource {
+    return this.getBackupConfig().encryption || 'none';
+  }
+
+  static isOffsiteBackupEnabled(): boolean {
+    return this.getBackupConfig().offsite === true;
+  }
+
+  // Key prefix in s3.bucket that offsite backups are uploaded under
+  static getOffsiteBackupPrefix(): string {
+    return this.getBackupConfig().offsitePrefix || 'db-backups';
+  }
+
   static getBackupPath(): string {
     const backupConfig = this.getBackupConfig();
     return backupConfig.localPath || join(this.CONFIG_DIR, 'backups');
@@ -706,6 +913,36 @@ export class Config {
       : true;
   }
 
+  static getMappingsConfig(): Record<string, MappingOverride> {
+    const config = this.loadConfig();
+    return config.mappings || {};
+  }
+
+  static getDatabaseBackend(): DatabaseBackend {
+    const config = this.loadConfig();
+    return config.database?.backend === 'cli' ? 'cli' : 'native';
+  }
+
+  static getS3Backend(): S3Backend {
+    return this.getS3Config().backend === 'sdk' ? 'sdk' : 'cli';
+  }
+
+  // Defaults stay out of the way of a routine refresh of a lower environment
+  static getBucketSyncThresholds(): BucketSyncThresholds {
+    const s3Config = this.getS3Config();
+    return {
+      overwrites: s3Config.confirmOverwrites ?? 1000,
+      deletes: s3Config.confirmDeletes ?? 100,
+      bytes:
+        (s3Config.confirmSize && parseBytes(s3Config.confirmSize)) ||
+        10 * 1024 ** 3,
+    };
+  }
+
+  static getConfigFilePath(): string {
+    return this.CONFIG_FILE;
+  }
+
   static hasLocalConfig(): boolean {
     const config = this.loadConfig();
     return !!config.local && Object.keys(config.local).length > 0;
@@ -0,0 +1,291 @@
+import chalk from 'chalk';
+import { DatabaseOperations } from './database';
+import { DbConnectionManager, DbRow } from './db-connection';
+import { EnvironmentMappingService } from './environment-mapping';
+import { QueryOutput } from './query-output';
+import { Replacement, SerializedReplace } from './serialized-replace';
+import { SiteDiffFormat } from './site-diff';
+import { SqlBuilder } from './sql';
+
+export type ContentChangeKind = 'added' | 'removed' | 'changed';
+
+export type ContentRecordType = 'post' | 'option';
+
+export interface ContentChange {
+  kind: ContentChangeKind;
+  type: ContentRecordType;
+  // Post ID or option name
+  key: string;
+  // Post type and title, empty for options
+  label: string;
+  // Fields that differ, for changed records
+  fields: string[];
+}
+
+export interface ContentDiffReport {
+  siteId: string;
+  source: string;
+  target: string;
+  replacements: Replacement[];
+  changes: ContentChange[];
+  summary: Record<ContentRecordType, Record<ContentChangeKind, number>>;
+  warnings: string[];
+}
+
+export interface ContentDiffOptions {
+  verbose?: boolean;
+}
+
+// Columns compared for posts; text columns go through the URL mapping first
+const POST_TEXT_FIELDS = [
+  'post_title',
+  'post_name',
+  'post_status',
+  'post_content',
+  'post_excerpt',
+];
+
+export class ContentDiff {
+  /**
+   * Compare a site's posts (by ID) and options (by option_name) between two
+   * environments. Source values are rewritten with the source -> target URL
+   * mapping first, so records that only differ by environment URLs match.
+   * "added" records exist only in the source, "removed" only in the target.
+   */
+  static async compare(
+    siteId: string,
+    sourceEnv: string,
+    targetEnv: string,
+    options: ContentDiffOptions = {}
+  ): Promise<ContentDiffReport> {
+    const warnings: string[] = [];
+    const replacements = await this.getReplacements(
+      siteId,
+      sourceEnv,
+      targetEnv,
+      warnings
+    );
+    const prefix = siteId === '1' ? 'wp_' : `wp_${siteId}_`;
+    const postsTable = `${prefix}posts`;
+    const optionsTable = `${prefix}options`;
+
+    const [sourceTables, targetTables] = await Promise.all([
+      DatabaseOperations.getSiteTables(siteId, sourceEnv),
+      DatabaseOperations.getSiteTables(siteId, targetEnv),
+    ]);
+    for (const table of [postsTable, optionsTable]) {
+      for (const [environment, tables] of [
+        [sourceEnv, sourceTables],
+        [targetEnv, targetTables],
+      ] as const) {
+        if (!tables.includes(table)) {
+          throw new Error(`Table ${table} not found in ${environment}`);
+        }
+      }
+    }
+
+    if (options.verbose) {
+      console.log(chalk.gray(`Comparing ${postsTable}...`));
+    }
+    const [sourcePosts, targetPosts] = await Promise.all([
+      this.getPosts(postsTable, sourceEnv),
+      this.getPosts(postsTable, targetEnv),
+    ]);
+    const postChanges = this.diffRecords(
+      'post',
+      sourcePosts,
+      targetPosts,
+      ['post_modified', ...POST_TEXT_FIELDS],
+      replacements,
+      (post) => `${post.post_type}: ${post.post_title}`
+    );
+
+    if (options.verbose) {
+      console.log(chalk.gray(`Comparing ${optionsTable}...`));
+    }
+    const [sourceOptions, targetOptions] = await Promise.all([
+      this.getOptions(optionsTable, sourceEnv),
+      this.getOptions(optionsTable, targetEnv),
+    ]);
+    const optionChanges = this.diffRecords(
+      'option',
+      sourceOptions,
+      targetOptions,
+      ['option_value', 'autoload'],
+      replacements,
+      () => ''
+    );
+
+    const changes = [...postChanges, ...optionChanges];
+    const summary: ContentDiffReport['summary'] = {
+      post: { added: 0, removed: 0, changed: 0 },
+      option: { added: 0, removed: 0, changed: 0 },
+    };
+    for (const change of changes) {
+      summary[change.type][change.kind]++;
+    }
+
+    return {
+      siteId,
+      source: sourceEnv,
+      target: targetEnv,
+      replacements,
+      changes,
+      summary,
+      warnings,
+    };
+  }
+
+  static format(report: ContentDiffReport, format: SiteDiffFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(report, null, 2);
+    }
+
+    const rows = report.changes.map((change) => ({
+      change: change.kind,
+      type: change.type,
+      key: change.key,
+      title: change.label,
+      fields: change.fields.join(', '),
+    }));
+    const describe = (counts: Record<ContentChangeKind, number>): string =>
+      `${counts.added} added, ${counts.removed} removed, ${counts.changed} changed`;
+
+    return [
+      chalk.bold(
+        `Site ${report.siteId} content: ${report.source} → ${report.target}`
+      ),
+      rows.length > 0
+        ? QueryOutput.formatTable(rows)
+        : chalk.green('No content differences'),
+      `Posts: ${describe(report.summary.post)}`,
+      `Options: ${describe(report.summary.option)}`,
+    ].join('\n');
+  }
+
+  // Same rules migrate uses: site domains first, then the environment rules
+  private static async getReplacements(
+    siteId: string,
+    sourceEnv: string,
+    targetEnv: string,
+    warnings: string[]
+  ): Promise<Replacement[]> {
+    if (
+      !EnvironmentMappingService.isMigrationPathSupported(sourceEnv, targetEnv)
+    ) {
+      warnings.push(
+        `No URL mapping for ${sourceEnv} -> ${targetEnv}; comparing values as stored`
+      );
+      return [];
+    }
+
+    const siteMapping = await EnvironmentMappingService.getSiteReplacements(
+      parseInt(siteId, 10),
+      sourceEnv,
+      targetEnv
+    );
+    warnings.push(...siteMapping.warnings);
+    return [
+      ...siteMapping.replacements,
+      ...SerializedReplace.fromMapping(
+        EnvironmentMappingService.getEnvironmentMapping(sourceEnv, targetEnv)
+      ),
+    ];
+  }
+
+  // Revisions and auto-drafts are left out; they change on every edit
+  private static async getPosts(
+    table: string,
+    environment: string
+  ): Promise<Map<string, DbRow>> {
+    const rows = await DbConnectionManager.get(environment).query(
+      `SELECT ID, post_type, post_modified, ${POST_TEXT_FIELDS.join(', ')} FROM ?? WHERE post_type <> ? AND post_status <> ? ORDER BY ID`,
+      [table, 'revision', 'auto-draft']
+    );
+    return new Map(rows.map((row) => [String(row.ID), row]));
+  }
+
+  // Transients are caches, not content
+  private static async getOptions(
+    table: string,
+    environment: string
+  ): Promise<Map<string, DbRow>> {
+    const rows = await DbConnectionManager.get(environment).query(
+      'SELECT option_name, option_value, autoload FROM ?? WHERE option_name NOT LIKE ? AND option_name NOT LIKE ? ORDER BY option_name',
+      [
+        table,
+        SqlBuilder.startsWithPattern('_transient_'),
+        SqlBuilder.startsWithPattern('_site_transient_'),
+      ]
+    );
+    return new Map(rows.map((row) => [String(row.option_name), row]));
+  }
+
+  private static diffRecords(
+    type: ContentRecordType,
+    source: Map<string, DbRow>,
+    target: Map<string, DbRow>,
+    fields: string[],
+    replacements: Replacement[],
+    describe: (record: DbRow) => string
+  ): ContentChange[] {
+    const changes: ContentChange[] = [];
+
+    for (const [key, sourceRecord] of source) {
+      const targetRecord = target.get(key);
+      if (!targetRecord) {
+        changes.push({
+          kind: 'added',
+          type,
+          key,
+          label: describe(sourceRecord),
+          fields: [],
+        });
+        continue;
+      }
+
+      const changedFields = fields.filter(
+        (field) =>
+          this.mapValue(sourceRecord[field], replacements) !==
+          this.toText(targetRecord[field])
+      );
+      if (changedFields.length > 0) {
+        changes.push({
+          kind: 'changed',
+          type,
+          key,
+          label: describe(targetRecord),
+          fields: changedFields,
+        });
+      }
+    }
+
+    for (const [key, targetRecord] of target) {
+      if (!source.has(key)) {
+        changes.push({
+          kind: 'removed',
+          type,
+          key,
+          label: describe(targetRecord),
+          fields: [],
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private static mapValue(value: unknown, replacements: Replacement[]): string {
+    const text = this.toText(value);
+    return replacements.length > 0
+      ? SerializedReplace.replace(text, replacements)
+      : text;
+  }
+
+  private static toText(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+  }
+}
@@ -2,8 +2,17 @@ import { execSync } from 'child_process';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import chalk from 'chalk';
-import { Config } from './config';
+import { Config, EnvironmentConfig } from './config';
+import {
+  DbConnection,
+  DbConnectionManager,
+  DbStatement,
+} from './db-connection';
+import { MysqlCli } from './mysql-cli';
 import { SqlFileAnalyzer } from './sql-file-analyzer';
+import { SerializedReplace } from './serialized-replace';
+import { SqlBuilder } from './sql';
+import { SqlStreamTransformer } from './sql-stream-transformer';
 
 interface ExportResult {
   filePath: string;
@@ -21,63 +30,8 @@ export class DatabaseOperations {
   private static tableCache: Map<string, string[]> = new Map();
   // Cache for table columns to avoid repeated DESCRIBE queries
   private static columnCache: Map<string, string[]> = new Map();
-  // Cache for mysql client availability
-  private static mysqlClientAvailable: boolean | null = null;
-
-  // Detect if native mysql client is available
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  // Helper method to build MySQL command with proper port handling
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const hostArg =
-        envConfig.host === '127.0.0.1' || envConfig.host === 'localhost'
-          ? 'host.docker.internal'
-          : envConfig.host;
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${hostArg}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
+  // Cache for primary key lookups used by row-level search-replace
+  private static primaryKeyCache: Map<string, string | null> = new Map();
 
   static checkDockerAvailability(): void {
     try {
@@ -197,7 +151,7 @@ export class DatabaseOperations {
       );
     }
 
-    const tables = this.getSiteTables(siteId, environment);
+    const tables = await this.getSiteTables(siteId, environment);
 
     if (tables.length === 0) {
       throw new Error(
@@ -225,7 +179,7 @@ export class DatabaseOperations {
 
       let exportCommand: string;
 
-      if (this.hasNativeMysqlClient()) {
+      if (MysqlCli.hasNativeClient()) {
         const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
 
         // Build base command without GTID option first
@@ -349,12 +303,7 @@ export class DatabaseOperations {
 
   static async importSqlFile(
     sqlFile: string,
-    targetConfig: {
-      host?: string;
-      user?: string;
-      password?: string;
-      database?: string;
-    },
+    targetConfig: EnvironmentConfig,
     verbose = false,
     timeoutMinutes = 20
   ): Promise<ImportResult> {
@@ -371,63 +320,29 @@ export class DatabaseOperations {
       throw new Error('Target database configuration is incomplete');
     }
 
-    // Use mysql directly (much more efficient than WP-CLI)
+    // Use mysql directly (much more efficient than WP-CLI); gzip dumps are
+    // decompressed on the fly
     try {
       if (verbose) {
         console.log(chalk.gray('Running mysql import...'));
       }
 
-      let importCommand: string;
-
-      if (this.hasNativeMysqlClient()) {
-        importCommand = [
-          'mysql',
-          '-h',
-          targetConfig.host,
-          '-u',
-          targetConfig.user,
-          targetConfig.database,
-          '--max_allowed_packet=1G',
-          '<',
-          `"${sqlFile}"`,
-        ].join(' ');
-
-        execSync(importCommand, {
-          encoding: 'utf8' as const,
-          stdio: verbose ? 'inherit' : 'ignore',
-          shell: '/bin/bash',
-          timeout: timeoutMinutes * 60 * 1000,
-          env: {
-            ...process.env,
-            MYSQL_PWD: targetConfig.password,
-            PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-          },
-        });
-      } else {
-        const dockerCommand = [
-          'docker run --rm -i',
-          '-e',
-          `MYSQL_PWD="${targetConfig.password}"`,
-          'mysql:8.0',
-          'mysql',
-          '-h',
-          `"${targetConfig.host}"`,
-          '-u',
-          `"${targetConfig.user}"`,
-          `"${targetConfig.database}"`,
-          '--max_allowed_packet=1G',
-        ]
-          .filter((arg) => arg.length > 0)
-          .join(' ');
-        importCommand = `cat "${sqlFile}" | ${dockerCommand}`;
-
-        execSync(importCommand, {
-          encoding: 'utf8' as const,
-          stdio: verbose ? 'inherit' : 'ignore',
-          shell: '/bin/bash',
-          timeout: timeoutMinutes * 60 * 1000,
-        });
-      }
+      const mysqlCommand = MysqlCli.buildCommand(
+        targetConfig,
+        ['--max_allowed_packet=1G'],
+        true
+      );
+      const importCommand = SqlStreamTransformer.isGzipFile(sqlFile)
+        ? `set -o pipefail; gunzip -c "${sqlFile}" | ${mysqlCommand}`
+        : `${mysqlCommand} < "${sqlFile}"`;
+
+      execSync(importCommand, {
+        encoding: 'utf8' as const,
+        stdio: verbose ? 'inherit' : 'ignore',
+        shell: '/bin/bash',
+        timeout: timeoutMinutes * 60 * 1000,
+        ...MysqlCli.getExecEnv(targetConfig),
+      });
 
       // Count the number of CREATE TABLE statements in the SQL file to get accurate import count
       const tableCount = await SqlFileAnalyzer.countTablesInSqlFile(sqlFile);
@@ -444,7 +359,7 @@ export class DatabaseOperations {
   }
 
   // Get all tables for an environment (cached)
-  static getAllTables(environment: string): string[] {
+  static async getAllTables(environment: string): Promise<string[]> {
     const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
@@ -457,28 +372,10 @@ export class DatabaseOperations {
     }
 
     try {
-      const query = 'SHOW TABLES';
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${query}"`,
-        '-s',
-      ]);
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-
-      const output = execSync(mysqlCommand, execOptions);
-
-      const tables = output
-        .trim()
-        .split('\n')
+      const rows =
+        await DbConnectionManager.get(environment).query('SHOW TABLES');
+      const tables = rows
+        .map((row) => String(Object.values(row)[0]))
         .filter((table) => table.length > 0);
 
       // Cache the results
@@ -497,7 +394,10 @@ export class DatabaseOperations {
   }
 
   // Get table columns (cached)
-  static getTableColumns(tableName: string, environment: string): string[] {
+  static async getTableColumns(
+    tableName: string,
+    environment: string
+  ): Promise<string[]> {
     const envConfig = Config.getEnvironmentConfig(environment);
 
     const cacheKey = `${environment}:${envConfig.host}:${envConfig.database}:${tableName}`;
@@ -506,29 +406,11 @@ export class DatabaseOperations {
     }
 
     try {
-      const columnsQuery = `DESCRIBE ${tableName}`;
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${columnsQuery}"`,
-        '-s',
-      ]);
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-
-      const columnsOutput = execSync(mysqlCommand, execOptions);
-
-      const columns = columnsOutput
-        .trim()
-        .split('\n')
-        .map((line) => line.split('\t')[0])
+      const rows = await DbConnectionManager.get(environment).query<{
+        Field: string;
+      }>('DESCRIBE ??', [tableName]);
+      const columns = rows
+        .map((row) => String(row.Field))
         .filter((col) => col.length > 0);
 
       this.columnCache.set(cacheKey, columns);
@@ -542,6 +424,7 @@ export class DatabaseOperations {
   // Clear column cache
   static clearColumnCache(): void {
     this.columnCache.clear();
+    this.primaryKeyCache.clear();
   }
 
   // Clear all caches
@@ -550,36 +433,43 @@ export class DatabaseOperations {
     this.clearColumnCache();
   }
 
-  static getSiteTables(siteId: string, environment: string): string[] {
-    try {
-      // Get all tables using cached approach (single query instead of per-site)
-      const allTables = this.getAllTables(environment);
-
+  // Whether a table belongs to a site: the main site (1) owns unnumbered wp_
+  // tables except the network tables, subsites own exactly wp_{id}_*
+  static isSiteTable(table: string, siteId: string): boolean {
+    if (siteId === '1') {
       // Get network table names to exclude from site migrations
       const { NetworkTableOperations } = require('./network-tables');
       const networkTableNames = NetworkTableOperations.getNetworkTables().map(
-        (table: any) => table.name
+        (networkTable: any) => networkTable.name
+      );
+      return (
+        table.startsWith('wp_') &&
+        !table.match(/wp_\d+_/) &&
+        !networkTableNames.includes(table)
       );
+    }
+
+    // Match exact prefix (avoid wp_430_ when looking for wp_43_)
+    const exactPrefix = `wp_${siteId}_`;
+    return (
+      table.startsWith(exactPrefix) &&
+      !table.startsWith(`${exactPrefix}\\d`) && // Avoid longer site IDs
+      table.split('_')[1] === siteId
+    ); // Ensure exact match
+  }
+
+  static async getSiteTables(
+    siteId: string,
+    environment: string
+  ): Promise<string[]> {
+    try {
+      // Get all tables using cached approach (single query instead of per-site)
+      const allTables = await this.getAllTables(environment);
 
       // Filter tables for this specific site from the complete list
-      const siteTables = allTables.filter((table) => {
-        if (siteId === '1') {
-          // For main site, include wp_ tables but exclude numbered subsites (wp_43_*) AND network tables
-          return (
-            table.startsWith('wp_') &&
-            !table.match(/wp_\d+_/) &&
-            !networkTableNames.includes(table)
-          );
-        } else {
-          // For subsites, match exact prefix (avoid wp_430_ when looking for wp_43_)
-          const exactPrefix = `wp_${siteId}_`;
-          return (
-            table.startsWith(exactPrefix) &&
-            !table.startsWith(`${exactPrefix}\\d`) && // Avoid longer site IDs
-            table.split('_')[1] === siteId
-          ); // Ensure exact match
-        }
-      });
+      const siteTables = allTables.filter((table) =>
+        this.isSiteTable(table, siteId)
+      );
 
       return siteTables;
     } catch (error) {
@@ -589,19 +479,46 @@ export class DatabaseOperations {
     }
   }
 
+  // Get the single-column primary key for a table (cached), or null when the
+  // table has none or uses a composite key
+  static async getPrimaryKey(
+    tableName: string,
+    environment: string
+  ): Promise<string | null> {
+    const envConfig = Config.getEnvironmentConfig(environment);
+
+    const cacheKey = `${environment}:${envConfig.host}:${envConfig.database}:${tableName}`;
+    if (this.primaryKeyCache.has(cacheKey)) {
+      return this.primaryKeyCache.get(cacheKey)!;
+    }
+
+    try {
+      const keyRows = await DbConnectionManager.get(environment).query<{
+        Column_name: string;
+      }>("SHOW KEYS FROM ?? WHERE Key_name = 'PRIMARY'", [tableName]);
+
+      const primaryKey =
+        keyRows.length === 1 ? String(keyRows[0].Column_name) : null;
+      this.primaryKeyCache.set(cacheKey, primaryKey);
+      return primaryKey;
+    } catch (error) {
+      return null;
+    }
+  }
+
   static async sqlSearchReplace(
     environment: string,
     replacements: Array<{ from: string; to: string }>,
     siteId: string,
     verbose = false
   ): Promise<void> {
-    const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
+    const connection = DbConnectionManager.get(environment);
 
     // Get all tables for the site
-    const tables = this.getSiteTables(siteId, environment);
+    const tables = await this.getSiteTables(siteId, environment);
 
     if (tables.length === 0) {
       throw new Error(
@@ -613,6 +530,11 @@ export class DatabaseOperations {
       console.log(
         chalk.gray(`Running SQL search-replace on ${tables.length} tables`)
       );
+      for (const replacement of replacements) {
+        console.log(
+          chalk.gray(`Replacing "${replacement.from}" → "${replacement.to}"`)
+        );
+      }
     }
 
     // WordPress fields that commonly contain URLs
@@ -626,194 +548,170 @@ export class DatabaseOperations {
       'guid',
     ];
 
-    for (const replacement of replacements) {
-      if (verbose) {
-        console.log(
-          chalk.gray(`Replacing "${replacement.from}" → "${replacement.to}"`)
-        );
-      }
+    for (const table of tables) {
+      try {
+        // Get table columns using cached approach (avoids repeated DESCRIBE queries)
+        const columns = await this.getTableColumns(table, environment);
 
-      for (const table of tables) {
-        try {
-          // Get table columns using cached approach (avoids repeated DESCRIBE queries)
-          const columns = this.getTableColumns(table, environment);
+        if (columns.length === 0) {
+          if (verbose) {
+            console.log(
+              chalk.yellow(`  Skipped ${table}: Could not get table structure`)
+            );
+          }
+          continue;
+        }
 
-          if (columns.length === 0) {
-            if (verbose) {
-              console.log(
-                chalk.yellow(
-                  `  Skipped ${table}: Could not get table structure`
-                )
-              );
-            }
+        const fields = urlFields.filter((field) => columns.includes(field));
+        if (fields.length === 0) {
+          continue;
+        }
+
+        const primaryKey = await this.getPrimaryKey(table, environment);
+
+        for (const field of fields) {
+          if (!primaryKey) {
+            // Without a key rows can't be rewritten individually, so fall back
+            // to a plain REPLACE (not safe for serialized values)
+            console.log(
+              chalk.yellow(
+                `  Warning: ${table} has no single-column primary key, using plain REPLACE on ${field}`
+              )
+            );
+            await this.plainReplaceField(
+              connection,
+              table,
+              field,
+              replacements
+            );
             continue;
           }
 
-          // Update each URL field that exists in this table
-          for (const field of urlFields) {
-            if (columns.includes(field)) {
-              const updateQuery = `UPDATE ${table} SET ${field} = REPLACE(${field}, '${replacement.from}', '${replacement.to}') WHERE ${field} LIKE '%${replacement.from}%'`;
-
-              const mysqlCommand = this.buildMysqlCommand(envConfig, [
-                '-e',
-                `"${updateQuery}"`,
-              ]);
-              const execOptions = this.hasNativeMysqlClient()
-                ? {
-                    encoding: 'utf8' as const,
-                    stdio: 'ignore' as const,
-                    env: {
-                      ...process.env,
-                      MYSQL_PWD: envConfig.password,
-                      PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-                    },
-                  }
-                : {
-                    encoding: 'utf8' as const,
-                    stdio: 'ignore' as const,
-                  };
-
-              execSync(mysqlCommand, execOptions);
-
-              if (verbose) {
-                console.log(chalk.gray(`  Updated ${table}.${field}`));
-              }
-            }
-          }
-        } catch (error) {
-          // Skip tables that can't be processed
+          const updatedRows = await this.serializedReplaceField(
+            connection,
+            table,
+            field,
+            primaryKey,
+            replacements
+          );
+
           if (verbose) {
             console.log(
-              chalk.yellow(
-                `  Skipped ${table}: ${error instanceof Error ? error.message : 'Unknown error'}`
-              )
+              chalk.gray(`  Updated ${updatedRows} rows in ${table}.${field}`)
             );
           }
         }
+      } catch (error) {
+        // Skip tables that can't be processed
+        if (verbose) {
+          console.log(
+            chalk.yellow(
+              `  Skipped ${table}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+          );
+        }
       }
     }
   }
 
-  static async testConnection(environment: string): Promise<boolean> {
-    const envConfig = Config.getEnvironmentConfig(environment);
+  // Rewrite matching rows in Node so serialized string lengths stay valid.
+  // Values travel as hex to avoid any quoting or charset conversion.
+  private static async serializedReplaceField(
+    connection: DbConnection,
+    table: string,
+    field: string,
+    primaryKey: string,
+    replacements: Array<{ from: string; to: string }>
+  ): Promise<number> {
+    const needles = SerializedReplace.getSearchNeedles(replacements);
+    if (needles.length === 0) {
+      return 0;
+    }
+
+    const column = SqlBuilder.identifier(field);
+    const matchClause = needles
+      .map((needle) => `INSTR(${column}, ${SqlBuilder.hex(needle)}) > 0`)
+      .join(' OR ');
+    const selectQuery = `SELECT ?? AS row_key, HEX(??) AS row_value FROM ?? WHERE ${matchClause};`;
+
+    const rows = await connection.query<{
+      row_key: string | number;
+      row_value: string;
+    }>(selectQuery, [primaryKey, field, table]);
+
+    const updates: DbStatement[] = [];
+    for (const row of rows) {
+      const keyValue = String(row.row_key);
+      const original = Buffer.from(String(row.row_value), 'hex');
+      const replaced = SerializedReplace.replaceBuffer(original, replacements);
+      if (replaced.equals(original)) {
+        continue;
+      }
 
-    if (!Config.hasRequiredEnvironmentConfig(environment)) {
-      return false;
+      const keyLiteral = /^-?\d+$/.test(keyValue)
+        ? keyValue
+        : SqlBuilder.hex(keyValue);
+      updates.push({
+        sql: `UPDATE ?? SET ?? = ${SqlBuilder.hex(replaced)} WHERE ?? = ${keyLiteral};`,
+        params: [table, field, primaryKey],
+      });
     }
 
-    // Use direct MySQL connection test (much more efficient than WP-CLI)
-    try {
-      let mysqlCommand: string;
-      let execOptions: any;
+    // Send updates in batches to keep each round trip bounded
+    const batchSize = 500;
+    for (let i = 0; i < updates.length; i += batchSize) {
+      await connection.executeBatch(updates.slice(i, i + batchSize));
+    }
 
-      if (this.hasNativeMysqlClient()) {
-        const portArg = envConfig.port ? `-P "${envConfig.port}"` : '';
-        mysqlCommand = [
-          'mysql',
-          '-h',
-          `"${envConfig.host}"`,
-          portArg,
-          '-u',
-          `"${envConfig.user}"`,
-          `"${envConfig.database}"`,
-          '-e',
-          '"SELECT 1 as connection_test"',
-        ]
-          .filter((arg) => arg && arg.length > 0)
-          .join(' ');
-
-        execOptions = {
-          encoding: 'utf8' as const,
-          stdio: 'pipe' as const,
-          shell: '/bin/bash',
-          timeout: 10000,
-          env: {
-            ...process.env,
-            MYSQL_PWD: envConfig.password,
-            PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-          },
-        };
-      } else {
-        const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-        mysqlCommand = [
-          'docker run --rm',
-          '-e',
-          `MYSQL_PWD="${envConfig.password}"`,
-          'mysql:8.0',
-          'mysql',
-          '-h',
-          `"${envConfig.host}"`,
-          portArg,
-          '-u',
-          `"${envConfig.user}"`,
-          `"${envConfig.database}"`,
-          '-e',
-          '"SELECT 1 as connection_test"',
-        ]
-          .filter((arg) => arg && arg.length > 0)
-          .join(' ');
-
-        execOptions = {
-          encoding: 'utf8' as const,
-          stdio: 'pipe' as const,
-          shell: '/bin/bash',
-          timeout: 10000,
+    return updates.length;
+  }
+
+  private static async plainReplaceField(
+    connection: DbConnection,
+    table: string,
+    field: string,
+    replacements: Array<{ from: string; to: string }>
+  ): Promise<void> {
+    const statements = replacements
+      .filter((replacement) => replacement.from.length > 0)
+      .map((replacement) => {
+        const from = SqlBuilder.hex(replacement.from);
+        const to = SqlBuilder.hex(replacement.to);
+        return {
+          sql: `UPDATE ?? SET ?? = REPLACE(??, ${from}, ${to}) WHERE INSTR(??, ${from}) > 0;`,
+          params: [table, field, field, field],
         };
-      }
+      });
+
+    if (statements.length > 0) {
+      await connection.executeBatch(statements);
+    }
+  }
 
-      const result = execSync(mysqlCommand, execOptions);
+  static async testConnection(environment: string): Promise<boolean> {
+    if (!Config.hasRequiredEnvironmentConfig(environment)) {
+      return false;
+    }
 
-      return result.includes('connection_test') || result.includes('1');
+    try {
+      const rows = await DbConnectionManager.get(environment).query(
+        'SELECT 1 AS connection_test'
+      );
+      return rows.length === 1;
     } catch (error) {
       return false;
     }
   }
 
   static async getEnvironmentTableCount(environment: string): Promise<number> {
-    const envConfig = Config.getEnvironmentConfig(environment);
-
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
 
-    // Use direct MySQL query to get table count
     try {
-      const query = 'SHOW TABLES';
-      let mysqlCommand: string;
-      let execOptions: any;
-
-      if (this.hasNativeMysqlClient()) {
-        const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-        mysqlCommand = `mysql -h ${envConfig.host} ${portArg} -u ${envConfig.user} ${envConfig.database} -e "${query}" -s`;
-        execOptions = {
-          encoding: 'utf8' as const,
-          stdio: 'pipe' as const,
-          shell: '/bin/bash',
-          timeout: 10000,
-          env: {
-            ...process.env,
-            MYSQL_PWD: envConfig.password,
-            PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-          },
-        };
-      } else {
-        const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-        mysqlCommand = `docker run --rm -e MYSQL_PWD="${envConfig.password}" mysql:8.0 mysql -h "${envConfig.host}" ${portArg} -u "${envConfig.user}" "${envConfig.database}" -e "${query}" -s`;
-        execOptions = {
-          encoding: 'utf8' as const,
-          stdio: 'pipe' as const,
-          shell: '/bin/bash',
-          timeout: 10000,
-        };
-      }
-
-      const output = execSync(mysqlCommand, execOptions);
-
-      const tables = output
-        .trim()
-        .split('\n')
-        .filter((line) => line.length > 0);
-      return tables.length;
+      const rows =
+        await DbConnectionManager.get(environment).query('SHOW TABLES');
+      return rows.length;
     } catch (error) {
       throw new Error(
         `Failed to get table count: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -827,53 +725,17 @@ export class DatabaseOperations {
     optionValue: string,
     verbose = false
   ): Promise<void> {
-    const envConfig = Config.getEnvironmentConfig(environment);
-
     if (verbose) {
       console.log(
         chalk.gray(`Updating network option: ${optionKey} = ${optionValue}`)
       );
     }
 
-    const sql = `INSERT INTO wp_sitemeta (site_id, meta_key, meta_value) VALUES (1, '${optionKey}', '${optionValue}') ON DUPLICATE KEY UPDATE meta_value = '${optionValue}'`;
-
     try {
-      if (this.hasNativeMysqlClient()) {
-        const command = `MYSQL_PWD="${envConfig.password}" mysql -h ${envConfig.host} ${envConfig.port ? `-P ${envConfig.port}` : ''} -u ${envConfig.user} ${envConfig.database} -e "${sql}"`;
-
-        if (verbose) {
-          console.log(chalk.gray('  Using native MySQL client'));
-        }
-
-        execSync(command, {
-          stdio: verbose ? 'inherit' : 'ignore',
-        });
-      } else {
-        const dockerCommand = [
-          'docker run --rm',
-          `-e MYSQL_PWD="${envConfig.password}"`,
-          'mysql:8.0',
-          'mysql',
-          '-h',
-          `"${envConfig.host}"`,
-          envConfig.port ? `--port=${envConfig.port}` : '',
-          '-u',
-          `"${envConfig.user}"`,
-          `"${envConfig.database}"`,
-          '-e',
-          `"${sql}"`,
-        ]
-          .filter((arg) => arg.length > 0)
-          .join(' ');
-
-        if (verbose) {
-          console.log(chalk.gray('  Using Docker MySQL client'));
-        }
-
-        execSync(dockerCommand, {
-          stdio: verbose ? 'inherit' : 'ignore',
-        });
-      }
+      await DbConnectionManager.get(environment).execute(
+        'INSERT INTO wp_sitemeta (site_id, meta_key, meta_value) VALUES (1, ?, ?) ON DUPLICATE KEY UPDATE meta_value = ?',
+        [optionKey, optionValue, optionValue]
+      );
 
       if (verbose) {
         console.log(
@@ -892,57 +754,20 @@ export class DatabaseOperations {
     optionKey: string,
     verbose = false
   ): Promise<string | null> {
-    const envConfig = Config.getEnvironmentConfig(environment);
-
     if (verbose) {
       console.log(chalk.gray(`Reading network option: ${optionKey}`));
     }
 
-    const sql = `SELECT meta_value FROM wp_sitemeta WHERE site_id = 1 AND meta_key = '${optionKey}'`;
-
     try {
-      if (this.hasNativeMysqlClient()) {
-        const command = `MYSQL_PWD="${envConfig.password}" mysql -h ${envConfig.host} ${envConfig.port ? `-P ${envConfig.port}` : ''} -u ${envConfig.user} ${envConfig.database} -se "${sql}"`;
-
-        if (verbose) {
-          console.log(chalk.gray('  Using native MySQL client'));
-        }
-
-        const result = execSync(command, {
-          encoding: 'utf8',
-          stdio: 'pipe',
-        }).trim();
-
-        return result || null;
-      } else {
-        const dockerCommand = [
-          'docker run --rm',
-          `-e MYSQL_PWD="${envConfig.password}"`,
-          'mysql:8.0',
-          'mysql',
-          '-h',
-          `"${envConfig.host}"`,
-          envConfig.port ? `--port=${envConfig.port}` : '',
-          '-u',
-          `"${envConfig.user}"`,
-          `"${envConfig.database}"`,
-          '-se',
-          `"${sql}"`,
-        ]
-          .filter((arg) => arg.length > 0)
-          .join(' ');
-
-        if (verbose) {
-          console.log(chalk.gray('  Using Docker MySQL client'));
-        }
-
-        const result = execSync(dockerCommand, {
-          encoding: 'utf8',
-          stdio: 'pipe',
-        }).trim();
+      const rows = await DbConnectionManager.get(environment).query<{
+        meta_value: string | null;
+      }>(
+        'SELECT meta_value FROM wp_sitemeta WHERE site_id = 1 AND meta_key = ?',
+        [optionKey]
+      );
 
-        return result || null;
-      }
+      const value = rows.length > 0 ? rows[0].meta_value : null;
+      return value ? String(value).trim() || null : null;
     } catch (error) {
       if (verbose) {
         console.log(
@@ -962,7 +787,6 @@ export class DatabaseOperations {
       throw new Error('Cannot delete sites from production environment');
     }
 
-    const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
@@ -975,29 +799,11 @@ export class DatabaseOperations {
       );
     }
 
-    const deleteQuery = `DELETE FROM wp_blogs WHERE blog_id = ${siteId}`;
-
     try {
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${deleteQuery}"`,
-      ]);
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            stdio: (verbose ? 'inherit' : 'ignore') as 'inherit' | 'ignore',
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : {
-            encoding: 'utf8' as const,
-            stdio: (verbose ? 'inherit' : 'ignore') as 'inherit' | 'ignore',
-          };
-
-      execSync(mysqlCommand, execOptions);
+      await DbConnectionManager.get(environment).execute(
+        'DELETE FROM wp_blogs WHERE blog_id = ?',
+        [siteId]
+      );
 
       if (verbose) {
         console.log(
@@ -1020,7 +826,7 @@ export class DatabaseOperations {
       throw new Error('Cannot drop tables in production environment');
     }
 
-    const tables = this.getSiteTables(siteId, environment);
+    const tables = await this.getSiteTables(siteId, environment);
 
     if (tables.length === 0) {
       if (verbose) {
@@ -1059,10 +865,10 @@ export class DatabaseOperations {
 
     if (tables.length === 0) return;
 
-    const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
+    const connection = DbConnectionManager.get(environment);
 
     const batchSize = 10;
     for (let i = 0; i < tables.length; i += batchSize) {
@@ -1070,27 +876,7 @@ export class DatabaseOperations {
 
       for (const table of batch) {
         try {
-          const dropQuery = `DROP TABLE IF EXISTS \`${table}\``;
-          const mysqlCommand = this.buildMysqlCommand(envConfig, [
-            '-e',
-            `"${dropQuery}"`,
-          ]);
-          const execOptions = this.hasNativeMysqlClient()
-            ? {
-                encoding: 'utf8' as const,
-                stdio: 'ignore' as const,
-                env: {
-                  ...process.env,
-                  MYSQL_PWD: envConfig.password,
-                  PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-                },
-              }
-            : {
-                encoding: 'utf8' as const,
-                stdio: 'ignore' as const,
-              };
-
-          execSync(mysqlCommand, execOptions);
+          await connection.execute('DROP TABLE IF EXISTS ??', [table]);
 
           if (verbose) {
             console.log(chalk.gray(`  Dropped table: ${table}`));
@@ -1113,8 +899,8 @@ export class DatabaseOperations {
     sourceEnv: string,
     targetEnv: string
   ): Promise<string[]> {
-    const sourceTables = new Set(this.getSiteTables(siteId, sourceEnv));
-    const targetTables = this.getSiteTables(siteId, targetEnv);
+    const sourceTables = new Set(await this.getSiteTables(siteId, sourceEnv));
+    const targetTables = await this.getSiteTables(siteId, targetEnv);
 
     return targetTables.filter((table) => !sourceTables.has(table));
   }
@@ -1139,7 +925,7 @@ export class DatabaseOperations {
     siteId: string,
     environment: string
   ): Promise<number> {
-    const tables = this.getSiteTables(siteId, environment);
+    const tables = await this.getSiteTables(siteId, environment);
     return tables.length;
   }
 }
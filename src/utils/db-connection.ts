@@ -0,0 +1,338 @@
+/**
+ * Database access shared by every command
+ *
+ * Callers get a DbConnection per environment from DbConnectionManager and
+ * run parameterized SQL through it (`?` for values, `??` for identifiers).
+ * Both backends format statements with SqlBuilder, so escaping and
+ * identifier quoting behave the same whichever one is configured.
+ * The native backend uses the mysql2 driver with a small connection pool;
+ * the cli backend pipes the same SQL into the mysql client (or its Docker
+ * image) for hosts the driver cannot reach. Pick one with
+ * `wfuwp config set database.backend native|cli`.
+ */
+import { execSync } from 'child_process';
+import { createPool, Pool, ResultSetHeader, SqlValue } from 'mysql2/promise';
+import { Config, DatabaseBackend, EnvironmentConfig } from './config';
+import { MysqlCli } from './mysql-cli';
+import { SqlBuilder } from './sql';
+
+export type DbRow = Record<string, any>;
+export type DbValue = SqlValue;
+
+export interface DbWriteResult {
+  affectedRows: number;
+  insertId: number;
+}
+
+export interface DbStatement {
+  sql: string;
+  params?: DbValue[];
+}
+
+export interface DbConnection {
+  readonly environment: string;
+  readonly backend: DatabaseBackend;
+  /**
+   * Run a statement that returns rows. The cli backend returns every value
+   * as a string (or null), so coerce numbers before comparing.
+   */
+  query<T extends DbRow = DbRow>(sql: string, params?: DbValue[]): Promise<T[]>;
+  execute(sql: string, params?: DbValue[]): Promise<DbWriteResult>;
+  // Run several writes in order over one connection (or one mysql process)
+  executeBatch(statements: DbStatement[]): Promise<DbWriteResult>;
+  close(): Promise<void>;
+}
+
+export class DbError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+    readonly errno?: number,
+    readonly sqlState?: string
+  ) {
+    super(message);
+    this.name = 'DbError';
+  }
+}
+
+// Server and client error numbers the cli backend can report, named as the
+// mysql2 driver names them
+const MYSQL_ERROR_CODES: Record<number, string> = {
+  1040: 'ER_CON_COUNT_ERROR',
+  1044: 'ER_DBACCESS_DENIED_ERROR',
+  1045: 'ER_ACCESS_DENIED_ERROR',
+  1049: 'ER_BAD_DB_ERROR',
+  1054: 'ER_BAD_FIELD_ERROR',
+  1062: 'ER_DUP_ENTRY',
+  1064: 'ER_PARSE_ERROR',
+  1146: 'ER_NO_SUCH_TABLE',
+  1205: 'ER_LOCK_WAIT_TIMEOUT',
+  1213: 'ER_LOCK_DEADLOCK',
+  2002: 'ECONNREFUSED',
+  2003: 'ECONNREFUSED',
+  2005: 'ENOTFOUND',
+  2013: 'PROTOCOL_CONNECTION_LOST',
+};
+
+const RETRYABLE_CODES = [
+  'ER_CON_COUNT_ERROR',
+  'ER_LOCK_WAIT_TIMEOUT',
+  'ER_LOCK_DEADLOCK',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'PROTOCOL_CONNECTION_LOST',
+];
+
+class NativeDbConnection implements DbConnection {
+  readonly backend = 'native' as const;
+  private readonly pool: Pool;
+
+  constructor(
+    readonly environment: string,
+    envConfig: EnvironmentConfig
+  ) {
+    this.pool = createPool({
+      host: envConfig.host,
+      port: envConfig.port ? parseInt(envConfig.port, 10) : 3306,
+      user: envConfig.user,
+      password: envConfig.password,
+      database: envConfig.database,
+      charset: 'utf8mb4',
+      connectionLimit: 4,
+      connectTimeout: 10000,
+      dateStrings: true,
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+    });
+  }
+
+  async query<T extends DbRow = DbRow>(
+    sql: string,
+    params: DbValue[] = []
+  ): Promise<T[]> {
+    try {
+      const [rows] = await this.pool.query(SqlBuilder.format(sql, params));
+      return rows as T[];
+    } catch (error) {
+      throw DbConnectionManager.toDbError(error);
+    }
+  }
+
+  async execute(sql: string, params: DbValue[] = []): Promise<DbWriteResult> {
+    try {
+      const [result] = await this.pool.query<ResultSetHeader>(
+        SqlBuilder.format(sql, params)
+      );
+      return { affectedRows: result.affectedRows, insertId: result.insertId };
+    } catch (error) {
+      throw DbConnectionManager.toDbError(error);
+    }
+  }
+
+  async executeBatch(statements: DbStatement[]): Promise<DbWriteResult> {
+    const total: DbWriteResult = { affectedRows: 0, insertId: 0 };
+    if (statements.length === 0) {
+      return total;
+    }
+
+    const connection = await this.pool.getConnection();
+    try {
+      for (const statement of statements) {
+        const [result] = await connection.query<ResultSetHeader>(
+          SqlBuilder.format(statement.sql, statement.params)
+        );
+        total.affectedRows += result.affectedRows;
+        total.insertId = result.insertId || total.insertId;
+      }
+      return total;
+    } catch (error) {
+      throw DbConnectionManager.toDbError(error);
+    } finally {
+      connection.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+class CliDbConnection implements DbConnection {
+  readonly backend = 'cli' as const;
+
+  constructor(
+    readonly environment: string,
+    private readonly envConfig: EnvironmentConfig
+  ) {}
+
+  async query<T extends DbRow = DbRow>(
+    sql: string,
+    params: DbValue[] = []
+  ): Promise<T[]> {
+    return this.parseBatchOutput(
+      this.run(SqlBuilder.format(sql, params))
+    ) as T[];
+  }
+
+  async execute(sql: string, params: DbValue[] = []): Promise<DbWriteResult> {
+    return this.executeBatch([{ sql, params }]);
+  }
+
+  async executeBatch(statements: DbStatement[]): Promise<DbWriteResult> {
+    if (statements.length === 0) {
+      return { affectedRows: 0, insertId: 0 };
+    }
+
+    // ROW_COUNT() only covers the last statement, so sum it into a variable
+    const script = ['SET @wfuwp_affected = 0;'];
+    for (const statement of statements) {
+      const sql = SqlBuilder.format(statement.sql, statement.params)
+        .trim()
+        .replace(/;+$/, '');
+      script.push(`${sql};`);
+      script.push('SET @wfuwp_affected = @wfuwp_affected + ROW_COUNT();');
+    }
+    script.push(
+      'SELECT @wfuwp_affected AS affectedRows, LAST_INSERT_ID() AS insertId;'
+    );
+
+    const [result] = this.parseBatchOutput(this.run(script.join('\n')));
+    return {
+      affectedRows: Number(result?.affectedRows ?? 0),
+      insertId: Number(result?.insertId ?? 0),
+    };
+  }
+
+  async close(): Promise<void> {
+    // Every statement runs in its own mysql process
+  }
+
+  // Run SQL through stdin so statement quoting never reaches the shell
+  private run(sql: string): string {
+    try {
+      return execSync(
+        MysqlCli.buildCommand(this.envConfig, ['--batch'], true),
+        {
+          encoding: 'utf8',
+          input: sql,
+          maxBuffer: 1024 * 1024 * 1024,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          ...MysqlCli.getExecEnv(this.envConfig),
+        }
+      );
+    } catch (error) {
+      throw DbConnectionManager.toDbError(error);
+    }
+  }
+
+  // --batch prints a header row then tab-separated values, escaping tabs,
+  // newlines, backslashes and NUL, and printing NULL for null
+  private parseBatchOutput(output: string): DbRow[] {
+    const lines = output.split('\n').filter((line) => line.length > 0);
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const columns = lines[0].split('\t');
+    return lines.slice(1).map((line) => {
+      const values = line.split('\t');
+      const row: DbRow = {};
+      columns.forEach((column, index) => {
+        const value = values[index] ?? '';
+        row[column] = value === 'NULL' ? null : this.unescapeValue(value);
+      });
+      return row;
+    });
+  }
+
+  private unescapeValue(value: string): string {
+    const escapes: Record<string, string> = {
+      '0': '\0',
+      n: '\n',
+      t: '\t',
+      '\\': '\\',
+    };
+    return value.replace(/\\([0nt\\])/g, (_, char: string) => escapes[char]);
+  }
+}
+
+export class DbConnectionManager {
+  private static connections: Map<string, DbConnection> = new Map();
+
+  /**
+   * Connection for an environment, created on first use and reused until
+   * closeAll(). Throws when the environment has no database credentials.
+   */
+  static get(environment: string): DbConnection {
+    if (!Config.hasRequiredEnvironmentConfig(environment)) {
+      throw new Error(`Environment '${environment}' is not configured`);
+    }
+
+    const envConfig = Config.getEnvironmentConfig(environment);
+    const backend = Config.getDatabaseBackend();
+    const cacheKey = `${backend}:${environment}:${envConfig.host}:${envConfig.database}`;
+
+    let connection = this.connections.get(cacheKey);
+    if (!connection) {
+      connection =
+        backend === 'cli'
+          ? new CliDbConnection(environment, envConfig)
+          : new NativeDbConnection(environment, envConfig);
+      this.connections.set(cacheKey, connection);
+    }
+    return connection;
+  }
+
+  // Pools keep the process alive, so this runs once the CLI command finishes
+  static async closeAll(): Promise<void> {
+    const connections = [...this.connections.values()];
+    this.connections.clear();
+    await Promise.all(
+      connections.map((connection) => connection.close().catch(() => {}))
+    );
+  }
+
+  static isRetryableError(error: unknown): boolean {
+    return (
+      error instanceof DbError &&
+      error.code !== undefined &&
+      RETRYABLE_CODES.includes(error.code)
+    );
+  }
+
+  // Normalize driver and mysql client failures into a DbError with the
+  // MySQL error code, number and SQLSTATE when they are known
+  static toDbError(error: unknown): DbError {
+    if (error instanceof DbError) {
+      return error;
+    }
+
+    const details = (error || {}) as {
+      message?: string;
+      code?: string;
+      errno?: number;
+      sqlState?: string;
+      stderr?: string | Buffer;
+    };
+
+    const stderr = details.stderr ? details.stderr.toString().trim() : '';
+    const cliError = stderr.match(/ERROR (\d+) \((\w+)\)/);
+    if (cliError) {
+      const errno = parseInt(cliError[1], 10);
+      return new DbError(
+        stderr.split('\n').find((line) => line.startsWith('ERROR')) || stderr,
+        MYSQL_ERROR_CODES[errno],
+        errno,
+        cliError[2]
+      );
+    }
+
+    return new DbError(
+      stderr || details.message || 'Unknown database error',
+      details.code,
+      details.errno,
+      details.sqlState
+    );
+  }
+}
@@ -33,6 +33,18 @@ export function formatBytes(bytes: number): string {
   return `${size.toFixed(1)} ${units[unitIndex]}`;
 }
 
+// Parse sizes such as "500MB", "20 GB" or a plain byte count (1024-based,
+// matching formatBytes). Returns null for anything else.
+export function parseBytes(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/i);
+  if (!match) {
+    return null;
+  }
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = units.indexOf((match[2] || 'B').toUpperCase());
+  return Math.round(parseFloat(match[1]) * 1024 ** exponent);
+}
+
 export function getDiskUsage(path: string): DiskUsage {
   try {
     const result = execSync(`df -k "${path}"`, { encoding: 'utf8' });
@@ -1,9 +1,8 @@
-import { execSync } from 'child_process';
 import chalk from 'chalk';
-import { Config } from './config';
 import { DatabaseOperations } from './database';
+import { DbConnectionManager } from './db-connection';
 import { SiteEnumerator } from './site-enumerator';
-import { BackupRecovery } from './backup-recovery';
+import { ChangeSnapshot } from './change-snapshot';
 
 export interface CleanupResult {
   environment: string;
@@ -12,6 +11,8 @@ export interface CleanupResult {
   errors: string[];
   spaceReclaimed?: number;
   duration: number;
+  // Snapshot of the touched tables, taken when createBackup is set
+  snapshotId?: string;
 }
 
 export interface CleanupOptions {
@@ -48,56 +49,6 @@ export interface EnvironmentComparison {
 }
 
 export class EnvironmentCleanupService {
-  private static mysqlClientAvailable: boolean | null = null;
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
-
   static async compareEnvironments(
     sourceEnv: string = 'prod',
     targetEnvs: string[] = ['dev', 'uat', 'pprd'],
@@ -125,7 +76,7 @@ export class EnvironmentCleanupService {
       const orphanedTables: OrphanedTable[] = [];
       for (const site of targetSites.sites) {
         if (!sourceSiteIds.has(site.blogId)) {
-          const siteTables = DatabaseOperations.getSiteTables(
+          const siteTables = await DatabaseOperations.getSiteTables(
             site.blogId.toString(),
             targetEnv
           );
@@ -141,12 +92,12 @@ export class EnvironmentCleanupService {
         for (const site of targetSites.sites) {
           if (sourceSiteIds.has(site.blogId)) {
             const sourceTables = new Set(
-              DatabaseOperations.getSiteTables(
+              await DatabaseOperations.getSiteTables(
                 site.blogId.toString(),
                 sourceEnv
               )
             );
-            const targetTables = DatabaseOperations.getSiteTables(
+            const targetTables = await DatabaseOperations.getSiteTables(
               site.blogId.toString(),
               targetEnv
             );
@@ -201,24 +152,19 @@ export class EnvironmentCleanupService {
         );
         return result;
       }
+      const siteTables = await DatabaseOperations.getSiteTables(
+        siteId.toString(),
+        environment
+      );
       if (options.createBackup && !options.dryRun) {
         if (options.verbose) {
-          console.log(chalk.gray(`Creating backup for site ${siteId}...`));
+          console.log(chalk.gray(`Creating snapshot for site ${siteId}...`));
         }
-        const timestamp = new Date()
-          .toISOString()
-          .replace(/[:.]/g, '-')
-          .slice(0, 19);
-        const backupPath = require('path').join(
-          process.cwd(),
-          `site-${siteId}-${environment}-${timestamp}.sql`
-        );
-        await BackupRecovery.backupSiteTables(environment, siteId, backupPath);
+        const snapshot = await ChangeSnapshot.capture(environment, siteTables, {
+          rows: { wp_blogs: `blog_id = ${siteId}` },
+        });
+        result.snapshotId = snapshot.snapshotId;
       }
-      const siteTables = DatabaseOperations.getSiteTables(
-        siteId.toString(),
-        environment
-      );
 
       if (!options.dryRun) {
         if (options.verbose) {
@@ -304,38 +250,61 @@ export class EnvironmentCleanupService {
       };
       const startTime = Date.now();
       try {
-        if (!options.tablesOnly) {
-          for (const orphanedSite of comparison.orphanedSites) {
-            if (
-              options.targetSite &&
-              options.targetSite !== orphanedSite.siteId
-            ) {
-              continue;
-            }
-            const siteResult = await this.deleteSiteFromEnvironment(
-              orphanedSite.siteId,
-              comparison.environment,
-              options
+        const sitesToDelete = options.tablesOnly
+          ? []
+          : comparison.orphanedSites.filter(
+              (site) =>
+                !options.targetSite || options.targetSite === site.siteId
             );
-            envResult.deletedSites.push(...siteResult.deletedSites);
-            envResult.droppedTables.push(...siteResult.droppedTables);
-            envResult.errors.push(...siteResult.errors);
-          }
-        }
-        if (!options.sitesOnly) {
-          const tablesToDrop = comparison.orphanedTables.filter(
-            (t) => !options.targetSite || t.siteId === options.targetSite
+        const tablesToDrop = options.sitesOnly
+          ? []
+          : comparison.orphanedTables.filter(
+              (t) => !options.targetSite || t.siteId === options.targetSite
+            );
+
+        // One snapshot per environment covering everything about to change
+        if (
+          options.createBackup &&
+          !options.dryRun &&
+          (sitesToDelete.length > 0 || tablesToDrop.length > 0)
+        ) {
+          const snapshot = await ChangeSnapshot.capture(
+            comparison.environment,
+            [
+              ...sitesToDelete.flatMap((site) => site.tables),
+              ...tablesToDrop.map((t) => t.tableName),
+            ],
+            {
+              rows:
+                sitesToDelete.length > 0
+                  ? {
+                      wp_blogs: `blog_id IN (${sitesToDelete.map((site) => site.siteId).join(', ')})`,
+                    }
+                  : undefined,
+            }
           );
+          envResult.snapshotId = snapshot.snapshotId;
+        }
+        const stepOptions = { ...options, createBackup: false };
 
-          if (tablesToDrop.length > 0) {
-            const tableResult = await this.cleanupOrphanedTables(
-              tablesToDrop,
-              comparison.environment,
-              options
-            );
-            envResult.droppedTables.push(...tableResult.droppedTables);
-            envResult.errors.push(...tableResult.errors);
-          }
+        for (const orphanedSite of sitesToDelete) {
+          const siteResult = await this.deleteSiteFromEnvironment(
+            orphanedSite.siteId,
+            comparison.environment,
+            stepOptions
+          );
+          envResult.deletedSites.push(...siteResult.deletedSites);
+          envResult.droppedTables.push(...siteResult.droppedTables);
+          envResult.errors.push(...siteResult.errors);
+        }
+        if (tablesToDrop.length > 0) {
+          const tableResult = await this.cleanupOrphanedTables(
+            tablesToDrop,
+            comparison.environment,
+            stepOptions
+          );
+          envResult.droppedTables.push(...tableResult.droppedTables);
+          envResult.errors.push(...tableResult.errors);
         }
       } catch (error) {
         envResult.errors.push(
@@ -398,6 +367,11 @@ export class EnvironmentCleanupService {
       );
       if (result) {
         report += chalk.green(`✅ Completed in ${result.duration}ms\n`);
+        if (result.snapshotId) {
+          report += chalk.gray(
+            `Snapshot: ${result.snapshotId} (undo with: wfuwp undo ${result.snapshotId})\n`
+          );
+        }
         if (result.errors.length > 0) {
           report += chalk.red(`❌ Errors: ${result.errors.length}\n`);
           result.errors.forEach((error) => {
@@ -442,22 +416,11 @@ export class EnvironmentCleanupService {
     siteId: number,
     environment: string
   ): Promise<void> {
-    const envConfig = Config.getEnvironmentConfig(environment);
-    const deleteQuery = `DELETE FROM wp_blogs WHERE blog_id = ${siteId}`;
     try {
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${deleteQuery}"`,
-      ]);
-      execSync(mysqlCommand, {
-        encoding: 'utf8',
-        stdio: 'ignore',
-        env: {
-          ...process.env,
-          MYSQL_PWD: envConfig.password,
-          PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-        },
-      });
+      await DbConnectionManager.get(environment).execute(
+        'DELETE FROM wp_blogs WHERE blog_id = ?',
+        [siteId]
+      );
     } catch (error) {
       throw new Error(
         `Failed to delete site ${siteId} from wp_blogs: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -470,26 +433,13 @@ export class EnvironmentCleanupService {
     environment: string
   ): Promise<void> {
     if (tables.length === 0) return;
-    const envConfig = Config.getEnvironmentConfig(environment);
+    const connection = DbConnectionManager.get(environment);
     const batchSize = 10;
     for (let i = 0; i < tables.length; i += batchSize) {
       const batch = tables.slice(i, i + batchSize);
       for (const table of batch) {
         try {
-          const dropQuery = `DROP TABLE IF EXISTS \`${table}\``;
-          const mysqlCommand = this.buildMysqlCommand(envConfig, [
-            '-e',
-            `"${dropQuery}"`,
-          ]);
-          execSync(mysqlCommand, {
-            encoding: 'utf8',
-            stdio: 'ignore',
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          });
+          await connection.execute('DROP TABLE IF EXISTS ??', [table]);
         } catch (error) {
           throw new Error(
             `Failed to drop table ${table}: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1,9 +1,41 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Config, MappingOverride } from './config';
+import type { Replacement } from './serialized-replace';
+import { SiteEnumerator } from './site-enumerator';
+
 export interface EnvironmentMapping {
   urlReplacements: Array<{ from: string; to: string }>;
   s3Replacements: Array<{ from: string; to: string }>;
 }
 
+export interface MappingSource {
+  source: 'built-in' | 'config' | 'project';
+  path?: string;
+  replaceBuiltIn?: boolean;
+}
+
+export interface ReplacementOrderIssue {
+  index: number;
+  shadowedBy: number;
+  message: string;
+}
+
+export interface SiteDomainReplacement {
+  sourceDomain: string;
+  targetDomain: string;
+  origin: 'wp_blogs' | 'wp_domain_mapping';
+}
+
+export interface SiteReplacementResult {
+  domains: SiteDomainReplacement[];
+  replacements: Replacement[];
+  warnings: string[];
+}
+
 export class EnvironmentMappingService {
+  static readonly PROJECT_MAPPINGS_FILE = '.wfuwp-mappings.json';
+
   private static mappings: Record<string, EnvironmentMapping> = {
     'prod->pprd': {
       urlReplacements: [
@@ -235,26 +267,298 @@ export class EnvironmentMappingService {
 
   static getEnvironmentMapping(from: string, to: string): EnvironmentMapping {
     const key = `${from}->${to}`;
-    if (!this.mappings[key]) {
+    const overrides = this.getOverrides(key);
+    const builtIn = this.mappings[key];
+    if (!builtIn && overrides.length === 0) {
       throw new Error(`Migration path ${from} -> ${to} is not supported`);
     }
-    const mapping = this.mappings[key];
+
+    // User rules go first: they are usually more specific hosts (new domains,
+    // CDN names) that a generic built-in rule such as `.wfu.edu` would shadow
+    const keepBuiltIn =
+      builtIn && !overrides.some(({ override }) => override.replaceBuiltIn);
     return {
       urlReplacements: [
-        ...mapping.urlReplacements,
+        ...overrides.flatMap(({ override }) => override.urlReplacements || []),
+        ...(keepBuiltIn ? builtIn.urlReplacements : []),
         ...this.getCdnCleanupReplacements(to),
       ],
-      s3Replacements: [...mapping.s3Replacements],
+      s3Replacements: [
+        ...overrides.flatMap(({ override }) => override.s3Replacements || []),
+        ...(keepBuiltIn ? builtIn.s3Replacements : []),
+      ],
+    };
+  }
+
+  /**
+   * Build replacement pairs for a site's own domains (wp_blogs.domain and any
+   * wp_domain_mapping entries) that the environment rules would not rewrite,
+   * such as vanity domains outside wfu.edu. The target address (domain and
+   * path) is taken from the target's wp_blogs row for the same blog ID, or for
+   * targetSiteId when the site is restored under a different ID.
+   */
+  static async getSiteReplacements(
+    siteId: number,
+    from: string,
+    to: string,
+    targetSiteId = siteId
+  ): Promise<SiteReplacementResult> {
+    const result: SiteReplacementResult = {
+      domains: [],
+      replacements: [],
+      warnings: [],
     };
+    const mapping = this.getEnvironmentMapping(from, to);
+    const environmentRules = [
+      ...mapping.urlReplacements,
+      ...mapping.s3Replacements,
+    ];
+
+    const sourceSite = await SiteEnumerator.getSiteInfo(siteId, from);
+    if (!sourceSite) {
+      result.warnings.push(
+        `Site ${siteId} not found in ${from} wp_blogs; skipping site domain mapping`
+      );
+      return result;
+    }
+
+    const sourceDomains: Array<{
+      domain: string;
+      origin: SiteDomainReplacement['origin'];
+    }> = [{ domain: sourceSite.domain, origin: 'wp_blogs' }];
+    try {
+      for (const domain of await SiteEnumerator.getMappedDomains(
+        siteId,
+        from
+      )) {
+        sourceDomains.push({ domain, origin: 'wp_domain_mapping' });
+      }
+    } catch (error) {
+      result.warnings.push(
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+
+    const targetSite = await SiteEnumerator.getSiteInfo(targetSiteId, to);
+    // Addresses are compared without the trailing slash so links keep their
+    // own; a mapped domain serves the site's root, so only wp_blogs has a path
+    const sourcePath = sourceSite.path.replace(/\/+$/, '');
+    const targetPath = targetSite?.path.replace(/\/+$/, '');
+
+    for (const { domain, origin } of sourceDomains) {
+      const mapped = this.applyRules(domain, environmentRules);
+      const targetDomain = targetSite ? targetSite.domain : mapped;
+
+      if (!targetSite && mapped === domain) {
+        result.warnings.push(
+          `No ${to} domain known for ${domain} (site ${targetSiteId} is not in ${to} wp_blogs); add a mapping with "wfuwp config mappings"`
+        );
+        continue;
+      }
+      if (
+        mapped === targetDomain ||
+        targetDomain === domain ||
+        result.domains.some((entry) => entry.sourceDomain === domain)
+      ) {
+        continue;
+      }
+
+      const fromPath = origin === 'wp_blogs' ? sourcePath : '';
+      const toPath = targetPath ?? fromPath;
+      result.domains.push({
+        sourceDomain: domain,
+        targetDomain: `${targetDomain}${toPath}`,
+        origin,
+      });
+      // Protocol-relative so both schemes match but e-mail addresses on the
+      // vanity domain are left alone; the boundary keeps //vanity.org from
+      // matching inside //vanity.org.uk
+      result.replacements.push({
+        from: `//${domain}${fromPath}`,
+        to: `//${targetDomain}${toPath}`,
+        pathBoundary: true,
+      });
+    }
+
+    return result;
+  }
+
+  static getMappingSources(from: string, to: string): MappingSource[] {
+    const key = `${from}->${to}`;
+    const sources: MappingSource[] = this.getOverrides(key).map(
+      ({ source, path, override }) => ({
+        source,
+        path,
+        replaceBuiltIn: !!override.replaceBuiltIn,
+      })
+    );
+    if (this.mappings[key]) {
+      sources.push({ source: 'built-in' });
+    }
+    return sources;
   }
 
   static getSupportedMigrationPaths(): string[] {
-    return Object.keys(this.mappings);
+    const paths = new Set(Object.keys(this.mappings));
+    for (const overrides of [
+      this.loadProjectMappings(),
+      this.loadConfigMappings(),
+    ]) {
+      Object.keys(overrides).forEach((key) => paths.add(key));
+    }
+    return [...paths];
   }
 
   static isMigrationPathSupported(from: string, to: string): boolean {
     const key = `${from}->${to}`;
-    return key in this.mappings;
+    return key in this.mappings || this.getOverrides(key).length > 0;
+  }
+
+  /**
+   * Find rules that never see their original text because an earlier, more
+   * generic rule already rewrote it into something else. Rules whose `from`
+   * contains an earlier rule's output are cleanup rules and are skipped.
+   */
+  static validateReplacementOrder(
+    replacements: Array<{ from: string; to: string }>
+  ): ReplacementOrderIssue[] {
+    const issues: ReplacementOrderIssue[] = [];
+    const apply = (value: string, start: number): string =>
+      this.applyRules(value, replacements.slice(start));
+
+    replacements.forEach((replacement, index) => {
+      const earlier = replacements.slice(0, index);
+      const shadowedBy = earlier.findIndex(
+        (rule) => rule.from && replacement.from.includes(rule.from)
+      );
+      if (shadowedBy === -1) {
+        return;
+      }
+      if (
+        earlier.some((rule) => rule.to && replacement.from.includes(rule.to))
+      ) {
+        return;
+      }
+
+      const actual = apply(replacement.from, 0);
+      const intended = apply(replacement.from, index);
+      if (actual !== intended) {
+        const rule = replacements[shadowedBy];
+        issues.push({
+          index,
+          shadowedBy,
+          message: `Rule #${index + 1} "${replacement.from}" → "${replacement.to}" is shadowed by rule #${shadowedBy + 1} "${rule.from}" → "${rule.to}": "${replacement.from}" becomes "${actual}" instead of "${intended}"`,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private static applyRules(
+    value: string,
+    rules: Array<{ from: string; to: string }>
+  ): string {
+    return rules.reduce(
+      (result, rule) =>
+        rule.from ? result.split(rule.from).join(rule.to) : result,
+      value
+    );
+  }
+
+  private static getOverrides(key: string): Array<{
+    source: 'config' | 'project';
+    path: string;
+    override: MappingOverride;
+  }> {
+    const overrides: Array<{
+      source: 'config' | 'project';
+      path: string;
+      override: MappingOverride;
+    }> = [];
+    const project = this.loadProjectMappings();
+    if (project[key]) {
+      overrides.push({
+        source: 'project',
+        path: join(process.cwd(), this.PROJECT_MAPPINGS_FILE),
+        override: project[key],
+      });
+    }
+    const config = this.loadConfigMappings();
+    if (config[key]) {
+      overrides.push({
+        source: 'config',
+        path: Config.getConfigFilePath(),
+        override: config[key],
+      });
+    }
+    return overrides;
+  }
+
+  private static loadConfigMappings(): Record<string, MappingOverride> {
+    const mappings = Config.getMappingsConfig() || {};
+    this.validateOverrides(mappings, 'config.json');
+    return mappings;
+  }
+
+  private static loadProjectMappings(): Record<string, MappingOverride> {
+    const projectFile = join(process.cwd(), this.PROJECT_MAPPINGS_FILE);
+    if (!existsSync(projectFile)) {
+      return {};
+    }
+
+    let mappings: Record<string, MappingOverride>;
+    try {
+      mappings = JSON.parse(readFileSync(projectFile, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read ${projectFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    this.validateOverrides(mappings, this.PROJECT_MAPPINGS_FILE);
+    return mappings;
+  }
+
+  private static validateOverrides(
+    mappings: Record<string, MappingOverride>,
+    source: string
+  ): void {
+    const environments = Config.getValidEnvironments();
+
+    for (const [key, override] of Object.entries(mappings)) {
+      const [from, to, ...rest] = key.split('->');
+      if (
+        rest.length > 0 ||
+        !environments.includes(from) ||
+        !environments.includes(to) ||
+        from === to
+      ) {
+        throw new Error(
+          `Invalid mapping key "${key}" in ${source}. Use <from>-><to> with environments: ${environments.join(', ')}`
+        );
+      }
+
+      for (const field of ['urlReplacements', 's3Replacements'] as const) {
+        const rules = override[field];
+        if (rules === undefined) {
+          continue;
+        }
+        if (
+          !Array.isArray(rules) ||
+          rules.some(
+            (rule) =>
+              !rule ||
+              typeof rule.from !== 'string' ||
+              typeof rule.to !== 'string' ||
+              rule.from.length === 0
+          )
+        ) {
+          throw new Error(
+            `Invalid ${field} for "${key}" in ${source}. Expected an array of { "from": "...", "to": "..." } with a non-empty "from"`
+          );
+        }
+      }
+    }
   }
 
   private static getCdnCleanupReplacements(
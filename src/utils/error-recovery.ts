@@ -1,6 +1,6 @@
 import chalk from 'chalk';
-import { execSync } from 'child_process';
 import { BackupRecovery } from './backup-recovery';
+import { DbConnectionManager } from './db-connection';
 
 interface MigrationContext {
   sourceEnv: string;
@@ -38,55 +38,6 @@ interface HealthCheckResult {
 }
 
 export class ErrorRecovery {
-  private static mysqlClientAvailable: boolean | null = null;
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
   private static readonly DEFAULT_RETRY_CONFIG: RetryConfig = {
     maxRetries: 3,
     retryDelay: 5000, // 5 seconds
@@ -133,7 +84,10 @@ export class ErrorRecovery {
 
         if (
           attempt === retryConfig.maxRetries ||
-          !this.isRetryableError(lastError.message)
+          !(
+            DbConnectionManager.isRetryableError(lastError) ||
+            this.isRetryableError(lastError.message)
+          )
         ) {
           break;
         }
@@ -438,27 +392,13 @@ export class ErrorRecovery {
 
   static async checkDatabaseIntegrity(environment: string): Promise<void> {
     const { Config } = await import('./config');
-    const envConfig = Config.getEnvironmentConfig(environment);
 
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
 
     try {
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            timeout: 30000,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { timeout: 30000 };
-      execSync(
-        `${this.buildMysqlCommand(envConfig, ['-e', '"SELECT 1"'])} > /dev/null`,
-        execOptions
-      );
+      await DbConnectionManager.get(environment).query('SELECT 1');
     } catch (error) {
       throw new Error(
         `Database integrity check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -470,32 +410,14 @@ export class ErrorRecovery {
     const { Config } = await import('./config');
     const { SiteEnumerator } = await import('./site-enumerator');
     const { NetworkTableOperations } = await import('./network-tables');
+    const { DatabaseOperations } = await import('./database');
 
-    const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
 
     try {
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-      const allTablesOutput = execSync(
-        this.buildMysqlCommand(envConfig, ['-e', '"SHOW TABLES"', '-s']),
-        execOptions
-      );
-
-      const allTables = allTablesOutput
-        .trim()
-        .split('\n')
-        .filter((line: string) => line.trim().length > 0);
+      const allTables = await DatabaseOperations.getAllTables(environment);
 
       // Get known network tables
       const networkTables = NetworkTableOperations.getNetworkTables().map(
@@ -3,70 +3,24 @@
  * Format: {siteName}-{siteId}-{environment}-{purpose}-{date}.sql
  * Example: magazine-43-pprd-rename-export-08-05-2025.sql
  */
-import { execSync } from 'child_process';
+import { DbConnectionManager } from './db-connection';
+
+export const SQL_FILE_PURPOSES = [
+  'initial-export',
+  'backup-export',
+  'rename-export',
+  'migrated-export',
+] as const;
 
 export interface SqlFileOptions {
   siteId: string;
   environment: string;
-  purpose:
-    | 'initial-export'
-    | 'backup-export'
-    | 'rename-export'
-    | 'migrated-export';
+  purpose: (typeof SQL_FILE_PURPOSES)[number];
   siteName?: string;
   date?: Date;
 }
 
 export class FileNaming {
-  private static mysqlClientAvailable: boolean | null = null;
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
   /**
    * Generate standardized SQL filename
    */
@@ -107,10 +61,11 @@ export class FileNaming {
   }
 
   /**
-   * Parse a standardized SQL filename back into components
+   * Parse a standardized SQL filename (optionally gzipped) back into
+   * components
    */
   static parseFilename(filename: string): Partial<SqlFileOptions> | null {
-    const basename = filename.replace(/\.sql$/i, '');
+    const basename = filename.replace(/\.sql(\.gz)?$/i, '');
     const parts = basename.split('-');
 
     if (parts.length < 5) {
@@ -162,68 +117,41 @@ export class FileNaming {
     environment: string
   ): Promise<string> {
     try {
-      const { Config } = await import('./config');
-      const envConfig = Config.getEnvironmentConfig(environment);
-
-      // Use MySQL to query the site name from wp_blogs table
-      const { execSync } = await import('child_process');
-
-      const query = `SELECT domain, path FROM wp_blogs WHERE blog_id = ${siteId} LIMIT 1;`;
-      const mysqlCmd = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${query}"`,
-        '--silent',
-        '--raw',
+      const rows = await DbConnectionManager.get(environment).query<{
+        domain: string;
+        path: string;
+      }>('SELECT domain, path FROM wp_blogs WHERE blog_id = ? LIMIT 1', [
+        parseInt(siteId, 10),
       ]);
 
-      try {
-        const execOptions = this.hasNativeMysqlClient()
-          ? {
-              encoding: 'utf8' as const,
-              stdio: 'pipe' as const,
-              env: {
-                ...process.env,
-                MYSQL_PWD: envConfig.password,
-              },
-            }
-          : { encoding: 'utf8' as const, stdio: 'pipe' as const };
-        const result = execSync(mysqlCmd, execOptions);
-        const lines = result.trim().split('\n');
-
-        if (lines.length > 0 && lines[0]) {
-          const [domain, path] = lines[0].split('\t');
-
-          if (domain && domain !== 'domain') {
-            // Skip header row
-            // Extract meaningful name from domain
-            let siteName = domain.replace(
-              /\.(wfu\.edu|pprd\.wfu\.edu|dev\.wfu\.edu|uat\.wfu\.edu)$/,
-              ''
-            );
-            siteName = siteName.replace(/^(www\.|aws\.)/, '');
-
-            // If path has meaningful info, include it
-            if (path && path !== '/' && path !== '/wp/') {
-              const pathName = path
-                .replace(/^\//, '')
-                .replace(/\/$/, '')
-                .replace(/\/wp$/, '');
-              if (pathName) {
-                siteName = `${siteName}-${pathName}`;
-              }
-            }
-
-            return siteName || `site${siteId}`;
+      if (rows.length > 0 && rows[0].domain) {
+        const { domain, path } = rows[0];
+
+        // Extract meaningful name from domain
+        let siteName = domain.replace(
+          /\.(wfu\.edu|pprd\.wfu\.edu|dev\.wfu\.edu|uat\.wfu\.edu)$/,
+          ''
+        );
+        siteName = siteName.replace(/^(www\.|aws\.)/, '');
+
+        // If path has meaningful info, include it
+        if (path && path !== '/' && path !== '/wp/') {
+          const pathName = path
+            .replace(/^\//, '')
+            .replace(/\/$/, '')
+            .replace(/\/wp$/, '');
+          if (pathName) {
+            siteName = `${siteName}-${pathName}`;
           }
         }
-      } catch (dbError) {
-        // If database query fails, fall back to default
-        console.warn(
-          `Warning: Could not get site name from database: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`
-        );
+
+        return siteName || `site${siteId}`;
       }
-    } catch (error) {
-      // If any other error occurs, fall back to default
+    } catch (dbError) {
+      // If database query fails, fall back to default
+      console.warn(
+        `Warning: Could not get site name from database: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`
+      );
     }
 
     return `site${siteId}`;
@@ -5,6 +5,7 @@ import os from 'os';
 import chalk from 'chalk';
 import { Config } from './config';
 import { DDEVManager } from './ddev-manager';
+import { S3Operations } from './s3';
 
 export interface RefreshOptions {
   siteId: string;
@@ -202,10 +203,7 @@ export class LocalContentManager {
 
       try {
         const s3Path = `${s3Config.prefix || 'backups'}/${options.environment}/site-${options.siteId}/latest.sql.gz`;
-        this.runCommand(
-          `aws s3 cp s3://${s3Config.bucket}/${s3Path} "${localBackupPath}"`,
-          { silent: false }
-        );
+        await S3Operations.downloadObject(s3Path, localBackupPath, true);
       } catch (error) {
         console.log(
           chalk.yellow(
@@ -215,12 +213,9 @@ export class LocalContentManager {
 
         try {
           const s3Path = `${s3Config.prefix || 'backups'}/${options.environment}/site-${options.siteId}/`;
-          const listOutput = this.runCommand(
-            `aws s3 ls s3://${s3Config.bucket}/${s3Path} --recursive | sort -k1,2 | tail -1`,
-            { silent: true }
-          );
+          const recentBackup = await S3Operations.findLatestObject(s3Path);
 
-          if (!listOutput.trim()) {
+          if (!recentBackup) {
             return {
               success: false,
               message: `No database backups found for site ${options.siteId} in ${options.environment} environment`,
@@ -228,12 +223,10 @@ export class LocalContentManager {
             };
           }
 
-          const parts = listOutput.trim().split(/\s+/);
-          const recentBackupKey = parts[parts.length - 1];
-
-          this.runCommand(
-            `aws s3 cp s3://${s3Config.bucket}/${recentBackupKey} "${localBackupPath}"`,
-            { silent: false }
+          await S3Operations.downloadObject(
+            recentBackup.key,
+            localBackupPath,
+            true
           );
         } catch (listError) {
           return {
@@ -5,6 +5,7 @@ import os from 'os';
 import chalk from 'chalk';
 import { DDEVManager, EnvironmentHealth } from './ddev-manager';
 import { Config } from './config';
+import { S3Operations } from './s3';
 
 export interface InstallOptions {
   docker?: boolean;
@@ -587,17 +588,22 @@ export class LocalInstaller {
         );
 
         try {
-          const listCommand = `aws s3 ls s3://${s3Config.bucket}/${s3Prefix}/ --recursive | tail -1 | awk '{print $4}'`;
-          const latestBackup = this.runCommand(listCommand, { silent: true });
+          const latestBackup = await S3Operations.findLatestObject(
+            `${s3Prefix}/`
+          );
 
           if (latestBackup) {
             const localBackupPath = path.join(
               this.getWorkspaceDir(),
               'database.sql'
             );
-            console.log(chalk.blue(`⬇️  Downloading backup: ${latestBackup}`));
-            this.runCommand(
-              `aws s3 cp s3://${s3Config.bucket}/${latestBackup} "${localBackupPath}"`
+            console.log(
+              chalk.blue(`⬇️  Downloading backup: ${latestBackup.key}`)
+            );
+            await S3Operations.downloadObject(
+              latestBackup.key,
+              localBackupPath,
+              true
             );
 
             console.log(
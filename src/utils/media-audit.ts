@@ -0,0 +1,374 @@
+import { posix } from 'path';
+import chalk from 'chalk';
+import { DatabaseOperations } from './database';
+import { DbConnectionManager } from './db-connection';
+import { S3StorageManager } from './s3-storage';
+import { S3ObjectInfo, S3Sync } from './s3sync';
+
+export interface MediaFile {
+  // Relative to the site's uploads folder, e.g. 2024/01/photo-300x200.jpg
+  key: string;
+  attachmentId: number;
+  // 'full' for the attached file, 'original' for the image WordPress
+  // scaled it from, otherwise the image size name
+  variant: string;
+  // Bytes, when the attachment metadata records it (WordPress 6.0+)
+  size: number | null;
+}
+
+export interface MediaAuditReport {
+  siteId: number;
+  environment: string;
+  location: string;
+  attachments: number;
+  // Files the attachment records refer to, generated sizes included
+  expected: number;
+  missing: MediaFile[];
+  missingBytes: number;
+  // Files in the media library folders no attachment refers to
+  orphaned: S3ObjectInfo[];
+  orphanedBytes: number;
+  // Objects in other folders (plugin uploads and the like), not judged
+  skipped: number;
+  warnings: string[];
+}
+
+export interface MediaFixPlan {
+  source: string;
+  destination: string;
+  // Missing files the source environment has, with the source's sizes
+  copy: MediaFile[];
+  // Missing files the source environment lacks as well
+  unavailable: MediaFile[];
+}
+
+export interface MediaFixResult {
+  copied: number;
+  copiedBytes: number;
+  failed: Array<{ key: string; error: string }>;
+}
+
+export interface MediaAuditOptions {
+  verbose?: boolean;
+}
+
+// Where WordPress puts media library uploads: YYYY/MM folders, or the
+// uploads folder itself when uploads_use_yearmonth_folders is off
+const MEDIA_LIBRARY_KEY = /^(\d{4}\/\d{2}\/)?[^/]+$/;
+
+const ATTACHMENT_META_KEYS = [
+  '_wp_attached_file',
+  '_wp_attachment_metadata',
+  // Originals kept when an image is edited in WordPress
+  '_wp_attachment_backup_sizes',
+];
+
+export class MediaAudit {
+  /**
+   * Compare a site's attachment records with the objects in its S3 uploads
+   * folder. Every attachment is expected to have its attached file, the
+   * original it was scaled from, each generated size and any pre-edit
+   * backups; objects in the media library folders none of them name are
+   * reported as orphaned.
+   */
+  static async audit(
+    siteId: number,
+    environment: string,
+    options: MediaAuditOptions = {}
+  ): Promise<MediaAuditReport> {
+    const prefix = siteId === 1 ? 'wp_' : `wp_${siteId}_`;
+    const postsTable = `${prefix}posts`;
+    const postmetaTable = `${prefix}postmeta`;
+    const tables = await DatabaseOperations.getSiteTables(
+      String(siteId),
+      environment
+    );
+    for (const table of [postsTable, postmetaTable]) {
+      if (!tables.includes(table)) {
+        throw new Error(`Table ${table} not found in ${environment}`);
+      }
+    }
+
+    if (options.verbose) {
+      console.log(chalk.gray(`Reading attachments from ${postsTable}...`));
+    }
+    const connection = DbConnectionManager.get(environment);
+    const attachments = await connection.query(
+      "SELECT ID FROM ?? WHERE post_type = 'attachment' ORDER BY ID",
+      [postsTable]
+    );
+    const metaRows = await connection.query(
+      `SELECT pm.post_id, pm.meta_key, pm.meta_value FROM ?? pm
+        JOIN ?? p ON p.ID = pm.post_id
+        WHERE p.post_type = 'attachment' AND pm.meta_key IN (?)`,
+      [postmetaTable, postsTable, ATTACHMENT_META_KEYS]
+    );
+    const metaByAttachment = new Map<number, Record<string, string>>();
+    for (const row of metaRows) {
+      const id = Number(row.post_id);
+      const meta = metaByAttachment.get(id) || {};
+      meta[row.meta_key] = row.meta_value ?? '';
+      metaByAttachment.set(id, meta);
+    }
+
+    const warnings: string[] = [];
+    const expected = new Map<string, MediaFile>();
+    for (const attachment of attachments) {
+      const id = Number(attachment.ID);
+      for (const file of this.getExpectedFiles(
+        id,
+        metaByAttachment.get(id) || {},
+        warnings
+      )) {
+        if (!expected.has(file.key)) {
+          expected.set(file.key, file);
+        }
+      }
+    }
+
+    const location = S3Sync.getUploadsLocation(String(siteId), environment);
+    if (options.verbose) {
+      console.log(chalk.gray(`Listing ${location}...`));
+    }
+    const objects = await S3Sync.listObjects(location);
+    const stored = new Set(objects.map((object) => object.key));
+
+    const missing = [...expected.values()].filter(
+      (file) => !stored.has(file.key)
+    );
+    const orphaned: S3ObjectInfo[] = [];
+    let skipped = 0;
+    for (const object of objects) {
+      if (!MEDIA_LIBRARY_KEY.test(object.key)) {
+        skipped++;
+      } else if (!expected.has(object.key)) {
+        orphaned.push(object);
+      }
+    }
+
+    return {
+      siteId,
+      environment,
+      location,
+      attachments: attachments.length,
+      expected: expected.size,
+      missing,
+      missingBytes: missing.reduce(
+        (total, file) => total + (file.size || 0),
+        0
+      ),
+      orphaned,
+      orphanedBytes: orphaned.reduce((total, object) => total + object.size, 0),
+      skipped,
+      warnings,
+    };
+  }
+
+  // Looks the missing files up in the same site's folder in another
+  // environment
+  static async planFix(
+    report: MediaAuditReport,
+    fromEnv: string
+  ): Promise<MediaFixPlan> {
+    const source = S3Sync.getUploadsLocation(String(report.siteId), fromEnv);
+    const sourceObjects = new Map(
+      (await S3Sync.listObjects(source)).map((object) => [object.key, object])
+    );
+
+    const plan: MediaFixPlan = {
+      source,
+      destination: report.location,
+      copy: [],
+      unavailable: [],
+    };
+    for (const file of report.missing) {
+      const object = sourceObjects.get(file.key);
+      if (object) {
+        plan.copy.push({ ...file, size: object.size });
+      } else {
+        plan.unavailable.push(file);
+      }
+    }
+    return plan;
+  }
+
+  // Copies file by file, server-side, carrying on past failures
+  static async fix(
+    plan: MediaFixPlan,
+    options: MediaAuditOptions = {}
+  ): Promise<MediaFixResult> {
+    const storage = S3StorageManager.get();
+    const source = S3StorageManager.parseLocation(plan.source);
+    const destination = S3StorageManager.parseLocation(plan.destination);
+    const result: MediaFixResult = { copied: 0, copiedBytes: 0, failed: [] };
+
+    for (const file of plan.copy) {
+      try {
+        await storage.copyObject(
+          source.bucket,
+          `${source.prefix}${file.key}`,
+          destination.bucket,
+          `${destination.prefix}${file.key}`,
+          file.size ?? undefined
+        );
+        result.copied++;
+        result.copiedBytes += file.size || 0;
+        if (options.verbose) {
+          console.log(chalk.gray(`  copy: ${file.key}`));
+        }
+      } catch (error) {
+        result.failed.push({
+          key: file.key,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return result;
+  }
+
+  private static getExpectedFiles(
+    attachmentId: number,
+    meta: Record<string, string>,
+    warnings: string[]
+  ): MediaFile[] {
+    const readMeta = (metaKey: string): Record<string, unknown> => {
+      if (!meta[metaKey]) {
+        return {};
+      }
+      try {
+        const value = this.unserialize(meta[metaKey]);
+        return this.isRecord(value) ? value : {};
+      } catch (error) {
+        warnings.push(
+          `Attachment ${attachmentId}: could not read ${metaKey} (${error instanceof Error ? error.message : 'Unknown error'})`
+        );
+        return {};
+      }
+    };
+    const metadata = readMeta('_wp_attachment_metadata');
+    const backupSizes = readMeta('_wp_attachment_backup_sizes');
+
+    const attachedFile =
+      meta._wp_attached_file ||
+      (typeof metadata.file === 'string' ? metadata.file : '');
+    if (!attachedFile) {
+      warnings.push(`Attachment ${attachmentId} has no _wp_attached_file`);
+      return [];
+    }
+
+    // Generated sizes and originals sit next to the attached file
+    const attached = this.normalizeKey(attachedFile);
+    const folder = posix.dirname(attached);
+    const inFolder = (name: string): string =>
+      folder === '.' ? name : `${folder}/${name}`;
+    const files: MediaFile[] = [
+      {
+        key: attached,
+        attachmentId,
+        variant: 'full',
+        size: this.toSize(metadata.filesize),
+      },
+    ];
+    const add = (name: unknown, variant: string, size: unknown): void => {
+      if (typeof name === 'string' && name) {
+        files.push({
+          key: inFolder(name),
+          attachmentId,
+          variant,
+          size: this.toSize(size),
+        });
+      }
+    };
+
+    add(metadata.original_image, 'original', null);
+    for (const [name, size] of Object.entries(
+      this.isRecord(metadata.sizes) ? metadata.sizes : {}
+    )) {
+      if (this.isRecord(size)) {
+        add(size.file, name, size.filesize);
+      }
+    }
+    for (const [name, size] of Object.entries(backupSizes)) {
+      if (this.isRecord(size)) {
+        add(size.file, name, size.filesize);
+      }
+    }
+    return files;
+  }
+
+  // Attached files are relative to the uploads folder, but imported sites
+  // sometimes carry the full wp-content/uploads/sites/<id>/ path
+  private static normalizeKey(file: string): string {
+    return file.replace(/^(?:.*\/)?sites\/\d+\//, '').replace(/^\/+/, '');
+  }
+
+  private static toSize(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    const size = Number(value);
+    return Number.isFinite(size) ? size : null;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+  }
+
+  /**
+   * Parse PHP serialize() output of the types attachment metadata holds:
+   * arrays (as objects keyed like PHP), strings, numbers, booleans and
+   * null. String lengths count bytes, so this works on the UTF-8 bytes.
+   */
+  private static unserialize(value: string): unknown {
+    const bytes = Buffer.from(value, 'utf8');
+    let pos = 0;
+
+    const readUntil = (char: string): string => {
+      const end = bytes.indexOf(char, pos);
+      if (end === -1) {
+        throw new Error(`expected "${char}" after byte ${pos}`);
+      }
+      const text = bytes.toString('utf8', pos, end);
+      pos = end + 1;
+      return text;
+    };
+    const parse = (): unknown => {
+      const type = String.fromCharCode(bytes[pos]);
+      // Skip the type and the ':' after it (the ';' for null)
+      pos += 2;
+      switch (type) {
+        case 'N':
+          return null;
+        case 'b':
+          return readUntil(';') === '1';
+        case 'i':
+        case 'd':
+          return Number(readUntil(';'));
+        case 's': {
+          const length = Number(readUntil(':'));
+          const text = bytes.toString('utf8', pos + 1, pos + 1 + length);
+          // The quotes around the string and the ';' after it
+          pos += length + 3;
+          return text;
+        }
+        case 'a': {
+          const count = Number(readUntil(':'));
+          pos++;
+          const result: Record<string, unknown> = {};
+          for (let i = 0; i < count; i++) {
+            const key = parse();
+            result[String(key)] = parse();
+          }
+          pos++;
+          return result;
+        }
+        default:
+          throw new Error(
+            `unsupported serialized type "${type}" at byte ${pos - 2}`
+          );
+      }
+    };
+
+    return parse();
+  }
+}
@@ -0,0 +1,261 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+
+export type MigrationStep =
+  | 'export'
+  | 'transform'
+  | 'backup'
+  | 'import'
+  | 's3-sync'
+  | 'cache-flush';
+
+export const MIGRATION_STEPS: MigrationStep[] = [
+  'export',
+  'transform',
+  'backup',
+  'import',
+  's3-sync',
+  'cache-flush',
+];
+
+export type MigrationStepStatus =
+  | 'started'
+  | 'completed'
+  | 'skipped'
+  | 'failed'
+  | 'rolled-back';
+
+export type MigrationStatus =
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'rolled-back';
+
+export interface MigrationStepRecord {
+  status: MigrationStepStatus;
+  startedAt: string;
+  finishedAt?: string;
+  message?: string;
+}
+
+export interface MigrationJournalData {
+  migrationId: string;
+  siteId: string;
+  sourceEnv: string;
+  targetEnv: string;
+  workDir: string;
+  status: MigrationStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  backupId?: string;
+  failedStep?: MigrationStep;
+  error?: string;
+  steps: Partial<Record<MigrationStep, MigrationStepRecord>>;
+}
+
+const JOURNAL_FILE = 'journal.json';
+
+export class MigrationJournal {
+  static generateMigrationId(siteId: string): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')
+      .slice(0, 19);
+    const random = Math.random().toString(36).substring(2, 8);
+    return `migration-${siteId}-${timestamp}-${random}`;
+  }
+
+  static getMigrationsDirectory(workDir?: string): string {
+    // Same layout as backups: one directory per run under ~/.wfuwp
+    const baseDir = workDir || join(homedir(), '.wfuwp', 'migrations');
+    if (!existsSync(baseDir)) {
+      mkdirSync(baseDir, { recursive: true });
+    }
+    return baseDir;
+  }
+
+  static getJournalPath(journalDir: string): string {
+    return join(journalDir, JOURNAL_FILE);
+  }
+
+  static create(
+    siteId: string,
+    sourceEnv: string,
+    targetEnv: string,
+    workDir?: string
+  ): MigrationJournalData {
+    const migrationId = this.generateMigrationId(siteId);
+    const journalDir = join(this.getMigrationsDirectory(workDir), migrationId);
+    mkdirSync(journalDir, { recursive: true });
+
+    const now = new Date().toISOString();
+    const journal: MigrationJournalData = {
+      migrationId,
+      siteId,
+      sourceEnv,
+      targetEnv,
+      workDir: journalDir,
+      status: 'running',
+      startedAt: now,
+      updatedAt: now,
+      steps: {},
+    };
+    this.save(journal);
+    return journal;
+  }
+
+  static load(migrationId: string, workDir?: string): MigrationJournalData {
+    const journalPath = this.getJournalPath(
+      join(this.getMigrationsDirectory(workDir), migrationId)
+    );
+
+    if (!existsSync(journalPath)) {
+      throw new Error(`Migration journal not found: ${journalPath}`);
+    }
+
+    try {
+      return JSON.parse(readFileSync(journalPath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Migration journal is corrupt: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  static save(journal: MigrationJournalData): void {
+    journal.updatedAt = new Date().toISOString();
+    const journalPath = this.getJournalPath(journal.workDir);
+
+    // Write then rename so an interrupted write never leaves a truncated journal
+    writeFileSync(`${journalPath}.tmp`, JSON.stringify(journal, null, 2));
+    renameSync(`${journalPath}.tmp`, journalPath);
+  }
+
+  static startStep(journal: MigrationJournalData, step: MigrationStep): void {
+    journal.status = 'running';
+    journal.steps[step] = {
+      status: 'started',
+      startedAt: new Date().toISOString(),
+    };
+    this.save(journal);
+  }
+
+  static finishStep(
+    journal: MigrationJournalData,
+    step: MigrationStep,
+    status: 'completed' | 'skipped' = 'completed',
+    message?: string
+  ): void {
+    const now = new Date().toISOString();
+    journal.steps[step] = {
+      startedAt: journal.steps[step]?.startedAt || now,
+      ...journal.steps[step],
+      status,
+      finishedAt: now,
+      message,
+    };
+    this.save(journal);
+  }
+
+  static isStepCompleted(
+    journal: MigrationJournalData,
+    step: MigrationStep
+  ): boolean {
+    return journal.steps[step]?.status === 'completed';
+  }
+
+  static getLastCompletedStep(
+    journal: MigrationJournalData
+  ): MigrationStep | undefined {
+    return [...MIGRATION_STEPS]
+      .reverse()
+      .find((step) => this.isStepCompleted(journal, step));
+  }
+
+  static markFailed(
+    journal: MigrationJournalData,
+    step: MigrationStep,
+    error: string
+  ): void {
+    const now = new Date().toISOString();
+    journal.status = 'failed';
+    journal.failedStep = step;
+    journal.error = error;
+    journal.steps[step] = {
+      startedAt: journal.steps[step]?.startedAt || now,
+      status: 'failed',
+      finishedAt: now,
+      message: error,
+    };
+    this.save(journal);
+  }
+
+  static markRolledBack(journal: MigrationJournalData): void {
+    journal.status = 'rolled-back';
+
+    // The target was restored, so anything written to it must run again
+    for (const step of ['import', 's3-sync'] as MigrationStep[]) {
+      const record = journal.steps[step];
+      if (record && record.status === 'completed') {
+        record.status = 'rolled-back';
+      }
+    }
+    this.save(journal);
+  }
+
+  static markCompleted(journal: MigrationJournalData): void {
+    journal.status = 'completed';
+    journal.finishedAt = new Date().toISOString();
+    delete journal.failedStep;
+    delete journal.error;
+    this.save(journal);
+  }
+
+  // The journal in a migration's own directory; undefined when it is
+  // missing or unreadable
+  static read(journalDir: string): MigrationJournalData | undefined {
+    const journalPath = this.getJournalPath(journalDir);
+    if (!existsSync(journalPath)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(readFileSync(journalPath, 'utf8'));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  static listMigrations(workDir?: string): MigrationJournalData[] {
+    const migrationsDir = this.getMigrationsDirectory(workDir);
+    const journals: MigrationJournalData[] = [];
+
+    try {
+      const entries = readdirSync(migrationsDir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          const journal = this.read(join(migrationsDir, entry.name));
+          if (journal) {
+            journals.push(journal);
+          }
+        }
+      }
+    } catch (error) {
+      // Return empty array if the migrations directory can't be read
+    }
+
+    return journals.sort(
+      (a, b) =>
+        new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { execSync } from 'child_process';
+import { EnvironmentConfig } from './config';
+
+/**
+ * Shared helpers for running the mysql command-line client, either the
+ * native binary or the mysql:8.0 Docker image when it is not installed.
+ * Used by the cli database backend and by mysqldump/import file transfers.
+ */
+export class MysqlCli {
+  private static nativeClientAvailable: boolean | null = null;
+
+  // Detect if native mysql client is available
+  static hasNativeClient(): boolean {
+    if (this.nativeClientAvailable !== null) {
+      return this.nativeClientAvailable;
+    }
+    try {
+      execSync('which mysqldump', { stdio: 'ignore' });
+      execSync('which mysql', { stdio: 'ignore' });
+      this.nativeClientAvailable = true;
+      return true;
+    } catch {
+      this.nativeClientAvailable = false;
+      return false;
+    }
+  }
+
+  static resetClientDetection(): void {
+    this.nativeClientAvailable = null;
+  }
+
+  // Build a mysql command with proper port handling. Pass readsStdin when SQL
+  // or a dump file is piped in, so the Docker client keeps stdin open.
+  static buildCommand(
+    envConfig: EnvironmentConfig,
+    additionalArgs: string[] = [],
+    readsStdin = false
+  ): string {
+    if (this.hasNativeClient()) {
+      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
+      const baseArgs = [
+        'mysql',
+        '-h',
+        envConfig.host || '',
+        portArg,
+        '-u',
+        envConfig.user || '',
+        envConfig.database || '',
+      ].filter((arg) => arg.length > 0);
+      return [...baseArgs, ...additionalArgs].join(' ');
+    } else {
+      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
+      const hostArg =
+        envConfig.host === '127.0.0.1' || envConfig.host === 'localhost'
+          ? 'host.docker.internal'
+          : envConfig.host;
+      const baseArgs = [
+        readsStdin ? 'docker run --rm -i' : 'docker run --rm',
+        '-e',
+        `MYSQL_PWD="${envConfig.password}"`,
+        'mysql:8.0',
+        'mysql',
+        '-h',
+        `"${hostArg}"`,
+        portArg,
+        '-u',
+        `"${envConfig.user}"`,
+        `"${envConfig.database}"`,
+      ].filter((arg) => arg.length > 0);
+      return [...baseArgs, ...additionalArgs].join(' ');
+    }
+  }
+
+  /**
+   * Command and argument list for an interactive mysql session, run without
+   * a shell. The password only travels in MYSQL_PWD (docker's `-e MYSQL_PWD`
+   * copies it from the environment), never on the command line.
+   */
+  static buildInteractiveCommand(
+    envConfig: EnvironmentConfig,
+    additionalArgs: string[] = []
+  ): { command: string; args: string[]; env: typeof process.env } {
+    const env = { ...process.env, MYSQL_PWD: envConfig.password };
+    const clientArgs = (host: string, portArgs: string[]): string[] => [
+      '-h',
+      host,
+      ...portArgs,
+      '-u',
+      envConfig.user || '',
+      ...additionalArgs,
+      envConfig.database || '',
+    ];
+
+    if (this.hasNativeClient()) {
+      return {
+        command: 'mysql',
+        args: clientArgs(
+          envConfig.host || '',
+          envConfig.port ? ['-P', envConfig.port] : []
+        ),
+        env: {
+          ...env,
+          PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
+        },
+      };
+    }
+
+    const hostArg =
+      envConfig.host === '127.0.0.1' || envConfig.host === 'localhost'
+        ? 'host.docker.internal'
+        : envConfig.host || '';
+    return {
+      command: 'docker',
+      args: [
+        'run',
+        '--rm',
+        '-it',
+        '-e',
+        'MYSQL_PWD',
+        'mysql:8.0',
+        'mysql',
+        ...clientArgs(
+          hostArg,
+          envConfig.port ? [`--port=${envConfig.port}`] : []
+        ),
+      ],
+      env,
+    };
+  }
+
+  // Environment for the native client; the Docker command carries the
+  // password itself
+  static getExecEnv(envConfig: EnvironmentConfig): {
+    env?: typeof process.env;
+  } {
+    if (!this.hasNativeClient()) {
+      return {};
+    }
+    return {
+      env: {
+        ...process.env,
+        MYSQL_PWD: envConfig.password,
+        PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
+      },
+    };
+  }
+}
@@ -3,7 +3,16 @@ import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import chalk from 'chalk';
 import { Config } from './config';
+import { DbConnectionManager } from './db-connection';
+import { MysqlCli } from './mysql-cli';
 import { SqlFileAnalyzer } from './sql-file-analyzer';
+import { SqlBuilder } from './sql';
+import {
+  SqlStreamTransformer,
+  SqlTransformResult,
+  TablePrefixRewrite,
+} from './sql-stream-transformer';
+import { formatBytes } from './disk-space';
 
 interface NetworkExportResult {
   filePath: string;
@@ -32,92 +41,24 @@ interface NetworkTableInfo {
 export class NetworkTableOperations {
   // Cache for table columns to avoid repeated DESCRIBE queries
   private static columnCache: Map<string, string[]> = new Map();
-  // Cache for mysql client availability
-  private static mysqlClientAvailable: boolean | null = null;
-
-  // Detect if native mysql client is available
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-
-  // Helper method to build MySQL command with proper port handling
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
 
   // Get table columns (cached) to avoid repeated DESCRIBE queries
-  private static getTableColumns(tableName: string, envConfig: any): string[] {
+  private static async getTableColumns(
+    tableName: string,
+    environment: string
+  ): Promise<string[]> {
+    const envConfig = Config.getEnvironmentConfig(environment);
     const cacheKey = `${envConfig.host}:${envConfig.database}:${tableName}`;
     if (this.columnCache.has(cacheKey)) {
       return this.columnCache.get(cacheKey)!;
     }
 
     try {
-      const columnsQuery = `DESCRIBE ${tableName}`;
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${columnsQuery}"`,
-        '-s',
-      ]);
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-
-      const columnsOutput = execSync(mysqlCommand, execOptions);
-
-      const columns = columnsOutput
-        .trim()
-        .split('\n')
-        .map((line) => line.split('\t')[0])
+      const rows = await DbConnectionManager.get(environment).query<{
+        Field: string;
+      }>('DESCRIBE ??', [tableName]);
+      const columns = rows
+        .map((row) => String(row.Field))
         .filter((col) => col.length > 0);
 
       this.columnCache.set(cacheKey, columns);
@@ -126,6 +67,7 @@ export class NetworkTableOperations {
       return [];
     }
   }
+
   static getNetworkTables(): NetworkTableInfo[] {
     return [
       {
@@ -185,8 +127,9 @@ export class NetworkTableOperations {
       .map((table) => table.name);
   }
 
-  static getExistingNetworkTables(environment: string): string[] {
-    const envConfig = Config.getEnvironmentConfig(environment);
+  static async getExistingNetworkTables(
+    environment: string
+  ): Promise<string[]> {
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
@@ -197,29 +140,9 @@ export class NetworkTableOperations {
       );
 
       // Single query to get all tables, then filter for network tables
-      const query = 'SHOW TABLES';
-      const mysqlCommand = this.buildMysqlCommand(envConfig, [
-        '-e',
-        `"${query}"`,
-        '-s',
-      ]);
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-
-      const output = execSync(mysqlCommand, execOptions);
-
-      const allTables = output
-        .trim()
-        .split('\n')
-        .filter((table) => table.length > 0);
+      const rows =
+        await DbConnectionManager.get(environment).query('SHOW TABLES');
+      const allTables = rows.map((row) => String(Object.values(row)[0]));
 
       // Filter for existing network tables
       const existingTables = networkTableNames.filter((tableName) =>
@@ -234,12 +157,12 @@ export class NetworkTableOperations {
     }
   }
 
-  static validateNetworkTablesForMigration(
+  static async validateNetworkTablesForMigration(
     sourceEnv: string,
     targetEnv: string
-  ): void {
-    const sourceNetworkTables = this.getExistingNetworkTables(sourceEnv);
-    const targetNetworkTables = this.getExistingNetworkTables(targetEnv);
+  ): Promise<void> {
+    const sourceNetworkTables = await this.getExistingNetworkTables(sourceEnv);
+    const targetNetworkTables = await this.getExistingNetworkTables(targetEnv);
     const migrateableTables = this.getMigrateableNetworkTables();
 
     const sourceMigrateableTables = sourceNetworkTables.filter((table) =>
@@ -279,7 +202,7 @@ export class NetworkTableOperations {
     }
 
     const migrateableTables = this.getMigrateableNetworkTables();
-    const existingTables = this.getExistingNetworkTables(sourceEnv);
+    const existingTables = await this.getExistingNetworkTables(sourceEnv);
     const tablesToExport = migrateableTables.filter((table) =>
       existingTables.includes(table)
     );
@@ -310,7 +233,7 @@ export class NetworkTableOperations {
         console.log(chalk.gray('Running mysqldump for network tables...'));
       }
 
-      if (this.hasNativeMysqlClient()) {
+      if (MysqlCli.hasNativeClient()) {
         const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
 
         // Build base command without GTID option first
@@ -484,7 +407,7 @@ export class NetworkTableOperations {
 
       let importCommand: string;
 
-      if (this.hasNativeMysqlClient()) {
+      if (MysqlCli.hasNativeClient()) {
         const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
         importCommand = [
           'mysql',
@@ -569,7 +492,7 @@ export class NetworkTableOperations {
     }
 
     const migrateableTables = this.getMigrateableNetworkTables();
-    const existingTables = this.getExistingNetworkTables(targetEnv);
+    const existingTables = await this.getExistingNetworkTables(targetEnv);
     const tablesToBackup = migrateableTables.filter((table) =>
       existingTables.includes(table)
     );
@@ -613,7 +536,7 @@ export class NetworkTableOperations {
 
       let backupCommand: string;
 
-      if (this.hasNativeMysqlClient()) {
+      if (MysqlCli.hasNativeClient()) {
         const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
 
         // Build base command without GTID option first
@@ -742,12 +665,12 @@ export class NetworkTableOperations {
     replacements: Array<{ from: string; to: string }>,
     verbose = false
   ): Promise<void> {
-    const envConfig = Config.getEnvironmentConfig(environment);
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(`Environment '${environment}' is not configured`);
     }
+    const connection = DbConnectionManager.get(environment);
 
-    const networkTables = this.getExistingNetworkTables(environment);
+    const networkTables = await this.getExistingNetworkTables(environment);
     if (networkTables.length === 0) {
       if (verbose) {
         console.log(chalk.gray('No network tables found for transformation'));
@@ -782,7 +705,7 @@ export class NetworkTableOperations {
       for (const table of networkTables) {
         try {
           // Get table columns using cached approach (avoids repeated DESCRIBE queries)
-          const columns = this.getTableColumns(table, envConfig);
+          const columns = await this.getTableColumns(table, environment);
 
           if (verbose) {
             console.log(
@@ -805,32 +728,27 @@ export class NetworkTableOperations {
 
           for (const field of fieldsToTransform) {
             if (columns.includes(field)) {
-              const updateQuery = `UPDATE ${table} SET ${field} = REPLACE(${field}, '${replacement.from}', '${replacement.to}') WHERE ${field} LIKE '%${replacement.from}%'`;
+              const updateQuery =
+                'UPDATE ?? SET ?? = REPLACE(??, ?, ?) WHERE ?? LIKE ?';
+              const params = [
+                table,
+                field,
+                field,
+                replacement.from,
+                replacement.to,
+                field,
+                SqlBuilder.containsPattern(replacement.from),
+              ];
 
               if (verbose) {
-                console.log(chalk.gray(`  Executing: ${updateQuery}`));
+                console.log(
+                  chalk.gray(
+                    `  Executing: ${SqlBuilder.format(updateQuery, params)}`
+                  )
+                );
               }
 
-              const mysqlCommand = this.buildMysqlCommand(envConfig, [
-                '-e',
-                `"${updateQuery}"`,
-              ]);
-              const execOptions = this.hasNativeMysqlClient()
-                ? {
-                    encoding: 'utf8' as const,
-                    stdio: 'ignore' as const,
-                    env: {
-                      ...process.env,
-                      MYSQL_PWD: envConfig.password,
-                      PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-                    },
-                  }
-                : {
-                    encoding: 'utf8' as const,
-                    stdio: 'ignore' as const,
-                  };
-
-              execSync(mysqlCommand, execOptions);
+              await connection.execute(updateQuery, params);
 
               if (verbose) {
                 console.log(chalk.gray(`  Updated ${table}.${field}`));
@@ -857,42 +775,72 @@ export class NetworkTableOperations {
   static async transformSqlFile(
     sqlFilePath: string,
     replacements: Array<{ from: string; to: string }>,
-    verbose = false
-  ): Promise<void> {
+    verbose = false,
+    options: {
+      tablePrefix?: TablePrefixRewrite;
+      // Write here instead of replacing sqlFilePath, which is left as it was
+      outputPath?: string;
+    } = {}
+  ): Promise<SqlTransformResult> {
     if (!require('fs').existsSync(sqlFilePath)) {
       throw new Error(`SQL file not found: ${sqlFilePath}`);
     }
 
+    const outputPath = options.outputPath || sqlFilePath;
+    const tempPath = `${outputPath}.transforming`;
     try {
       if (verbose) {
         console.log(chalk.gray(`Transforming SQL file: ${sqlFilePath}`));
-      }
-
-      let sqlContent = require('fs').readFileSync(sqlFilePath, 'utf8');
-
-      for (const replacement of replacements) {
-        if (verbose) {
+        for (const replacement of replacements) {
           console.log(
             chalk.gray(
               `  Replacing "${replacement.from}" → "${replacement.to}"`
             )
           );
         }
-
-        // Use global regex replacement for all occurrences
-        const regex = new RegExp(
-          replacement.from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
-          'g'
-        );
-        sqlContent = sqlContent.replace(regex, replacement.to);
+        if (options.tablePrefix) {
+          console.log(
+            chalk.gray(
+              `  Renaming tables ${options.tablePrefix.from}* → ${options.tablePrefix.to}*`
+            )
+          );
+        }
       }
 
-      require('fs').writeFileSync(sqlFilePath, sqlContent, 'utf8');
+      // Stream into a sibling file and swap it in, keeping gzip dumps gzipped
+      let lastTable: string | undefined;
+      const result = await SqlStreamTransformer.transformFile(
+        sqlFilePath,
+        tempPath,
+        {
+          replacements,
+          tablePrefix: options.tablePrefix,
+          gzipOutput: SqlStreamTransformer.isGzipFile(sqlFilePath),
+          onProgress: (progress) => {
+            if (!verbose || progress.currentTable === lastTable) {
+              return;
+            }
+            lastTable = progress.currentTable;
+            console.log(
+              chalk.gray(
+                `  [${formatBytes(progress.bytesRead)} / ${formatBytes(progress.totalBytes)}] ${progress.tables} tables - ${progress.currentTable}`
+              )
+            );
+          },
+        }
+      );
+      require('fs').renameSync(tempPath, outputPath);
 
       if (verbose) {
-        console.log(chalk.green(`  ✓ SQL file transformed successfully`));
+        console.log(
+          chalk.green(
+            `  ✓ SQL file transformed successfully (${result.tables.length} tables, ${result.statements} statements)`
+          )
+        );
       }
+      return result;
     } catch (error) {
+      require('fs').rmSync(tempPath, { force: true });
       throw new Error(
         `Failed to transform SQL file: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -0,0 +1,197 @@
+/**
+ * Read-only checks for ad-hoc SQL from `db query` and `db shell`
+ *
+ * This is a guard against mistakes, not a security boundary: it reads the
+ * statement's leading keyword and looks for write keywords outside string
+ * literals, quoted identifiers and comments.
+ */
+
+const READ_ONLY_KEYWORDS = [
+  'SELECT',
+  'SHOW',
+  'DESCRIBE',
+  'DESC',
+  'EXPLAIN',
+  'WITH',
+  'TABLE',
+  'HELP',
+];
+
+// Keywords that turn an otherwise read-only statement into a write, e.g.
+// WITH ... DELETE, EXPLAIN ANALYZE UPDATE or SELECT ... INTO OUTFILE
+const WRITE_KEYWORDS = [
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'REPLACE',
+  'OUTFILE',
+  'DUMPFILE',
+];
+
+// INSERT() and REPLACE() are also string functions
+const FUNCTION_KEYWORDS = ['INSERT', 'REPLACE'];
+
+export class QueryGuard {
+  /**
+   * Split SQL into statements on semicolons outside quotes and comments.
+   * Empty statements are dropped and trailing semicolons removed.
+   */
+  static splitStatements(sql: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+
+      if (quote) {
+        current += char;
+        if (char === '\\' && quote !== '`' && i + 1 < sql.length) {
+          current += sql[i + 1];
+          i += 2;
+          continue;
+        }
+        if (char === quote) {
+          quote = null;
+        }
+        i++;
+        continue;
+      }
+
+      if (char === "'" || char === '"' || char === '`') {
+        quote = char;
+        current += char;
+        i++;
+        continue;
+      }
+
+      const commentEnd = this.commentEnd(sql, i);
+      if (commentEnd > i) {
+        current += sql.slice(i, commentEnd);
+        i = commentEnd;
+        continue;
+      }
+
+      if (char === ';') {
+        statements.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+      i++;
+    }
+    statements.push(current);
+
+    return statements
+      .map((statement) => statement.trim())
+      .filter((statement) => this.stripNonCode(statement).trim().length > 0);
+  }
+
+  /**
+   * Whether every statement in sql only reads data. Unterminated quotes or
+   * comments count as writes so they can't hide anything.
+   */
+  static isReadOnly(sql: string): boolean {
+    const statements = this.splitStatements(sql);
+    return (
+      statements.length > 0 &&
+      statements.every((statement) => this.isReadOnlyStatement(statement))
+    );
+  }
+
+  private static isReadOnlyStatement(statement: string): boolean {
+    let code: string;
+    try {
+      code = this.stripNonCode(statement, true).toUpperCase();
+    } catch {
+      return false;
+    }
+
+    const firstWord = code.replace(/^[\s(]+/, '').match(/^[A-Z]+/);
+    if (!firstWord || !READ_ONLY_KEYWORDS.includes(firstWord[0])) {
+      return false;
+    }
+
+    const words = code.matchAll(/\b([A-Z]+)\b(\s*\()?/g);
+    for (const [, word, call] of words) {
+      if (!WRITE_KEYWORDS.includes(word)) {
+        continue;
+      }
+      if (call && FUNCTION_KEYWORDS.includes(word)) {
+        continue;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Replace literals, quoted identifiers and comments with spaces. MySQL
+   * runs the body of versioned comments, so those are kept as code.
+   */
+  private static stripNonCode(statement: string, strict = false): string {
+    let code = '';
+    let i = 0;
+
+    while (i < statement.length) {
+      const char = statement[i];
+
+      if (char === "'" || char === '"' || char === '`') {
+        let end = i + 1;
+        while (end < statement.length && statement[end] !== char) {
+          end += statement[end] === '\\' && char !== '`' ? 2 : 1;
+        }
+        if (end >= statement.length && strict) {
+          throw new Error('Unterminated quote');
+        }
+        code += ' ';
+        i = end + 1;
+        continue;
+      }
+
+      if (statement.startsWith('/*!', i)) {
+        i += 3;
+        while (/\d/.test(statement[i] || '')) i++;
+        continue;
+      }
+      if (statement.startsWith('*/', i)) {
+        i += 2;
+        continue;
+      }
+
+      const commentEnd = this.commentEnd(statement, i);
+      if (commentEnd > i) {
+        if (
+          strict &&
+          statement.startsWith('/*', i) &&
+          !statement.endsWith('*/', commentEnd)
+        ) {
+          throw new Error('Unterminated comment');
+        }
+        code += ' ';
+        i = commentEnd;
+        continue;
+      }
+
+      code += char;
+      i++;
+    }
+
+    return code;
+  }
+
+  // End index of a comment starting at i, or i when none starts there.
+  // Versioned /*! ... */ comments are code, not comments.
+  private static commentEnd(sql: string, i: number): number {
+    if (sql[i] === '#' || /^--(\s|$)/.test(sql.slice(i, i + 3))) {
+      const newline = sql.indexOf('\n', i);
+      return newline === -1 ? sql.length : newline + 1;
+    }
+    if (sql.startsWith('/*', i) && sql[i + 2] !== '!') {
+      const close = sql.indexOf('*/', i + 2);
+      return close === -1 ? sql.length : close + 2;
+    }
+    return i;
+  }
+}
@@ -0,0 +1,125 @@
+import chalk from 'chalk';
+import { DbRow } from './db-connection';
+
+export type QueryOutputFormat = 'table' | 'json' | 'csv';
+
+export const QUERY_OUTPUT_FORMATS: QueryOutputFormat[] = [
+  'table',
+  'json',
+  'csv',
+];
+
+// Widest a table column gets before values are cut with an ellipsis
+const MAX_COLUMN_WIDTH = 60;
+
+export class QueryOutput {
+  static isFormat(value: string): value is QueryOutputFormat {
+    return QUERY_OUTPUT_FORMATS.includes(value as QueryOutputFormat);
+  }
+
+  static format(rows: DbRow[], format: QueryOutputFormat): string {
+    switch (format) {
+      case 'json':
+        return this.formatJson(rows);
+      case 'csv':
+        return this.formatCsv(rows);
+      default:
+        return this.formatTable(rows);
+    }
+  }
+
+  static formatJson(rows: DbRow[]): string {
+    return JSON.stringify(
+      rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([column, value]) => [
+            column,
+            Buffer.isBuffer(value) ? this.toText(value) : value,
+          ])
+        )
+      ),
+      null,
+      2
+    );
+  }
+
+  // RFC 4180: quote fields with commas, quotes or line breaks; NULL is empty
+  static formatCsv(rows: DbRow[]): string {
+    const columns = this.getColumns(rows);
+    const escapeField = (value: unknown): string => {
+      const field =
+        value === null || value === undefined ? '' : this.toText(value);
+      return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    };
+
+    return [
+      columns.map(escapeField).join(','),
+      ...rows.map((row) =>
+        columns.map((column) => escapeField(row[column])).join(',')
+      ),
+    ].join('\n');
+  }
+
+  static formatTable(rows: DbRow[]): string {
+    if (rows.length === 0) {
+      return chalk.gray('Empty set');
+    }
+
+    const columns = this.getColumns(rows);
+    const cells = rows.map((row) =>
+      columns.map((column) => this.toCell(row[column]))
+    );
+    const widths = columns.map((column, index) =>
+      Math.min(
+        MAX_COLUMN_WIDTH,
+        Math.max(column.length, ...cells.map((row) => row[index].length))
+      )
+    );
+    const fit = (value: string, width: number): string =>
+      value.length > width
+        ? `${value.slice(0, width - 1)}…`
+        : value.padEnd(width);
+
+    const lines = [
+      columns
+        .map((column, index) => chalk.bold(fit(column, widths[index])))
+        .join(' | '),
+      widths.map((width) => '-'.repeat(width)).join('-+-'),
+      ...cells.map((row) =>
+        row.map((cell, index) => fit(cell, widths[index])).join(' | ')
+      ),
+      chalk.gray(`${rows.length} ${rows.length === 1 ? 'row' : 'rows'}`),
+    ];
+    return lines.join('\n');
+  }
+
+  // Columns in first-seen order across all rows
+  private static getColumns(rows: DbRow[]): string[] {
+    const columns: string[] = [];
+    for (const row of rows) {
+      for (const column of Object.keys(row)) {
+        if (!columns.includes(column)) {
+          columns.push(column);
+        }
+      }
+    }
+    return columns;
+  }
+
+  private static toCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return 'NULL';
+    }
+    return this.toText(value).replace(/\r?\n/g, '\\n').replace(/\t/g, '\\t');
+  }
+
+  private static toText(value: unknown): string {
+    if (Buffer.isBuffer(value)) {
+      return value.toString('utf8');
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
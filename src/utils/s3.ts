@@ -1,7 +1,14 @@
 import { execSync } from 'child_process';
-import { basename } from 'path';
+import { existsSync, mkdirSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
 import chalk from 'chalk';
 import { Config } from './config';
+import {
+  S3ObjectEntry,
+  S3Storage,
+  S3StorageClass,
+  S3StorageManager,
+} from './s3-storage';
 
 interface MigrationMetadata {
   siteId: string;
@@ -21,7 +28,11 @@ interface S3Result {
 }
 
 export class S3Operations {
+  // The sdk backend talks to S3 itself, so only the cli backend needs aws
   static checkAwsCliAvailability(): void {
+    if (Config.getS3Backend() === 'sdk') {
+      return;
+    }
     try {
       execSync('aws --version', { stdio: 'ignore' });
     } catch (error) {
@@ -35,7 +46,7 @@ export class S3Operations {
     localFiles: string[],
     metadata: MigrationMetadata,
     verbose = false,
-    storageClass = 'STANDARD_IA'
+    storageClass: S3StorageClass = 'STANDARD_IA'
   ): Promise<S3Result> {
     const s3Config = Config.getS3Config();
 
@@ -55,10 +66,11 @@ export class S3Operations {
       metadata.siteName
     );
 
+    const storage = this.getStorage();
     const uploadedFiles: string[] = [];
 
     for (const localFile of localFiles) {
-      if (!require('fs').existsSync(localFile)) {
+      if (!existsSync(localFile)) {
         console.warn(
           chalk.yellow(`Warning: File not found, skipping: ${localFile}`)
         );
@@ -68,21 +80,16 @@ export class S3Operations {
       const fileName = basename(localFile);
       const s3FilePath = `${s3Path}${fileName}`;
 
-      const awsCommand = [
-        'aws s3 cp',
-        `"${localFile}"`,
-        `"s3://${s3Config.bucket}/${s3FilePath}"`,
-        `--storage-class ${storageClass}`,
-      ];
-
       if (verbose) {
         console.log(chalk.gray(`Uploading to S3: ${fileName}`));
       }
 
       try {
-        execSync(awsCommand.join(' '), {
-          encoding: 'utf8',
-          stdio: verbose ? 'inherit' : 'ignore',
+        await storage.uploadFile(localFile, s3Config.bucket!, s3FilePath, {
+          storageClass,
+          onProgress: verbose
+            ? S3StorageManager.createProgressBar(fileName)
+            : undefined,
         });
 
         uploadedFiles.push(fileName);
@@ -98,21 +105,15 @@ export class S3Operations {
     // Create metadata file
     const metadataContent = JSON.stringify(metadata, null, 2);
     const metadataPath = `/tmp/migration-metadata-${metadata.timestamp}.json`;
-    require('fs').writeFileSync(metadataPath, metadataContent);
+    writeFileSync(metadataPath, metadataContent);
 
     try {
       const metadataS3Path = `${s3Path}metadata.json`;
-      const awsMetadataCommand = [
-        'aws s3 cp',
-        `"${metadataPath}"`,
-        `"s3://${s3Config.bucket}/${metadataS3Path}"`,
-      ];
-
-      execSync(awsMetadataCommand.join(' '), { stdio: 'ignore' });
+      await storage.uploadFile(metadataPath, s3Config.bucket!, metadataS3Path);
       uploadedFiles.push('metadata.json');
 
       // Clean up local metadata file
-      require('fs').unlinkSync(metadataPath);
+      unlinkSync(metadataPath);
     } catch (error) {
       console.warn(chalk.yellow('Warning: Failed to upload metadata file'));
     }
@@ -161,7 +162,8 @@ export class S3Operations {
     return `${prefix}/${directoryName}/`;
   }
 
-  static async listMigrations(siteId?: string): Promise<any[]> {
+  // Objects under the migrations prefix, or one site's migrations
+  static async listMigrations(siteId?: string): Promise<S3ObjectEntry[]> {
     const s3Config = Config.getS3Config();
 
     if (!Config.hasRequiredS3Config()) {
@@ -173,19 +175,12 @@ export class S3Operations {
     const prefix = s3Config.prefix || 'migrations';
     const searchPrefix = siteId ? `${prefix}/site${siteId}-` : `${prefix}/`;
 
-    const awsCommand = [
-      'aws s3api list-objects-v2',
-      `--bucket ${s3Config.bucket}`,
-      `--prefix "${searchPrefix}"`,
-      '--query "Contents[?Key != \\`${prefix}/\\`].[Key,LastModified,Size]"',
-      '--output table',
-    ];
-
     try {
-      const output = execSync(awsCommand.join(' '), { encoding: 'utf8' });
-      // This is a simplified version - you'd parse the JSON output properly
-      console.log(output);
-      return [];
+      const objects = await this.getStorage().listObjects(
+        s3Config.bucket!,
+        searchPrefix
+      );
+      return objects.filter((object) => object.key !== `${prefix}/`);
     } catch (error) {
       throw new Error(
         `Failed to list S3 migrations: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -206,22 +201,32 @@ export class S3Operations {
 
     this.checkAwsCliAvailability();
 
-    const awsCommand = [
-      'aws s3 cp',
-      `"s3://${s3Config.bucket}/${migrationPath}"`,
-      `"${localPath}"`,
-      '--recursive',
-    ];
-
     if (verbose) {
       console.log(chalk.gray(`Downloading from S3: ${migrationPath}`));
     }
 
     try {
-      execSync(awsCommand.join(' '), {
-        encoding: 'utf8',
-        stdio: verbose ? 'inherit' : 'ignore',
-      });
+      // Every object below the migration's prefix, keeping the layout
+      const storage = this.getStorage();
+      const prefix = migrationPath.endsWith('/')
+        ? migrationPath
+        : `${migrationPath}/`;
+      for (const object of await storage.listObjects(
+        s3Config.bucket!,
+        prefix
+      )) {
+        const relativePath = object.key.slice(prefix.length);
+        if (!relativePath || relativePath.endsWith('/')) {
+          continue;
+        }
+        const filePath = join(localPath, relativePath);
+        mkdirSync(dirname(filePath), { recursive: true });
+        await storage.downloadFile(s3Config.bucket!, object.key, filePath, {
+          onProgress: verbose
+            ? S3StorageManager.createProgressBar(relativePath)
+            : undefined,
+        });
+      }
     } catch (error) {
       throw new Error(
         `S3 download failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -239,12 +244,7 @@ export class S3Operations {
     try {
       this.checkAwsCliAvailability();
 
-      const awsCommand = [
-        'aws s3api head-bucket',
-        `--bucket ${s3Config.bucket}`,
-      ];
-
-      execSync(awsCommand.join(' '), { stdio: 'ignore' });
+      await this.getStorage().headBucket(s3Config.bucket!);
       return true;
     } catch (error) {
       return false;
@@ -255,7 +255,7 @@ export class S3Operations {
     compressedFilePath: string,
     sourceEnv: string,
     verbose = false,
-    storageClass = 'STANDARD'
+    storageClass: S3StorageClass = 'STANDARD'
   ): Promise<S3Result> {
     const s3Config = Config.getS3Config();
 
@@ -281,17 +281,18 @@ export class S3Operations {
     }
 
     try {
-      const awsCommand = [
-        'aws s3 cp',
-        `"${compressedFilePath}"`,
-        `"s3://${s3Config.bucket}/${s3FilePath}"`,
-        `--storage-class ${storageClass}`,
-      ];
-
-      execSync(awsCommand.join(' '), {
-        encoding: 'utf8',
-        stdio: verbose ? 'inherit' : 'ignore',
-      });
+      const storage = this.getStorage();
+      await storage.uploadFile(
+        compressedFilePath,
+        s3Config.bucket!,
+        s3FilePath,
+        {
+          storageClass,
+          onProgress: verbose
+            ? S3StorageManager.createProgressBar(fileName)
+            : undefined,
+        }
+      );
 
       const metadata = {
         siteId: 'complete',
@@ -304,19 +305,17 @@ export class S3Operations {
 
       const metadataContent = JSON.stringify(metadata, null, 2);
       const metadataPath = `/tmp/local-export-metadata-${timestamp}.json`;
-      require('fs').writeFileSync(metadataPath, metadataContent);
+      writeFileSync(metadataPath, metadataContent);
 
       try {
         const metadataS3Path = `${s3Path}metadata.json`;
-        const awsMetadataCommand = [
-          'aws s3 cp',
-          `"${metadataPath}"`,
-          `"s3://${s3Config.bucket}/${metadataS3Path}"`,
-        ];
-
-        execSync(awsMetadataCommand.join(' '), { stdio: 'ignore' });
+        await storage.uploadFile(
+          metadataPath,
+          s3Config.bucket!,
+          metadataS3Path
+        );
 
-        require('fs').unlinkSync(metadataPath);
+        unlinkSync(metadataPath);
       } catch (error) {
         console.warn(chalk.yellow('Warning: Failed to upload metadata file'));
       }
@@ -375,29 +374,18 @@ export class S3Operations {
     const searchPrefix = `${prefix}/local-exports/`;
 
     try {
-      const awsCommand = [
-        'aws s3api list-objects-v2',
-        `--bucket ${s3Config.bucket}`,
-        `--prefix "${searchPrefix}"`,
-        '--query "Contents[?ends_with(Key, \\`metadata.json\\`)].[Key,LastModified,Size]"',
-        '--output json',
-      ];
-
-      const output = execSync(awsCommand.join(' '), { encoding: 'utf8' });
-      const results = JSON.parse(output || '[]');
+      const storage = this.getStorage();
+      const results = (
+        await storage.listObjects(s3Config.bucket!, searchPrefix)
+      ).filter((object) => object.key.endsWith('metadata.json'));
 
       const exports = [];
-      for (const [key, lastModified, size] of results) {
+      for (const { key, lastModified, size } of results) {
         try {
-          const metadataCommand = [
-            'aws s3 cp',
-            `"s3://${s3Config.bucket}/${key}"`,
-            '-',
-          ];
-
-          const metadataOutput = execSync(metadataCommand.join(' '), {
-            encoding: 'utf8',
-          });
+          const metadataOutput = await storage.getObjectText(
+            s3Config.bucket!,
+            key
+          );
 
           const metadata = JSON.parse(metadataOutput);
           const pathParts = key.split('/');
@@ -448,36 +436,31 @@ export class S3Operations {
     const s3ExportPath = `${prefix}/local-exports/${exportId}/`;
 
     try {
-      const listCommand = [
-        'aws s3 ls',
-        `"s3://${s3Config.bucket}/${s3ExportPath}"`,
-        '--recursive',
-      ];
-
-      const listOutput = execSync(listCommand.join(' '), { encoding: 'utf8' });
-      const files = listOutput.split('\n').filter((line) => line.trim());
-
-      const sqlGzFile = files.find((line) => line.includes('.sql.gz'));
+      const storage = this.getStorage();
+      const sqlGzFile = (
+        await storage.listObjects(s3Config.bucket!, s3ExportPath)
+      ).find((object) => object.key.includes('.sql.gz'));
       if (!sqlGzFile) {
         throw new Error('No .sql.gz file found in export');
       }
 
-      const fileName = sqlGzFile.split(/\s+/).pop()!.split('/').pop()!;
-      const localFilePath = require('path').join(localPath, fileName);
-
-      const downloadCommand = [
-        'aws s3 cp',
-        `"s3://${s3Config.bucket}/${s3ExportPath}${fileName}"`,
-        `"${localFilePath}"`,
-      ];
+      const fileName = basename(sqlGzFile.key);
+      const localFilePath = join(localPath, fileName);
 
       if (verbose) {
         console.log(chalk.gray(`Downloading: ${fileName}`));
       }
 
-      execSync(downloadCommand.join(' '), {
-        stdio: verbose ? 'inherit' : 'ignore',
-      });
+      await storage.downloadFile(
+        s3Config.bucket!,
+        sqlGzFile.key,
+        localFilePath,
+        {
+          onProgress: verbose
+            ? S3StorageManager.createProgressBar(fileName)
+            : undefined,
+        }
+      );
 
       if (verbose) {
         console.log(chalk.green(`✓ Downloaded to: ${localFilePath}`));
@@ -490,4 +473,56 @@ export class S3Operations {
       );
     }
   }
+
+  /**
+   * Most recently modified object below a key prefix in s3.bucket, or null
+   * when there is none, e.g. the newest backup of a site
+   */
+  static async findLatestObject(prefix: string): Promise<S3ObjectEntry | null> {
+    const s3Config = Config.getS3Config();
+
+    if (!Config.hasRequiredS3Config()) {
+      throw new Error('S3 configuration is incomplete');
+    }
+
+    this.checkAwsCliAvailability();
+
+    const objects = await this.getStorage().listObjects(
+      s3Config.bucket!,
+      prefix
+    );
+    return objects.reduce<S3ObjectEntry | null>(
+      (latest, object) =>
+        !object.key.endsWith('/') &&
+        (!latest ||
+          Date.parse(object.lastModified) > Date.parse(latest.lastModified))
+          ? object
+          : latest,
+      null
+    );
+  }
+
+  static async downloadObject(
+    key: string,
+    localPath: string,
+    verbose = false
+  ): Promise<void> {
+    const s3Config = Config.getS3Config();
+
+    if (!Config.hasRequiredS3Config()) {
+      throw new Error('S3 configuration is incomplete');
+    }
+
+    this.checkAwsCliAvailability();
+
+    await this.getStorage().downloadFile(s3Config.bucket!, key, localPath, {
+      onProgress: verbose
+        ? S3StorageManager.createProgressBar(basename(key))
+        : undefined,
+    });
+  }
+
+  private static getStorage(): S3Storage {
+    return S3StorageManager.getForConfiguredBucket();
+  }
 }
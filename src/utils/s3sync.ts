@@ -1,20 +1,113 @@
 import { execSync } from 'child_process';
+import { readFileSync, writeFileSync } from 'fs';
+import { posix } from 'path';
 import chalk from 'chalk';
+import { BucketSyncThresholds, Config } from './config';
+import { formatBytes } from './disk-space';
+import { S3Storage, S3StorageManager } from './s3-storage';
 
 export interface S3SyncOptions {
   dryRun?: boolean;
   force?: boolean;
   verbose?: boolean;
+  // Copy into another site's folder, e.g. for a cloned site
+  targetSiteId?: string;
+  // Globs matched against keys below sites/<id>/ as aws s3 sync matches
+  // them: * also matches /, and an exclude wins over an include
+  include?: string[];
+  exclude?: string[];
+  // Only copy objects modified on or after this date
+  since?: Date;
+  // Remove destination objects the source does not have
+  delete?: boolean;
+  // Compare sizes and ETags of both sides after the sync
+  verify?: boolean;
+  // Plan from planSync, so what was previewed is what runs
+  plan?: S3SyncPlan;
+}
+
+export interface S3ObjectInfo {
+  // Relative to the site folder
+  key: string;
+  size: number;
+  etag: string;
+  lastModified: string;
+}
+
+export interface S3SyncPlan {
+  source: string;
+  destination: string;
+  copy: S3ObjectInfo[];
+  delete: S3ObjectInfo[];
+  unchanged: number;
+}
+
+// A whole-bucket plan as saved to a file, with what it was planned with,
+// so it can be reviewed and applied later
+export interface S3BucketSyncPlan extends S3SyncPlan {
+  version: number;
+  fromEnv: string;
+  toEnv: string;
+  createdAt: string;
+  include?: string[];
+  exclude?: string[];
+  since?: string;
+  // Keys in copy that the destination already has
+  overwrite: string[];
+}
+
+export interface S3BucketSyncCounts {
+  added: number;
+  addedBytes: number;
+  overwritten: number;
+  overwrittenBytes: number;
+  deleted: number;
+  deletedBytes: number;
+}
+
+export interface S3BucketSyncDiff {
+  // sites/<id> per site, other top-level folders as they are, '' for
+  // objects at the root of the bucket
+  folders: Array<S3BucketSyncCounts & { folder: string }>;
+  total: S3BucketSyncCounts;
+}
+
+export interface S3SyncSummary {
+  copied: number;
+  copiedBytes: number;
+  deleted: number;
+  deletedBytes: number;
+}
+
+export interface S3SyncVerification {
+  checked: number;
+  missing: string[];
+  mismatched: string[];
 }
 
 export interface S3SyncResult {
   success: boolean;
   filesTransferred: number;
   message: string;
+  summary?: S3SyncSummary;
+  verification?: S3SyncVerification;
 }
 
+// Keys per aws s3 sync run when syncing an explicit list of objects
+const KEYS_PER_SYNC = 100;
+
+// Objects the sdk backend copies at once
+const COPY_CONCURRENCY = 8;
+
+// Bump when S3BucketSyncPlan changes shape
+const BUCKET_PLAN_VERSION = 1;
+
 export class S3Sync {
+  // The sdk backend talks to S3 itself, so only the cli backend needs aws
   static checkAwsCli(): boolean {
+    if (Config.getS3Backend() === 'sdk') {
+      return true;
+    }
     try {
       execSync('aws --version', { stdio: 'ignore' });
       return true;
@@ -22,7 +115,12 @@ export class S3Sync {
       return false;
     }
   }
+  // The SDK resolves credentials on its first request and reports a
+  // missing or expired one there
   static checkAwsCredentials(): boolean {
+    if (Config.getS3Backend() === 'sdk') {
+      return true;
+    }
     try {
       execSync('aws sts get-caller-identity', {
         stdio: 'ignore',
@@ -40,36 +138,41 @@ export class S3Sync {
     toEnv: string,
     options: S3SyncOptions = {}
   ): Promise<S3SyncResult> {
-    // Special case: for prod→local migrations, sync S3 from prod to dev
-    let actualToEnv = toEnv;
-    if (toEnv === 'local' && fromEnv === 'prod') {
-      actualToEnv = 'dev';
-      if (options.verbose) {
-        console.log(
-          chalk.cyan('  Local migration detected: syncing S3 from prod to dev')
-        );
-      }
-    }
-
-    const sourceBucket = `s3://wfu-cer-wordpress-${fromEnv}-us-east-1/sites/${siteId}/`;
-    const destBucket = `s3://wfu-cer-wordpress-${actualToEnv}-us-east-1/sites/${siteId}/`;
+    const { source: sourceBucket, destination: destBucket } =
+      this.getSiteLocations(siteId, fromEnv, toEnv, options);
 
-    if (options.verbose) {
-      console.log(chalk.blue('WordPress Files S3 Sync'));
-      console.log(`  Site ID: ${chalk.green(siteId)}`);
-      console.log(
-        `  Direction: ${chalk.green(fromEnv)} → ${chalk.green(toEnv)}${actualToEnv !== toEnv ? ` (S3: ${actualToEnv})` : ''}`
-      );
-      console.log(`  Source: ${chalk.gray(sourceBucket)}`);
-      console.log(`  Destination: ${chalk.gray(destBucket)}`);
+    if (options.since && options.delete) {
+      return {
+        success: false,
+        filesTransferred: 0,
+        message:
+          'S3 sync failed: deleting cannot be combined with a since date',
+      };
     }
 
     try {
+      // Listing both sides is only needed for the filters aws cannot apply,
+      // for the summary and verification, and for the sdk backend, which
+      // copies object by object
+      const plan =
+        options.plan ||
+        (options.since ||
+        options.delete ||
+        options.verify ||
+        this.getStorage().backend === 'sdk'
+          ? await this.planSync(siteId, fromEnv, toEnv, options)
+          : undefined);
+
+      if (plan) {
+        return await this.applyPlan(plan, options);
+      }
+
       let syncCommand: string;
       let stdio: 'inherit' | 'pipe';
+      const filterArgs = this.getFilterArgs(options);
 
       if (options.dryRun) {
-        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket} --dryrun`;
+        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket}${filterArgs} --dryrun`;
         stdio = options.verbose ? 'inherit' : 'pipe';
 
         if (options.verbose) {
@@ -77,7 +180,7 @@ export class S3Sync {
           console.log(chalk.gray(`  Command: ${syncCommand}`));
         }
       } else {
-        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket}`;
+        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket}${filterArgs}`;
         stdio = options.verbose ? 'inherit' : 'pipe';
 
         if (options.verbose) {
@@ -132,38 +235,472 @@ export class S3Sync {
     }
   }
 
-  static validateEnvironment(env: string): boolean {
-    const validEnvs = ['dev', 'uat', 'pprd', 'prod', 'local'];
-    return validEnvs.includes(env.toLowerCase());
+  /**
+   * List both site folders and work out what a sync with these options
+   * would copy and delete. An object is copied when the destination lacks
+   * it, has another size or has an older copy, as aws s3 sync decides.
+   */
+  static async planSync(
+    siteId: string,
+    fromEnv: string,
+    toEnv: string,
+    options: S3SyncOptions = {}
+  ): Promise<S3SyncPlan> {
+    const { source, destination } = this.getSiteLocations(
+      siteId,
+      fromEnv,
+      toEnv,
+      { ...options, verbose: false }
+    );
+    return (await this.comparePlan(source, destination, options)).plan;
   }
 
-  static validateSiteId(siteId: string): boolean {
-    return /^\d+$/.test(siteId) && parseInt(siteId) > 0;
+  /**
+   * Plan a sync of one environment's whole uploads bucket into another's,
+   * the way planSync plans a site folder, noting which copies overwrite
+   * an object the destination has.
+   */
+  static async planBucketSync(
+    fromEnv: string,
+    toEnv: string,
+    options: S3SyncOptions = {}
+  ): Promise<S3BucketSyncPlan> {
+    const { source, destination } = this.getBucketLocations(fromEnv, toEnv, {
+      ...options,
+      verbose: false,
+    });
+    const { plan, overwrite } = await this.comparePlan(
+      source,
+      destination,
+      options
+    );
+    return {
+      version: BUCKET_PLAN_VERSION,
+      fromEnv,
+      toEnv,
+      createdAt: new Date().toISOString(),
+      include: options.include,
+      exclude: options.exclude,
+      since: options.since?.toISOString(),
+      ...plan,
+      overwrite,
+    };
   }
 
-  static async syncEntireBucket(
+  // Counts and bytes to add, overwrite and delete, per site folder
+  static diffBucketPlan(plan: S3BucketSyncPlan): S3BucketSyncDiff {
+    const emptyCounts = (): S3BucketSyncCounts => ({
+      added: 0,
+      addedBytes: 0,
+      overwritten: 0,
+      overwrittenBytes: 0,
+      deleted: 0,
+      deletedBytes: 0,
+    });
+    const folders = new Map<string, S3BucketSyncCounts & { folder: string }>();
+    const total = emptyCounts();
+    const count = (
+      object: S3ObjectInfo,
+      action: 'added' | 'overwritten' | 'deleted'
+    ): void => {
+      const folder = this.getBucketFolder(object.key);
+      const counts = folders.get(folder) || { folder, ...emptyCounts() };
+      folders.set(folder, counts);
+      for (const target of [counts, total]) {
+        target[action]++;
+        target[`${action}Bytes`] += object.size;
+      }
+    };
+
+    const overwrite = new Set(plan.overwrite);
+    for (const object of plan.copy) {
+      count(object, overwrite.has(object.key) ? 'overwritten' : 'added');
+    }
+    for (const object of plan.delete) {
+      count(object, 'deleted');
+    }
+    return {
+      folders: [...folders.values()].sort((a, b) =>
+        a.folder.localeCompare(b.folder, undefined, { numeric: true })
+      ),
+      total,
+    };
+  }
+
+  // Why a plan needs a typed confirmation; empty when within every limit
+  static exceededThresholds(
+    diff: S3BucketSyncDiff,
+    thresholds: BucketSyncThresholds
+  ): string[] {
+    const { total } = diff;
+    const copiedBytes = total.addedBytes + total.overwrittenBytes;
+    const exceeded: string[] = [];
+    if (total.overwritten > thresholds.overwrites) {
+      exceeded.push(
+        `${total.overwritten} objects overwritten, more than ${thresholds.overwrites} (s3.confirmOverwrites)`
+      );
+    }
+    if (total.deleted > thresholds.deletes) {
+      exceeded.push(
+        `${total.deleted} objects deleted, more than ${thresholds.deletes} (s3.confirmDeletes)`
+      );
+    }
+    if (copiedBytes > thresholds.bytes) {
+      exceeded.push(
+        `${formatBytes(copiedBytes)} to copy, more than ${formatBytes(thresholds.bytes)} (s3.confirmSize)`
+      );
+    }
+    return exceeded;
+  }
+
+  static saveBucketPlan(plan: S3BucketSyncPlan, filePath: string): void {
+    writeFileSync(filePath, JSON.stringify(plan, null, 2));
+  }
+
+  /**
+   * Read a plan saveBucketPlan wrote for a sync of fromEnv into toEnv. Its
+   * buckets must be the ones those environments resolve to now, so an
+   * edited or stale plan cannot copy into or delete from another bucket.
+   */
+  static loadBucketPlan(
+    filePath: string,
     fromEnv: string,
-    toEnv: string,
+    toEnv: string
+  ): S3BucketSyncPlan {
+    let plan: S3BucketSyncPlan;
+    try {
+      plan = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read plan ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    if (
+      !plan ||
+      plan.version !== BUCKET_PLAN_VERSION ||
+      typeof plan.source !== 'string' ||
+      typeof plan.destination !== 'string' ||
+      !Array.isArray(plan.copy) ||
+      !Array.isArray(plan.delete) ||
+      !Array.isArray(plan.overwrite)
+    ) {
+      throw new Error(`${filePath} is not a whole-bucket sync plan`);
+    }
+    if (plan.fromEnv !== fromEnv || plan.toEnv !== toEnv) {
+      throw new Error(
+        `${filePath} syncs ${plan.fromEnv} to ${plan.toEnv}, not ${fromEnv} to ${toEnv}`
+      );
+    }
+    this.checkBucketPlanLocations(plan, fromEnv, toEnv);
+    return plan;
+  }
+
+  static summarizePlan(plan: S3SyncPlan): S3SyncSummary {
+    const bytes = (objects: S3ObjectInfo[]): number =>
+      objects.reduce((total, object) => total + object.size, 0);
+    return {
+      copied: plan.copy.length,
+      copiedBytes: bytes(plan.copy),
+      deleted: plan.delete.length,
+      deletedBytes: bytes(plan.delete),
+    };
+  }
+
+  /**
+   * Compare every source object the filters select with its copy in the
+   * destination. ETags of multipart uploads depend on the part size, so
+   * those only have to match in size.
+   */
+  static async verifySync(
+    plan: S3SyncPlan,
     options: S3SyncOptions = {}
+  ): Promise<S3SyncVerification> {
+    const since = options.since?.getTime();
+    const sourceObjects = (await this.listObjects(plan.source)).filter(
+      (object) =>
+        this.matchesFilters(object.key, options) &&
+        (since === undefined || Date.parse(object.lastModified) >= since)
+    );
+    const destinationObjects = new Map(
+      (await this.listObjects(plan.destination)).map((object) => [
+        object.key,
+        object,
+      ])
+    );
+
+    const verification: S3SyncVerification = {
+      checked: sourceObjects.length,
+      missing: [],
+      mismatched: [],
+    };
+    for (const object of sourceObjects) {
+      const copy = destinationObjects.get(object.key);
+      if (!copy) {
+        verification.missing.push(object.key);
+      } else if (
+        copy.size !== object.size ||
+        (copy.etag !== object.etag &&
+          !copy.etag.includes('-') &&
+          !object.etag.includes('-'))
+      ) {
+        verification.mismatched.push(object.key);
+      }
+    }
+    return verification;
+  }
+
+  // A site's uploads folder in an environment's bucket
+  static getUploadsLocation(siteId: string, environment: string): string {
+    return `s3://wfu-cer-wordpress-${environment}-us-east-1/sites/${siteId}/`;
+  }
+
+  // The comparison behind planSync and planBucketSync, for any two
+  // locations; overwrite lists the copies the destination already has
+  private static async comparePlan(
+    source: string,
+    destination: string,
+    options: S3SyncOptions
+  ): Promise<{ plan: S3SyncPlan; overwrite: string[] }> {
+    const sourceObjects = (await this.listObjects(source)).filter((object) =>
+      this.matchesFilters(object.key, options)
+    );
+    const destinationObjects = new Map(
+      (await this.listObjects(destination))
+        .filter((object) => this.matchesFilters(object.key, options))
+        .map((object) => [object.key, object])
+    );
+
+    const plan: S3SyncPlan = {
+      source,
+      destination,
+      copy: [],
+      delete: [],
+      unchanged: 0,
+    };
+    const overwrite: string[] = [];
+    const since = options.since?.getTime();
+    for (const object of sourceObjects) {
+      const existing = destinationObjects.get(object.key);
+      destinationObjects.delete(object.key);
+      if (since !== undefined && Date.parse(object.lastModified) < since) {
+        continue;
+      }
+      if (
+        !existing ||
+        existing.size !== object.size ||
+        Date.parse(object.lastModified) > Date.parse(existing.lastModified)
+      ) {
+        plan.copy.push(object);
+        if (existing) {
+          overwrite.push(object.key);
+        }
+      } else {
+        plan.unchanged++;
+      }
+    }
+    if (options.delete) {
+      plan.delete = [...destinationObjects.values()];
+    }
+    return { plan, overwrite };
+  }
+
+  static async listObjects(location: string): Promise<S3ObjectInfo[]> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(location);
+    const objects = await this.getStorage().listObjects(bucket, prefix);
+    return objects.map((object) => ({
+      ...object,
+      key: object.key.slice(prefix.length),
+    }));
+  }
+
+  // A plan runs as planned: only its keys are synced and only its deletions
+  // made, however the buckets changed since it was made
+  private static async applyPlan(
+    plan: S3SyncPlan,
+    options: S3SyncOptions
   ): Promise<S3SyncResult> {
+    const summary = this.summarizePlan(plan);
+    const copied = `${summary.copied} files (${formatBytes(summary.copiedBytes)})`;
+    const deleted = `${summary.deleted} files (${formatBytes(summary.deletedBytes)})`;
+    const changes = summary.copied + summary.deleted;
+
+    if (options.dryRun) {
+      return {
+        success: true,
+        filesTransferred: summary.copied,
+        message:
+          changes > 0
+            ? `Would sync ${copied}${summary.deleted > 0 ? ` and delete ${deleted}` : ''}`
+            : 'No files need syncing',
+        summary,
+      };
+    }
+
+    if (this.getStorage().backend === 'sdk') {
+      await this.applyPlanWithSdk(plan, options);
+    } else {
+      await this.applyPlanWithCli(plan, options);
+    }
+
+    const result: S3SyncResult = {
+      success: true,
+      filesTransferred: summary.copied,
+      message:
+        changes > 0
+          ? `Synced ${copied}${summary.deleted > 0 ? `, deleted ${deleted}` : ''}`
+          : 'No files to sync (already up to date)',
+      summary,
+    };
+
+    if (options.verify) {
+      const verification = await this.verifySync(plan, options);
+      result.verification = verification;
+      const problems =
+        verification.missing.length + verification.mismatched.length;
+      if (problems > 0) {
+        result.success = false;
+        result.message = `${result.message}; verification failed: ${verification.missing.length} missing, ${verification.mismatched.length} different`;
+      } else {
+        result.message = `${result.message}; verified ${verification.checked} files`;
+      }
+    }
+    return result;
+  }
+
+  // Copies the planned objects server-side, a few at a time, then deletes
+  private static async applyPlanWithSdk(
+    plan: S3SyncPlan,
+    options: S3SyncOptions
+  ): Promise<void> {
+    const storage = this.getStorage();
+    const source = S3StorageManager.parseLocation(plan.source);
+    const destination = S3StorageManager.parseLocation(plan.destination);
+    const total = plan.copy.reduce((sum, object) => sum + object.size, 0);
+    const onProgress = S3StorageManager.createProgressBar('Copying');
+    let loaded = 0;
+
+    const queue = [...plan.copy];
+    const copyNext = async (): Promise<void> => {
+      for (let object = queue.shift(); object; object = queue.shift()) {
+        await storage.copyObject(
+          source.bucket,
+          `${source.prefix}${object.key}`,
+          destination.bucket,
+          `${destination.prefix}${object.key}`,
+          object.size
+        );
+        loaded += object.size;
+        if (options.verbose) {
+          console.log(chalk.gray(`  copy: ${object.key}`));
+        } else {
+          onProgress({ loaded, total });
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(COPY_CONCURRENCY, queue.length) }, () =>
+        copyNext()
+      )
+    );
+
+    if (plan.delete.length > 0) {
+      if (options.verbose) {
+        for (const object of plan.delete) {
+          console.log(chalk.gray(`  delete: ${object.key}`));
+        }
+      }
+      await storage.deleteObjects(
+        destination.bucket,
+        plan.delete.map((object) => `${destination.prefix}${object.key}`)
+      );
+    }
+  }
+
+  // Syncs the planned keys a folder at a time, so each aws s3 sync lists
+  // that folder rather than the whole bucket, then deletes
+  private static async applyPlanWithCli(
+    plan: S3SyncPlan,
+    options: S3SyncOptions
+  ): Promise<void> {
+    const folders = new Map<string, string[]>();
+    for (const object of plan.copy) {
+      const folder = posix.dirname(object.key);
+      const names = folders.get(folder) || [];
+      names.push(posix.basename(object.key));
+      folders.set(folder, names);
+    }
+
+    const stdio = options.verbose ? 'inherit' : 'pipe';
+    for (const [folder, names] of folders) {
+      const path = folder === '.' ? '' : `${folder}/`;
+      for (let i = 0; i < names.length; i += KEYS_PER_SYNC) {
+        const includes = names
+          .slice(i, i + KEYS_PER_SYNC)
+          .map((name) => ` --include ${this.quote(this.escapeGlob(name))}`)
+          .join('');
+        execSync(
+          `aws s3 sync ${this.quote(`${plan.source}${path}`)} ${this.quote(`${plan.destination}${path}`)} --exclude '*'${includes}`,
+          { stdio, encoding: 'utf8' }
+        );
+      }
+    }
+
+    if (plan.delete.length > 0) {
+      if (options.verbose) {
+        for (const object of plan.delete) {
+          console.log(chalk.gray(`  delete: ${object.key}`));
+        }
+      }
+      const destination = S3StorageManager.parseLocation(plan.destination);
+      await this.getStorage().deleteObjects(
+        destination.bucket,
+        plan.delete.map((object) => `${destination.prefix}${object.key}`)
+      );
+    }
+  }
+
+  // sites/<id> for site uploads, otherwise the top-level folder
+  private static getBucketFolder(key: string): string {
+    const site = key.match(/^sites\/\d+\//);
+    if (site) {
+      return site[0].slice(0, -1);
+    }
+    const slash = key.indexOf('/');
+    return slash === -1 ? '' : key.slice(0, slash);
+  }
+
+  // The wfu-cer-wordpress-* buckets are in AWS itself, so s3.endpoint,
+  // which points at the backup bucket's server, does not apply
+  private static getStorage(): S3Storage {
+    return S3StorageManager.get();
+  }
+
+  private static getSiteLocations(
+    siteId: string,
+    fromEnv: string,
+    toEnv: string,
+    options: S3SyncOptions
+  ): { source: string; destination: string } {
     // Special case: for prod→local migrations, sync S3 from prod to dev
     let actualToEnv = toEnv;
     if (toEnv === 'local' && fromEnv === 'prod') {
       actualToEnv = 'dev';
       if (options.verbose) {
         console.log(
-          chalk.cyan(
-            '  Local migration detected: syncing entire S3 bucket from prod to dev'
-          )
+          chalk.cyan('  Local migration detected: syncing S3 from prod to dev')
         );
       }
     }
 
-    const sourceBucket = `s3://wfu-cer-wordpress-${fromEnv}-us-east-1/`;
-    const destBucket = `s3://wfu-cer-wordpress-${actualToEnv}-us-east-1/`;
+    const sourceBucket = this.getUploadsLocation(siteId, fromEnv);
+    const destBucket = this.getUploadsLocation(
+      options.targetSiteId || siteId,
+      actualToEnv
+    );
 
     if (options.verbose) {
-      console.log(chalk.blue('Full S3 Bucket Sync'));
+      console.log(chalk.blue('WordPress Files S3 Sync'));
+      console.log(`  Site ID: ${chalk.green(siteId)}`);
       console.log(
         `  Direction: ${chalk.green(fromEnv)} → ${chalk.green(toEnv)}${actualToEnv !== toEnv ? ` (S3: ${actualToEnv})` : ''}`
       );
@@ -171,63 +708,103 @@ export class S3Sync {
       console.log(`  Destination: ${chalk.gray(destBucket)}`);
     }
 
-    try {
-      let syncCommand: string;
-      let stdio: 'inherit' | 'pipe';
+    return { source: sourceBucket, destination: destBucket };
+  }
 
-      if (options.dryRun) {
-        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket} --dryrun`;
-        stdio = options.verbose ? 'inherit' : 'pipe';
+  // Includes select a subset by excluding everything else first
+  private static getFilterArgs(options: S3SyncOptions): string {
+    const args: string[] = [];
+    if (options.include?.length) {
+      args.push(`--exclude '*'`);
+      args.push(
+        ...options.include.map((pattern) => `--include ${this.quote(pattern)}`)
+      );
+    }
+    args.push(
+      ...(options.exclude || []).map(
+        (pattern) => `--exclude ${this.quote(pattern)}`
+      )
+    );
+    return args.map((arg) => ` ${arg}`).join('');
+  }
 
-        if (options.verbose) {
-          console.log(chalk.yellow('  Running in DRY RUN mode...'));
-          console.log(chalk.gray(`  Command: ${syncCommand}`));
-        }
-      } else {
-        syncCommand = `aws s3 sync ${sourceBucket} ${destBucket}`;
-        stdio = options.verbose ? 'inherit' : 'pipe';
+  private static matchesFilters(key: string, options: S3SyncOptions): boolean {
+    const matches = (patterns: string[]): boolean =>
+      patterns.some((pattern) => this.globToRegExp(pattern).test(key));
+    if (options.include?.length && !matches(options.include)) {
+      return false;
+    }
+    return !(options.exclude?.length && matches(options.exclude));
+  }
 
-        if (options.verbose) {
-          console.log(chalk.blue('  Syncing entire S3 bucket...'));
-          console.log(chalk.gray(`  Command: ${syncCommand}`));
-        }
+  private static globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      const classEnd = char === '[' ? pattern.indexOf(']', i + 2) : -1;
+      if (char === '*') {
+        source += '.*';
+      } else if (char === '?') {
+        source += '.';
+      } else if (classEnd !== -1) {
+        const members = pattern.slice(i + 1, classEnd);
+        source += `[${members.replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = classEnd;
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
       }
+    }
+    return new RegExp(`^${source}$`);
+  }
 
-      const result = execSync(syncCommand, {
-        stdio,
-        encoding: 'utf8',
-      });
+  // Matches the key itself and nothing else
+  private static escapeGlob(key: string): string {
+    return key.replace(/[*?[]/g, '[$&]');
+  }
 
-      // Parse result to count files
-      let filesTransferred = 0;
-      let message = '';
+  private static quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
 
-      if (typeof result === 'string' && result.trim()) {
-        const lines = result.split('\n').filter((line) => line.trim());
-        filesTransferred = lines.length;
+  static validateEnvironment(env: string): boolean {
+    const validEnvs = ['dev', 'uat', 'pprd', 'prod', 'local'];
+    return validEnvs.includes(env.toLowerCase());
+  }
 
-        if (options.dryRun) {
-          message =
-            filesTransferred > 0
-              ? `Would sync ${filesTransferred} files across entire bucket`
-              : 'No files need syncing in bucket';
-        } else {
-          message =
-            filesTransferred > 0
-              ? `Synced ${filesTransferred} files across entire bucket`
-              : 'No files to sync in bucket (already up to date)';
-        }
-      } else {
-        message = options.dryRun
-          ? 'No files need syncing in bucket'
-          : 'No files to sync in bucket (already up to date)';
-      }
+  static validateSiteId(siteId: string): boolean {
+    return /^\d+$/.test(siteId) && parseInt(siteId) > 0;
+  }
 
+  /**
+   * Sync one environment's whole uploads bucket into another's. Runs
+   * options.plan when given, e.g. a saved planBucketSync plan, or plans
+   * first; either way only the planned keys are copied and deleted.
+   */
+  static async syncEntireBucket(
+    fromEnv: string,
+    toEnv: string,
+    options: S3SyncOptions = {}
+  ): Promise<S3SyncResult> {
+    if (options.since && options.delete) {
       return {
-        success: true,
-        filesTransferred,
-        message,
+        success: false,
+        filesTransferred: 0,
+        message:
+          'Full S3 bucket sync failed: deleting cannot be combined with a since date',
       };
+    }
+
+    try {
+      if (options.verbose) {
+        // Prints the direction and both buckets
+        this.getBucketLocations(fromEnv, toEnv, options);
+      }
+      if (options.plan) {
+        this.checkBucketPlanLocations(options.plan, fromEnv, toEnv);
+      }
+      const plan =
+        options.plan || (await this.planBucketSync(fromEnv, toEnv, options));
+      return await this.applyPlan(plan, options);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -238,4 +815,50 @@ export class S3Sync {
       };
     }
   }
+
+  private static checkBucketPlanLocations(
+    plan: S3SyncPlan,
+    fromEnv: string,
+    toEnv: string
+  ): void {
+    const { source, destination } = this.getBucketLocations(fromEnv, toEnv, {});
+    if (plan.source !== source || plan.destination !== destination) {
+      throw new Error(
+        `The plan syncs ${plan.source} to ${plan.destination}, but ${fromEnv} to ${toEnv} syncs ${source} to ${destination}`
+      );
+    }
+  }
+
+  private static getBucketLocations(
+    fromEnv: string,
+    toEnv: string,
+    options: S3SyncOptions
+  ): { source: string; destination: string } {
+    // Special case: for prod→local migrations, sync S3 from prod to dev
+    let actualToEnv = toEnv;
+    if (toEnv === 'local' && fromEnv === 'prod') {
+      actualToEnv = 'dev';
+      if (options.verbose) {
+        console.log(
+          chalk.cyan(
+            '  Local migration detected: syncing entire S3 bucket from prod to dev'
+          )
+        );
+      }
+    }
+
+    const sourceBucket = `s3://wfu-cer-wordpress-${fromEnv}-us-east-1/`;
+    const destBucket = `s3://wfu-cer-wordpress-${actualToEnv}-us-east-1/`;
+
+    if (options.verbose) {
+      console.log(chalk.blue('Full S3 Bucket Sync'));
+      console.log(
+        `  Direction: ${chalk.green(fromEnv)} → ${chalk.green(toEnv)}${actualToEnv !== toEnv ? ` (S3: ${actualToEnv})` : ''}`
+      );
+      console.log(`  Source: ${chalk.gray(sourceBucket)}`);
+      console.log(`  Destination: ${chalk.gray(destBucket)}`);
+    }
+
+    return { source: sourceBucket, destination: destBucket };
+  }
 }
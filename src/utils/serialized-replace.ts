@@ -0,0 +1,281 @@
+/**
+ * Serialization-aware search-replace for WordPress data
+ *
+ * PHP serialize() output records the byte length of every string, so a plain
+ * REPLACE() with a different-length value leaves widgets, theme_mods and ACF
+ * fields unreadable. This engine walks serialized values, rewrites each string
+ * leaf and recomputes its length. Nested serialized strings and JSON payloads
+ * (including WordPress' escaped-slash URLs) are handled recursively.
+ *
+ * All work happens on "binary" strings (latin1, one char per byte) so lengths
+ * always match what PHP expects, regardless of the content's encoding.
+ */
+import { EnvironmentMapping } from './environment-mapping';
+
+export interface Replacement {
+  from: string;
+  to: string;
+  // Only replace where `from` ends a path segment, so a site address
+  // //wfu.edu/news is not rewritten inside //wfu.edu/newsroom
+  pathBoundary?: boolean;
+}
+
+// Characters that continue a URL path segment, on binary strings; anything
+// else (/, ", ?, #, the end of the value) is a boundary
+const PATH_SEGMENT_CHARACTER = '[\\w.~%+\\-\\x80-\\xff]';
+
+interface RewriteResult {
+  output: string;
+  end: number;
+}
+
+export class SerializedReplace {
+  private static readonly SERIALIZED_PATTERN =
+    /^(?:N;|b:[01];|i:-?\d+;|d:[^;]+;|s:\d+:"|a:\d+:\{|O:\d+:"|C:\d+:"|E:\d+:")/;
+
+  /**
+   * Apply replacements in order to a UTF-8 string value
+   */
+  static replace(value: string, replacements: Replacement[]): string {
+    return this.replaceBuffer(
+      Buffer.from(value, 'utf8'),
+      replacements
+    ).toString('utf8');
+  }
+
+  /**
+   * Apply replacements in order to a raw column value
+   */
+  static replaceBuffer(value: Buffer, replacements: Replacement[]): Buffer {
+    const binaryReplacements = this.toBinaryReplacements(replacements);
+    if (binaryReplacements.length === 0) {
+      return value;
+    }
+    return Buffer.from(
+      this.replaceBinary(value.toString('latin1'), binaryReplacements),
+      'latin1'
+    );
+  }
+
+  /**
+   * Flatten an environment mapping into the ordered list used for rewrites
+   */
+  static fromMapping(mapping: EnvironmentMapping): Replacement[] {
+    return [...mapping.urlReplacements, ...mapping.s3Replacements];
+  }
+
+  static isSerialized(value: string): boolean {
+    return this.SERIALIZED_PATTERN.test(value);
+  }
+
+  /**
+   * Strings that need to be searched for to find every value a replacement
+   * list could touch (includes the JSON escaped-slash form of URLs)
+   */
+  static getSearchNeedles(replacements: Replacement[]): string[] {
+    const needles = new Set<string>();
+    for (const replacement of replacements) {
+      if (!replacement.from) continue;
+      needles.add(replacement.from);
+      if (replacement.from.includes('/')) {
+        needles.add(this.escapeSlashes(replacement.from));
+      }
+    }
+    return Array.from(needles);
+  }
+
+  /**
+   * Replace every occurrence of one replacement in a plain string, honouring
+   * pathBoundary
+   */
+  static replaceText(value: string, replacement: Replacement): string {
+    if (!replacement.pathBoundary) {
+      return value.split(replacement.from).join(replacement.to);
+    }
+    const pattern = new RegExp(
+      `${replacement.from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!${PATH_SEGMENT_CHARACTER})`,
+      'g'
+    );
+    return value.replace(pattern, () => replacement.to);
+  }
+
+  static toBinaryReplacements(replacements: Replacement[]): Replacement[] {
+    return replacements
+      .filter((replacement) => replacement.from.length > 0)
+      .map((replacement) => ({
+        ...replacement,
+        from: Buffer.from(replacement.from, 'utf8').toString('latin1'),
+        to: Buffer.from(replacement.to, 'utf8').toString('latin1'),
+      }));
+  }
+
+  private static replaceBinary(
+    value: string,
+    replacements: Replacement[]
+  ): string {
+    if (this.isSerialized(value)) {
+      try {
+        const result = this.rewriteValue(value, 0, replacements);
+        if (result.end === value.length) {
+          return result.output;
+        }
+      } catch {
+        // Malformed serialized data is treated as a plain string, the same
+        // way WP-CLI handles values unserialize() rejects
+      }
+    }
+    return this.replacePlain(value, replacements);
+  }
+
+  private static replacePlain(
+    value: string,
+    replacements: Replacement[]
+  ): string {
+    const isJson = /^\s*[[{]/.test(value);
+    let result = value;
+    for (const replacement of replacements) {
+      result = this.replaceText(result, replacement);
+      if (isJson && replacement.from.includes('/')) {
+        result = this.replaceText(result, {
+          ...replacement,
+          from: this.escapeSlashes(replacement.from),
+          to: this.escapeSlashes(replacement.to),
+        });
+      }
+    }
+    return result;
+  }
+
+  private static escapeSlashes(value: string): string {
+    return value.replace(/\//g, '\\/');
+  }
+
+  private static rewriteValue(
+    value: string,
+    pos: number,
+    replacements: Replacement[]
+  ): RewriteResult {
+    const type = value[pos];
+
+    switch (type) {
+      case 'N':
+        this.expect(value, pos + 1, ';');
+        return { output: 'N;', end: pos + 2 };
+      case 'b':
+      case 'i':
+      case 'd':
+      case 'r':
+      case 'R': {
+        this.expect(value, pos + 1, ':');
+        const end = this.indexOf(value, ';', pos + 2) + 1;
+        return { output: value.slice(pos, end), end };
+      }
+      case 's': {
+        const { length, start } = this.readLength(value, pos);
+        this.expect(value, start, '"');
+        const payloadStart = start + 1;
+        const payloadEnd = payloadStart + length;
+        this.expect(value, payloadEnd, '"');
+        this.expect(value, payloadEnd + 1, ';');
+        const payload = this.replaceBinary(
+          value.slice(payloadStart, payloadEnd),
+          replacements
+        );
+        return {
+          output: `s:${payload.length}:"${payload}";`,
+          end: payloadEnd + 2,
+        };
+      }
+      case 'E': {
+        // Enum cases carry no replaceable content
+        const { length, start } = this.readLength(value, pos);
+        const end = start + length + 3;
+        this.expect(value, end - 1, ';');
+        return { output: value.slice(pos, end), end };
+      }
+      case 'a': {
+        const { length: count, start } = this.readLength(value, pos);
+        this.expect(value, start, '{');
+        const body = this.rewriteMembers(value, start + 1, count, replacements);
+        return {
+          output: `${value.slice(pos, start + 1)}${body.output}}`,
+          end: body.end + 1,
+        };
+      }
+      case 'O': {
+        const name = this.readLength(value, pos);
+        this.expect(value, name.start, '"');
+        const nameEnd = name.start + 1 + name.length;
+        this.expect(value, nameEnd, '"');
+        const { length: count, start } = this.readLength(value, nameEnd);
+        this.expect(value, start, '{');
+        const body = this.rewriteMembers(value, start + 1, count, replacements);
+        return {
+          output: `${value.slice(pos, start + 1)}${body.output}}`,
+          end: body.end + 1,
+        };
+      }
+      case 'C': {
+        // Custom-serialized objects own their payload format, so it is copied
+        // through untouched
+        const name = this.readLength(value, pos);
+        const nameEnd = name.start + 1 + name.length;
+        this.expect(value, nameEnd, '"');
+        const data = this.readLength(value, nameEnd);
+        this.expect(value, data.start, '{');
+        const end = data.start + 1 + data.length;
+        this.expect(value, end, '}');
+        return { output: value.slice(pos, end + 1), end: end + 1 };
+      }
+      default:
+        throw new Error(`Unexpected serialized type '${type}' at ${pos}`);
+    }
+  }
+
+  // Array and object members: keys are kept verbatim, values are rewritten
+  private static rewriteMembers(
+    value: string,
+    pos: number,
+    count: number,
+    replacements: Replacement[]
+  ): RewriteResult {
+    let cursor = pos;
+    let output = '';
+    for (let i = 0; i < count; i++) {
+      const key = this.rewriteValue(value, cursor, []);
+      const member = this.rewriteValue(value, key.end, replacements);
+      output += key.output + member.output;
+      cursor = member.end;
+    }
+    this.expect(value, cursor, '}');
+    return { output, end: cursor };
+  }
+
+  // Reads "<type>:<digits>:" and returns the number and the offset after it
+  private static readLength(
+    value: string,
+    pos: number
+  ): { length: number; start: number } {
+    const typeSeparator = value[pos + 1] === ':' ? pos + 2 : pos;
+    const colon = this.indexOf(value, ':', typeSeparator);
+    const digits = value.slice(typeSeparator, colon);
+    if (!/^\d+$/.test(digits)) {
+      throw new Error(`Invalid serialized length at ${pos}`);
+    }
+    return { length: parseInt(digits, 10), start: colon + 1 };
+  }
+
+  private static indexOf(value: string, char: string, from: number): number {
+    const index = value.indexOf(char, from);
+    if (index === -1) {
+      throw new Error(`Expected '${char}' after ${from}`);
+    }
+    return index;
+  }
+
+  private static expect(value: string, pos: number, char: string): void {
+    if (value[pos] !== char) {
+      throw new Error(`Expected '${char}' at ${pos}`);
+    }
+  }
+}
@@ -0,0 +1,607 @@
+/**
+ * Archives of decommissioned sites
+ *
+ * An archive is a directory, local or under an s3:// URI, holding the site's
+ * tables (database.sql), its S3 uploads (uploads.tar.gz), its wp_blogs row,
+ * the users' roles on the site and manifest.json with a checksum for every
+ * file. manifest.json is written last, so an archive without one is
+ * incomplete. Restoring brings the site back under its original blog_id when
+ * that is still free, otherwise under the next one.
+ */
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import {
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import { Config } from './config';
+import { DatabaseOperations } from './database';
+import { DbConnectionManager, DbRow, DbValue } from './db-connection';
+import { S3Storage, S3StorageManager } from './s3-storage';
+import { S3SyncResult } from './s3sync';
+import { SiteEnumerator } from './site-enumerator';
+import { SqlStreamTransformer } from './sql-stream-transformer';
+
+export interface SiteArchiveManifest {
+  version: 1;
+  siteId: number;
+  environment: string;
+  createdAt: string;
+  domain: string;
+  path: string;
+  tables: string[];
+  // Where the uploads were copied from; null when the environment has no
+  // uploads bucket
+  uploads: { location: string; files: number } | null;
+  // sha256 of every other file in the archive
+  checksums: Record<string, string>;
+}
+
+export interface SiteArchiveOptions {
+  verbose?: boolean;
+  timeout?: number;
+}
+
+export interface SiteArchiveResult {
+  location: string;
+  manifest: SiteArchiveManifest;
+}
+
+export interface SiteUnarchivePlan {
+  location: string;
+  // Local copy of the archive, verified against the manifest
+  directory: string;
+  manifest: SiteArchiveManifest;
+  blog: DbRow;
+  userRoles: DbRow[];
+  // null when the original blog_id is taken and a new one is allocated
+  siteId: number | null;
+  // Why the original blog_id cannot be used
+  blogIdTaken?: string;
+}
+
+export interface SiteUnarchiveOptions extends SiteArchiveOptions {
+  skipS3?: boolean;
+}
+
+export interface SiteUnarchiveResult {
+  siteId: number;
+  tables: string[];
+  userRolesRestored: number;
+  uploads: S3SyncResult | null;
+}
+
+const ARCHIVE_FILES = {
+  database: 'database.sql',
+  uploads: 'uploads.tar.gz',
+  blog: 'wp_blogs.json',
+  userRoles: 'user-roles.json',
+  manifest: 'manifest.json',
+};
+
+export class SiteArchive {
+  static isS3Uri(location: string): boolean {
+    return location.startsWith('s3://');
+  }
+
+  // The local environment keeps its uploads on disk, not in a bucket
+  static getUploadsLocation(
+    siteId: number,
+    environment: string
+  ): string | null {
+    return environment === 'local'
+      ? null
+      : `s3://wfu-cer-wordpress-${environment}-us-east-1/sites/${siteId}/`;
+  }
+
+  static generateArchiveName(siteId: number, environment: string): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')
+      .slice(0, 19);
+    return `site-${siteId}-${environment}-${timestamp}`;
+  }
+
+  /**
+   * Archive a site into a new directory under target, a local directory or
+   * an s3:// URI. Throws unless every part of the archive was written.
+   */
+  static async create(
+    siteId: number,
+    environment: string,
+    target: string,
+    options: SiteArchiveOptions = {}
+  ): Promise<SiteArchiveResult> {
+    const connection = DbConnectionManager.get(environment);
+    const [blog] = await connection.query(
+      'SELECT * FROM wp_blogs WHERE blog_id = ?',
+      [siteId]
+    );
+    if (!blog) {
+      throw new Error(`Site ${siteId} not found in ${environment} wp_blogs`);
+    }
+    const prefix = `wp_${siteId}_`;
+    const userRoles = await connection.query(
+      'SELECT user_id, meta_key, meta_value FROM wp_usermeta WHERE meta_key IN (?, ?)',
+      [`${prefix}capabilities`, `${prefix}user_level`]
+    );
+    const tables = await DatabaseOperations.getSiteTables(
+      String(siteId),
+      environment
+    );
+
+    const name = this.generateArchiveName(siteId, environment);
+    const toS3 = this.isS3Uri(target);
+    if (!toS3) {
+      mkdirSync(target, { recursive: true });
+    }
+    // Staged beside the final directory so publishing it is a rename
+    const stagingDir = toS3
+      ? mkdtempSync(join(tmpdir(), 'wfuwp-archive-'))
+      : mkdtempSync(join(target, `.${name}-`));
+
+    try {
+      if (tables.length > 0) {
+        if (options.verbose) {
+          console.log(chalk.gray(`  Exporting ${tables.length} tables...`));
+        }
+        await DatabaseOperations.exportSiteTables(
+          String(siteId),
+          environment,
+          join(stagingDir, ARCHIVE_FILES.database),
+          options.verbose,
+          options.timeout
+        );
+      }
+
+      const uploadsLocation = this.getUploadsLocation(siteId, environment);
+      let uploads: SiteArchiveManifest['uploads'] = null;
+      if (uploadsLocation) {
+        if (options.verbose) {
+          console.log(
+            chalk.gray(`  Archiving uploads from ${uploadsLocation}...`)
+          );
+        }
+        uploads = {
+          location: uploadsLocation,
+          files: await this.archiveUploads(uploadsLocation, stagingDir),
+        };
+      }
+
+      writeFileSync(
+        join(stagingDir, ARCHIVE_FILES.blog),
+        JSON.stringify(blog, null, 2)
+      );
+      writeFileSync(
+        join(stagingDir, ARCHIVE_FILES.userRoles),
+        JSON.stringify(userRoles, null, 2)
+      );
+
+      const checksums: Record<string, string> = {};
+      for (const file of readdirSync(stagingDir).sort()) {
+        checksums[file] = await this.checksum(join(stagingDir, file));
+      }
+      const manifest: SiteArchiveManifest = {
+        version: 1,
+        siteId,
+        environment,
+        createdAt: new Date().toISOString(),
+        domain: String(blog.domain),
+        path: String(blog.path),
+        tables,
+        uploads,
+        checksums,
+      };
+      writeFileSync(
+        join(stagingDir, ARCHIVE_FILES.manifest),
+        JSON.stringify(manifest, null, 2)
+      );
+
+      let location: string;
+      if (toS3) {
+        location = `${target.replace(/\/+$/, '')}/${name}/`;
+        const { bucket, prefix } = S3StorageManager.parseLocation(location);
+        const storage = this.getArchiveStorage(bucket);
+        for (const file of [
+          ...Object.keys(manifest.checksums),
+          ARCHIVE_FILES.manifest,
+        ]) {
+          if (options.verbose) {
+            console.log(chalk.gray(`  Uploading ${file}...`));
+          }
+          await storage.uploadFile(
+            join(stagingDir, file),
+            bucket,
+            `${prefix}${file}`
+          );
+        }
+        rmSync(stagingDir, { recursive: true, force: true });
+      } else {
+        location = resolve(target, name);
+        renameSync(stagingDir, location);
+      }
+
+      return { location, manifest };
+    } catch (error) {
+      rmSync(stagingDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch and verify an archive, and work out where it can be restored.
+   * S3 archives are downloaded into workDir.
+   */
+  static async planUnarchive(
+    location: string,
+    workDir: string
+  ): Promise<SiteUnarchivePlan> {
+    const directory = this.isS3Uri(location)
+      ? await this.download(location, workDir)
+      : resolve(location);
+    const manifest = this.loadManifest(directory);
+    const errors = await this.verify(directory, manifest);
+    if (errors.length > 0) {
+      throw new Error(
+        `Archive ${location} failed verification: ${errors.join(', ')}`
+      );
+    }
+
+    const { environment, siteId } = manifest;
+    if (!Config.hasRequiredEnvironmentConfig(environment)) {
+      throw new Error(
+        `Environment '${environment}' is not configured. Run 'wfuwp config wizard' to set up.`
+      );
+    }
+
+    const existing = await SiteEnumerator.enumerateSites(environment, {
+      includeMainSite: true,
+    });
+    const sameAddress = existing.sites.find(
+      (site) => site.domain === manifest.domain && site.path === manifest.path
+    );
+    if (sameAddress) {
+      throw new Error(
+        `${manifest.domain}${manifest.path} is already site ${sameAddress.blogId} in ${environment}`
+      );
+    }
+
+    let blogIdTaken: string | undefined;
+    const sameId = existing.sites.find((site) => site.blogId === siteId);
+    if (sameId) {
+      blogIdTaken = `blog_id ${siteId} is now ${sameId.domain}${sameId.path}`;
+    } else {
+      DatabaseOperations.clearTableCache();
+      const leftovers = await DatabaseOperations.getSiteTables(
+        String(siteId),
+        environment
+      );
+      if (leftovers.length > 0) {
+        blogIdTaken = `tables for site ${siteId} still exist`;
+      }
+    }
+
+    return {
+      location,
+      directory,
+      manifest,
+      blog: this.readJson(join(directory, ARCHIVE_FILES.blog)),
+      userRoles: this.readJson(join(directory, ARCHIVE_FILES.userRoles)),
+      siteId: blogIdTaken ? null : siteId,
+      blogIdTaken,
+    };
+  }
+
+  static async unarchive(
+    plan: SiteUnarchivePlan,
+    options: SiteUnarchiveOptions = {}
+  ): Promise<SiteUnarchiveResult> {
+    const { manifest } = plan;
+    const connection = DbConnectionManager.get(manifest.environment);
+    const siteId = await this.insertBlogRow(plan);
+    if (options.verbose) {
+      console.log(chalk.gray(`  Restored wp_blogs row as blog_id ${siteId}`));
+    }
+
+    const sourcePrefix = `wp_${manifest.siteId}_`;
+    const targetPrefix = `wp_${siteId}_`;
+    const tables = manifest.tables.map(
+      (table) => targetPrefix + table.slice(sourcePrefix.length)
+    );
+    let created: string[] = [];
+    let userRolesRestored = 0;
+    const scratchDir = mkdtempSync(join(tmpdir(), 'wfuwp-unarchive-'));
+
+    try {
+      DatabaseOperations.clearTableCache();
+      const leftovers = await DatabaseOperations.getSiteTables(
+        String(siteId),
+        manifest.environment
+      );
+      if (leftovers.length > 0) {
+        throw new Error(
+          `Tables for site ${siteId} already exist in ${manifest.environment}: ${leftovers.join(', ')}`
+        );
+      }
+
+      if (tables.length > 0) {
+        let sqlFile = join(plan.directory, ARCHIVE_FILES.database);
+        if (siteId !== manifest.siteId) {
+          const remapped = join(scratchDir, `site-${siteId}.sql`);
+          await SqlStreamTransformer.transformFile(sqlFile, remapped, {
+            replacements: [
+              {
+                from: `sites/${manifest.siteId}/`,
+                to: `sites/${siteId}/`,
+              },
+            ],
+            tablePrefix: { from: sourcePrefix, to: targetPrefix },
+          });
+          sqlFile = remapped;
+        }
+
+        created = tables;
+        await DatabaseOperations.importSqlFile(
+          sqlFile,
+          Config.getEnvironmentConfig(manifest.environment),
+          options.verbose,
+          options.timeout
+        );
+        DatabaseOperations.clearTableCache();
+      }
+
+      // Users who still hold a role under this prefix keep it
+      for (const role of plan.userRoles) {
+        const metaKey =
+          targetPrefix + String(role.meta_key).slice(sourcePrefix.length);
+        const result = await connection.execute(
+          'INSERT INTO wp_usermeta (user_id, meta_key, meta_value) SELECT ?, ?, ? FROM DUAL WHERE NOT EXISTS (SELECT 1 FROM wp_usermeta WHERE user_id = ? AND meta_key = ?)',
+          [role.user_id, metaKey, role.meta_value, role.user_id, metaKey]
+        );
+        if (metaKey.endsWith('capabilities')) {
+          userRolesRestored += result.affectedRows;
+        }
+      }
+    } catch (error) {
+      for (const table of created) {
+        await connection.execute('DROP TABLE IF EXISTS ??', [table]);
+      }
+      await connection.execute('DELETE FROM wp_blogs WHERE blog_id = ?', [
+        siteId,
+      ]);
+      throw new Error(
+        `Unarchive failed and site ${siteId} was removed again: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      rmSync(scratchDir, { recursive: true, force: true });
+    }
+
+    const uploadsLocation = this.getUploadsLocation(
+      siteId,
+      manifest.environment
+    );
+    const uploads =
+      options.skipS3 || !manifest.uploads || !uploadsLocation
+        ? null
+        : await this.restoreUploads(
+            plan.directory,
+            uploadsLocation,
+            options.verbose
+          );
+
+    return { siteId, tables, userRolesRestored, uploads };
+  }
+
+  private static async insertBlogRow(plan: SiteUnarchivePlan): Promise<number> {
+    const row = { ...plan.blog };
+    if (plan.siteId === null) {
+      delete row.blog_id;
+    }
+    const columns = Object.keys(row);
+    const invalid = columns.find((column) => !/^\w+$/.test(column));
+    if (invalid) {
+      throw new Error(`Invalid wp_blogs column in archive: ${invalid}`);
+    }
+
+    const result = await DbConnectionManager.get(
+      plan.manifest.environment
+    ).execute(
+      `INSERT INTO wp_blogs (${columns.map((column) => `\`${column}\``).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      Object.values(row) as DbValue[]
+    );
+    if (plan.siteId !== null) {
+      return plan.siteId;
+    }
+    if (!result.insertId) {
+      throw new Error('wp_blogs did not return a new blog_id');
+    }
+    return result.insertId;
+  }
+
+  // Returns the number of files archived
+  private static async archiveUploads(
+    location: string,
+    stagingDir: string
+  ): Promise<number> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(location);
+    const storage = S3StorageManager.get();
+    const uploadsDir = mkdtempSync(join(tmpdir(), 'wfuwp-uploads-'));
+    try {
+      for (const object of await storage.listObjects(bucket, prefix)) {
+        const relativePath = object.key.slice(prefix.length);
+        if (!relativePath || relativePath.endsWith('/')) {
+          continue;
+        }
+        const filePath = join(uploadsDir, relativePath);
+        mkdirSync(dirname(filePath), { recursive: true });
+        await storage.downloadFile(bucket, object.key, filePath);
+      }
+      execFileSync('tar', [
+        '-czf',
+        join(stagingDir, ARCHIVE_FILES.uploads),
+        '-C',
+        uploadsDir,
+        '.',
+      ]);
+      return this.countFiles(uploadsDir);
+    } finally {
+      rmSync(uploadsDir, { recursive: true, force: true });
+    }
+  }
+
+  private static async restoreUploads(
+    directory: string,
+    location: string,
+    verbose = false
+  ): Promise<S3SyncResult> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(location);
+    const storage = S3StorageManager.get();
+    const uploadsDir = mkdtempSync(join(tmpdir(), 'wfuwp-uploads-'));
+    try {
+      execFileSync('tar', [
+        '-xzf',
+        join(directory, ARCHIVE_FILES.uploads),
+        '-C',
+        uploadsDir,
+      ]);
+      const files = this.countFiles(uploadsDir);
+      if (verbose) {
+        console.log(chalk.gray(`  Uploading ${files} files to ${location}...`));
+      }
+      for (const filePath of this.listFiles(uploadsDir)) {
+        await storage.uploadFile(
+          filePath,
+          bucket,
+          `${prefix}${relative(uploadsDir, filePath).split('\\').join('/')}`
+        );
+      }
+      return {
+        success: true,
+        filesTransferred: files,
+        message: `Restored ${files} files to ${location}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filesTransferred: 0,
+        message: `Uploads restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      rmSync(uploadsDir, { recursive: true, force: true });
+    }
+  }
+
+  private static async download(
+    location: string,
+    workDir: string
+  ): Promise<string> {
+    const { bucket, prefix } = S3StorageManager.parseLocation(
+      `${location.replace(/\/+$/, '')}/`
+    );
+    const storage = this.getArchiveStorage(bucket);
+    const directory = join(workDir, basename(prefix));
+    mkdirSync(directory, { recursive: true });
+    try {
+      await storage.downloadFile(
+        bucket,
+        `${prefix}${ARCHIVE_FILES.manifest}`,
+        join(directory, ARCHIVE_FILES.manifest)
+      );
+    } catch {
+      throw new Error(`No complete site archive at ${location}`);
+    }
+    const manifest = this.loadManifest(directory);
+    for (const file of Object.keys(manifest.checksums)) {
+      await storage.downloadFile(
+        bucket,
+        `${prefix}${file}`,
+        join(directory, file)
+      );
+    }
+    return directory;
+  }
+
+  private static loadManifest(directory: string): SiteArchiveManifest {
+    const manifestPath = join(directory, ARCHIVE_FILES.manifest);
+    if (!existsSync(manifestPath)) {
+      throw new Error(`No complete site archive at ${directory}`);
+    }
+    const manifest = this.readJson(manifestPath);
+    if (manifest.version !== 1) {
+      throw new Error(
+        `Unsupported site archive version ${manifest.version} in ${manifestPath}`
+      );
+    }
+    return manifest;
+  }
+
+  private static async verify(
+    directory: string,
+    manifest: SiteArchiveManifest
+  ): Promise<string[]> {
+    const required = [ARCHIVE_FILES.blog, ARCHIVE_FILES.userRoles];
+    if (manifest.tables.length > 0) {
+      required.push(ARCHIVE_FILES.database);
+    }
+    if (manifest.uploads) {
+      required.push(ARCHIVE_FILES.uploads);
+    }
+
+    const errors = required
+      .filter((file) => !manifest.checksums[file])
+      .map((file) => `${file} missing from the manifest`);
+    for (const [file, checksum] of Object.entries(manifest.checksums)) {
+      const filePath = join(directory, file);
+      if (!existsSync(filePath)) {
+        errors.push(`${file} missing`);
+      } else if ((await this.checksum(filePath)) !== checksum) {
+        errors.push(`${file} does not match its checksum`);
+      }
+    }
+    return errors;
+  }
+
+  private static countFiles(directory: string): number {
+    return this.listFiles(directory).length;
+  }
+
+  private static listFiles(directory: string): string[] {
+    return readdirSync(directory).flatMap((entry) => {
+      const entryPath = join(directory, entry);
+      return statSync(entryPath).isDirectory()
+        ? this.listFiles(entryPath)
+        : [entryPath];
+    });
+  }
+
+  private static readJson(filePath: string): any {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  }
+
+  private static async checksum(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  // s3.endpoint and s3.region belong to s3.bucket, so they only apply to
+  // archives kept there
+  private static getArchiveStorage(bucket: string): S3Storage {
+    return bucket === Config.getS3Config().bucket
+      ? S3StorageManager.getForConfiguredBucket()
+      : S3StorageManager.get();
+  }
+}
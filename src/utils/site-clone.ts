@@ -0,0 +1,287 @@
+/**
+ * Copying a multisite subsite into a new site
+ *
+ * The new site gets the next blog_id from wp_blogs, a copy of every source
+ * table under its own prefix with the site's address rewritten, the source
+ * site's user roles (within one environment) and a copy of its S3 uploads.
+ * A failure before the copy is complete removes the new site again.
+ */
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import chalk from 'chalk';
+import { Config } from './config';
+import { DatabaseOperations } from './database';
+import { DbConnectionManager } from './db-connection';
+import { EnvironmentMappingService } from './environment-mapping';
+import { S3Sync, S3SyncResult } from './s3sync';
+import { Replacement, SerializedReplace } from './serialized-replace';
+import { SiteEnumerator, SiteInfo } from './site-enumerator';
+import { SiteRemap } from './site-remap';
+import { SqlStreamTransformer } from './sql-stream-transformer';
+
+export interface SiteCloneOptions {
+  environment: string;
+  fromEnv?: string;
+  domain: string;
+  path?: string;
+}
+
+export interface SiteClonePlan {
+  sourceSiteId: number;
+  sourceEnv: string;
+  targetEnv: string;
+  source: SiteInfo;
+  domain: string;
+  path: string;
+  tables: string[];
+  // Address and environment rules; the uploads path is added once the new
+  // blog_id is known
+  replacements: Replacement[];
+  copyUserRoles: boolean;
+}
+
+export interface SiteCloneRunOptions {
+  skipS3?: boolean;
+  verbose?: boolean;
+  timeout?: number;
+}
+
+export interface SiteCloneResult {
+  newSiteId: number;
+  tables: string[];
+  userRolesCopied: number;
+  s3: S3SyncResult | null;
+}
+
+export class SiteClone {
+  static normalizePath(path = '/'): string {
+    const trimmed = path.trim().replace(/^\/+|\/+$/g, '');
+    return trimmed ? `/${trimmed}/` : '/';
+  }
+
+  static async plan(
+    sourceSiteId: number,
+    options: SiteCloneOptions
+  ): Promise<SiteClonePlan> {
+    if (!Number.isInteger(sourceSiteId) || sourceSiteId < 2) {
+      throw new Error(
+        'Cloning the main site is not supported; give a subsite ID'
+      );
+    }
+
+    const sourceEnv = options.fromEnv || options.environment;
+    const targetEnv = options.environment;
+    for (const environment of new Set([sourceEnv, targetEnv])) {
+      if (!Config.hasRequiredEnvironmentConfig(environment)) {
+        throw new Error(
+          `Environment '${environment}' is not configured. Run 'wfuwp config wizard' to set up.`
+        );
+      }
+    }
+    const crossEnvironment = sourceEnv !== targetEnv;
+    if (
+      crossEnvironment &&
+      !EnvironmentMappingService.isMigrationPathSupported(sourceEnv, targetEnv)
+    ) {
+      throw new Error(`No URL mapping for ${sourceEnv} -> ${targetEnv}`);
+    }
+
+    const domain = options.domain.trim().toLowerCase();
+    if (!/^[a-z0-9.-]+$/.test(domain)) {
+      throw new Error(
+        `Invalid domain "${options.domain}"; give a host name such as fall26.wfu.edu`
+      );
+    }
+    const path = this.normalizePath(options.path);
+
+    const source = await SiteEnumerator.getSiteInfo(sourceSiteId, sourceEnv);
+    if (!source) {
+      throw new Error(
+        `Site ${sourceSiteId} not found in ${sourceEnv} wp_blogs`
+      );
+    }
+
+    const existing = await SiteEnumerator.enumerateSites(targetEnv, {
+      includeMainSite: true,
+    });
+    const taken = existing.sites.find(
+      (site) => site.domain === domain && site.path === path
+    );
+    if (taken) {
+      throw new Error(
+        `${domain}${path} is already site ${taken.blogId} in ${targetEnv}`
+      );
+    }
+
+    const tables = await DatabaseOperations.getSiteTables(
+      String(sourceSiteId),
+      sourceEnv
+    );
+    if (tables.length === 0) {
+      throw new Error(
+        `No tables found for site ${sourceSiteId} in ${sourceEnv}`
+      );
+    }
+
+    // The site's own address goes first so the environment rules cannot
+    // rewrite it to the source site's address in the target
+    return {
+      sourceSiteId,
+      sourceEnv,
+      targetEnv,
+      source,
+      domain,
+      path,
+      tables,
+      replacements: [
+        ...SiteRemap.getAddressReplacements(source, { domain, path }),
+        ...(crossEnvironment
+          ? SerializedReplace.fromMapping(
+              EnvironmentMappingService.getEnvironmentMapping(
+                sourceEnv,
+                targetEnv
+              )
+            )
+          : []),
+      ],
+      copyUserRoles: !crossEnvironment,
+    };
+  }
+
+  static async clone(
+    plan: SiteClonePlan,
+    options: SiteCloneRunOptions = {}
+  ): Promise<SiteCloneResult> {
+    const connection = DbConnectionManager.get(plan.targetEnv);
+    const newSiteId = await this.allocateBlogId(plan);
+    if (options.verbose) {
+      console.log(chalk.gray(`  Allocated blog_id ${newSiteId}`));
+    }
+
+    const sourcePrefix = `wp_${plan.sourceSiteId}_`;
+    const targetPrefix = `wp_${newSiteId}_`;
+    const tables = plan.tables.map(
+      (table) => targetPrefix + table.slice(sourcePrefix.length)
+    );
+    let created: string[] = [];
+    let copyingUserRoles = false;
+    let userRolesCopied = 0;
+    const workDir = mkdtempSync(join(tmpdir(), 'wfuwp-clone-'));
+
+    try {
+      DatabaseOperations.clearTableCache();
+      const leftovers = await DatabaseOperations.getSiteTables(
+        String(newSiteId),
+        plan.targetEnv
+      );
+      if (leftovers.length > 0) {
+        throw new Error(
+          `Tables for site ${newSiteId} already exist in ${plan.targetEnv}: ${leftovers.join(', ')}`
+        );
+      }
+
+      const exportFile = join(workDir, `site-${plan.sourceSiteId}.sql`);
+      const cloneFile = join(workDir, `site-${newSiteId}.sql`);
+      await DatabaseOperations.exportSiteTables(
+        String(plan.sourceSiteId),
+        plan.sourceEnv,
+        exportFile,
+        options.verbose,
+        options.timeout
+      );
+      await SqlStreamTransformer.transformFile(exportFile, cloneFile, {
+        replacements: [
+          // Offloaded media keys and URLs live under sites/<id>/
+          {
+            from: `sites/${plan.sourceSiteId}/`,
+            to: `sites/${newSiteId}/`,
+          },
+          ...plan.replacements,
+        ],
+        tablePrefix: { from: sourcePrefix, to: targetPrefix },
+      });
+
+      created = tables;
+      await DatabaseOperations.importSqlFile(
+        cloneFile,
+        Config.getEnvironmentConfig(plan.targetEnv),
+        options.verbose,
+        options.timeout
+      );
+      DatabaseOperations.clearTableCache();
+
+      if (plan.copyUserRoles) {
+        copyingUserRoles = true;
+        userRolesCopied = await this.copyUserRoles(
+          plan,
+          sourcePrefix,
+          targetPrefix
+        );
+      }
+    } catch (error) {
+      // Only what this clone added is removed; leftover tables it refused to
+      // overwrite stay
+      for (const table of created) {
+        await connection.execute('DROP TABLE IF EXISTS ??', [table]);
+      }
+      if (copyingUserRoles) {
+        await connection.execute(
+          'DELETE FROM wp_usermeta WHERE meta_key IN (?, ?)',
+          [`${targetPrefix}capabilities`, `${targetPrefix}user_level`]
+        );
+      }
+      await connection.execute('DELETE FROM wp_blogs WHERE blog_id = ?', [
+        newSiteId,
+      ]);
+      throw new Error(
+        `Clone failed and site ${newSiteId} was removed again: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+
+    const s3 = options.skipS3
+      ? null
+      : await S3Sync.syncWordPressFiles(
+          String(plan.sourceSiteId),
+          plan.sourceEnv,
+          plan.targetEnv,
+          { targetSiteId: String(newSiteId), verbose: options.verbose }
+        );
+
+    return { newSiteId, tables, userRolesCopied, s3 };
+  }
+
+  private static async allocateBlogId(plan: SiteClonePlan): Promise<number> {
+    const result = await DbConnectionManager.get(plan.targetEnv).execute(
+      `INSERT INTO wp_blogs (site_id, domain, path, registered, last_updated, public, archived, mature, spam, deleted, lang_id)
+        VALUES (1, ?, ?, NOW(), NOW(), ?, 0, 0, 0, 0, 0)`,
+      [plan.domain, plan.path, plan.source.isPublic ? 1 : 0]
+    );
+    if (!result.insertId) {
+      throw new Error('wp_blogs did not return a new blog_id');
+    }
+    return result.insertId;
+  }
+
+  // Users keep the role they have on the source site
+  private static async copyUserRoles(
+    plan: SiteClonePlan,
+    sourcePrefix: string,
+    targetPrefix: string
+  ): Promise<number> {
+    const connection = DbConnectionManager.get(plan.targetEnv);
+    let copied = 0;
+    for (const key of ['capabilities', 'user_level']) {
+      const result = await connection.execute(
+        'INSERT INTO wp_usermeta (user_id, meta_key, meta_value) SELECT user_id, ?, meta_value FROM wp_usermeta WHERE meta_key = ?',
+        [targetPrefix + key, sourcePrefix + key]
+      );
+      if (key === 'capabilities') {
+        copied = result.affectedRows;
+      }
+    }
+    return copied;
+  }
+}
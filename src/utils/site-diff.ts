@@ -0,0 +1,226 @@
+import chalk from 'chalk';
+import { DatabaseOperations } from './database';
+import { DbConnectionManager } from './db-connection';
+import { QueryOutput } from './query-output';
+
+export type TableDiffStatus =
+  | 'same'
+  | 'changed'
+  | 'source-only'
+  | 'target-only';
+
+export type SiteDiffFormat = 'table' | 'json';
+
+export const SITE_DIFF_FORMATS: SiteDiffFormat[] = ['table', 'json'];
+
+export interface TableDiff {
+  table: string;
+  status: TableDiffStatus;
+  sourceRows: number | null;
+  targetRows: number | null;
+  // Columns present on one side only
+  sourceOnlyColumns: string[];
+  targetOnlyColumns: string[];
+  sourceChecksum?: string | null;
+  targetChecksum?: string | null;
+}
+
+export interface SiteDiffReport {
+  siteId: string;
+  source: string;
+  target: string;
+  checksums: boolean;
+  tables: TableDiff[];
+  summary: Record<TableDiffStatus, number>;
+}
+
+export interface SiteDiffOptions {
+  checksum?: boolean;
+  verbose?: boolean;
+}
+
+interface TableSnapshot {
+  columns: string[];
+  rows: number;
+  checksum?: string | null;
+}
+
+export class SiteDiff {
+  /**
+   * Compare one site's tables between two environments: which tables exist,
+   * their column sets, row counts and, when asked, CHECKSUM TABLE values.
+   */
+  static async compare(
+    siteId: string,
+    sourceEnv: string,
+    targetEnv: string,
+    options: SiteDiffOptions = {}
+  ): Promise<SiteDiffReport> {
+    const [sourceTables, targetTables] = await Promise.all([
+      DatabaseOperations.getSiteTables(siteId, sourceEnv),
+      DatabaseOperations.getSiteTables(siteId, targetEnv),
+    ]);
+
+    const tableNames = [...new Set([...sourceTables, ...targetTables])].sort();
+    const tables: TableDiff[] = [];
+
+    for (const table of tableNames) {
+      if (options.verbose) {
+        console.log(chalk.gray(`Comparing ${table}...`));
+      }
+
+      const [source, target] = await Promise.all([
+        sourceTables.includes(table)
+          ? this.snapshotTable(table, sourceEnv, options.checksum)
+          : null,
+        targetTables.includes(table)
+          ? this.snapshotTable(table, targetEnv, options.checksum)
+          : null,
+      ]);
+      tables.push(this.diffTable(table, source, target, options.checksum));
+    }
+
+    const summary: Record<TableDiffStatus, number> = {
+      same: 0,
+      changed: 0,
+      'source-only': 0,
+      'target-only': 0,
+    };
+    for (const table of tables) {
+      summary[table.status]++;
+    }
+
+    return {
+      siteId,
+      source: sourceEnv,
+      target: targetEnv,
+      checksums: Boolean(options.checksum),
+      tables,
+      summary,
+    };
+  }
+
+  static async getRowCount(
+    table: string,
+    environment: string
+  ): Promise<number> {
+    const rows = await DbConnectionManager.get(environment).query<{
+      count: number | string;
+    }>('SELECT COUNT(*) AS count FROM ??', [table]);
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  // CHECKSUM TABLE reads every row; MySQL reports NULL for missing tables.
+  // Kept as a string because the value can exceed Number.MAX_SAFE_INTEGER.
+  static async getChecksum(
+    table: string,
+    environment: string
+  ): Promise<string | null> {
+    const rows = await DbConnectionManager.get(environment).query<{
+      Checksum: number | string | null;
+    }>('CHECKSUM TABLE ??', [table]);
+    const checksum = rows[0]?.Checksum;
+    return checksum === null || checksum === undefined
+      ? null
+      : String(checksum);
+  }
+
+  static isFormat(value: string): value is SiteDiffFormat {
+    return SITE_DIFF_FORMATS.includes(value as SiteDiffFormat);
+  }
+
+  static format(report: SiteDiffReport, format: SiteDiffFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(report, null, 2);
+    }
+
+    const rows = report.tables.map((table) => ({
+      table: table.table,
+      status: table.status,
+      [`${report.source} rows`]: table.sourceRows,
+      [`${report.target} rows`]: table.targetRows,
+      columns: this.describeColumns(table),
+      ...(report.checksums
+        ? {
+            checksum:
+              table.sourceChecksum === undefined ||
+              table.targetChecksum === undefined
+                ? ''
+                : table.sourceChecksum === table.targetChecksum
+                  ? 'match'
+                  : 'differs',
+          }
+        : {}),
+    }));
+
+    const { summary } = report;
+    return [
+      chalk.bold(`Site ${report.siteId}: ${report.source} → ${report.target}`),
+      QueryOutput.formatTable(rows),
+      `${summary.same} same, ${summary.changed} changed, ${summary['source-only']} only in ${report.source}, ${summary['target-only']} only in ${report.target}`,
+    ].join('\n');
+  }
+
+  private static async snapshotTable(
+    table: string,
+    environment: string,
+    withChecksum = false
+  ): Promise<TableSnapshot> {
+    const [columns, rows, checksum] = await Promise.all([
+      DatabaseOperations.getTableColumns(table, environment),
+      this.getRowCount(table, environment),
+      withChecksum ? this.getChecksum(table, environment) : undefined,
+    ]);
+    return withChecksum ? { columns, rows, checksum } : { columns, rows };
+  }
+
+  private static diffTable(
+    table: string,
+    source: TableSnapshot | null,
+    target: TableSnapshot | null,
+    withChecksum = false
+  ): TableDiff {
+    const sourceColumns = source?.columns ?? [];
+    const targetColumns = target?.columns ?? [];
+    const diff: TableDiff = {
+      table,
+      status: 'same',
+      sourceRows: source ? source.rows : null,
+      targetRows: target ? target.rows : null,
+      sourceOnlyColumns:
+        source && target
+          ? sourceColumns.filter((column) => !targetColumns.includes(column))
+          : [],
+      targetOnlyColumns:
+        source && target
+          ? targetColumns.filter((column) => !sourceColumns.includes(column))
+          : [],
+    };
+    if (withChecksum && source && target) {
+      diff.sourceChecksum = source.checksum ?? null;
+      diff.targetChecksum = target.checksum ?? null;
+    }
+
+    if (!target) {
+      diff.status = 'source-only';
+    } else if (!source) {
+      diff.status = 'target-only';
+    } else if (
+      diff.sourceOnlyColumns.length > 0 ||
+      diff.targetOnlyColumns.length > 0 ||
+      diff.sourceRows !== diff.targetRows ||
+      diff.sourceChecksum !== diff.targetChecksum
+    ) {
+      diff.status = 'changed';
+    }
+    return diff;
+  }
+
+  private static describeColumns(table: TableDiff): string {
+    const changes = [
+      ...table.sourceOnlyColumns.map((column) => `-${column}`),
+      ...table.targetOnlyColumns.map((column) => `+${column}`),
+    ];
+    return changes.join(' ');
+  }
+}
@@ -1,6 +1,6 @@
-import { execSync } from 'child_process';
 import chalk from 'chalk';
 import { Config } from './config';
+import { DbConnectionManager } from './db-connection';
 
 export interface SiteInfo {
   blogId: number;
@@ -31,68 +31,17 @@ export interface SiteEnumerationResult {
 }
 
 export class SiteEnumerator {
-  private static mysqlClientAvailable: boolean | null = null;
-  private static hasNativeMysqlClient(): boolean {
-    if (this.mysqlClientAvailable !== null) {
-      return this.mysqlClientAvailable;
-    }
-    try {
-      execSync('which mysqldump', { stdio: 'ignore' });
-      execSync('which mysql', { stdio: 'ignore' });
-      this.mysqlClientAvailable = true;
-      return true;
-    } catch {
-      this.mysqlClientAvailable = false;
-      return false;
-    }
-  }
-  private static buildMysqlCommand(
-    envConfig: any,
-    additionalArgs: string[] = []
-  ): string {
-    if (this.hasNativeMysqlClient()) {
-      const portArg = envConfig.port ? `-P ${envConfig.port}` : '';
-      const baseArgs = [
-        'mysql',
-        '-h',
-        envConfig.host,
-        portArg,
-        '-u',
-        envConfig.user,
-        envConfig.database,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    } else {
-      const portArg = envConfig.port ? `--port=${envConfig.port}` : '';
-      const baseArgs = [
-        'docker run --rm',
-        '-e',
-        `MYSQL_PWD="${envConfig.password}"`,
-        'mysql:8.0',
-        'mysql',
-        '-h',
-        `"${envConfig.host}"`,
-        portArg,
-        '-u',
-        `"${envConfig.user}"`,
-        `"${envConfig.database}"`,
-      ].filter((arg) => arg.length > 0);
-      return [...baseArgs, ...additionalArgs].join(' ');
-    }
-  }
   static async enumerateSites(
     environment: string,
     filters: SiteFilterOptions = {}
   ): Promise<SiteEnumerationResult> {
-    const envConfig = Config.getEnvironmentConfig(environment);
-
     if (!Config.hasRequiredEnvironmentConfig(environment)) {
       throw new Error(
         `Environment '${environment}' is not configured. Run 'wfuwp config wizard' to set up.`
       );
     }
 
-    const sites = await this.queryWpBlogsTable(envConfig);
+    const sites = await this.queryWpBlogsTable(environment);
     const filteredSites = this.applySiteFilters(sites, filters);
 
     return {
@@ -103,71 +52,33 @@ export class SiteEnumerator {
     };
   }
 
-  private static async queryWpBlogsTable(envConfig: any): Promise<SiteInfo[]> {
+  private static async queryWpBlogsTable(
+    environment: string
+  ): Promise<SiteInfo[]> {
     try {
-      const query = `
-        SELECT 
-          blog_id,
-          domain,
-          path,
-          registered,
-          last_updated,
-          public,
-          archived,
-          mature,
-          spam,
-          deleted,
-          lang_id
-        FROM wp_blogs 
-        ORDER BY blog_id ASC
-      `;
-
-      const execOptions = this.hasNativeMysqlClient()
-        ? {
-            encoding: 'utf8' as const,
-            env: {
-              ...process.env,
-              MYSQL_PWD: envConfig.password,
-              PATH: `/opt/homebrew/opt/mysql-client/bin:${process.env.PATH}`,
-            },
-          }
-        : { encoding: 'utf8' as const };
-      const output = execSync(
-        this.buildMysqlCommand(envConfig, [
-          '-e',
-          `"${query}"`,
-          '--batch',
-          '--skip-column-names',
-        ]),
-        execOptions
+      const rows = await DbConnectionManager.get(environment).query(
+        `SELECT blog_id, domain, path, registered, last_updated, public,
+          archived, mature, spam, deleted, lang_id
+        FROM wp_blogs
+        ORDER BY blog_id ASC`
       );
 
-      const sites: SiteInfo[] = [];
-      const lines = output
-        .trim()
-        .split('\n')
-        .filter((line) => line.length > 0);
-
-      for (const line of lines) {
-        const columns = line.split('\t');
-        if (columns.length >= 10) {
-          sites.push({
-            blogId: parseInt(columns[0], 10),
-            domain: columns[1],
-            path: columns[2],
-            registeredDate: columns[3],
-            lastUpdated: columns[4],
-            isPublic: columns[5] === '1',
-            isArchived: columns[6] === '1',
-            isMature: columns[7] === '1',
-            isSpam: columns[8] === '1',
-            isDeleted: columns[9] === '1',
-            lang: columns[10] && columns[10] !== '0' ? columns[10] : undefined,
-          });
-        }
-      }
-
-      return sites;
+      return rows.map((row) => ({
+        blogId: parseInt(String(row.blog_id), 10),
+        domain: row.domain,
+        path: row.path,
+        registeredDate: String(row.registered),
+        lastUpdated: String(row.last_updated),
+        isPublic: String(row.public) === '1',
+        isArchived: String(row.archived) === '1',
+        isMature: String(row.mature) === '1',
+        isSpam: String(row.spam) === '1',
+        isDeleted: String(row.deleted) === '1',
+        lang:
+          row.lang_id !== null && String(row.lang_id) !== '0'
+            ? String(row.lang_id)
+            : undefined,
+      }));
     } catch (error) {
       throw new Error(
         `Failed to enumerate sites: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -223,13 +134,53 @@ export class SiteEnumerator {
     environment: string
   ): Promise<SiteInfo | null> {
     try {
-      const result = await this.enumerateSites(environment);
+      const result = await this.enumerateSites(environment, {
+        includeMainSite: true,
+      });
       return result.sites.find((site) => site.blogId === siteId) || null;
     } catch (error) {
       return null;
     }
   }
 
+  /**
+   * Domains attached to a site through a domain-mapping plugin table.
+   * Returns an empty list when the network has no wp_domain_mapping table.
+   */
+  static async getMappedDomains(
+    siteId: number,
+    environment: string
+  ): Promise<string[]> {
+    if (!Config.hasRequiredEnvironmentConfig(environment)) {
+      throw new Error(
+        `Environment '${environment}' is not configured. Run 'wfuwp config wizard' to set up.`
+      );
+    }
+
+    try {
+      const connection = DbConnectionManager.get(environment);
+      const tables = await connection.query(
+        "SHOW TABLES LIKE 'wp_domain_mapping'"
+      );
+      if (tables.length === 0) {
+        return [];
+      }
+
+      const rows = await connection.query<{ domain: string }>(
+        'SELECT domain FROM wp_domain_mapping WHERE blog_id = ? ORDER BY domain',
+        [siteId]
+      );
+
+      return rows
+        .map((row) => String(row.domain).trim())
+        .filter((domain) => domain.length > 0);
+    } catch (error) {
+      throw new Error(
+        `Failed to read domain mappings: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   static async generateSiteConfirmation(
     sites: SiteInfo[],
     environment: string
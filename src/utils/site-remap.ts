@@ -0,0 +1,322 @@
+/**
+ * Restoring a site's dump under another site ID or into another environment
+ *
+ * A plan works out, from the tables in the dump, which site it holds, how its
+ * tables and URLs are rewritten, and what the target's wp_blogs row needs so
+ * the restored tables are reachable. The plan's table prefix and replacements
+ * are applied by streaming the dump through SqlStreamTransformer.
+ */
+import { DbConnectionManager } from './db-connection';
+import { EnvironmentMappingService } from './environment-mapping';
+import { Replacement, SerializedReplace } from './serialized-replace';
+import { SiteEnumerator, SiteInfo } from './site-enumerator';
+import { TablePrefixRewrite } from './sql-stream-transformer';
+
+export interface SiteRemapOptions {
+  to: string;
+  asSite?: number;
+  fromEnv?: string;
+  // Address for a target site that is not in wp_blogs yet
+  domain?: string;
+  path?: string;
+}
+
+export interface SiteRemapPlan {
+  sourceEnv: string;
+  targetEnv: string;
+  sourceSiteId?: number;
+  targetSiteId?: number;
+  tablePrefix?: TablePrefixRewrite;
+  replacements: Replacement[];
+  // Tables as they will be named in the target
+  tables: string[];
+  // The target's wp_blogs row: kept (and touched) when it exists, inserted
+  // at --domain/--path, or the source's address mapped into the target
+  // environment, otherwise
+  blog?: {
+    action: 'update' | 'insert';
+    domain: string;
+    path: string;
+    isPublic: boolean;
+  };
+  warnings: string[];
+}
+
+const SITE_TABLE_PATTERN = /^wp_(\d+)_/;
+
+export class SiteRemap {
+  /**
+   * Blog IDs of the wp_<id>_ tables in a dump, ascending
+   */
+  static getSiteIds(tables: string[]): number[] {
+    const ids = new Set<number>();
+    for (const table of tables) {
+      const match = table.match(SITE_TABLE_PATTERN);
+      if (match) {
+        ids.add(parseInt(match[1], 10));
+      }
+    }
+    return Array.from(ids).sort((a, b) => a - b);
+  }
+
+  static async plan(
+    tables: string[],
+    options: SiteRemapOptions
+  ): Promise<SiteRemapPlan> {
+    const sourceEnv = options.fromEnv || options.to;
+    const plan: SiteRemapPlan = {
+      sourceEnv,
+      targetEnv: options.to,
+      replacements: [],
+      tables,
+      warnings: [],
+    };
+
+    const crossEnvironment = sourceEnv !== options.to;
+    if (
+      crossEnvironment &&
+      !EnvironmentMappingService.isMigrationPathSupported(sourceEnv, options.to)
+    ) {
+      throw new Error(`No URL mapping for ${sourceEnv} -> ${options.to}`);
+    }
+
+    const siteIds = this.getSiteIds(tables);
+    if (options.asSite !== undefined) {
+      this.checkRemappable(tables, siteIds, options.asSite);
+    }
+    const environmentReplacements = crossEnvironment
+      ? SerializedReplace.fromMapping(
+          EnvironmentMappingService.getEnvironmentMapping(sourceEnv, options.to)
+        )
+      : [];
+
+    // Whole-network or main-site dumps only get the environment rules
+    if (siteIds.length !== 1 || tables.includes('wp_blogs')) {
+      plan.replacements = environmentReplacements;
+      return plan;
+    }
+
+    const sourceSiteId = siteIds[0];
+    const targetSiteId = options.asSite ?? sourceSiteId;
+    plan.sourceSiteId = sourceSiteId;
+    plan.targetSiteId = targetSiteId;
+    if (targetSiteId !== sourceSiteId) {
+      plan.tablePrefix = {
+        from: `wp_${sourceSiteId}_`,
+        to: `wp_${targetSiteId}_`,
+      };
+      plan.tables = tables.map((table) =>
+        table.startsWith(plan.tablePrefix!.from)
+          ? plan.tablePrefix!.to + table.slice(plan.tablePrefix!.from.length)
+          : table
+      );
+    }
+
+    const sourceSite = await SiteEnumerator.getSiteInfo(
+      sourceSiteId,
+      sourceEnv
+    );
+    const targetSite = await SiteEnumerator.getSiteInfo(
+      targetSiteId,
+      options.to
+    );
+
+    if (targetSite && (options.domain || options.path)) {
+      throw new Error(
+        `Site ${targetSiteId} is already in ${options.to} wp_blogs at ${targetSite.domain}${targetSite.path}; --domain and --path are only for a new site`
+      );
+    }
+    const newAddress =
+      !targetSite && options.domain
+        ? this.parseAddress(options.domain, options.path)
+        : null;
+    const targetAddress = targetSite || newAddress;
+
+    // Site domains go first so the generic environment rules cannot shadow
+    // them. The site's address is rewritten last, from where the earlier rules
+    // leave it in the target environment, so its path moves too.
+    if (crossEnvironment) {
+      const siteMapping = await EnvironmentMappingService.getSiteReplacements(
+        sourceSiteId,
+        sourceEnv,
+        options.to,
+        targetSiteId
+      );
+      plan.warnings.push(...siteMapping.warnings);
+      plan.replacements = [
+        ...siteMapping.replacements,
+        ...environmentReplacements,
+      ];
+      if (sourceSite && targetAddress) {
+        plan.replacements.push(
+          ...this.getAddressReplacements(
+            this.mapAddress(sourceSite, plan.replacements),
+            targetAddress
+          )
+        );
+      }
+    } else if (sourceSite && targetAddress) {
+      plan.replacements = this.getAddressReplacements(
+        sourceSite,
+        targetAddress
+      );
+    } else if (!sourceSite && targetSite && targetSiteId !== sourceSiteId) {
+      plan.warnings.push(
+        `Site ${sourceSiteId} not found in ${sourceEnv} wp_blogs; its URLs are restored as they are`
+      );
+    }
+
+    if (targetSite) {
+      plan.blog = {
+        action: 'update',
+        domain: targetSite.domain,
+        path: targetSite.path,
+        isPublic: targetSite.isPublic,
+      };
+    } else {
+      plan.blog = await this.planNewBlog(sourceSite, newAddress, plan);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Make the target's wp_blogs row match the restored tables
+   */
+  static async syncBlogRow(plan: SiteRemapPlan): Promise<void> {
+    if (!plan.blog || plan.targetSiteId === undefined) {
+      return;
+    }
+
+    const connection = DbConnectionManager.get(plan.targetEnv);
+    if (plan.blog.action === 'update') {
+      await connection.execute(
+        'UPDATE wp_blogs SET last_updated = NOW() WHERE blog_id = ?',
+        [plan.targetSiteId]
+      );
+      return;
+    }
+
+    await connection.execute(
+      `INSERT INTO wp_blogs (blog_id, site_id, domain, path, registered, last_updated, public, archived, mature, spam, deleted, lang_id)
+        VALUES (?, 1, ?, ?, NOW(), NOW(), ?, 0, 0, 0, 0, 0)`,
+      [
+        plan.targetSiteId,
+        plan.blog.domain,
+        plan.blog.path,
+        plan.blog.isPublic ? 1 : 0,
+      ]
+    );
+  }
+
+  /**
+   * Rewrite one site's address into another's. Subdomain sites differ by
+   * domain, subdirectory sites by path. The address only matches at a path
+   * boundary, so /news does not rewrite /newsroom.
+   */
+  static getAddressReplacements(
+    source: Pick<SiteInfo, 'domain' | 'path'>,
+    target: Pick<SiteInfo, 'domain' | 'path'>
+  ): Replacement[] {
+    const address = (site: Pick<SiteInfo, 'domain' | 'path'>): string =>
+      site.path === '/'
+        ? `//${site.domain}`
+        : `//${site.domain}${site.path.replace(/\/$/, '')}`;
+    return address(source) === address(target)
+      ? []
+      : [{ from: address(source), to: address(target), pathBoundary: true }];
+  }
+
+  private static checkRemappable(
+    tables: string[],
+    siteIds: number[],
+    asSite: number
+  ): void {
+    if (!Number.isInteger(asSite) || asSite < 2) {
+      throw new Error(
+        '--as-site must be a site ID greater than 1; the main site has no wp_<id>_ prefix'
+      );
+    }
+    if (siteIds.length !== 1) {
+      throw new Error(
+        siteIds.length === 0
+          ? "--as-site needs a dump of one site's wp_<id>_ tables; this dump has none"
+          : `--as-site needs a dump of one site; this dump has sites ${siteIds.join(', ')}`
+      );
+    }
+
+    const otherTables = tables.filter(
+      (table) => !SITE_TABLE_PATTERN.test(table)
+    );
+    if (otherTables.length > 0) {
+      throw new Error(
+        `--as-site only restores site tables; this dump also has ${otherTables.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * A site's address after the plan's replacements, e.g. www.wfu.edu/news/ in
+   * prod as pprd.wfu.edu/news/ in pprd
+   */
+  private static mapAddress(
+    site: Pick<SiteInfo, 'domain' | 'path'>,
+    replacements: Replacement[]
+  ): Pick<SiteInfo, 'domain' | 'path'> {
+    return {
+      domain: SerializedReplace.replace(`//${site.domain}`, replacements).slice(
+        2
+      ),
+      path: site.path,
+    };
+  }
+
+  private static parseAddress(
+    domain: string,
+    path = '/'
+  ): Pick<SiteInfo, 'domain' | 'path'> {
+    const host = domain.trim().toLowerCase();
+    if (!/^[a-z0-9.-]+$/.test(host)) {
+      throw new Error(
+        `Invalid domain "${domain}"; give a host name such as fall26.wfu.edu`
+      );
+    }
+    const trimmed = path.trim().replace(/^\/+|\/+$/g, '');
+    return { domain: host, path: trimmed ? `/${trimmed}/` : '/' };
+  }
+
+  private static async planNewBlog(
+    sourceSite: SiteInfo | null,
+    newAddress: Pick<SiteInfo, 'domain' | 'path'> | null,
+    plan: SiteRemapPlan
+  ): Promise<SiteRemapPlan['blog']> {
+    if (!newAddress && (!sourceSite || plan.sourceEnv === plan.targetEnv)) {
+      throw new Error(
+        sourceSite
+          ? `Site ${plan.targetSiteId} is not in ${plan.targetEnv} wp_blogs; give its address with --domain and --path, or create the site first`
+          : `Site ${plan.targetSiteId} is not in ${plan.targetEnv} wp_blogs and site ${plan.sourceSiteId} is not in ${plan.sourceEnv} wp_blogs to take its address from; give its address with --domain and --path, or create the site first`
+      );
+    }
+
+    const address =
+      newAddress || this.mapAddress(sourceSite!, plan.replacements);
+    const existing = await SiteEnumerator.enumerateSites(plan.targetEnv, {
+      includeMainSite: true,
+    });
+    const taken = existing.sites.find(
+      (site) => site.domain === address.domain && site.path === address.path
+    );
+    if (taken) {
+      throw new Error(
+        `Site ${plan.targetSiteId} is not in ${plan.targetEnv} wp_blogs and ${address.domain}${address.path} belongs to site ${taken.blogId}; give another address with --domain and --path`
+      );
+    }
+
+    return {
+      action: 'insert',
+      domain: address.domain,
+      path: address.path,
+      isPublic: sourceSite ? sourceSite.isPublic : true,
+    };
+  }
+}
@@ -1,26 +1,129 @@
 import { createReadStream } from 'fs';
 import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { SqlStreamTransformer } from './sql-stream-transformer';
+
+export interface SqlTableStats {
+  name: string;
+  hasCreate: boolean;
+  insertStatements: number;
+  // Counted from the row tuples in each INSERT, so a value containing "),("
+  // adds one
+  estimatedRows: number;
+  insertBytes: number;
+}
 
 export class SqlFileAnalyzer {
   static async countTablesInSqlFile(filePath: string): Promise<number> {
-    return new Promise((resolve, reject) => {
+    const lines = await this.readCreateTableLines(filePath);
+    return lines.length;
+  }
+
+  /**
+   * Names of the tables a dump creates, in file order. Gzip dumps are read
+   * the same way as plain ones.
+   */
+  static async getTableNamesInSqlFile(filePath: string): Promise<string[]> {
+    const lines = await this.readCreateTableLines(filePath);
+    return lines
+      .map(
+        (line) =>
+          line.match(
+            /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?`?([^`\s(]+)`?/i
+          )?.[1]
+      )
+      .filter((name): name is string => Boolean(name));
+  }
+
+  /**
+   * The tables a dump creates or inserts into, in file order, with the
+   * number of INSERT statements and an estimate of the rows each holds.
+   * Assumes mysqldump's layout of one statement per line.
+   */
+  static async getTableStats(filePath: string): Promise<SqlTableStats[]> {
+    const stats = new Map<string, SqlTableStats>();
+    const statsFor = (name: string): SqlTableStats => {
+      let entry = stats.get(name);
+      if (!entry) {
+        entry = {
+          name,
+          hasCreate: false,
+          insertStatements: 0,
+          estimatedRows: 0,
+          insertBytes: 0,
+        };
+        stats.set(name, entry);
+      }
+      return entry;
+    };
+
+    await this.scanLines(filePath, (line) => {
+      const create = line.match(
+        /^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?`?([^`\s(]+)`?/i
+      );
+      if (create) {
+        statsFor(create[1]).hasCreate = true;
+        return;
+      }
+      const insert = line.match(
+        /^(?:INSERT|REPLACE)\s+(?:IGNORE\s+)?INTO\s+`?([^`\s(]+)`?/i
+      );
+      if (insert) {
+        const entry = statsFor(insert[1]);
+        entry.insertStatements++;
+        entry.estimatedRows += line.split('),(').length;
+        entry.insertBytes += Buffer.byteLength(line);
+      }
+    });
+
+    return Array.from(stats.values());
+  }
+
+  private static async readCreateTableLines(
+    filePath: string
+  ): Promise<string[]> {
+    const lines: string[] = [];
+    const createTableRegex = /CREATE\s+TABLE/i;
+    await this.scanLines(filePath, (line) => {
+      if (createTableRegex.test(line)) {
+        lines.push(line);
+      }
+    });
+    return lines;
+  }
+
+  // Calls onLine with each trimmed line of a plain or gzip dump
+  private static async scanLines(
+    filePath: string,
+    onLine: (line: string) => void
+  ): Promise<void> {
+    let gzipped: boolean;
+    try {
+      gzipped = SqlStreamTransformer.isGzipFile(filePath);
+    } catch (error) {
+      throw new Error(
+        `Failed to analyze SQL file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
       const fileStream = createReadStream(filePath);
+      const input: Readable = gzipped
+        ? fileStream.pipe(createGunzip())
+        : fileStream;
+
       const rl = createInterface({
-        input: fileStream,
+        input,
         crlfDelay: Infinity,
       });
 
-      let tableCount = 0;
-      const createTableRegex = /CREATE\s+TABLE/i;
-
       rl.on('line', (line) => {
-        if (createTableRegex.test(line.trim())) {
-          tableCount++;
-        }
+        onLine(line.trim());
       });
 
       rl.on('close', () => {
-        resolve(tableCount);
+        resolve();
       });
 
       rl.on('error', (error) => {
@@ -30,6 +133,12 @@ export class SqlFileAnalyzer {
       fileStream.on('error', (error) => {
         reject(new Error(`Failed to read SQL file: ${error.message}`));
       });
+
+      if (input !== fileStream) {
+        input.on('error', (error) => {
+          reject(new Error(`Failed to decompress SQL file: ${error.message}`));
+        });
+      }
     });
   }
 }
@@ -0,0 +1,446 @@
+/**
+ * Streaming transformer for mysqldump output
+ *
+ * Splits a dump into statements without loading it into memory, then applies
+ * table-prefix and serialization-aware URL rewrites to each statement. Like
+ * SerializedReplace, everything is handled as latin1 "binary" strings so byte
+ * lengths are preserved regardless of the dump's character set.
+ */
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  openSync,
+  readSync,
+  statSync,
+} from 'fs';
+import { Duplex, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { Replacement, SerializedReplace } from './serialized-replace';
+
+export interface TablePrefixRewrite {
+  from: string;
+  to: string;
+}
+
+export interface SqlTransformProgress {
+  bytesRead: number;
+  totalBytes: number;
+  statements: number;
+  tables: number;
+  currentTable?: string;
+}
+
+export interface SqlTransformOptions {
+  replacements?: Replacement[];
+  tablePrefix?: TablePrefixRewrite;
+  // Statements for tables this returns false for are left out; it is given
+  // the table name as it is in the input
+  includeTable?: (table: string) => boolean;
+  gzipOutput?: boolean;
+  onProgress?: (progress: SqlTransformProgress) => void;
+}
+
+export interface SqlTransformResult {
+  bytesRead: number;
+  bytesWritten: number;
+  statements: number;
+  tables: string[];
+}
+
+interface ScanState {
+  quote: string | null;
+  escaped: boolean;
+  lineComment: boolean;
+  blockComment: 'plain' | 'executable' | null;
+  hasCode: boolean;
+  lastCodeChar: string;
+}
+
+const TABLE_PATTERN =
+  /^\s*(?:CREATE TABLE(?: IF NOT EXISTS)?|INSERT INTO|DROP TABLE IF EXISTS|LOCK TABLES|ALTER TABLE)\s+`([^`]+)`/i;
+// mysqldump wraps DISABLE/ENABLE KEYS in version comments
+const KEYS_PATTERN = /^\s*\/\*!\d+\s+ALTER TABLE\s+`([^`]+)`/i;
+const UNLOCK_PATTERN = /^\s*UNLOCK TABLES\s*;/i;
+
+/**
+ * Transform stream that emits one rewritten statement (or standalone comment
+ * line) at a time
+ */
+class SqlStatementTransform extends Transform {
+  private parts: string[] = [];
+  private carry = '';
+  private readonly state: ScanState = SqlStatementTransform.freshState();
+  statements = 0;
+  tables: string[] = [];
+  currentTable?: string;
+
+  constructor(
+    private readonly options: SqlTransformOptions,
+    private readonly onStatement: () => void = () => undefined
+  ) {
+    super();
+  }
+
+  private static freshState(): ScanState {
+    return {
+      quote: null,
+      escaped: false,
+      lineComment: false,
+      blockComment: null,
+      hasCode: false,
+      lastCodeChar: '',
+    };
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ): void {
+    try {
+      this.scan(this.carry + chunk.toString('latin1'), false);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.scan(this.carry, true);
+      const rest = this.parts.join('');
+      this.parts = [];
+      if (rest.length > 0) {
+        this.emitStatement(rest);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private scan(text: string, final: boolean): void {
+    const state = this.state;
+    let start = 0;
+    let i = 0;
+    this.carry = '';
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (state.lineComment) {
+        if (char === '\n') {
+          state.lineComment = false;
+          if (!state.hasCode) {
+            start = this.cut(text, start, i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (state.quote) {
+        if (state.escaped) {
+          state.escaped = false;
+        } else if (char === '\\' && state.quote !== '`') {
+          state.escaped = true;
+        } else if (char === state.quote) {
+          state.quote = null;
+        }
+        continue;
+      }
+
+      // Comment markers need up to two characters of lookahead; keep a tail
+      // that could start one for the next chunk
+      if (
+        !final &&
+        i + 2 >= text.length &&
+        (char === '-' || char === '/' || char === '*')
+      ) {
+        break;
+      }
+
+      if (state.blockComment) {
+        if (char === '*' && text[i + 1] === '/') {
+          state.blockComment = null;
+          state.lastCodeChar = '/';
+          i++;
+        } else if (
+          state.blockComment === 'executable' &&
+          (char === "'" || char === '"' || char === '`')
+        ) {
+          state.quote = char;
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        if (state.hasCode && state.lastCodeChar === ';') {
+          start = this.cut(text, start, i + 1);
+        }
+        continue;
+      }
+
+      if (char === ' ' || char === '\t' || char === '\r') {
+        continue;
+      }
+
+      if (
+        char === '-' &&
+        text[i + 1] === '-' &&
+        (text[i + 2] === ' ' || text[i + 2] === '\n')
+      ) {
+        state.lineComment = true;
+        continue;
+      }
+
+      if (char === '/' && text[i + 1] === '*') {
+        state.blockComment = text[i + 2] === '!' ? 'executable' : 'plain';
+        state.hasCode = state.hasCode || state.blockComment === 'executable';
+        i++;
+        continue;
+      }
+
+      state.hasCode = true;
+      state.lastCodeChar = char;
+      if (char === "'" || char === '"' || char === '`') {
+        state.quote = char;
+      }
+    }
+
+    if (start < i) {
+      this.parts.push(text.slice(start, i));
+    }
+    this.carry = text.slice(i);
+  }
+
+  // Emit everything buffered plus text[start, end) as one statement
+  private cut(text: string, start: number, end: number): number {
+    this.parts.push(text.slice(start, end));
+    const statement = this.parts.join('');
+    this.parts = [];
+    Object.assign(this.state, SqlStatementTransform.freshState());
+    this.emitStatement(statement);
+    return end;
+  }
+
+  private emitStatement(statement: string): void {
+    const tableMatch = statement.match(TABLE_PATTERN);
+    if (tableMatch) {
+      this.currentTable = tableMatch[1];
+    }
+    if (this.isExcluded(statement, tableMatch?.[1])) {
+      return;
+    }
+    if (tableMatch && !this.tables.includes(tableMatch[1])) {
+      this.tables.push(tableMatch[1]);
+    }
+
+    this.statements++;
+    this.push(
+      Buffer.from(
+        SqlStreamTransformer.transformStatement(statement, this.options),
+        'latin1'
+      )
+    );
+    this.onStatement();
+  }
+
+  private isExcluded(statement: string, table?: string): boolean {
+    const includeTable = this.options.includeTable;
+    if (!includeTable) {
+      return false;
+    }
+    const named = table ?? statement.match(KEYS_PATTERN)?.[1];
+    if (named) {
+      return !includeTable(named);
+    }
+    return (
+      UNLOCK_PATTERN.test(statement) &&
+      this.currentTable !== undefined &&
+      !includeTable(this.currentTable)
+    );
+  }
+}
+
+export class SqlStreamTransformer {
+  /**
+   * Transform stream for callers that already have a decompressed dump
+   * stream (e.g. piped from mysqldump)
+   */
+  static createStatementStream(options: SqlTransformOptions = {}): Transform {
+    return new SqlStatementTransform(options);
+  }
+
+  static isGzipFile(filePath: string): boolean {
+    const header = Buffer.alloc(2);
+    const fd = openSync(filePath, 'r');
+    try {
+      const read = readSync(fd, header, 0, 2, 0);
+      return read === 2 && header[0] === 0x1f && header[1] === 0x8b;
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Stream a dump from inputPath to outputPath, rewriting each statement.
+   * Gzip input is detected from the file header; output is gzipped when
+   * gzipOutput is set or outputPath ends in .gz.
+   */
+  static async transformFile(
+    inputPath: string,
+    outputPath: string,
+    options: SqlTransformOptions = {}
+  ): Promise<SqlTransformResult> {
+    const totalBytes = statSync(inputPath).size;
+    const gzipInput = this.isGzipFile(inputPath);
+    const gzipOutput = options.gzipOutput ?? outputPath.endsWith('.gz');
+
+    let bytesRead = 0;
+    let bytesWritten = 0;
+    const transform = new SqlStatementTransform(options, () => {
+      options.onProgress?.({
+        bytesRead,
+        totalBytes,
+        statements: transform.statements,
+        tables: transform.tables.length,
+        currentTable: transform.currentTable,
+      });
+    });
+
+    const stages: Duplex[] = [
+      this.byteCounter((bytes) => (bytesRead += bytes)),
+    ];
+    if (gzipInput) {
+      stages.push(createGunzip());
+    }
+    stages.push(transform);
+    if (gzipOutput) {
+      stages.push(createGzip());
+    }
+    stages.push(this.byteCounter((bytes) => (bytesWritten += bytes)));
+
+    await pipeline(
+      createReadStream(inputPath),
+      ...(stages as [Duplex]),
+      createWriteStream(outputPath)
+    );
+
+    return {
+      bytesRead,
+      bytesWritten,
+      statements: transform.statements,
+      tables: transform.tables,
+    };
+  }
+
+  private static byteCounter(count: (bytes: number) => void): Transform {
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        count(chunk.length);
+        callback(null, chunk);
+      },
+    });
+  }
+
+  /**
+   * Rewrite a single statement. Quoted literals go through the
+   * serialization-aware engine; everything outside them (identifiers,
+   * comments) gets the table prefix and a plain replacement.
+   */
+  static transformStatement(
+    statement: string,
+    options: SqlTransformOptions
+  ): string {
+    const replacements = (options.replacements || []).filter(
+      (replacement) => replacement.from.length > 0
+    );
+    const prefix = options.tablePrefix;
+    if (replacements.length === 0 && !prefix) {
+      return statement;
+    }
+
+    const binaryReplacements =
+      SerializedReplace.toBinaryReplacements(replacements);
+    const rewriteCode = (text: string): string => {
+      let result = prefix
+        ? text.replace(/`([^`]*)`/g, (identifier, name: string) =>
+            name.startsWith(prefix.from)
+              ? `\`${prefix.to}${name.slice(prefix.from.length)}\``
+              : identifier
+          )
+        : text;
+      for (const replacement of binaryReplacements) {
+        result = SerializedReplace.replaceText(result, replacement);
+      }
+      return result;
+    };
+
+    if (/^\s*--/.test(statement)) {
+      return rewriteCode(statement);
+    }
+
+    const literalPattern = /'((?:[^'\\]|\\[\s\S])*)'/g;
+    let output = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = literalPattern.exec(statement)) !== null) {
+      output += rewriteCode(statement.slice(lastIndex, match.index));
+
+      const value = this.unescapeSqlString(match[1]);
+      let replaced = value;
+      // Per-prefix option names and user meta keys (wp_43_user_roles,
+      // wp_43_capabilities) must follow the table prefix
+      if (
+        prefix &&
+        value.startsWith(prefix.from) &&
+        /^[A-Za-z0-9_-]+$/.test(value.slice(prefix.from.length))
+      ) {
+        replaced = prefix.to + value.slice(prefix.from.length);
+      }
+      if (replacements.length > 0) {
+        replaced = SerializedReplace.replaceBuffer(
+          Buffer.from(replaced, 'latin1'),
+          replacements
+        ).toString('latin1');
+      }
+      output +=
+        replaced === value ? match[0] : `'${this.escapeSqlString(replaced)}'`;
+
+      lastIndex = match.index + match[0].length;
+    }
+
+    return output + rewriteCode(statement.slice(lastIndex));
+  }
+
+  private static unescapeSqlString(value: string): string {
+    const escapes: Record<string, string> = {
+      '0': '\0',
+      b: '\b',
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      Z: '\x1a',
+    };
+    return value.replace(/\\([\s\S])/g, (_, char: string) =>
+      char in escapes ? escapes[char] : char
+    );
+  }
+
+  // Matches the escaping mysqldump applies to string values
+  private static escapeSqlString(value: string): string {
+    const escapes: Record<string, string> = {
+      '\0': '\\0',
+      '\n': '\\n',
+      '\r': '\\r',
+      '\x1a': '\\Z',
+      '\\': '\\\\',
+      "'": "\\'",
+      '"': '\\"',
+    };
+    return Array.from(value, (char) => escapes[char] ?? char).join('');
+  }
+}
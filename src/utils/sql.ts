@@ -0,0 +1,92 @@
+/**
+ * SQL escaping and placeholder formatting
+ *
+ * Every statement that carries a table name, column name or user-supplied
+ * value goes through format(): `?` placeholders become escaped literals and
+ * `??` placeholders become backtick-quoted identifiers. Both database
+ * backends format with this before anything reaches MySQL, so replacement
+ * strings and table names can never change the shape of a statement.
+ */
+import { escape, SqlValue } from 'mysql2/promise';
+
+// MySQL's limit for table and column names
+const MAX_IDENTIFIER_LENGTH = 64;
+
+export class SqlBuilder {
+  /**
+   * Fill `?` (value) and `??` (identifier) placeholders in order. SQL
+   * without params is returned as-is (like mysql2), so literal question
+   * marks survive; otherwise the placeholder and param counts must match.
+   */
+  static format(sql: string, params: SqlValue[] = []): string {
+    if (params.length === 0) {
+      return sql;
+    }
+
+    let index = 0;
+    const formatted = sql.replace(/\?\?|\?/g, (placeholder) => {
+      if (index >= params.length) {
+        throw new Error(
+          `Missing SQL parameter ${index + 1} for placeholder ${placeholder}`
+        );
+      }
+      const param = params[index++];
+      if (placeholder === '??') {
+        if (typeof param !== 'string') {
+          throw new Error(`SQL identifier parameter ${index} must be a string`);
+        }
+        return this.identifier(param);
+      }
+      return this.value(param);
+    });
+
+    if (index !== params.length) {
+      throw new Error(
+        `Expected ${index} SQL parameters but received ${params.length}`
+      );
+    }
+    return formatted;
+  }
+
+  /**
+   * Quote a single table or column name. Dots are kept as part of the name
+   * rather than read as a database qualifier, and backticks are doubled.
+   */
+  static identifier(name: string): string {
+    if (name.length === 0 || name.length > MAX_IDENTIFIER_LENGTH) {
+      throw new Error(`Invalid SQL identifier length: ${name.length}`);
+    }
+    if (name.includes('\0') || name.endsWith(' ')) {
+      throw new Error(`Invalid SQL identifier: ${JSON.stringify(name)}`);
+    }
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+
+  static value(value: SqlValue): string {
+    return escape(value);
+  }
+
+  /**
+   * Binary-safe literal for raw bytes or a UTF-8 string. The result is only
+   * hex digits, so it needs no further escaping.
+   */
+  static hex(value: string | Buffer): string {
+    const bytes =
+      typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+    return bytes.length > 0 ? `UNHEX('${bytes.toString('hex')}')` : "''";
+  }
+
+  // LIKE patterns with wildcards in the text itself escaped, so the `_` in
+  // a table prefix like wp_4_ matches only an underscore
+  static containsPattern(text: string): string {
+    return `%${this.escapeLike(text)}%`;
+  }
+
+  static startsWithPattern(text: string): string {
+    return `${this.escapeLike(text)}%`;
+  }
+
+  private static escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+}
@@ -0,0 +1,432 @@
+import { Command } from 'commander';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../../src/utils/backup-recovery');
+jest.mock('../../src/utils/backup-replication');
+jest.mock('../../src/utils/change-snapshot');
+jest.mock('../../src/utils/config');
+jest.mock('inquirer', () => ({
+  __esModule: true,
+  default: { prompt: jest.fn() },
+}));
+
+// backupsCommand is a commander singleton that retains parsed option state
+// across parses; re-require a fresh module graph per test to isolate it.
+let backupsCommand: any;
+let mockBackupRecovery: any;
+let mockBackupReplication: any;
+let mockConfig: any;
+let mockPrompt: jest.Mock;
+
+const backup = (
+  backupId: string,
+  timestamp: string,
+  environment = 'prod',
+  sites = [43]
+) => ({
+  backupId,
+  timestamp,
+  environment,
+  sites,
+  networkTables: ['wp_blogs'],
+  backupPaths: {
+    networkTablesFile: `/backups/${backupId}/network-tables.sql`,
+    sitesFiles: Object.fromEntries(
+      sites.map((site) => [site, `/backups/${backupId}/site-${site}.sql`])
+    ),
+  },
+  checksums: {},
+  totalSize: 2048,
+});
+
+describe('backups command', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const run = async (...args: string[]): Promise<void> => {
+    const program = new Command();
+    program.addCommand(backupsCommand);
+    await program.parseAsync(['node', 'test', 'backups', ...args]);
+  };
+
+  const output = (): string =>
+    logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.resetModules();
+    backupsCommand = require('../../src/commands/backups').backupsCommand;
+    mockBackupRecovery =
+      require('../../src/utils/backup-recovery').BackupRecovery;
+    mockBackupReplication =
+      require('../../src/utils/backup-replication').BackupReplication;
+    mockConfig = require('../../src/utils/config').Config;
+    mockPrompt = require('inquirer').default.prompt;
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockBackupRecovery.getRetentionGroup.mockImplementation(
+      (metadata: any) => `${metadata.environment} sites ${metadata.sites}`
+    );
+    mockBackupRecovery.verifyBackupIntegrity.mockResolvedValue({
+      valid: true,
+      errors: [],
+    });
+    mockPrompt.mockResolvedValue({ proceed: true });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  describe('list', () => {
+    beforeEach(() => {
+      mockBackupRecovery.listAvailableBackups.mockReturnValue([
+        backup('backup-3', '2026-10-15T08:00:00.000Z', 'prod', [43]),
+        backup('backup-2', '2026-10-10T08:00:00.000Z', 'pprd', [43]),
+        backup('backup-1', '2026-10-01T08:00:00.000Z', 'prod', [12]),
+      ]);
+    });
+
+    it('filters by environment, site and date range', async () => {
+      await run(
+        'list',
+        '--env',
+        'prod',
+        '--site',
+        '43',
+        '--since',
+        '2026-10-02',
+        '--json'
+      );
+
+      const listed = JSON.parse(logSpy.mock.calls[0][0]);
+      expect(listed.map((b: any) => b.backupId)).toEqual(['backup-3']);
+    });
+
+    it('includes the whole day given to --until', async () => {
+      await run('list', '--until', '2026-10-10', '--json');
+
+      const listed = JSON.parse(logSpy.mock.calls[0][0]);
+      expect(listed.map((b: any) => b.backupId)).toEqual([
+        'backup-2',
+        'backup-1',
+      ]);
+    });
+
+    it('lists the offsite copies with --remote', async () => {
+      mockBackupReplication.listRemoteBackups.mockResolvedValue([
+        backup('backup-9', '2026-10-16T08:00:00.000Z'),
+      ]);
+
+      await run('list', '--remote', '--json');
+
+      const listed = JSON.parse(logSpy.mock.calls[0][0]);
+      expect(listed.map((b: any) => b.backupId)).toEqual(['backup-9']);
+      expect(mockBackupRecovery.listAvailableBackups).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invalid date', async () => {
+      await run('list', '--since', 'last week');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('--since must be a date')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('show', () => {
+    let workDir: string;
+
+    beforeEach(() => {
+      workDir = mkdtempSync(join(tmpdir(), 'wfuwp-backups-'));
+    });
+
+    afterEach(() => {
+      rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('reports file sizes and marks missing files', async () => {
+      const siteFile = join(workDir, 'site-43.sql');
+      writeFileSync(siteFile, 'x'.repeat(10));
+      mockBackupRecovery.loadBackupMetadata.mockReturnValue({
+        ...backup('backup-3', '2026-10-15T08:00:00.000Z'),
+        backupPaths: {
+          networkTablesFile: join(workDir, 'network-tables.sql'),
+          sitesFiles: { 43: siteFile },
+        },
+        checksums: { 'site-43.sql': 'abc123' },
+      });
+
+      await run('show', 'backup-3', '--json', '--work-dir', workDir);
+
+      expect(mockBackupRecovery.loadBackupMetadata).toHaveBeenCalledWith(
+        'backup-3',
+        workDir
+      );
+      const shown = JSON.parse(logSpy.mock.calls[0][0]);
+      expect(shown.files).toEqual([
+        {
+          label: 'network tables',
+          path: join(workDir, 'network-tables.sql'),
+          size: null,
+        },
+        { label: 'site 43', path: siteFile, size: 10 },
+      ]);
+      expect(shown.checksums).toEqual({ 'site-43.sql': 'abc123' });
+    });
+
+    it('reports a missing backup', async () => {
+      mockBackupRecovery.loadBackupMetadata.mockImplementation(() => {
+        throw new Error('Backup metadata not found: nope');
+      });
+
+      await run('show', 'nope');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Backup metadata not found: nope')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('verify', () => {
+    it('exits non-zero when the backup fails verification', async () => {
+      mockBackupRecovery.loadBackupMetadata.mockReturnValue(
+        backup('backup-3', '2026-10-15T08:00:00.000Z')
+      );
+      mockBackupRecovery.verifyBackupIntegrity.mockResolvedValue({
+        valid: false,
+        errors: ['Checksum mismatch for site-43.sql'],
+      });
+
+      await run('verify', 'backup-3', '--json');
+
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({
+        backupId: 'backup-3',
+        valid: false,
+        errors: ['Checksum mismatch for site-43.sql'],
+      });
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('upload', () => {
+    it('uploads and reports the verified copy', async () => {
+      mockBackupReplication.uploadBackup.mockResolvedValue({
+        backupId: 'backup-3',
+        location: 's3://wfu-backups/db-backups/backup-3/',
+        files: ['site-43.sql', 'metadata.json'],
+        verified: true,
+      });
+
+      await run('upload', 'backup-3', '--work-dir', '/backups');
+
+      expect(mockBackupReplication.uploadBackup).toHaveBeenCalledWith(
+        'backup-3',
+        { workDir: '/backups', verbose: undefined, verify: true }
+      );
+      expect(output()).toContain('matches the recorded checksums');
+    });
+
+    it('skips verification with --no-verify', async () => {
+      mockBackupReplication.uploadBackup.mockResolvedValue({
+        backupId: 'backup-3',
+        location: 's3://wfu-backups/db-backups/backup-3/',
+        files: [],
+        verified: false,
+      });
+
+      await run('upload', 'backup-3', '--no-verify');
+
+      expect(mockBackupReplication.uploadBackup).toHaveBeenCalledWith(
+        'backup-3',
+        expect.objectContaining({ verify: false })
+      );
+      expect(output()).toContain('not verified');
+    });
+  });
+
+  describe('restore', () => {
+    beforeEach(() => {
+      mockBackupRecovery.loadBackupMetadata.mockReturnValue(
+        backup('backup-3', '2026-10-15T08:00:00.000Z', 'prod', [12, 43])
+      );
+      mockBackupRecovery.restoreFromBackup.mockResolvedValue({
+        success: true,
+        restoredTables: ['wp_43_posts'],
+        errors: [],
+      });
+    });
+
+    it('restores every site but not the network tables by default', async () => {
+      await run('restore', 'backup-3', '--force');
+
+      expect(mockBackupRecovery.restoreFromBackup).toHaveBeenCalledWith(
+        'backup-3',
+        'prod',
+        expect.objectContaining({
+          networkTables: false,
+          sites: [12, 43],
+          skipConfirmation: true,
+        })
+      );
+      expect(mockPrompt).not.toHaveBeenCalled();
+    });
+
+    it('snapshots the tables it is about to overwrite first', async () => {
+      const mockChangeSnapshot =
+        require('../../src/utils/change-snapshot').ChangeSnapshot;
+      mockBackupRecovery.getSiteTableNames.mockImplementation(
+        async (_env: string, siteId: number) => [`wp_${siteId}_posts`]
+      );
+
+      await run(
+        'restore',
+        'backup-3',
+        '--network-tables',
+        '--sites',
+        '43',
+        '--force'
+      );
+
+      expect(mockChangeSnapshot.beforeChange).toHaveBeenCalledWith(
+        'prod',
+        ['wp_blogs', 'wp_43_posts'],
+        expect.objectContaining({ backup: true })
+      );
+      expect(
+        mockChangeSnapshot.beforeChange.mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        mockBackupRecovery.restoreFromBackup.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('restores only the network tables when asked for them alone', async () => {
+      await run('restore', 'backup-3', '--network-tables', '--force');
+
+      expect(mockBackupRecovery.restoreFromBackup).toHaveBeenCalledWith(
+        'backup-3',
+        'prod',
+        expect.objectContaining({ networkTables: true, sites: [] })
+      );
+    });
+
+    it('restores the listed sites quietly with --json', async () => {
+      await run('restore', 'backup-3', '--sites', '43', '--force', '--json');
+
+      expect(mockBackupRecovery.restoreFromBackup).toHaveBeenCalledWith(
+        'backup-3',
+        'prod',
+        expect.objectContaining({ sites: [43], quiet: true })
+      );
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toMatchObject({
+        backupId: 'backup-3',
+        environment: 'prod',
+        success: true,
+      });
+    });
+
+    it('rejects sites the backup does not contain', async () => {
+      await run('restore', 'backup-3', '--sites', '43,99', '--force');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Backup backup-3 does not contain site 99')
+      );
+      expect(mockBackupRecovery.restoreFromBackup).not.toHaveBeenCalled();
+    });
+
+    it('refuses to restore a backup that fails verification', async () => {
+      mockBackupRecovery.verifyBackupIntegrity.mockResolvedValue({
+        valid: false,
+        errors: ['Missing file'],
+      });
+
+      await run('restore', 'backup-3', '--force');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('failed verification: Missing file')
+      );
+      expect(mockBackupRecovery.restoreFromBackup).not.toHaveBeenCalled();
+    });
+
+    it('fetches the backup from S3 first with --remote', async () => {
+      mockBackupReplication.downloadBackup.mockResolvedValue(
+        backup('backup-9', '2026-10-16T08:00:00.000Z', 'pprd', [43])
+      );
+
+      await run('restore', 'backup-9', '--remote', '--force');
+
+      expect(mockBackupReplication.downloadBackup).toHaveBeenCalledWith(
+        'backup-9',
+        { workDir: undefined }
+      );
+      expect(mockBackupRecovery.loadBackupMetadata).not.toHaveBeenCalled();
+      expect(mockBackupRecovery.restoreFromBackup).toHaveBeenCalledWith(
+        'backup-9',
+        'pprd',
+        expect.objectContaining({ sites: [43] })
+      );
+    });
+
+    it('stops when the confirmation is declined', async () => {
+      mockPrompt.mockResolvedValue({ proceed: false });
+
+      await run('restore', 'backup-3');
+
+      expect(mockBackupRecovery.restoreFromBackup).not.toHaveBeenCalled();
+      expect(output()).toContain('Restore cancelled');
+    });
+
+    it('exits non-zero when the restore fails', async () => {
+      mockBackupRecovery.restoreFromBackup.mockResolvedValue({
+        success: false,
+        restoredTables: [],
+        errors: ['Failed to restore site 43'],
+      });
+
+      await run('restore', 'backup-3', '--force');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to restore site 43')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('delete', () => {
+    beforeEach(() => {
+      mockBackupRecovery.loadBackupMetadata.mockReturnValue(
+        backup('backup-3', '2026-10-15T08:00:00.000Z')
+      );
+      mockBackupRecovery.deleteBackup.mockResolvedValue(true);
+    });
+
+    it('deletes after confirmation', async () => {
+      await run('delete', 'backup-3', '--work-dir', '/backups');
+
+      expect(mockPrompt).toHaveBeenCalled();
+      expect(mockBackupRecovery.deleteBackup).toHaveBeenCalledWith(
+        'backup-3',
+        '/backups'
+      );
+      expect(output()).toContain('Deleted backup backup-3');
+    });
+
+    it('keeps the backup when the confirmation is declined', async () => {
+      mockPrompt.mockResolvedValue({ proceed: false });
+
+      await run('delete', 'backup-3');
+
+      expect(mockBackupRecovery.deleteBackup).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Command } from 'commander';
+
+jest.mock('../../src/utils/site-clone');
+jest.mock('inquirer', () => ({
+  __esModule: true,
+  default: { prompt: jest.fn() },
+}));
+
+// cloneSiteCommand is a commander singleton that retains parsed option state
+// across parses; re-require a fresh module graph per test to isolate it.
+let cloneSiteCommand: any;
+let mockSiteClone: any;
+let mockPrompt: jest.Mock;
+
+const plan = {
+  sourceSiteId: 43,
+  sourceEnv: 'uat',
+  targetEnv: 'uat',
+  source: { blogId: 43, domain: 'uat.wfu.edu', path: '/magazine/' },
+  domain: 'uat.wfu.edu',
+  path: '/fall26/',
+  tables: ['wp_43_options', 'wp_43_posts'],
+  replacements: [
+    {
+      from: '//uat.wfu.edu/magazine',
+      to: '//uat.wfu.edu/fall26',
+      pathBoundary: true,
+    },
+  ],
+  copyUserRoles: true,
+};
+
+describe('clone-site command', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const run = async (...args: string[]): Promise<void> => {
+    const program = new Command();
+    program.addCommand(cloneSiteCommand);
+    await program.parseAsync(['node', 'test', 'clone-site', ...args]);
+  };
+
+  const output = (): string =>
+    logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.resetModules();
+    cloneSiteCommand =
+      require('../../src/commands/clone-site').cloneSiteCommand;
+    mockSiteClone = require('../../src/utils/site-clone').SiteClone;
+    mockPrompt = require('inquirer').default.prompt;
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    mockSiteClone.plan.mockResolvedValue(plan);
+    mockSiteClone.clone.mockResolvedValue({
+      newSiteId: 97,
+      tables: ['wp_97_options', 'wp_97_posts'],
+      userRolesCopied: 12,
+      s3: { success: true, message: 'Copied 40 files' },
+    });
+    mockPrompt.mockResolvedValue({ proceed: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows the plan and changes nothing on a dry run', async () => {
+    await run(
+      '43',
+      '--env',
+      'uat',
+      '--domain',
+      'uat.wfu.edu',
+      '--path',
+      '/fall26/',
+      '--dry-run',
+      '--verbose'
+    );
+
+    expect(mockSiteClone.plan).toHaveBeenCalledWith(43, {
+      environment: 'uat',
+      fromEnv: undefined,
+      domain: 'uat.wfu.edu',
+      path: '/fall26/',
+    });
+    expect(output()).toContain('Tables: 2');
+    expect(output()).toContain('//uat.wfu.edu/magazine → //uat.wfu.edu/fall26');
+    expect(output()).toContain('User roles: copied from the source site');
+    expect(mockSiteClone.clone).not.toHaveBeenCalled();
+  });
+
+  it('clones after confirmation and reports the new site', async () => {
+    await run(
+      '43',
+      '--env',
+      'uat',
+      '--domain',
+      'uat.wfu.edu',
+      '--path',
+      '/fall26/',
+      '--timeout',
+      '45'
+    );
+
+    expect(mockPrompt).toHaveBeenCalledWith([
+      expect.objectContaining({
+        message: 'Create uat.wfu.edu/fall26/ in uat as a copy of site 43?',
+      }),
+    ]);
+    expect(mockSiteClone.clone).toHaveBeenCalledWith(plan, {
+      skipS3: undefined,
+      verbose: false,
+      timeout: 45,
+    });
+    expect(output()).toContain(
+      'Cloned site 43 as site 97 at uat.wfu.edu/fall26/'
+    );
+    expect(output()).toContain('User roles copied: 12');
+    expect(output()).toContain('S3 uploads: Copied 40 files');
+  });
+
+  it('does not clone when the confirmation is declined', async () => {
+    mockPrompt.mockResolvedValue({ proceed: false });
+
+    await run('43', '--env', 'uat', '--domain', 'uat.wfu.edu');
+
+    expect(mockSiteClone.clone).not.toHaveBeenCalled();
+    expect(output()).toContain('Clone cancelled');
+  });
+
+  it('warns how to finish when the S3 copy fails', async () => {
+    mockSiteClone.clone.mockResolvedValue({
+      newSiteId: 97,
+      tables: ['wp_97_options'],
+      userRolesCopied: 0,
+      s3: { success: false, message: 'S3 sync failed: Access Denied' },
+    });
+
+    await run('43', '--env', 'uat', '--domain', 'uat.wfu.edu', '--force');
+
+    expect(mockPrompt).not.toHaveBeenCalled();
+    expect(output()).toContain(
+      'S3 sync failed: Access Denied. Copy the uploads later with the AWS CLI from sites/43/ to sites/97/'
+    );
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid site ID or environment before planning', async () => {
+    await run('abc', '--env', 'uat', '--domain', 'uat.wfu.edu');
+    await run('43', '--env', 'uat', '--from-env', 'qa', '--domain', 'x.edu');
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Site ID must be a positive number')
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Invalid environment "qa". Must be one of: dev, uat, pprd, prod'
+      )
+    );
+    expect(mockSiteClone.plan).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('reports a plan that cannot be made', async () => {
+    mockSiteClone.plan.mockRejectedValue(
+      new Error('Site 43 not found in uat wp_blogs')
+    );
+
+    await run('43', '--env', 'uat', '--domain', 'uat.wfu.edu', '--force');
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Error: Site 43 not found in uat wp_blogs')
+    );
+    expect(mockSiteClone.clone).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
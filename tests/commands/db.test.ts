@@ -0,0 +1,462 @@
+import { Command } from 'commander';
+import { EventEmitter } from 'events';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+
+jest.mock('child_process');
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+jest.mock('../../src/utils/sql-file-analyzer');
+jest.mock('inquirer', () => ({
+  __esModule: true,
+  default: { prompt: jest.fn() },
+}));
+
+// dbCommand is a commander singleton that retains parsed option state across
+// parses; re-require a fresh module graph per test to isolate it.
+let dbCommand: any;
+let mockConfig: any;
+let mockPrompt: jest.Mock;
+let mockSpawn: jest.Mock;
+let connection: { query: jest.Mock; execute: jest.Mock };
+
+describe('db command', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const run = async (...args: string[]): Promise<void> => {
+    const program = new Command();
+    program.addCommand(dbCommand);
+    await program.parseAsync(['node', 'test', 'db', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.resetModules();
+    dbCommand = require('../../src/commands/db').dbCommand;
+    mockConfig = require('../../src/utils/config').Config;
+    mockPrompt = require('inquirer').default.prompt;
+    mockSpawn = require('child_process').spawn;
+    const { DbConnectionManager } = require('../../src/utils/db-connection');
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    mockConfig.getValidEnvironments.mockReturnValue([
+      'dev',
+      'uat',
+      'pprd',
+      'prod',
+      'local',
+    ]);
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getEnvironmentConfig.mockReturnValue({
+      host: 'prod-db.wfu.edu',
+      user: 'wp',
+      password: 's3cret$(id)',
+      database: 'wordpress',
+    });
+    mockPrompt.mockResolvedValue({ typeConfirmation: 'WRITE prod' });
+
+    connection = {
+      query: jest.fn().mockResolvedValue([{ blog_id: 1, domain: 'wfu.edu' }]),
+      execute: jest.fn().mockResolvedValue({ affectedRows: 2, insertId: 0 }),
+    };
+    DbConnectionManager.get.mockReturnValue(connection);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  describe('query', () => {
+    it('prints rows in the requested format', async () => {
+      await run(
+        'query',
+        'prod',
+        'SELECT blog_id, domain FROM wp_blogs',
+        '-f',
+        'json'
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT blog_id, domain FROM wp_blogs'
+      );
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual([
+        { blog_id: 1, domain: 'wfu.edu' },
+      ]);
+      expect(mockPrompt).not.toHaveBeenCalled();
+    });
+
+    it('refuses writes on prod without --allow-write', async () => {
+      await run('query', 'prod', 'DELETE FROM wp_blogs WHERE blog_id = 9');
+
+      expect(connection.execute).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Re-run with --allow-write')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('runs prod writes after --allow-write and typed confirmation', async () => {
+      await run(
+        'query',
+        'prod',
+        'DELETE FROM wp_blogs WHERE blog_id = 9',
+        '--allow-write'
+      );
+
+      expect(mockPrompt).toHaveBeenCalledWith([
+        expect.objectContaining({ message: 'Type "WRITE prod" to confirm:' }),
+      ]);
+      const { validate } = mockPrompt.mock.calls[0][0][0];
+      expect(validate('write prod')).toBe('Confirmation text does not match');
+      expect(validate('WRITE prod')).toBe(true);
+      expect(connection.execute).toHaveBeenCalledWith(
+        'DELETE FROM wp_blogs WHERE blog_id = 9'
+      );
+    });
+
+    it('allows writes on lower environments without confirmation', async () => {
+      await run('query', 'uat', "UPDATE wp_options SET option_value = 'x'");
+
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(connection.execute).toHaveBeenCalled();
+    });
+
+    it('rejects multiple statements and unknown formats', async () => {
+      await run('query', 'uat', 'SELECT 1; SELECT 2');
+      await run('query', 'uat', 'SELECT 1', '--format', 'xml');
+
+      expect(connection.query).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('one statement at a time')
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid format 'xml'")
+      );
+    });
+  });
+
+  describe('shell', () => {
+    beforeEach(() => {
+      const { execSync } = require('child_process');
+      execSync.mockReturnValue(Buffer.from(''));
+      mockSpawn.mockImplementation(() => {
+        const child = new EventEmitter();
+        setImmediate(() => child.emit('exit', 0));
+        return child;
+      });
+    });
+
+    it('opens a read-only session on prod with the password in the environment', async () => {
+      await run('shell', 'prod');
+
+      const [command, args, options] = mockSpawn.mock.calls[0];
+      expect(command).toBe('mysql');
+      expect(args).toEqual(
+        expect.arrayContaining([
+          '-h',
+          'prod-db.wfu.edu',
+          '--init-command=SET SESSION TRANSACTION READ ONLY',
+          'wordpress',
+        ])
+      );
+      expect(args.join(' ')).not.toContain('s3cret');
+      expect(options).toMatchObject({
+        stdio: 'inherit',
+        env: expect.objectContaining({ MYSQL_PWD: 's3cret$(id)' }),
+      });
+      expect(mockPrompt).not.toHaveBeenCalled();
+    });
+
+    it('opens a read-write prod session only after confirmation', async () => {
+      await run('shell', 'prod', '--allow-write');
+
+      expect(mockPrompt).toHaveBeenCalled();
+      expect(mockSpawn.mock.calls[0][1].join(' ')).not.toContain('READ ONLY');
+    });
+
+    it('does not restrict lower environments', async () => {
+      await run('shell', 'uat');
+
+      expect(mockSpawn.mock.calls[0][1].join(' ')).not.toContain('READ ONLY');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export and import', () => {
+    let workDir: string;
+    let mockDatabase: any;
+    let mockAnalyzer: any;
+
+    beforeEach(() => {
+      workDir = mkdtempSync(join(tmpdir(), 'wfuwp-db-'));
+      mockDatabase = require('../../src/utils/database').DatabaseOperations;
+      mockAnalyzer =
+        require('../../src/utils/sql-file-analyzer').SqlFileAnalyzer;
+      const actual = jest.requireActual('../../src/utils/database');
+      mockDatabase.isSiteTable.mockImplementation((table: string, id: string) =>
+        actual.DatabaseOperations.isSiteTable(table, id)
+      );
+
+      connection.query.mockResolvedValue([
+        { domain: 'magazine.wfu.edu', path: '/' },
+      ]);
+      mockDatabase.exportSiteTables.mockImplementation(
+        async (_site: string, _env: string, outputPath: string) => {
+          writeFileSync(outputPath, 'CREATE TABLE wp_43_posts (id int);\n');
+          return { filePath: outputPath, tableCount: 2 };
+        }
+      );
+    });
+
+    afterEach(() => {
+      rmSync(workDir, { recursive: true, force: true });
+    });
+
+    const exportedPath = (): string =>
+      mockDatabase.exportSiteTables.mock.calls[0][2];
+
+    it('exports a site to a standard filename and verifies the table count', async () => {
+      mockAnalyzer.countTablesInSqlFile.mockResolvedValue(2);
+
+      await run('export', 'prod', '43', '-o', workDir);
+
+      expect(exportedPath()).toMatch(
+        /\/magazine-43-prod-backup-export-\d{2}-\d{2}-\d{4}\.sql$/
+      );
+      expect(existsSync(exportedPath())).toBe(true);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('gzips the export and removes the plain file', async () => {
+      mockAnalyzer.countTablesInSqlFile.mockResolvedValue(2);
+
+      await run('export', 'uat', '43', '-o', workDir, '--gzip');
+
+      expect(existsSync(exportedPath())).toBe(false);
+      expect(
+        gunzipSync(readFileSync(`${exportedPath()}.gz`)).toString()
+      ).toContain('CREATE TABLE wp_43_posts');
+    });
+
+    it('fails when the file holds a different number of tables', async () => {
+      mockAnalyzer.countTablesInSqlFile.mockResolvedValue(1);
+
+      await run('export', 'uat', '43', '-o', workDir);
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Export verification failed')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('rejects unknown purposes and malformed site IDs', async () => {
+      await run('export', 'uat', '43', '--purpose', 'nightly');
+      await run('export', 'uat', 'wp_43');
+
+      expect(mockDatabase.exportSiteTables).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid purpose 'nightly'")
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid site 'wp_43'")
+      );
+    });
+
+    const writeDump = (filename: string): string => {
+      const file = join(workDir, filename);
+      writeFileSync(file, '');
+      return file;
+    };
+
+    it('imports a site file after confirmation and verifies the tables', async () => {
+      const file = writeDump(
+        'magazine-wfu-edu-43-prod-backup-export-10-18-2026.sql.gz'
+      );
+      mockAnalyzer.getTableNamesInSqlFile.mockResolvedValue([
+        'wp_43_posts',
+        'wp_43_options',
+      ]);
+      mockDatabase.getAllTables.mockResolvedValue([
+        'wp_blogs',
+        'wp_43_posts',
+        'wp_43_options',
+      ]);
+      mockPrompt.mockResolvedValue({ proceed: true });
+
+      await run('import', 'uat', file);
+
+      expect(mockPrompt).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'confirm', name: 'proceed' }),
+      ]);
+      expect(mockDatabase.importSqlFile).toHaveBeenCalledWith(
+        file,
+        expect.objectContaining({ host: 'prod-db.wfu.edu' }),
+        undefined,
+        20
+      );
+      expect(mockDatabase.clearTableCache).toHaveBeenCalled();
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('requires the typed confirmation on prod even with --force', async () => {
+      const file = writeDump('site43-43-uat-backup-export-10-18-2026.sql');
+      mockAnalyzer.getTableNamesInSqlFile.mockResolvedValue(['wp_43_posts']);
+      mockDatabase.getAllTables.mockResolvedValue(['wp_43_posts']);
+
+      await run('import', 'prod', file, '--force');
+
+      expect(mockPrompt).toHaveBeenCalledWith([
+        expect.objectContaining({ message: 'Type "WRITE prod" to confirm:' }),
+      ]);
+      expect(mockDatabase.importSqlFile).toHaveBeenCalled();
+    });
+
+    it('refuses files holding tables of another site', async () => {
+      const file = writeDump('site4-4-uat-backup-export-10-18-2026.sql');
+      mockAnalyzer.getTableNamesInSqlFile.mockResolvedValue([
+        'wp_4_posts',
+        'wp_43_posts',
+      ]);
+
+      await run('import', 'uat', file, '--force');
+
+      expect(mockDatabase.importSqlFile).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('do not belong to site 4: wp_43_posts')
+      );
+    });
+
+    it('needs --site-id for non-standard names and rejects a mismatch', async () => {
+      const custom = writeDump('my-dump.sql');
+      const standard = writeDump('site43-43-uat-backup-export-10-18-2026.sql');
+
+      await run('import', 'uat', custom);
+      await run('import', 'uat', standard, '--site-id', '44');
+
+      expect(mockDatabase.importSqlFile).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Pass --site-id <id>')
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '--site-id 44 does not match site 43 in the filename'
+        )
+      );
+    });
+
+    it('fails when tables are missing after the import', async () => {
+      const file = writeDump('site43-43-uat-backup-export-10-18-2026.sql');
+      mockAnalyzer.getTableNamesInSqlFile.mockResolvedValue([
+        'wp_43_posts',
+        'wp_43_options',
+      ]);
+      mockDatabase.getAllTables.mockResolvedValue(['wp_43_posts']);
+
+      await run('import', 'uat', file, '--force');
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Import verification failed: 1 tables missing from uat: wp_43_options'
+        )
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('diff', () => {
+    let mockCompare: jest.SpyInstance;
+
+    beforeEach(() => {
+      const { SiteDiff } = require('../../src/utils/site-diff');
+      mockCompare = jest.spyOn(SiteDiff, 'compare').mockResolvedValue({
+        siteId: '43',
+        source: 'prod',
+        target: 'pprd',
+        checksums: false,
+        tables: [
+          {
+            table: 'wp_43_posts',
+            status: 'changed',
+            sourceRows: 120,
+            targetRows: 118,
+            sourceOnlyColumns: [],
+            targetOnlyColumns: [],
+          },
+        ],
+        summary: { same: 0, changed: 1, 'source-only': 0, 'target-only': 0 },
+      });
+    });
+
+    it('prints the comparison as JSON', async () => {
+      await run(
+        'diff',
+        '43',
+        '--from',
+        'prod',
+        '--to',
+        'pprd',
+        '--checksum',
+        '-f',
+        'json'
+      );
+
+      expect(mockCompare).toHaveBeenCalledWith('43', 'prod', 'pprd', {
+        checksum: true,
+        verbose: undefined,
+      });
+      expect(JSON.parse(logSpy.mock.calls[0][0]).summary.changed).toBe(1);
+    });
+
+    it('rejects comparing an environment with itself', async () => {
+      await run('diff', '43', '--from', 'prod', '--to', 'prod');
+
+      expect(mockCompare).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('must be different environments')
+      );
+    });
+  });
+
+  describe('content-diff', () => {
+    it('prints mapping warnings before the report', async () => {
+      const { ContentDiff } = require('../../src/utils/content-diff');
+      const compare = jest.spyOn(ContentDiff, 'compare').mockResolvedValue({
+        siteId: '43',
+        source: 'pprd',
+        target: 'prod',
+        replacements: [],
+        changes: [],
+        summary: {
+          post: { added: 0, removed: 0, changed: 0 },
+          option: { added: 0, removed: 0, changed: 0 },
+        },
+        warnings: ['No URL mapping for pprd -> prod'],
+      });
+
+      await run('content-diff', '43', '--from', 'pprd', '--to', 'prod');
+
+      expect(compare).toHaveBeenCalledWith('43', 'pprd', 'prod', {
+        verbose: undefined,
+      });
+      expect(logSpy.mock.calls[0][0]).toContain(
+        'No URL mapping for pprd -> prod'
+      );
+      expect(logSpy.mock.calls[1][0]).toContain('No content differences');
+    });
+  });
+});
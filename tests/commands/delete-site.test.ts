@@ -3,8 +3,9 @@ import { Command } from 'commander';
 jest.mock('../../src/utils/config');
 jest.mock('../../src/utils/database');
 jest.mock('../../src/utils/site-enumerator');
-jest.mock('../../src/utils/backup-recovery');
+jest.mock('../../src/utils/change-snapshot');
 jest.mock('../../src/utils/environment-cleanup');
+jest.mock('../../src/utils/site-archive');
 jest.mock('inquirer', () => ({
   __esModule: true,
   default: {
@@ -24,6 +25,8 @@ let mockConfig: any;
 let mockDatabaseOperations: any;
 let mockSiteEnumerator: any;
 let mockCleanupService: any;
+let mockChangeSnapshot: any;
+let mockSiteArchive: any;
 
 describe('delete-site command', () => {
   let consoleSpy: jest.SpyInstance;
@@ -40,6 +43,9 @@ describe('delete-site command', () => {
       require('../../src/utils/site-enumerator').SiteEnumerator;
     mockCleanupService =
       require('../../src/utils/environment-cleanup').EnvironmentCleanupService;
+    mockChangeSnapshot =
+      require('../../src/utils/change-snapshot').ChangeSnapshot;
+    mockSiteArchive = require('../../src/utils/site-archive').SiteArchive;
 
     consoleSpy = jest.spyOn(console, 'log').mockImplementation();
     jest.spyOn(console, 'error').mockImplementation();
@@ -47,7 +53,7 @@ describe('delete-site command', () => {
 
     mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
     mockDatabaseOperations.testConnection.mockResolvedValue(true);
-    mockDatabaseOperations.getSiteTables.mockReturnValue([
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([
       'wp_43_posts',
       'wp_43_options',
     ]);
@@ -189,6 +195,107 @@ describe('delete-site command', () => {
     );
   });
 
+  it('should snapshot the site tables and wp_blogs before deleting', async () => {
+    mockSiteEnumerator.getSiteInfo.mockResolvedValue({
+      blogId: 43,
+      domain: 'test.example.com',
+      path: '/test/',
+      isArchived: false,
+      isSpam: false,
+      isDeleted: false,
+    });
+
+    const program = new Command();
+    program.addCommand(deleteSiteCommand);
+
+    await program.parseAsync(['node', 'test', 'delete-site', '43', 'dev', '--force']);
+
+    expect(mockChangeSnapshot.beforeChange).toHaveBeenCalledWith(
+      'dev',
+      ['wp_43_posts', 'wp_43_options'],
+      expect.objectContaining({
+        backup: true,
+        rows: { wp_blogs: 'blog_id = 43' },
+      })
+    );
+    expect(mockChangeSnapshot.beforeChange.mock.invocationCallOrder[0]).toBeLessThan(
+      mockCleanupService.deleteSiteFromEnvironment.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should not delete when the snapshot fails', async () => {
+    mockSiteEnumerator.getSiteInfo.mockResolvedValue({
+      blogId: 43,
+      domain: 'test.example.com',
+      path: '/test/',
+      isArchived: false,
+      isSpam: false,
+      isDeleted: false,
+    });
+    mockChangeSnapshot.beforeChange.mockRejectedValue(
+      new Error('Snapshot failed: mysqldump failed')
+    );
+
+    const program = new Command();
+    program.addCommand(deleteSiteCommand);
+
+    await program.parseAsync(['node', 'test', 'delete-site', '43', 'dev', '--skip-confirmation']);
+
+    expect(mockCleanupService.deleteSiteFromEnvironment).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should archive the site before deleting with --archive-to', async () => {
+    mockSiteEnumerator.getSiteInfo.mockResolvedValue({
+      blogId: 43,
+      domain: 'test.example.com',
+      path: '/test/',
+      isArchived: false,
+      isSpam: false,
+      isDeleted: false,
+    });
+    mockSiteArchive.create.mockResolvedValue({
+      location: 's3://archives/site-43-dev-2026-10-18T09-00-00/',
+    });
+
+    const program = new Command();
+    program.addCommand(deleteSiteCommand);
+
+    await program.parseAsync(['node', 'test', 'delete-site', '43', 'dev', '--force', '--archive-to', 's3://archives']);
+
+    expect(mockSiteArchive.create).toHaveBeenCalledWith(43, 'dev', 's3://archives', { verbose: false });
+    expect(mockSiteArchive.create.mock.invocationCallOrder[0]).toBeLessThan(
+      mockCleanupService.deleteSiteFromEnvironment.mock.invocationCallOrder[0]
+    );
+    expect(consoleSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Archived to s3://archives/site-43-dev-2026-10-18T09-00-00/')
+    );
+  });
+
+  it('should not delete when the archive fails', async () => {
+    mockSiteEnumerator.getSiteInfo.mockResolvedValue({
+      blogId: 43,
+      domain: 'test.example.com',
+      path: '/test/',
+      isArchived: false,
+      isSpam: false,
+      isDeleted: false,
+    });
+    mockSiteArchive.create.mockRejectedValue(new Error('aws s3 sync failed: Access Denied'));
+
+    const program = new Command();
+    program.addCommand(deleteSiteCommand);
+
+    await program.parseAsync(['node', 'test', 'delete-site', '43', 'dev', '--force', '--archive-to', '/srv/archives']);
+
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Archive failed, site 43 was not deleted: aws s3 sync failed: Access Denied')
+    );
+    expect(mockChangeSnapshot.beforeChange).not.toHaveBeenCalled();
+    expect(mockCleanupService.deleteSiteFromEnvironment).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
   it('should handle sites with no tables', async () => {
     const mockSiteInfo = {
       blogId: 43,
@@ -204,7 +311,7 @@ describe('delete-site command', () => {
     };
 
     mockSiteEnumerator.getSiteInfo.mockResolvedValue(mockSiteInfo);
-    mockDatabaseOperations.getSiteTables.mockReturnValue([]);
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([]);
     
     const program = new Command();
     program.addCommand(deleteSiteCommand);
@@ -0,0 +1,441 @@
+import { Command } from 'commander';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/network-tables');
+jest.mock('../../src/utils/backup-recovery');
+jest.mock('../../src/utils/s3sync');
+jest.mock('../../src/utils/cache-flush');
+jest.mock('../../src/utils/disk-space');
+jest.mock('../../src/utils/site-enumerator');
+
+// migrateCommand is a commander singleton that retains parsed option state
+// across parses; re-require a fresh module graph per test to isolate it.
+let migrateCommand: any;
+let mockConfig: any;
+let mockDatabaseOperations: any;
+let mockNetworkTables: any;
+let mockBackupRecovery: any;
+let mockS3Sync: any;
+let mockCacheFlush: any;
+let mockDiskSpace: any;
+let mockSiteEnumerator: any;
+let ErrorRecovery: any;
+
+describe('migrate command', () => {
+  let workDir: string;
+  let processExitSpy: jest.SpyInstance;
+
+  function journalOf(): any {
+    const [migrationId] = readdirSync(workDir);
+    return JSON.parse(
+      readFileSync(join(workDir, migrationId, 'journal.json'), 'utf8')
+    );
+  }
+
+  async function run(...args: string[]): Promise<void> {
+    const program = new Command();
+    program.addCommand(migrateCommand);
+    await program.parseAsync(['node', 'test', 'migrate', ...args]);
+  }
+
+  beforeEach(() => {
+    jest.resetModules();
+    migrateCommand = require('../../src/commands/migrate').migrateCommand;
+    mockConfig = require('../../src/utils/config').Config;
+    mockDatabaseOperations =
+      require('../../src/utils/database').DatabaseOperations;
+    mockNetworkTables =
+      require('../../src/utils/network-tables').NetworkTableOperations;
+    mockBackupRecovery =
+      require('../../src/utils/backup-recovery').BackupRecovery;
+    mockS3Sync = require('../../src/utils/s3sync').S3Sync;
+    mockCacheFlush = require('../../src/utils/cache-flush').CacheFlush;
+    mockDiskSpace = require('../../src/utils/disk-space');
+    mockSiteEnumerator =
+      require('../../src/utils/site-enumerator').SiteEnumerator;
+    ErrorRecovery = require('../../src/utils/error-recovery').ErrorRecovery;
+
+    workDir = mkdtempSync(join(tmpdir(), 'wp-migrate-test-'));
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getEnvironmentConfig.mockReturnValue({ host: 'db' });
+    mockDatabaseOperations.testConnection.mockResolvedValue(true);
+    mockDatabaseOperations.exportSiteTables.mockImplementation(
+      async (_siteId: string, _env: string, outputPath: string) => {
+        writeFileSync(outputPath, '-- dump');
+        return { filePath: outputPath, tableCount: 12, fileSize: 7 };
+      }
+    );
+    mockNetworkTables.transformSqlFile.mockImplementation(
+      async (
+        _input: string,
+        _replacements: unknown,
+        _verbose: boolean,
+        options: { outputPath: string }
+      ) => {
+        writeFileSync(options.outputPath, '-- transformed');
+        return { tables: [], statements: 0 };
+      }
+    );
+    mockDatabaseOperations.importSqlFile.mockResolvedValue({
+      success: true,
+      tableCount: 12,
+    });
+    mockBackupRecovery.createFullEnvironmentBackup.mockResolvedValue({
+      success: true,
+      backupId: 'backup-1',
+      errors: [],
+    });
+    mockS3Sync.checkAwsCli.mockReturnValue(true);
+    mockS3Sync.checkAwsCredentials.mockReturnValue(true);
+    mockS3Sync.syncWordPressFiles.mockResolvedValue({
+      success: true,
+      filesTransferred: 3,
+      message: 'Synced 3 files',
+    });
+    mockCacheFlush.flushCache.mockResolvedValue({
+      success: true,
+      message: 'Cache flushed',
+    });
+    mockDiskSpace.checkDiskSpace.mockResolvedValue({});
+    mockDiskSpace.shouldBlockMigration.mockReturnValue(false);
+    mockSiteEnumerator.getSiteInfo.mockImplementation(
+      async (_siteId: number, env: string) => ({
+        blogId: 43,
+        domain:
+          env === 'prod' ? 'magazine.wakeforest.edu' : 'magazine.uat.wfu.edu',
+        path: '/',
+      })
+    );
+    mockSiteEnumerator.getMappedDomains.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should reject unsupported migration paths', async () => {
+    await run('43', '--from', 'prod', '--to', 'prod');
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(mockDatabaseOperations.exportSiteTables).not.toHaveBeenCalled();
+  });
+
+  it('should point local targets at local refresh', async () => {
+    await run('43', '--from', 'prod', '--to', 'local');
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('use "wfuwp local refresh"')
+    );
+    expect(mockDatabaseOperations.exportSiteTables).not.toHaveBeenCalled();
+  });
+
+  it('should not touch any environment in dry-run mode', async () => {
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--dry-run',
+      '--work-dir',
+      workDir
+    );
+
+    expect(mockDatabaseOperations.testConnection).toHaveBeenCalledWith('prod');
+    expect(mockDatabaseOperations.exportSiteTables).not.toHaveBeenCalled();
+    expect(mockDatabaseOperations.importSqlFile).not.toHaveBeenCalled();
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(readdirSync(workDir)).toEqual([]);
+  });
+
+  it('should show site domain rewrites in dry-run output', async () => {
+    mockSiteEnumerator.getMappedDomains.mockResolvedValue(['magazine.wfu.com']);
+
+    await run('43', '--from', 'prod', '--to', 'uat', '--dry-run');
+
+    const output = (console.log as jest.Mock).mock.calls.flat().join('\n');
+    expect(output).toContain(
+      'magazine.wakeforest.edu → magazine.uat.wfu.edu (wp_blogs)'
+    );
+    expect(output).toContain(
+      'magazine.wfu.com → magazine.uat.wfu.edu (wp_domain_mapping)'
+    );
+  });
+
+  it('should run the full pipeline in order', async () => {
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--work-dir',
+      workDir
+    );
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(mockNetworkTables.transformSqlFile).toHaveBeenCalledWith(
+      expect.stringMatching(/migration-43-.*site-43-prod-export\.sql$/),
+      expect.arrayContaining([
+        {
+          from: '//magazine.wakeforest.edu',
+          to: '//magazine.uat.wfu.edu',
+          pathBoundary: true,
+        },
+        { from: 'wordpress-prod-us', to: 'wordpress-uat-us' },
+      ]),
+      false,
+      {
+        outputPath: expect.stringMatching(
+          /migration-43-.*site-43-prod-to-uat\.sql$/
+        ),
+      }
+    );
+    // The backup records the journal, which lives under --work-dir
+    expect(mockBackupRecovery.createFullEnvironmentBackup).toHaveBeenCalledWith(
+      'uat',
+      expect.objectContaining({
+        sites: [43],
+        migrationJournal: expect.stringMatching(/migration-43-/),
+      })
+    );
+    expect(mockDatabaseOperations.importSqlFile).toHaveBeenCalledWith(
+      expect.stringMatching(/migration-43-.*site-43-prod-to-uat\.sql$/),
+      { host: 'db' },
+      false,
+      20
+    );
+    expect(mockS3Sync.syncWordPressFiles).toHaveBeenCalledWith(
+      '43',
+      'prod',
+      'uat',
+      { verbose: false }
+    );
+    expect(mockCacheFlush.flushCache).toHaveBeenCalledWith('uat', {
+      verbose: false,
+    });
+    const journal = journalOf();
+    expect(journal.status).toBe('completed');
+    expect(journal.backupId).toBe('backup-1');
+    expect(journal.steps.import.status).toBe('completed');
+    expect(existsSync(join(journal.workDir, 'site-43-prod-to-uat.sql'))).toBe(
+      false
+    );
+  });
+
+  it('should roll back the target when the import fails', async () => {
+    mockDatabaseOperations.importSqlFile.mockRejectedValue(
+      new Error('connection lost')
+    );
+    const rollbackSpy = jest
+      .spyOn(ErrorRecovery, 'performRollback')
+      .mockResolvedValue({ success: true });
+
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--work-dir',
+      workDir
+    );
+
+    expect(rollbackSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ backupId: 'backup-1', currentStep: 'import' }),
+      { skipConfirmation: true }
+    );
+    expect(mockS3Sync.syncWordPressFiles).not.toHaveBeenCalled();
+    const journal = journalOf();
+    expect(journal.status).toBe('rolled-back');
+    expect(journal.failedStep).toBe('import');
+    expect(journal.steps.transform.status).toBe('completed');
+    expect(existsSync(join(journal.workDir, 'site-43-prod-to-uat.sql'))).toBe(
+      true
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should skip rollback with --no-rollback', async () => {
+    mockDatabaseOperations.importSqlFile.mockRejectedValue(
+      new Error('connection lost')
+    );
+    const rollbackSpy = jest.spyOn(ErrorRecovery, 'performRollback');
+
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--no-rollback',
+      '--work-dir',
+      workDir
+    );
+
+    expect(rollbackSpy).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should resume from the last completed step', async () => {
+    const migrationDir = join(workDir, 'migration-43-previous');
+    mkdirSync(migrationDir);
+    writeFileSync(join(migrationDir, 'site-43-prod-to-uat.sql'), '-- dump');
+    const completed = { status: 'completed', startedAt: 'then' };
+    writeFileSync(
+      join(migrationDir, 'journal.json'),
+      JSON.stringify({
+        migrationId: 'migration-43-previous',
+        siteId: '43',
+        sourceEnv: 'prod',
+        targetEnv: 'uat',
+        workDir: migrationDir,
+        status: 'failed',
+        startedAt: 'then',
+        updatedAt: 'then',
+        backupId: 'backup-0',
+        steps: {
+          export: completed,
+          transform: completed,
+          backup: completed,
+          import: { status: 'failed', startedAt: 'then' },
+        },
+      })
+    );
+
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--skip-s3',
+      '--resume',
+      'migration-43-previous',
+      '--work-dir',
+      workDir
+    );
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(mockDatabaseOperations.exportSiteTables).not.toHaveBeenCalled();
+    expect(mockNetworkTables.transformSqlFile).not.toHaveBeenCalled();
+    expect(
+      mockBackupRecovery.createFullEnvironmentBackup
+    ).not.toHaveBeenCalled();
+    expect(mockDatabaseOperations.importSqlFile).toHaveBeenCalledWith(
+      join(migrationDir, 'site-43-prod-to-uat.sql'),
+      { host: 'db' },
+      false,
+      20
+    );
+    expect(mockS3Sync.syncWordPressFiles).not.toHaveBeenCalled();
+    expect(journalOf().status).toBe('completed');
+  });
+
+  it('should redo a transform that was cut short from the untouched export', async () => {
+    const migrationDir = join(workDir, 'migration-43-previous');
+    mkdirSync(migrationDir);
+    writeFileSync(join(migrationDir, 'site-43-prod-export.sql'), '-- dump');
+    // Left by a run stopped before the transform step was journaled
+    writeFileSync(join(migrationDir, 'site-43-prod-to-uat.sql'), '-- partial');
+    writeFileSync(
+      join(migrationDir, 'journal.json'),
+      JSON.stringify({
+        migrationId: 'migration-43-previous',
+        siteId: '43',
+        sourceEnv: 'prod',
+        targetEnv: 'uat',
+        workDir: migrationDir,
+        status: 'failed',
+        startedAt: 'then',
+        updatedAt: 'then',
+        steps: {
+          export: { status: 'completed', startedAt: 'then' },
+          transform: { status: 'running', startedAt: 'then' },
+        },
+      })
+    );
+
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--skip-s3',
+      '--resume',
+      'migration-43-previous',
+      '--work-dir',
+      workDir
+    );
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(mockDatabaseOperations.exportSiteTables).not.toHaveBeenCalled();
+    expect(mockNetworkTables.transformSqlFile).toHaveBeenCalledWith(
+      join(migrationDir, 'site-43-prod-export.sql'),
+      expect.any(Array),
+      false,
+      { outputPath: join(migrationDir, 'site-43-prod-to-uat.sql') }
+    );
+    expect(existsSync(join(migrationDir, 'site-43-prod-export.sql'))).toBe(
+      false
+    );
+    expect(journalOf().steps.transform.status).toBe('completed');
+  });
+
+  it('should refuse to resume a migration for a different site', async () => {
+    const migrationDir = join(workDir, 'migration-12-previous');
+    mkdirSync(migrationDir);
+    writeFileSync(
+      join(migrationDir, 'journal.json'),
+      JSON.stringify({
+        migrationId: 'migration-12-previous',
+        siteId: '12',
+        sourceEnv: 'prod',
+        targetEnv: 'uat',
+        workDir: migrationDir,
+        status: 'failed',
+        steps: {},
+      })
+    );
+
+    await run(
+      '43',
+      '--from',
+      'prod',
+      '--to',
+      'uat',
+      '--force',
+      '--resume',
+      'migration-12-previous',
+      '--work-dir',
+      workDir
+    );
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(mockDatabaseOperations.testConnection).not.toHaveBeenCalled();
+  });
+});
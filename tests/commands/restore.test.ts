@@ -0,0 +1,120 @@
+import { Command } from 'commander';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+jest.mock('../../src/utils/change-snapshot');
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+
+// restoreCommand is a commander singleton that retains parsed option state
+// across parses; re-require a fresh module graph per test to isolate it.
+let restoreCommand: any;
+let mockChangeSnapshot: any;
+let mockDatabaseOperations: any;
+let imported: string[];
+
+const fixturePath = join(__dirname, '../fixtures/site-43-dump.sql');
+
+describe('restore command', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const run = async (...args: string[]): Promise<void> => {
+    const program = new Command();
+    program.addCommand(restoreCommand);
+    await program.parseAsync(['node', 'test', 'restore', ...args]);
+  };
+
+  const output = (): string =>
+    logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.resetModules();
+    restoreCommand = require('../../src/commands/restore').restoreCommand;
+    mockChangeSnapshot =
+      require('../../src/utils/change-snapshot').ChangeSnapshot;
+    mockDatabaseOperations =
+      require('../../src/utils/database').DatabaseOperations;
+    const { Config } = require('../../src/utils/config');
+    const { DbConnectionManager } = require('../../src/utils/db-connection');
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    Config.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockDatabaseOperations.testConnection.mockResolvedValue(true);
+    imported = [];
+    mockDatabaseOperations.importSqlFile.mockImplementation(
+      async (file: string) => {
+        imported.push(readFileSync(file, 'utf8'));
+        return { success: true, tableCount: 1 };
+      }
+    );
+    DbConnectionManager.get.mockReturnValue({
+      query: jest
+        .fn()
+        .mockResolvedValue([
+          { Tables_in_wordpress: 'wp_blogs' },
+          { Tables_in_wordpress: 'wp_43_posts' },
+        ]),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('imports only the tables named with --tables', async () => {
+    await run(fixturePath, '--to', 'uat', '--tables', 'wp_43_posts', '-f');
+
+    expect(mockChangeSnapshot.beforeChange).toHaveBeenCalledWith(
+      'uat',
+      ['wp_43_posts'],
+      expect.anything()
+    );
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toContain('CREATE TABLE `wp_43_posts`');
+    expect(imported[0]).not.toContain('CREATE TABLE `wp_43_options`');
+  });
+
+  it('imports the file as it is without filters', async () => {
+    await run(fixturePath, '--to', 'uat', '-f');
+
+    expect(mockDatabaseOperations.importSqlFile).toHaveBeenCalledWith(
+      fixturePath,
+      undefined,
+      false,
+      20
+    );
+  });
+
+  it('previews the tables and what they would overwrite', async () => {
+    await run(fixturePath, '--to', 'uat', '--preview');
+
+    expect(output()).toMatch(/wp_43_options\s+3\s+.*new/);
+    expect(output()).toMatch(/wp_43_posts\s+1\s+.*overwrite/);
+    expect(output()).toContain('2 tables: 1 would be overwritten, 1 created');
+    expect(mockChangeSnapshot.beforeChange).not.toHaveBeenCalled();
+    expect(mockDatabaseOperations.importSqlFile).not.toHaveBeenCalled();
+  });
+
+  it('rejects filters naming tables the file does not have', async () => {
+    await run(
+      fixturePath,
+      '--to',
+      'uat',
+      '--exclude-tables',
+      'wp_43_postmeta',
+      '-f'
+    );
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Tables not in the SQL file: wp_43_postmeta')
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(mockDatabaseOperations.importSqlFile).not.toHaveBeenCalled();
+  });
+});
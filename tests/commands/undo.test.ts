@@ -0,0 +1,132 @@
+import { Command } from 'commander';
+
+jest.mock('../../src/utils/change-snapshot');
+jest.mock('inquirer', () => ({
+  __esModule: true,
+  default: { prompt: jest.fn() },
+}));
+
+// undoCommand is a commander singleton that retains parsed option state
+// across parses; re-require a fresh module graph per test to isolate it.
+let undoCommand: any;
+let mockChangeSnapshot: any;
+let mockPrompt: jest.Mock;
+
+const snapshot = (snapshotId: string, environment = 'dev') => ({
+  snapshotId,
+  timestamp: '2026-10-15T08:00:00.000Z',
+  environment,
+  command: 'wfuwp delete-site 43 dev --force',
+  user: 'deploy',
+  tables: ['wp_blogs', 'wp_43_posts'],
+  absentTables: [],
+  file: `/backups/snapshots/${snapshotId}/tables.sql`,
+  size: 2048,
+  checksum: 'abc',
+});
+
+describe('undo command', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const run = async (...args: string[]): Promise<void> => {
+    const program = new Command();
+    program.addCommand(undoCommand);
+    await program.parseAsync(['node', 'test', 'undo', ...args]);
+  };
+
+  const output = (): string =>
+    logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.resetModules();
+    undoCommand = require('../../src/commands/undo').undoCommand;
+    mockChangeSnapshot =
+      require('../../src/utils/change-snapshot').ChangeSnapshot;
+    mockPrompt = require('inquirer').default.prompt;
+
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation();
+
+    mockChangeSnapshot.loadSnapshot.mockReturnValue(snapshot('snapshot-1'));
+    mockChangeSnapshot.verifySnapshot.mockResolvedValue({
+      valid: true,
+      errors: [],
+    });
+    mockChangeSnapshot.beforeChange.mockResolvedValue(snapshot('snapshot-2'));
+    mockChangeSnapshot.undo.mockResolvedValue({
+      ...snapshot('snapshot-1'),
+      undoneAt: '2026-10-15T09:00:00.000Z',
+    });
+    mockPrompt.mockResolvedValue({ proceed: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists snapshots with the command and user that took them', async () => {
+    mockChangeSnapshot.listSnapshots.mockReturnValue([
+      snapshot('snapshot-2', 'uat'),
+      snapshot('snapshot-1'),
+    ]);
+
+    await run('--list', '--env', 'dev');
+
+    expect(output()).toContain('snapshot-1');
+    expect(output()).not.toContain('snapshot-2');
+    expect(output()).toContain('wfuwp delete-site 43 dev --force');
+    expect(output()).toContain('by deploy');
+  });
+
+  it('snapshots the current tables, then undoes', async () => {
+    await run('snapshot-1');
+
+    expect(mockPrompt).toHaveBeenCalled();
+    expect(mockChangeSnapshot.beforeChange).toHaveBeenCalledWith(
+      'dev',
+      ['wp_blogs', 'wp_43_posts'],
+      expect.objectContaining({ backup: true })
+    );
+    expect(mockChangeSnapshot.undo).toHaveBeenCalledWith('snapshot-1', {
+      workDir: undefined,
+      timeout: 20,
+    });
+    expect(output()).toContain('Restored 2 tables in dev');
+  });
+
+  it('does nothing when the prompt is declined', async () => {
+    mockPrompt.mockResolvedValue({ proceed: false });
+
+    await run('snapshot-1');
+
+    expect(mockChangeSnapshot.beforeChange).not.toHaveBeenCalled();
+    expect(mockChangeSnapshot.undo).not.toHaveBeenCalled();
+  });
+
+  it('refuses a snapshot that fails verification', async () => {
+    mockChangeSnapshot.verifySnapshot.mockResolvedValue({
+      valid: false,
+      errors: ['Checksum mismatch for tables.sql'],
+    });
+
+    await run('snapshot-1', '--force');
+
+    expect(mockChangeSnapshot.undo).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Checksum mismatch for tables.sql')
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('needs a snapshot ID or --list', async () => {
+    await run();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Give a snapshot ID')
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
@@ -51,6 +51,92 @@ describe('Config', () => {
       expect(Config.get('env.dev.host')).toBeUndefined();
     });
 
+    it('sets and gets the database backend', () => {
+      expect(Config.getDatabaseBackend()).toBe('native');
+      Config.set('database.backend', 'cli');
+      expect(Config.get('database.backend')).toBe('cli');
+      expect(Config.getDatabaseBackend()).toBe('cli');
+    });
+
+    it('rejects an unknown database backend', () => {
+      expect(() => Config.set('database.backend', 'odbc')).toThrow(
+        'Invalid database backend'
+      );
+    });
+
+    it('builds the backup retention policy from backup keys', () => {
+      expect(Config.getBackupRetention()).toEqual({});
+      Config.set('backup.keepLast', '5');
+      Config.set('backup.retentionDays', '30');
+      Config.set('backup.maxTotalSize', '20GB');
+      expect(Config.get('backup.keepLast')).toBe('5');
+      expect(Config.getBackupRetention()).toEqual({
+        keepLast: 5,
+        maxAgeDays: 30,
+        maxTotalSize: 20 * 1024 ** 3,
+      });
+    });
+
+    it('rejects invalid retention values', () => {
+      expect(() => Config.set('backup.keepLast', '0')).toThrow(
+        'keepLast must be a positive whole number'
+      );
+      expect(() => Config.set('backup.maxTotalSize', 'lots')).toThrow(
+        'maxTotalSize must be a size'
+      );
+    });
+
+    it('stores offsite backup settings', () => {
+      expect(Config.isOffsiteBackupEnabled()).toBe(false);
+      expect(Config.getOffsiteBackupPrefix()).toBe('db-backups');
+      Config.set('backup.offsite', 'TRUE');
+      Config.set('backup.offsitePrefix', '/wfuwp/db-backups/');
+      Config.set('s3.endpoint', 'http://localhost:9000');
+      expect(Config.isOffsiteBackupEnabled()).toBe(true);
+      expect(Config.getOffsiteBackupPrefix()).toBe('wfuwp/db-backups');
+      expect(Config.getS3Config().endpoint).toBe('http://localhost:9000');
+      expect(() => Config.set('backup.offsite', 'yes')).toThrow(
+        "offsite must be either 'true' or 'false'"
+      );
+    });
+
+    it('stores backup compression and encryption', () => {
+      expect(Config.getBackupCompression()).toBe('none');
+      expect(Config.getBackupEncryption()).toBe('none');
+      Config.set('backup.compression', 'zstd');
+      Config.set('backup.encryption', 'keychain');
+      expect(Config.getBackupCompression()).toBe('zstd');
+      expect(Config.getBackupEncryption()).toBe('keychain');
+      expect(() => Config.set('backup.compression', 'xz')).toThrow(
+        'Invalid backup compression'
+      );
+      expect(() => Config.set('backup.encryption', 'aes')).toThrow(
+        'Invalid backup encryption'
+      );
+    });
+
+    it('stores whole-bucket sync confirmation thresholds', () => {
+      expect(Config.getBucketSyncThresholds()).toEqual({
+        overwrites: 1000,
+        deletes: 100,
+        bytes: 10 * 1024 ** 3,
+      });
+      Config.set('s3.confirmDeletes', '0');
+      Config.set('s3.confirmSize', '500MB');
+      expect(Config.get('s3.confirmDeletes')).toBe('0');
+      expect(Config.getBucketSyncThresholds()).toEqual({
+        overwrites: 1000,
+        deletes: 0,
+        bytes: 500 * 1024 ** 2,
+      });
+      expect(() => Config.set('s3.confirmOverwrites', 'many')).toThrow(
+        'confirmOverwrites must be a whole number'
+      );
+      expect(() => Config.set('s3.confirmSize', 'big')).toThrow(
+        'confirmSize must be a size'
+      );
+    });
+
     it('throws for an invalid section', () => {
       expect(() => Config.set('invalid.key', 'value')).toThrow();
       expect(() => Config.get('invalid.key')).toThrow();
@@ -0,0 +1,50 @@
+-- MySQL dump 10.13  Distrib 8.0.36, for Linux (x86_64)
+--
+-- Host: db.wfu.edu    Database: wordpress
+-- ------------------------------------------------------
+-- Server version	8.0.36
+
+/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;
+/*!40101 SET NAMES utf8mb4 */;
+
+--
+-- Table structure for table `wp_43_options`
+--
+
+DROP TABLE IF EXISTS `wp_43_options`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+CREATE TABLE `wp_43_options` (
+  `option_id` bigint unsigned NOT NULL AUTO_INCREMENT,
+  `option_name` varchar(191) NOT NULL DEFAULT '',
+  `option_value` longtext NOT NULL,
+  PRIMARY KEY (`option_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Dumping data for table `wp_43_options`
+--
+
+LOCK TABLES `wp_43_options` WRITE;
+/*!40000 ALTER TABLE `wp_43_options` DISABLE KEYS */;
+INSERT INTO `wp_43_options` VALUES (1,'siteurl','https://www.wfu.edu/magazine'),(2,'wp_43_user_roles','a:0:{}'),(3,'widget_text','a:2:{s:7:\"siteurl\";s:28:\"https://www.wfu.edu/magazine\";s:4:\"note\";s:27:\"it\'s; done\n-- not a comment\";}');
+/*!40000 ALTER TABLE `wp_43_options` ENABLE KEYS */;
+UNLOCK TABLES;
+
+--
+-- Table structure for table `wp_43_posts`
+--
+
+DROP TABLE IF EXISTS `wp_43_posts`;
+CREATE TABLE `wp_43_posts` (
+  `ID` bigint unsigned NOT NULL AUTO_INCREMENT,
+  `post_content` longtext NOT NULL,
+  PRIMARY KEY (`ID`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+LOCK TABLES `wp_43_posts` WRITE;
+INSERT INTO `wp_43_posts` VALUES (1,'<a href=\"https://www.wfu.edu/magazine/\">Café</a>');
+UNLOCK TABLES;
+/*!40101 SET CHARACTER_SET_CLIENT=@OLD_CHARACTER_SET_CLIENT */;
+
+-- Dump completed on 2026-05-01 10:00:00
@@ -35,6 +35,20 @@ describe('wfuwp syncs3 command', () => {
     }).toThrow();
   });
 
+  it('should reject --plan and --save-plan for a single site', () => {
+    for (const option of ['--plan', '--save-plan']) {
+      expect(() => {
+        execSync(`node ${CLI_PATH} syncs3 43 prod uat ${option} plan.json`, { stdio: 'pipe' });
+      }).toThrow(/--plan and --save-plan are for whole-bucket syncs/);
+    }
+  });
+
+  it('should only save a whole-bucket plan to the file given', () => {
+    const result = execSync(`node ${CLI_PATH} syncs3 --help`, { encoding: 'utf8' });
+    expect(result).toContain('save the plan to this file');
+    expect(result).not.toContain('s3-sync-plan-');
+  });
+
   it('should accept valid environments', () => {
     const validEnvs = ['dev', 'uat', 'pprd', 'prod'];
     validEnvs.forEach(env => {
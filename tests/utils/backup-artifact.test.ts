@@ -0,0 +1,175 @@
+import { spawnSync } from 'child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BACKUP_PASSPHRASE_ENV,
+  BackupArtifact,
+} from '../../src/utils/backup-artifact';
+
+const hasZstd = spawnSync('zstd', ['--version']).status === 0;
+
+const dump = [
+  'CREATE TABLE `wp_43_users` (`ID` int, `user_email` varchar(100));',
+  ...Array.from(
+    { length: 200 },
+    (_, i) => `INSERT INTO \`wp_43_users\` VALUES (${i}, 'user${i}@wfu.edu');`
+  ),
+].join('\n');
+
+describe('BackupArtifact', () => {
+  let workDir: string;
+  let plainPath: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'wfuwp-artifact-'));
+    plainPath = join(workDir, 'site-43-prod.sql');
+    writeFileSync(plainPath, dump);
+    process.env[BACKUP_PASSPHRASE_ENV] = 'correct horse battery staple';
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+    delete process.env[BACKUP_PASSPHRASE_ENV];
+  });
+
+  const roundTrip = async (
+    scheme: ReturnType<typeof BackupArtifact.createScheme>
+  ): Promise<string> => {
+    const key = scheme.encryption
+      ? BackupArtifact.deriveKey(scheme.encryption)
+      : undefined;
+    const storedPath = await BackupArtifact.encode(plainPath, scheme, key);
+    const restoredPath = join(workDir, 'restored.sql');
+    await BackupArtifact.decode(storedPath, restoredPath, scheme, key);
+    expect(readFileSync(restoredPath, 'utf8')).toBe(dump);
+    return storedPath;
+  };
+
+  it('leaves files alone under the plain scheme', async () => {
+    const scheme = BackupArtifact.createScheme();
+
+    expect(BackupArtifact.isPlain(scheme)).toBe(true);
+    expect(await BackupArtifact.encode(plainPath, scheme)).toBe(plainPath);
+    expect(readFileSync(plainPath, 'utf8')).toBe(dump);
+  });
+
+  it('gzips a dump, replacing the plain file', async () => {
+    const storedPath = await roundTrip(BackupArtifact.createScheme('gzip'));
+
+    expect(storedPath).toBe(`${plainPath}.gz`);
+    expect(existsSync(plainPath)).toBe(false);
+    expect(statSync(storedPath).size).toBeLessThan(dump.length);
+    expect(
+      BackupArtifact.checkFormat(storedPath, { compression: 'gzip' })
+    ).toBeNull();
+  });
+
+  (hasZstd ? it : it.skip)('compresses with zstd', async () => {
+    const storedPath = await roundTrip(BackupArtifact.createScheme('zstd'));
+
+    expect(storedPath).toBe(`${plainPath}.zst`);
+    expect(
+      BackupArtifact.checkFormat(storedPath, { compression: 'zstd' })
+    ).toBeNull();
+  });
+
+  it('encrypts so the contents are unreadable without the passphrase', async () => {
+    const scheme = BackupArtifact.createScheme('gzip', 'passphrase');
+    const storedPath = await roundTrip(scheme);
+
+    expect(storedPath).toBe(`${plainPath}.gz.enc`);
+    expect(scheme.encryption).toEqual({
+      algorithm: 'aes-256-gcm',
+      keySource: 'passphrase',
+      salt: expect.stringMatching(/^[0-9a-f]{32}$/),
+    });
+    expect(readFileSync(storedPath, 'latin1')).not.toContain('wfu.edu');
+    expect(BackupArtifact.checkFormat(storedPath, scheme)).toBeNull();
+  });
+
+  it('round-trips an empty file', async () => {
+    writeFileSync(plainPath, '');
+    const scheme = BackupArtifact.createScheme('none', 'passphrase');
+    const key = BackupArtifact.deriveKey(scheme.encryption!);
+    const storedPath = await BackupArtifact.encode(plainPath, scheme, key);
+    const restoredPath = join(workDir, 'restored.sql');
+
+    await BackupArtifact.decode(storedPath, restoredPath, scheme, key);
+
+    expect(readFileSync(restoredPath, 'utf8')).toBe('');
+  });
+
+  it('refuses to decrypt with the wrong passphrase and leaves no output', async () => {
+    const scheme = BackupArtifact.createScheme('none', 'passphrase');
+    const storedPath = await BackupArtifact.encode(
+      plainPath,
+      scheme,
+      BackupArtifact.deriveKey(scheme.encryption!)
+    );
+    process.env[BACKUP_PASSPHRASE_ENV] = 'wrong';
+    const restoredPath = join(workDir, 'restored.sql');
+
+    await expect(
+      BackupArtifact.decode(
+        storedPath,
+        restoredPath,
+        scheme,
+        BackupArtifact.deriveKey(scheme.encryption!)
+      )
+    ).rejects.toThrow(
+      'Could not decrypt site-43-prod.sql.enc: wrong passphrase or the file has been modified'
+    );
+    expect(existsSync(restoredPath)).toBe(false);
+  });
+
+  it('detects a modified encrypted file', async () => {
+    const scheme = BackupArtifact.createScheme('gzip', 'passphrase');
+    const key = BackupArtifact.deriveKey(scheme.encryption!);
+    const storedPath = await BackupArtifact.encode(plainPath, scheme, key);
+    const bytes = readFileSync(storedPath);
+    bytes[bytes.length - 20] ^= 0xff;
+    writeFileSync(storedPath, bytes);
+
+    await expect(
+      BackupArtifact.decode(storedPath, join(workDir, 'out.sql'), scheme, key)
+    ).rejects.toThrow('Could not decrypt');
+  });
+
+  it('needs the passphrase in the environment', () => {
+    delete process.env[BACKUP_PASSPHRASE_ENV];
+
+    expect(() =>
+      BackupArtifact.deriveKey(
+        BackupArtifact.createScheme('gzip', 'passphrase').encryption!
+      )
+    ).toThrow(`set ${BACKUP_PASSPHRASE_ENV}`);
+  });
+
+  it('flags files that do not match the recorded scheme', () => {
+    expect(
+      BackupArtifact.checkFormat(plainPath, {
+        compression: 'none',
+        encryption: BackupArtifact.createScheme('none', 'passphrase')
+          .encryption,
+      })
+    ).toBe('site-43-prod.sql is not an encrypted backup file');
+    expect(BackupArtifact.checkFormat(plainPath, { compression: 'gzip' })).toBe(
+      'site-43-prod.sql is not gzip-compressed'
+    );
+    expect(
+      BackupArtifact.checkFormat(plainPath, { compression: 'none' })
+    ).toBeNull();
+  });
+
+  it('treats metadata without a scheme as plain', () => {
+    expect(BackupArtifact.getScheme({})).toEqual({ compression: 'none' });
+  });
+});
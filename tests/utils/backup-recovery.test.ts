@@ -6,10 +6,27 @@ import {
   readdirSync,
   writeFileSync,
 } from 'fs';
-import { BackupRecovery, BackupMetadata } from '../../src/utils/backup-recovery';
+import { homedir } from 'os';
+import { join } from 'path';
+import { BackupArtifact } from '../../src/utils/backup-artifact';
+import {
+  BackupRecovery,
+  BackupMetadata,
+} from '../../src/utils/backup-recovery';
+import {
+  ChangeSnapshot,
+  ChangeSnapshotMetadata,
+} from '../../src/utils/change-snapshot';
+import { getDirectorySize } from '../../src/utils/cleanup-utils';
+import { Config } from '../../src/utils/config';
+import { MigrationJournal } from '../../src/utils/migration-journal';
+import { NetworkTableOperations } from '../../src/utils/network-tables';
 
 jest.mock('child_process');
 jest.mock('fs');
+jest.mock('../../src/utils/cleanup-utils');
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/migration-journal');
 jest.mock('../../src/utils/site-enumerator');
 jest.mock('../../src/utils/network-tables');
 
@@ -23,8 +40,17 @@ const mockReaddirSync = readdirSync as jest.MockedFunction<typeof readdirSync>;
 const mockWriteFileSync = writeFileSync as jest.MockedFunction<
   typeof writeFileSync
 >;
+const mockGetDirectorySize = getDirectorySize as jest.MockedFunction<
+  typeof getDirectorySize
+>;
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockMigrationJournal = MigrationJournal as jest.Mocked<
+  typeof MigrationJournal
+>;
 
-function sampleMetadata(overrides: Partial<BackupMetadata> = {}): BackupMetadata {
+function sampleMetadata(
+  overrides: Partial<BackupMetadata> = {}
+): BackupMetadata {
   return {
     timestamp: '2026-05-19T12:00:00.000Z',
     environment: 'prod',
@@ -45,11 +71,20 @@ function sampleMetadata(overrides: Partial<BackupMetadata> = {}): BackupMetadata
 describe('BackupRecovery', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockConfig.getBackupPath.mockReturnValue(
+      join(homedir(), '.wfuwp', 'backups')
+    );
+    mockConfig.getBackupRetention.mockReturnValue({});
+    mockConfig.getBackupCompression.mockReturnValue('none');
+    mockConfig.getBackupEncryption.mockReturnValue('none');
+    mockMigrationJournal.listMigrations.mockReturnValue([]);
   });
 
   describe('generateBackupId', () => {
     it('produces a backup- prefixed id', () => {
-      expect(BackupRecovery.generateBackupId()).toMatch(/^backup-[\dT-]+-[a-z0-9]+$/);
+      expect(BackupRecovery.generateBackupId()).toMatch(
+        /^backup-[\dT-]+-[a-z0-9]+$/
+      );
     });
 
     it('produces distinct ids on repeated calls', () => {
@@ -82,19 +117,29 @@ describe('BackupRecovery', () => {
         /\.wfuwp[/\\]backups$/
       );
     });
+
+    it('uses backup.localPath, expanding ~', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockConfig.getBackupPath.mockReturnValue('~/db-backups');
+      expect(BackupRecovery.getBackupDirectory()).toBe(
+        join(homedir(), 'db-backups')
+      );
+    });
   });
 
   describe('verifyBackupIntegrity', () => {
-    it('is valid when all referenced files exist and no checksums', () => {
+    it('is valid when all referenced files exist and no checksums', async () => {
       mockExistsSync.mockReturnValue(true);
-      const result = BackupRecovery.verifyBackupIntegrity(sampleMetadata());
+      const result =
+        await BackupRecovery.verifyBackupIntegrity(sampleMetadata());
       expect(result.valid).toBe(true);
       expect(result.errors).toEqual([]);
     });
 
-    it('reports missing metadata and site files', () => {
+    it('reports missing metadata and site files', async () => {
       mockExistsSync.mockReturnValue(false);
-      const result = BackupRecovery.verifyBackupIntegrity(sampleMetadata());
+      const result =
+        await BackupRecovery.verifyBackupIntegrity(sampleMetadata());
       expect(result.valid).toBe(false);
       expect(result.errors).toEqual(
         expect.arrayContaining([
@@ -105,14 +150,18 @@ describe('BackupRecovery', () => {
       );
     });
 
-    it('flags a checksum mismatch', () => {
+    it('flags a checksum mismatch', async () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue('deadbeef  /b/site-1.sql' as any);
-      const result = BackupRecovery.verifyBackupIntegrity(
+      const checksum = jest
+        .spyOn(BackupArtifact, 'checksum')
+        .mockResolvedValue('deadbeef');
+      const result = await BackupRecovery.verifyBackupIntegrity(
         sampleMetadata({ checksums: { 'site-1.sql': 'expected123' } })
       );
       expect(result.valid).toBe(false);
       expect(result.errors[0]).toContain('Checksum mismatch for site-1.sql');
+      expect(checksum).toHaveBeenCalledWith('/b/site-1.sql');
+      checksum.mockRestore();
     });
   });
 
@@ -126,8 +175,12 @@ describe('BackupRecovery', () => {
       ] as any);
       mockReadFileSync.mockImplementation((p: any) =>
         p.includes('backup-old')
-          ? JSON.stringify(sampleMetadata({ timestamp: '2026-01-01T00:00:00.000Z' }))
-          : JSON.stringify(sampleMetadata({ timestamp: '2026-05-01T00:00:00.000Z' }))
+          ? JSON.stringify(
+              sampleMetadata({ timestamp: '2026-01-01T00:00:00.000Z' })
+            )
+          : JSON.stringify(
+              sampleMetadata({ timestamp: '2026-05-01T00:00:00.000Z' })
+            )
       );
       const list = BackupRecovery.listAvailableBackups('/tmp/b');
       expect(list).toHaveLength(2);
@@ -148,17 +201,17 @@ describe('BackupRecovery', () => {
   describe('deleteBackup', () => {
     it('returns false when the backup directory does not exist', async () => {
       mockExistsSync.mockReturnValue(false);
-      await expect(BackupRecovery.deleteBackup('backup-x', '/tmp/b')).resolves.toBe(
-        false
-      );
+      await expect(
+        BackupRecovery.deleteBackup('backup-x', '/tmp/b')
+      ).resolves.toBe(false);
     });
 
     it('removes the directory and returns true on success', async () => {
       mockExistsSync.mockReturnValue(true);
       mockExecSync.mockReturnValue('' as any);
-      await expect(BackupRecovery.deleteBackup('backup-x', '/tmp/b')).resolves.toBe(
-        true
-      );
+      await expect(
+        BackupRecovery.deleteBackup('backup-x', '/tmp/b')
+      ).resolves.toBe(true);
       expect(mockExecSync).toHaveBeenCalledWith(
         expect.stringContaining('rm -rf')
       );
@@ -169,9 +222,9 @@ describe('BackupRecovery', () => {
       mockExecSync.mockImplementation(() => {
         throw new Error('rm failed');
       });
-      await expect(BackupRecovery.deleteBackup('backup-x', '/tmp/b')).resolves.toBe(
-        false
-      );
+      await expect(
+        BackupRecovery.deleteBackup('backup-x', '/tmp/b')
+      ).resolves.toBe(false);
     });
   });
 
@@ -191,5 +244,260 @@ describe('BackupRecovery', () => {
         result.backupId
       );
     });
+
+    it('prunes with the configured retention policy after a successful backup', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockExecSync.mockReturnValue('' as any);
+      mockConfig.getBackupRetention.mockReturnValue({ keepLast: 3 });
+      const prune = jest
+        .spyOn(BackupRecovery, 'pruneBackups')
+        .mockResolvedValue({
+          remove: [],
+          keep: [],
+          removeSnapshots: [],
+          keepSnapshots: [],
+          reclaimedBytes: 0,
+          dryRun: false,
+          errors: [],
+        });
+
+      await BackupRecovery.createFullEnvironmentBackup('uat', {
+        workDir: '/tmp/b',
+        sites: [],
+        skipNetworkTables: true,
+      });
+
+      expect(prune).toHaveBeenCalledWith(
+        { keepLast: 3 },
+        { workDir: '/tmp/b' }
+      );
+      prune.mockRestore();
+    });
+
+    it('records the compression and encryption scheme in the metadata', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockConfig.getBackupCompression.mockReturnValue('zstd');
+      mockConfig.getBackupEncryption.mockReturnValue('passphrase');
+      process.env.WFUWP_BACKUP_PASSPHRASE = 'secret';
+
+      const result = await BackupRecovery.createFullEnvironmentBackup('prod', {
+        workDir: '/tmp/b',
+        sites: [],
+        skipNetworkTables: true,
+      });
+
+      delete process.env.WFUWP_BACKUP_PASSPHRASE;
+      expect(result.metadata.compression).toBe('zstd');
+      expect(result.metadata.encryption).toEqual({
+        algorithm: 'aes-256-gcm',
+        keySource: 'passphrase',
+        salt: expect.stringMatching(/^[0-9a-f]{32}$/),
+      });
+    });
+
+    it('fails before dumping anything when the encryption key is unavailable', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockConfig.getBackupEncryption.mockReturnValue('passphrase');
+      delete process.env.WFUWP_BACKUP_PASSPHRASE;
+
+      const result = await BackupRecovery.createFullEnvironmentBackup('prod', {
+        workDir: '/tmp/b',
+        sites: [1],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('set WFUWP_BACKUP_PASSPHRASE');
+      expect(NetworkTableOperations.backupNetworkTables).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreFromBackup', () => {
+    it('refuses an encrypted backup when the passphrase is unavailable', async () => {
+      delete process.env.WFUWP_BACKUP_PASSPHRASE;
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify(
+          sampleMetadata({
+            compression: 'gzip',
+            encryption: {
+              algorithm: 'aes-256-gcm',
+              keySource: 'passphrase',
+              salt: '00'.repeat(16),
+            },
+          })
+        )
+      );
+
+      const result = await BackupRecovery.restoreFromBackup(
+        'backup-2026-05-19T12-00-00-abc123',
+        'prod',
+        { quiet: true }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.stringContaining('Cannot decrypt backup')
+      );
+      expect(NetworkTableOperations.importNetworkTables).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('planPrune', () => {
+    const now = new Date('2026-10-18T12:00:00.000Z');
+    const backup = (
+      backupId: string,
+      daysOld: number,
+      overrides: Partial<BackupMetadata> = {}
+    ): BackupMetadata =>
+      sampleMetadata({
+        backupId,
+        timestamp: new Date(
+          now.getTime() - daysOld * 24 * 60 * 60 * 1000
+        ).toISOString(),
+        environment: 'uat',
+        networkTables: [],
+        sites: [43],
+        ...overrides,
+      });
+
+    // Newest first, as listAvailableBackups returns them
+    const backups = [
+      backup('uat-43-a', 1),
+      backup('uat-43-b', 5),
+      backup('uat-43-c', 40),
+      backup('prod-all', 60, {
+        environment: 'prod',
+        networkTables: ['wp_blogs'],
+        sites: [1, 43],
+      }),
+      backup('uat-43-d', 90),
+    ];
+
+    beforeEach(() => {
+      mockExistsSync.mockReturnValue(true);
+      jest
+        .spyOn(BackupRecovery, 'listAvailableBackups')
+        .mockReturnValue(backups);
+      jest.spyOn(ChangeSnapshot, 'listSnapshots').mockReturnValue([]);
+      mockGetDirectorySize.mockReturnValue(1024 * 1024);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const removedIds = (plan: { remove: Array<{ backup: BackupMetadata }> }) =>
+      plan.remove.map((candidate) => candidate.backup.backupId);
+
+    it('keeps the newest N backups per environment and site set', () => {
+      const plan = BackupRecovery.planPrune({ keepLast: 2 }, '/tmp/b', now);
+
+      expect(removedIds(plan)).toEqual(['uat-43-c', 'uat-43-d']);
+      expect(plan.remove[0].reason).toBe('more than 2 backups for uat site 43');
+      expect(plan.reclaimedBytes).toBe(2 * 1024 * 1024);
+    });
+
+    it('removes backups past the maximum age but never the newest of a group', () => {
+      const plan = BackupRecovery.planPrune({ maxAgeDays: 30 }, '/tmp/b', now);
+
+      expect(removedIds(plan)).toEqual(['uat-43-c', 'uat-43-d']);
+      expect(plan.keep.map((kept) => kept.backupId)).toContain('prod-all');
+    });
+
+    it('drops the oldest backups until the total fits', () => {
+      const plan = BackupRecovery.planPrune(
+        { maxTotalSize: 3 * 1024 * 1024 },
+        '/tmp/b',
+        now
+      );
+
+      expect(removedIds(plan)).toEqual(['uat-43-c', 'uat-43-d']);
+      expect(plan.remove[0].reason).toBe('total size over 3.0 MB');
+    });
+
+    it('keeps backups an unfinished migration can roll back to', () => {
+      mockMigrationJournal.listMigrations.mockReturnValue([
+        { backupId: 'uat-43-d', status: 'failed' },
+        { backupId: 'uat-43-c', status: 'completed' },
+      ] as any);
+
+      const plan = BackupRecovery.planPrune({ keepLast: 1 }, '/tmp/b', now);
+
+      expect(removedIds(plan)).toEqual(['uat-43-b', 'uat-43-c']);
+    });
+
+    it('reads the journals backups record for migrations run with --work-dir', () => {
+      mockMigrationJournal.listMigrations.mockReturnValue([]);
+      jest
+        .spyOn(BackupRecovery, 'listAvailableBackups')
+        .mockReturnValue([
+          ...backups.slice(0, 2),
+          { ...backups[2], migrationJournal: '/work/migration-43-x' },
+          ...backups.slice(3),
+        ]);
+      mockMigrationJournal.read.mockReturnValue({
+        backupId: 'uat-43-c',
+        status: 'running',
+      } as any);
+
+      const plan = BackupRecovery.planPrune({ keepLast: 1 }, '/tmp/b', now);
+
+      expect(mockMigrationJournal.read).toHaveBeenCalledWith(
+        '/work/migration-43-x'
+      );
+      expect(removedIds(plan)).toEqual(['uat-43-b', 'uat-43-d']);
+    });
+
+    it('prunes change snapshots by the same rules and size budget', () => {
+      const snapshot = (snapshotId: string, daysOld: number) =>
+        ({
+          snapshotId,
+          timestamp: new Date(
+            now.getTime() - daysOld * 24 * 60 * 60 * 1000
+          ).toISOString(),
+          environment: 'uat',
+          tables: ['wp_43_posts'],
+          absentTables: [],
+        }) as unknown as ChangeSnapshotMetadata;
+      jest
+        .spyOn(ChangeSnapshot, 'listSnapshots')
+        .mockReturnValue([
+          snapshot('snapshot-new', 2),
+          snapshot('snapshot-old', 70),
+        ]);
+
+      const byCount = BackupRecovery.planPrune({ keepLast: 1 }, '/tmp/b', now);
+      expect(
+        byCount.removeSnapshots.map((candidate) => candidate.reason)
+      ).toEqual(['more than 1 uat snapshots']);
+      expect(byCount.keepSnapshots.map((kept) => kept.snapshotId)).toEqual([
+        'snapshot-new',
+      ]);
+
+      // Seven 1MB entries against a 5MB budget: the two oldest go, and the
+      // old snapshot is older than uat-43-d
+      const bySize = BackupRecovery.planPrune(
+        { maxTotalSize: 5 * 1024 * 1024 },
+        '/tmp/b',
+        now
+      );
+      expect(removedIds(bySize)).toEqual(['uat-43-d']);
+      expect(
+        bySize.removeSnapshots.map((candidate) => candidate.snapshot.snapshotId)
+      ).toEqual(['snapshot-old']);
+      expect(bySize.reclaimedBytes).toBe(2 * 1024 * 1024);
+    });
+
+    it('deletes nothing on a dry run', async () => {
+      const result = await BackupRecovery.pruneBackups(
+        { keepLast: 1 },
+        { dryRun: true, workDir: '/tmp/b' }
+      );
+
+      expect(result.remove).toHaveLength(3);
+      expect(mockExecSync).not.toHaveBeenCalledWith(
+        expect.stringContaining('rm -rf')
+      );
+    });
   });
 });
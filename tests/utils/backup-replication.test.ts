@@ -0,0 +1,260 @@
+import { createHash } from 'crypto';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { BackupMetadata } from '../../src/utils/backup-recovery';
+import { BackupReplication } from '../../src/utils/backup-replication';
+import { Config } from '../../src/utils/config';
+import {
+  S3Storage,
+  S3StorageError,
+  S3StorageManager,
+} from '../../src/utils/s3-storage';
+
+jest.mock('../../src/utils/config');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+
+const sha256 = (content: string): string =>
+  createHash('sha256').update(content).digest('hex');
+
+function listFiles(directory: string): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+  return readdirSync(directory).flatMap((entry) => {
+    const entryPath = join(directory, entry);
+    return statSync(entryPath).isDirectory()
+      ? listFiles(entryPath)
+      : [entryPath];
+  });
+}
+
+// Local S3 stand-in where s3://bucket/key lives at <root>/bucket/key; returns
+// the uploaded locations in order
+function useFakeS3(root: string): string[] {
+  const uploads: string[] = [];
+  const toPath = (bucket: string, key: string): string =>
+    join(root, bucket, key);
+  const read = (bucket: string, key: string): string => {
+    if (!existsSync(toPath(bucket, key))) {
+      throw new S3StorageError(
+        `Read s3://${bucket}/${key} failed: NoSuchKey`,
+        'NoSuchKey'
+      );
+    }
+    return toPath(bucket, key);
+  };
+
+  const storage = {
+    backend: 'cli',
+    listObjects: async (bucket: string, prefix: string) =>
+      listFiles(join(root, bucket))
+        .map((file) => relative(join(root, bucket), file))
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => ({ key, size: 0, etag: '', lastModified: '' })),
+    getObjectText: async (bucket: string, key: string) =>
+      readFileSync(read(bucket, key), 'utf8'),
+    uploadFile: async (filePath: string, bucket: string, key: string) => {
+      uploads.push(`s3://${bucket}/${key}`);
+      mkdirSync(dirname(toPath(bucket, key)), { recursive: true });
+      copyFileSync(filePath, toPath(bucket, key));
+    },
+    downloadFile: async (bucket: string, key: string, filePath: string) => {
+      copyFileSync(read(bucket, key), filePath);
+    },
+  } as unknown as S3Storage;
+  jest
+    .spyOn(S3StorageManager, 'getForConfiguredBucket')
+    .mockReturnValue(storage);
+
+  return uploads;
+}
+
+describe('BackupReplication', () => {
+  const backupId = 'backup-2026-10-15T08-00-00-ab12cd';
+  let root: string;
+  let s3Root: string;
+  let workDir: string;
+  let uploads: string[];
+
+  function createBackup(
+    id: string,
+    timestamp: string,
+    checksums = true
+  ): BackupMetadata {
+    const backupDir = join(workDir, id);
+    mkdirSync(backupDir, { recursive: true });
+    const files = {
+      'network-tables-prod.sql': 'CREATE TABLE wp_blogs (blog_id int);',
+      'site-43-prod.sql': 'CREATE TABLE wp_43_posts (ID int);',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(join(backupDir, name), content);
+    }
+
+    const metadata: BackupMetadata = {
+      timestamp,
+      environment: 'prod',
+      backupId: id,
+      networkTables: ['wp_blogs'],
+      sites: [43],
+      totalSize: 70,
+      backupPaths: {
+        networkTablesFile: join(backupDir, 'network-tables-prod.sql'),
+        sitesFiles: { 43: join(backupDir, 'site-43-prod.sql') },
+        metadataFile: join(backupDir, 'metadata.json'),
+      },
+      checksums: checksums
+        ? Object.fromEntries(
+            Object.entries(files).map(([name, content]) => [
+              name,
+              sha256(content),
+            ])
+          )
+        : {},
+    };
+    writeFileSync(metadata.backupPaths.metadataFile, JSON.stringify(metadata));
+    return metadata;
+  }
+
+  const remoteFile = (id: string, name: string): string =>
+    join(s3Root, 'wfu-backups', 'db-backups', id, name);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    root = mkdtempSync(join(tmpdir(), 'wfuwp-replication-'));
+    s3Root = join(root, 's3');
+    workDir = join(root, 'backups');
+    mkdirSync(workDir, { recursive: true });
+    uploads = useFakeS3(s3Root);
+
+    mockConfig.getS3Config.mockReturnValue({
+      bucket: 'wfu-backups',
+      endpoint: 'http://localhost:9000',
+    });
+    mockConfig.hasRequiredS3Config.mockReturnValue(true);
+    mockConfig.getOffsiteBackupPrefix.mockReturnValue('db-backups');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('uploads the SQL files before metadata.json and verifies the copy', async () => {
+    createBackup(backupId, '2026-10-15T08:00:00.000Z');
+
+    const result = await BackupReplication.uploadBackup(backupId, {
+      workDir,
+    });
+
+    expect(result).toEqual({
+      backupId,
+      location: `s3://wfu-backups/db-backups/${backupId}/`,
+      files: ['network-tables-prod.sql', 'site-43-prod.sql', 'metadata.json'],
+      verified: true,
+    });
+    expect(uploads).toEqual([
+      `s3://wfu-backups/db-backups/${backupId}/network-tables-prod.sql`,
+      `s3://wfu-backups/db-backups/${backupId}/site-43-prod.sql`,
+      `s3://wfu-backups/db-backups/${backupId}/metadata.json`,
+    ]);
+    // s3.endpoint and s3.region come with the configured bucket's storage
+    expect(S3StorageManager.getForConfiguredBucket).toHaveBeenCalled();
+    expect(existsSync(remoteFile(backupId, 'site-43-prod.sql'))).toBe(true);
+  });
+
+  it('lists completed offsite backups newest first', async () => {
+    createBackup('backup-old', '2026-10-01T08:00:00.000Z');
+    createBackup('backup-new', '2026-10-15T08:00:00.000Z');
+    await BackupReplication.uploadBackup('backup-old', { workDir });
+    await BackupReplication.uploadBackup('backup-new', { workDir });
+    // An upload that stopped before metadata.json
+    mkdirSync(dirname(remoteFile('backup-partial', 'site-43-prod.sql')), {
+      recursive: true,
+    });
+    writeFileSync(remoteFile('backup-partial', 'site-43-prod.sql'), '');
+
+    const backups = await BackupReplication.listRemoteBackups();
+
+    expect(backups.map((backup) => backup.backupId)).toEqual([
+      'backup-new',
+      'backup-old',
+    ]);
+  });
+
+  it('reports a checksum mismatch in the offsite copy', async () => {
+    createBackup(backupId, '2026-10-15T08:00:00.000Z');
+    await BackupReplication.uploadBackup(backupId, { workDir });
+    writeFileSync(remoteFile(backupId, 'site-43-prod.sql'), 'truncated');
+
+    const result = await BackupReplication.verifyRemoteBackup(backupId);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.stringContaining('Checksum mismatch for site-43-prod.sql'),
+    ]);
+  });
+
+  it('refuses to treat files without a recorded checksum as verified', async () => {
+    createBackup(backupId, '2026-10-15T08:00:00.000Z', false);
+
+    await expect(
+      BackupReplication.uploadBackup(backupId, { workDir })
+    ).rejects.toThrow(
+      `Offsite copy of ${backupId} failed verification: No checksum recorded for network-tables-prod.sql, No checksum recorded for site-43-prod.sql`
+    );
+  });
+
+  it('downloads an offsite backup with paths rewritten for this machine', async () => {
+    createBackup(backupId, '2026-10-15T08:00:00.000Z');
+    await BackupReplication.uploadBackup(backupId, { workDir });
+    const otherWorkDir = join(root, 'other-machine');
+    mkdirSync(otherWorkDir);
+
+    const metadata = await BackupReplication.downloadBackup(backupId, {
+      workDir: otherWorkDir,
+    });
+
+    const backupDir = join(otherWorkDir, backupId);
+    expect(metadata.backupPaths).toEqual({
+      networkTablesFile: join(backupDir, 'network-tables-prod.sql'),
+      sitesFiles: { 43: join(backupDir, 'site-43-prod.sql') },
+      metadataFile: join(backupDir, 'metadata.json'),
+    });
+    expect(
+      JSON.parse(readFileSync(join(backupDir, 'metadata.json'), 'utf8'))
+    ).toEqual(metadata);
+    expect(readdirSync(otherWorkDir)).toEqual([backupId]);
+  });
+
+  it('leaves nothing behind when a download fails verification', async () => {
+    createBackup(backupId, '2026-10-15T08:00:00.000Z');
+    await BackupReplication.uploadBackup(backupId, { workDir });
+    writeFileSync(remoteFile(backupId, 'network-tables-prod.sql'), '');
+    const otherWorkDir = join(root, 'other-machine');
+    mkdirSync(otherWorkDir);
+
+    await expect(
+      BackupReplication.downloadBackup(backupId, { workDir: otherWorkDir })
+    ).rejects.toThrow('Checksum mismatch for network-tables-prod.sql');
+    expect(readdirSync(otherWorkDir)).toEqual([]);
+  });
+
+  it('reports a missing offsite backup', async () => {
+    await expect(
+      BackupReplication.loadRemoteMetadata('backup-missing')
+    ).rejects.toThrow('Offsite backup not found: backup-missing');
+  });
+});
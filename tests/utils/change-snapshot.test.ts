@@ -0,0 +1,315 @@
+import { execFileSync, execSync } from 'child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BACKUP_PASSPHRASE_ENV } from '../../src/utils/backup-artifact';
+import { BackupRecovery } from '../../src/utils/backup-recovery';
+import { ChangeSnapshot } from '../../src/utils/change-snapshot';
+import { Config } from '../../src/utils/config';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { MysqlCli } from '../../src/utils/mysql-cli';
+
+jest.mock('child_process', () => ({
+  ...jest.requireActual('child_process'),
+  execFileSync: jest.fn(),
+  execSync: jest.fn(),
+}));
+jest.mock('../../src/utils/backup-recovery');
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
+
+const mockExecFileSync = execFileSync as jest.MockedFunction<
+  typeof execFileSync
+>;
+const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockBackupRecovery = BackupRecovery as jest.Mocked<typeof BackupRecovery>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+const DUMP =
+  'DROP TABLE IF EXISTS `wp_43_posts`;\nCREATE TABLE `wp_43_posts` (`ID` int);';
+
+describe('ChangeSnapshot', () => {
+  let workDir: string;
+  let execute: jest.Mock;
+  let imported: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workDir = mkdtempSync(join(tmpdir(), 'wfuwp-snapshot-'));
+    imported = [];
+
+    mockBackupRecovery.getBackupDirectory.mockReturnValue(workDir);
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getEnvironmentConfig.mockReturnValue({
+      host: 'db.dev.example.edu',
+      user: 'wp',
+      password: 'secret',
+      database: 'wordpress',
+    });
+    mockConfig.getBackupCompression.mockReturnValue('none');
+    mockConfig.getBackupEncryption.mockReturnValue('none');
+    jest.spyOn(MysqlCli, 'hasNativeClient').mockReturnValue(true);
+
+    execute = jest.fn().mockResolvedValue({ affectedRows: 0, insertId: 0 });
+    mockDbConnectionManager.get.mockReturnValue({
+      query: jest
+        .fn()
+        .mockResolvedValue([
+          { Tables_in_wordpress: 'wp_blogs' },
+          { Tables_in_wordpress: 'wp_43_posts' },
+        ]),
+      execute,
+    } as any);
+
+    // mysqldump writes the dump to the file descriptor it is handed
+    mockExecFileSync.mockImplementation(((
+      _command: string,
+      _args: string[],
+      options: { stdio: [string, number, string] }
+    ) => {
+      writeSync(options.stdio[1], DUMP);
+      return Buffer.from('');
+    }) as any);
+    // Imports are recorded
+    mockExecSync.mockImplementation(((command: string) => {
+      const file = command.match(/< "(.*)"$/)?.[1];
+      imported.push(readFileSync(file!, 'utf8'));
+      return '';
+    }) as any);
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+    delete process.env[BACKUP_PASSPHRASE_ENV];
+  });
+
+  it('dumps the existing tables and records the ones about to be created', async () => {
+    const snapshot = await ChangeSnapshot.capture('dev', [
+      'wp_blogs',
+      'wp_43_posts',
+      'wp_43_new_table',
+    ]);
+
+    expect(snapshot).toEqual(
+      expect.objectContaining({
+        snapshotId: expect.stringMatching(/^snapshot-/),
+        environment: 'dev',
+        command: expect.stringMatching(/^wfuwp\b/),
+        user: expect.any(String),
+        tables: ['wp_blogs', 'wp_43_posts'],
+        absentTables: ['wp_43_new_table'],
+        file: join(workDir, 'snapshots', snapshot.snapshotId, 'tables.sql'),
+        size: DUMP.length,
+        checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+      })
+    );
+    const [command, args, options] = mockExecFileSync.mock.calls[0] as any[];
+    expect(command).toBe('mysqldump');
+    expect(args.slice(-3)).toEqual(['wordpress', 'wp_blogs', 'wp_43_posts']);
+    expect(options.env.MYSQL_PWD).toBe('secret');
+    expect(ChangeSnapshot.loadSnapshot(snapshot.snapshotId)).toEqual(snapshot);
+  });
+
+  it('snapshots every table when none are named', async () => {
+    const snapshot = await ChangeSnapshot.capture('local');
+
+    expect(snapshot.tables).toEqual(['wp_blogs', 'wp_43_posts']);
+    expect(snapshot.absentTables).toEqual([]);
+  });
+
+  it('dumps only the matching rows of row-scoped tables', async () => {
+    const snapshot = await ChangeSnapshot.capture('dev', ['wp_43_posts'], {
+      rows: { wp_blogs: 'blog_id = 43' },
+    });
+
+    expect(snapshot.tables).toEqual(['wp_43_posts']);
+    expect(snapshot.rows).toEqual({ wp_blogs: 'blog_id = 43' });
+    const rowArgs = mockExecFileSync.mock.calls[1][1] as string[];
+    expect(rowArgs).toEqual(
+      expect.arrayContaining(['--no-create-info', '--where=blog_id = 43'])
+    );
+    expect(rowArgs).not.toContain('--add-drop-table');
+    expect(rowArgs.slice(-2)).toEqual(['wordpress', 'wp_blogs']);
+
+    await ChangeSnapshot.undo(snapshot.snapshotId);
+
+    // Undo swaps the site's row back without touching the rest of wp_blogs
+    expect(imported).toEqual([
+      `${DUMP}DELETE FROM \`wp_blogs\` WHERE blog_id = 43;\n${DUMP}`,
+    ]);
+  });
+
+  it('removes the snapshot when the dump fails', async () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw Object.assign(new Error('Command failed'), {
+        stderr: Buffer.from('mysqldump: Got error: 1045: Access denied'),
+      });
+    });
+
+    await expect(
+      ChangeSnapshot.capture('dev', ['wp_43_posts'])
+    ).rejects.toThrow('mysqldump failed: mysqldump: Got error: 1045');
+    expect(readdirSync(join(workDir, 'snapshots'))).toEqual([]);
+  });
+
+  it('undoes an encrypted snapshot and drops the tables the command created', async () => {
+    mockConfig.getBackupCompression.mockReturnValue('gzip');
+    mockConfig.getBackupEncryption.mockReturnValue('passphrase');
+    process.env[BACKUP_PASSPHRASE_ENV] = 'correct horse battery staple';
+    const snapshot = await ChangeSnapshot.capture('dev', [
+      'wp_43_posts',
+      'wp_43_new_table',
+    ]);
+    expect(snapshot.file).toMatch(/tables\.sql\.gz\.enc$/);
+
+    const result = await ChangeSnapshot.undo(snapshot.snapshotId);
+
+    expect(imported).toEqual([DUMP]);
+    expect(mockExecSync).toHaveBeenLastCalledWith(
+      expect.stringMatching(
+        /^mysql -h db\.dev\.example\.edu -u wp wordpress < /
+      ),
+      expect.objectContaining({
+        env: expect.objectContaining({ MYSQL_PWD: 'secret' }),
+      })
+    );
+    expect(execute).toHaveBeenCalledWith('DROP TABLE IF EXISTS ??', [
+      'wp_43_new_table',
+    ]);
+    expect(result.undoneAt).toBeDefined();
+    expect(ChangeSnapshot.loadSnapshot(snapshot.snapshotId).undoneAt).toBe(
+      result.undoneAt
+    );
+    // Only the stored file and metadata remain
+    expect(
+      readdirSync(join(workDir, 'snapshots', snapshot.snapshotId)).sort()
+    ).toEqual(['metadata.json', 'tables.sql.gz.enc']);
+  });
+
+  it('refuses to undo a snapshot whose file has changed', async () => {
+    const snapshot = await ChangeSnapshot.capture('dev', ['wp_43_posts']);
+    writeFileSync(snapshot.file!, 'truncated');
+
+    await expect(ChangeSnapshot.undo(snapshot.snapshotId)).rejects.toThrow(
+      `Snapshot ${snapshot.snapshotId} failed verification: Checksum mismatch for tables.sql`
+    );
+    expect(imported).toEqual([]);
+  });
+
+  it('lists snapshots newest first', async () => {
+    const first = await ChangeSnapshot.capture('dev', ['wp_blogs']);
+    const second = await ChangeSnapshot.capture('uat', ['wp_blogs']);
+    const metadataPath = join(
+      workDir,
+      'snapshots',
+      first.snapshotId,
+      'metadata.json'
+    );
+    writeFileSync(
+      metadataPath,
+      JSON.stringify({ ...first, timestamp: '2020-01-01T00:00:00.000Z' })
+    );
+
+    expect(
+      ChangeSnapshot.listSnapshots().map((snapshot) => snapshot.snapshotId)
+    ).toEqual([second.snapshotId, first.snapshotId]);
+  });
+
+  it('snapshots and restores a DDEV project without a configured environment', async () => {
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(false);
+    const ddevCalls: Array<{ args: string[]; cwd: string }> = [];
+    mockExecFileSync.mockImplementation(((
+      _command: string,
+      args: string[],
+      options: { cwd: string }
+    ) => {
+      ddevCalls.push({ args, cwd: options.cwd });
+      if (args[0] === 'export-db') {
+        writeFileSync(args[2].replace('--file=', ''), DUMP);
+      }
+      return Buffer.from('');
+    }) as any);
+
+    const snapshot = await ChangeSnapshot.capture('local', undefined, {
+      ddevProject: '/home/dev/wfu-local',
+    });
+    await ChangeSnapshot.undo(snapshot.snapshotId);
+
+    expect(snapshot).toEqual(
+      expect.objectContaining({
+        ddevProject: '/home/dev/wfu-local',
+        tables: [],
+        absentTables: [],
+      })
+    );
+    expect(mockDbConnectionManager.get).not.toHaveBeenCalled();
+    expect(ddevCalls).toEqual([
+      {
+        args: ['export-db', '--gzip=false', `--file=${snapshot.file}`],
+        cwd: '/home/dev/wfu-local',
+      },
+      {
+        args: ['import-db', `--file=${snapshot.file}`],
+        cwd: '/home/dev/wfu-local',
+      },
+    ]);
+  });
+
+  describe('beforeChange', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('skips the snapshot with --no-backup', async () => {
+      expect(
+        await ChangeSnapshot.beforeChange('dev', ['wp_blogs'], {
+          backup: false,
+        })
+      ).toBeNull();
+      expect(mockExecFileSync).not.toHaveBeenCalled();
+      expect(existsSync(join(workDir, 'snapshots'))).toBe(false);
+    });
+
+    it('stops the command when the snapshot fails', async () => {
+      mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(false);
+
+      await expect(
+        ChangeSnapshot.beforeChange('local', undefined)
+      ).rejects.toThrow(
+        "Snapshot failed: Environment 'local' is not configured. Re-run with --no-backup to go ahead without one"
+      );
+    });
+
+    it('lets the command decide whether to go on without a snapshot', async () => {
+      mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(false);
+      const proceedWithoutSnapshot = jest.fn().mockResolvedValue(true);
+
+      expect(
+        await ChangeSnapshot.beforeChange('dev', ['wp_blogs'], {
+          proceedWithoutSnapshot,
+        })
+      ).toBeNull();
+      expect(proceedWithoutSnapshot).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Snapshot failed: Environment 'dev' is not configured",
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { ContentDiff } from '../../src/utils/content-diff';
+import { DatabaseOperations } from '../../src/utils/database';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { EnvironmentMappingService } from '../../src/utils/environment-mapping';
+
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+
+const mockDatabase = DatabaseOperations as jest.Mocked<
+  typeof DatabaseOperations
+>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\u001b\[\d+m/g, '');
+
+const post = (
+  ID: number,
+  post_title: string,
+  post_content: string,
+  post_modified = '2026-10-01 09:00:00'
+) => ({
+  ID: String(ID),
+  post_type: 'page',
+  post_modified,
+  post_title,
+  post_name: post_title.toLowerCase(),
+  post_status: 'publish',
+  post_content,
+  post_excerpt: '',
+});
+
+const rows: Record<string, { posts: any[]; options: any[] }> = {
+  pprd: {
+    posts: [
+      post(
+        1,
+        'About',
+        '<a href="https://magazine.pprd.wfu.edu/about/">About</a>'
+      ),
+      post(2, 'News', 'Fresh copy', '2026-10-17 15:30:00'),
+      post(5, 'Events', 'New page'),
+    ],
+    options: [
+      {
+        option_name: 'siteurl',
+        option_value: 'https://magazine.pprd.wfu.edu',
+        autoload: 'yes',
+      },
+      {
+        option_name: 'widget_text',
+        option_value:
+          'a:1:{i:2;a:1:{s:4:"text";s:38:"https://magazine.pprd.wfu.edu/contact/";}}',
+        autoload: 'yes',
+      },
+      { option_name: 'blogname', option_value: 'Magazine', autoload: 'yes' },
+    ],
+  },
+  prod: {
+    posts: [
+      post(1, 'About', '<a href="https://magazine.wfu.edu/about/">About</a>'),
+      post(2, 'News', 'Old copy'),
+      post(3, 'Archive', 'Retired page'),
+    ],
+    options: [
+      {
+        option_name: 'siteurl',
+        option_value: 'https://magazine.wfu.edu',
+        autoload: 'yes',
+      },
+      {
+        option_name: 'widget_text',
+        option_value:
+          'a:1:{i:2;a:1:{s:4:"text";s:33:"https://magazine.wfu.edu/contact/";}}',
+        autoload: 'yes',
+      },
+      { option_name: 'blogname', option_value: 'Magazine', autoload: 'no' },
+    ],
+  },
+};
+
+describe('ContentDiff', () => {
+  let queries: Array<[string, unknown[]]>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    queries = [];
+
+    mockDatabase.getSiteTables.mockResolvedValue([
+      'wp_43_posts',
+      'wp_43_options',
+    ]);
+    mockDbConnectionManager.get.mockImplementation(
+      (env: string) =>
+        ({
+          query: jest.fn(async (sql: string, params: unknown[]) => {
+            queries.push([sql, params]);
+            return sql.includes('option_name')
+              ? rows[env].options
+              : rows[env].posts;
+          }),
+        }) as any
+    );
+    jest
+      .spyOn(EnvironmentMappingService, 'getSiteReplacements')
+      .mockResolvedValue({ domains: [], replacements: [], warnings: [] });
+  });
+
+  it('reports added, removed and changed records but not URL-only differences', async () => {
+    const report = await ContentDiff.compare('43', 'pprd', 'prod');
+
+    expect(report.changes).toEqual([
+      {
+        kind: 'changed',
+        type: 'post',
+        key: '2',
+        label: 'page: News',
+        fields: ['post_modified', 'post_content'],
+      },
+      {
+        kind: 'added',
+        type: 'post',
+        key: '5',
+        label: 'page: Events',
+        fields: [],
+      },
+      {
+        kind: 'removed',
+        type: 'post',
+        key: '3',
+        label: 'page: Archive',
+        fields: [],
+      },
+      {
+        kind: 'changed',
+        type: 'option',
+        key: 'blogname',
+        label: '',
+        fields: ['autoload'],
+      },
+    ]);
+    expect(report.summary).toEqual({
+      post: { added: 1, removed: 1, changed: 1 },
+      option: { added: 0, removed: 0, changed: 1 },
+    });
+  });
+
+  it('compares values as stored when no mapping exists for the path', async () => {
+    jest
+      .spyOn(EnvironmentMappingService, 'isMigrationPathSupported')
+      .mockReturnValue(false);
+
+    const report = await ContentDiff.compare('43', 'pprd', 'prod');
+
+    expect(report.warnings).toEqual([
+      'No URL mapping for pprd -> prod; comparing values as stored',
+    ]);
+    expect(
+      report.changes.filter((change) => change.kind === 'changed')
+    ).toHaveLength(5);
+  });
+
+  it('skips revisions, auto-drafts and transients', async () => {
+    await ContentDiff.compare('43', 'pprd', 'prod');
+
+    const [postSql, postParams] = queries[0];
+    expect(postSql).toContain(
+      'FROM ?? WHERE post_type <> ? AND post_status <> ?'
+    );
+    expect(postParams).toEqual(['wp_43_posts', 'revision', 'auto-draft']);
+    const optionQuery = queries.find(([sql]) => sql.includes('option_name'));
+    expect(optionQuery?.[1]).toEqual([
+      'wp_43_options',
+      '\\_transient\\_%',
+      '\\_site\\_transient\\_%',
+    ]);
+  });
+
+  it('uses the unnumbered tables for the main site', async () => {
+    mockDatabase.getSiteTables.mockResolvedValue(['wp_posts', 'wp_options']);
+
+    await ContentDiff.compare('1', 'pprd', 'prod');
+
+    expect(queries[0][1][0]).toBe('wp_posts');
+  });
+
+  it('fails when a table is missing on one side', async () => {
+    mockDatabase.getSiteTables.mockImplementation(async (_siteId, env) =>
+      env === 'prod' ? ['wp_43_posts'] : ['wp_43_posts', 'wp_43_options']
+    );
+
+    await expect(ContentDiff.compare('43', 'pprd', 'prod')).rejects.toThrow(
+      'Table wp_43_options not found in prod'
+    );
+  });
+
+  it('formats changes as a table with per-type summaries', async () => {
+    const report = await ContentDiff.compare('43', 'pprd', 'prod');
+    const lines = plain(ContentDiff.format(report, 'table')).split('\n');
+
+    expect(lines[0]).toBe('Site 43 content: pprd → prod');
+    expect(lines[3]).toMatch(
+      /^changed \| post +\| 2 +\| page: News +\| post_modified, post_content$/
+    );
+    expect(lines.slice(-2)).toEqual([
+      'Posts: 1 added, 1 removed, 1 changed',
+      'Options: 0 added, 0 removed, 1 changed',
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { SqlValue } from 'mysql2/promise';
+import { Config } from '../../src/utils/config';
+import { DatabaseOperations } from '../../src/utils/database';
+import {
+  DbConnectionManager,
+  DbStatement,
+} from '../../src/utils/db-connection';
+import { SqlBuilder } from '../../src/utils/sql';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+const hex = (value: string): string =>
+  Buffer.from(value, 'utf8').toString('hex').toUpperCase();
+
+describe('DatabaseOperations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    DatabaseOperations.clearAllCaches();
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getEnvironmentConfig.mockReturnValue({
+      host: 'db.example.com',
+      port: '3306',
+      user: 'wp',
+      password: 'secret',
+      database: 'wordpress',
+    } as any);
+  });
+
+  // Strings that break naive quoting in SQL or in a double-quoted shell
+  const hostile = [
+    "it's",
+    'say "hi"',
+    '$(touch /tmp/pwned) `id` $HOME',
+    'back\\slash\\',
+    "'; DROP TABLE wp_blogs; --",
+    '100%_done?',
+    'nul\0byte',
+  ];
+
+  describe('sqlSearchReplace', () => {
+    const widget = 'a:1:{s:4:"text";s:30:"<a href="https://www.wfu.edu">";}';
+
+    function mockDatabase(
+      keyColumns: string[],
+      rows: Array<[string, string]>
+    ): string[] {
+      const statements: string[] = [];
+      const query = jest.fn(async (query: string, params?: SqlValue[]) => {
+        const sql = SqlBuilder.format(query, params);
+        if (sql === 'SHOW TABLES') {
+          return ['wp_43_options', 'wp_43_posts', 'wp_430_options'].map(
+            (table) => ({ Tables_in_wordpress: table })
+          );
+        }
+        if (sql.includes('DESCRIBE `wp_43_options`')) {
+          return ['option_id', 'option_name', 'option_value'].map((Field) => ({
+            Field,
+          }));
+        }
+        if (sql.includes('DESCRIBE')) {
+          return [{ Field: 'ID' }, { Field: 'post_title' }];
+        }
+        if (sql.startsWith('SHOW KEYS')) {
+          return keyColumns.map((Column_name) => ({ Column_name }));
+        }
+        statements.push(sql);
+        return rows.map(([row_key, row_value]) => ({ row_key, row_value }));
+      });
+      const executeBatch = jest.fn(async (batch: DbStatement[]) => {
+        statements.push(
+          ...batch.map((statement) =>
+            SqlBuilder.format(statement.sql, statement.params)
+          )
+        );
+        return { affectedRows: batch.length, insertId: 0 };
+      });
+      mockDbConnectionManager.get.mockReturnValue({
+        environment: 'prod',
+        backend: 'native',
+        query,
+        execute: jest.fn(),
+        executeBatch,
+        close: jest.fn(),
+      } as any);
+      return statements;
+    }
+
+    it('rewrites matching rows by primary key with corrected lengths', async () => {
+      const statements = mockDatabase(
+        ['option_id'],
+        [
+          ['7', hex(widget)],
+          ['8', hex('no urls here')],
+        ]
+      );
+
+      await DatabaseOperations.sqlSearchReplace(
+        'prod',
+        [{ from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' }],
+        '43'
+      );
+
+      expect(statements[0]).toContain(
+        'SELECT `option_id` AS row_key, HEX(`option_value`) AS row_value FROM `wp_43_options`'
+      );
+      expect(statements[0]).toContain(
+        `INSTR(\`option_value\`, UNHEX('${hex('https://www.wfu.edu').toLowerCase()}')) > 0`
+      );
+
+      const expected = widget
+        .replace('https://www.wfu.edu', 'https://pprd.wfu.edu')
+        .replace('s:30:', 's:31:');
+      expect(statements[1]).toBe(
+        `UPDATE \`wp_43_options\` SET \`option_value\` = UNHEX('${hex(expected).toLowerCase()}') WHERE \`option_id\` = 7;`
+      );
+      expect(statements).toHaveLength(2);
+    });
+
+    it('skips updates when no rows change', async () => {
+      const statements = mockDatabase(['option_id'], []);
+
+      await DatabaseOperations.sqlSearchReplace(
+        'prod',
+        [{ from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' }],
+        '43'
+      );
+
+      expect(statements).toHaveLength(1);
+    });
+
+    it('falls back to plain REPLACE for tables without a primary key', async () => {
+      const statements = mockDatabase([], []);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      await DatabaseOperations.sqlSearchReplace(
+        'prod',
+        [{ from: 'www.wfu.edu', to: 'pprd.wfu.edu' }],
+        '43'
+      );
+
+      expect(statements[0]).toContain('REPLACE(`option_value`');
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('no single-column primary key')
+      );
+      logSpy.mockRestore();
+    });
+
+    it('sends hostile replacement strings only as hex', async () => {
+      const original = `a:1:{s:4:"text";s:${hostile[0].length}:"${hostile[0]}";}`;
+      const statements = mockDatabase(
+        ['option_name'],
+        [["key'); DROP TABLE wp_blogs; --", hex(original)]]
+      );
+
+      await DatabaseOperations.sqlSearchReplace(
+        'prod',
+        hostile.map((from) => ({
+          from,
+          to: `${from} moved`,
+        })),
+        '43'
+      );
+
+      expect(statements).toHaveLength(2);
+      for (const statement of statements) {
+        for (const value of hostile) {
+          expect(statement).not.toContain(value);
+        }
+        expect(statement).not.toContain('DROP TABLE');
+      }
+      expect(statements[1]).toMatch(
+        /^UPDATE `wp_43_options` SET `option_value` = UNHEX\('[0-9a-f]+'\) WHERE `option_name` = UNHEX\('[0-9a-f]+'\);$/
+      );
+    });
+
+    it('sends hostile strings only as hex in the plain REPLACE fallback', async () => {
+      const statements = mockDatabase([], []);
+      jest.spyOn(console, 'log').mockImplementation();
+
+      await DatabaseOperations.sqlSearchReplace(
+        'prod',
+        hostile.map((from) => ({ from, to: '' })),
+        '43'
+      );
+
+      expect(statements).toHaveLength(hostile.length);
+      statements.forEach((statement, index) => {
+        expect(statement).toBe(
+          `UPDATE \`wp_43_options\` SET \`option_value\` = REPLACE(\`option_value\`, UNHEX('${hex(hostile[index]).toLowerCase()}'), '') WHERE INSTR(\`option_value\`, UNHEX('${hex(hostile[index]).toLowerCase()}')) > 0;`
+        );
+      });
+      jest.restoreAllMocks();
+    });
+
+    it('throws when the site has no tables', async () => {
+      mockDatabase([], []);
+
+      await expect(
+        DatabaseOperations.sqlSearchReplace('prod', [], '99')
+      ).rejects.toThrow('No tables found for site 99 in prod environment');
+    });
+  });
+
+  describe('site deletion', () => {
+    let execute: jest.Mock;
+
+    beforeEach(() => {
+      execute = jest.fn().mockResolvedValue({ affectedRows: 1, insertId: 0 });
+      mockDbConnectionManager.get.mockReturnValue({ execute } as any);
+    });
+
+    const executedSql = (): string[] =>
+      execute.mock.calls.map(([query, params]) =>
+        SqlBuilder.format(query, params)
+      );
+
+    it('passes the site ID to wp_blogs as a bound value', async () => {
+      await DatabaseOperations.deleteSiteFromBlogsTable(43, 'dev');
+
+      expect(execute).toHaveBeenCalledWith(
+        'DELETE FROM wp_blogs WHERE blog_id = ?',
+        [43]
+      );
+    });
+
+    it('quotes hostile table names when dropping tables', async () => {
+      const tables = hostile
+        .filter((value) => !value.includes('\0'))
+        .map((value) => `wp_43_${value}`);
+
+      await DatabaseOperations.dropTables(tables, 'dev');
+
+      expect(executedSql()).toEqual(
+        tables.map(
+          (table) => `DROP TABLE IF EXISTS ${SqlBuilder.identifier(table)}`
+        )
+      );
+      expect(executedSql()).toContain(
+        "DROP TABLE IF EXISTS `wp_43_'; DROP TABLE wp_blogs; --`"
+      );
+      expect(executedSql()).toContain(
+        'DROP TABLE IF EXISTS `wp_43_$(touch /tmp/pwned) ``id`` $HOME`'
+      );
+    });
+  });
+});
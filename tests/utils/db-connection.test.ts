@@ -0,0 +1,231 @@
+import { execSync } from 'child_process';
+import { createPool } from 'mysql2/promise';
+import { Config } from '../../src/utils/config';
+import { DbConnectionManager, DbError } from '../../src/utils/db-connection';
+
+jest.mock('child_process');
+jest.mock('mysql2/promise', () => ({
+  ...jest.requireActual('mysql2/promise'),
+  createPool: jest.fn(),
+}));
+jest.mock('../../src/utils/config');
+
+const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockCreatePool = createPool as jest.MockedFunction<typeof createPool>;
+const mockConfig = Config as jest.Mocked<typeof Config>;
+
+const envConfig = {
+  host: 'db.example.edu',
+  port: '3307',
+  user: 'wp',
+  password: 'secret',
+  database: 'wordpress',
+};
+
+// The mysql client runs through stdin, so capture what was piped in
+function cliInputs(): string[] {
+  return mockExecSync.mock.calls
+    .filter(([command]) => String(command).includes('--batch'))
+    .map(([, options]) => String((options as { input?: string }).input));
+}
+
+describe('DbConnectionManager', () => {
+  beforeEach(async () => {
+    await DbConnectionManager.closeAll();
+    jest.clearAllMocks();
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getEnvironmentConfig.mockReturnValue(envConfig);
+    mockConfig.getDatabaseBackend.mockReturnValue('cli');
+  });
+
+  it('throws for an unconfigured environment', () => {
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(false);
+
+    expect(() => DbConnectionManager.get('bogus')).toThrow(
+      "Environment 'bogus' is not configured"
+    );
+  });
+
+  it('reuses the connection for an environment until closeAll', async () => {
+    const first = DbConnectionManager.get('prod');
+
+    expect(DbConnectionManager.get('prod')).toBe(first);
+    expect(DbConnectionManager.get('uat')).not.toBe(first);
+
+    await DbConnectionManager.closeAll();
+    expect(DbConnectionManager.get('prod')).not.toBe(first);
+  });
+
+  it('picks the backend from config', () => {
+    expect(DbConnectionManager.get('prod').backend).toBe('cli');
+
+    mockConfig.getDatabaseBackend.mockReturnValue('native');
+    const connection = DbConnectionManager.get('prod');
+
+    expect(connection.backend).toBe('native');
+    expect(mockCreatePool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        host: 'db.example.edu',
+        port: 3307,
+        user: 'wp',
+        database: 'wordpress',
+      })
+    );
+  });
+
+  describe('cli backend', () => {
+    it('parses batch output into rows', async () => {
+      mockExecSync.mockImplementation((command) => {
+        if (String(command).startsWith('which')) return Buffer.from('');
+        return 'blog_id\tdomain\tpath\n1\twww.wfu.edu\t/\n2\tNULL\ta\\tb\\\\c\\nd\n';
+      });
+
+      const rows = await DbConnectionManager.get('prod').query(
+        'SELECT blog_id, domain, path FROM wp_blogs WHERE blog_id > ?',
+        [0]
+      );
+
+      expect(rows).toEqual([
+        { blog_id: '1', domain: 'www.wfu.edu', path: '/' },
+        { blog_id: '2', domain: null, path: 'a\tb\\c\nd' },
+      ]);
+      expect(cliInputs()).toEqual([
+        'SELECT blog_id, domain, path FROM wp_blogs WHERE blog_id > 0',
+      ]);
+    });
+
+    it('escapes parameters before piping SQL to the client', async () => {
+      mockExecSync.mockReturnValue('');
+
+      await DbConnectionManager.get('prod').query(
+        'SELECT * FROM ?? WHERE option_name = ?',
+        ['wp_43_options', "x'; DROP TABLE wp_blogs; --"]
+      );
+
+      expect(cliInputs()[0]).toBe(
+        "SELECT * FROM `wp_43_options` WHERE option_name = 'x\\'; DROP TABLE wp_blogs; --'"
+      );
+    });
+
+    it('runs a batch as one script and sums affected rows', async () => {
+      mockExecSync.mockReturnValue('affectedRows\tinsertId\n3\t0\n');
+
+      const result = await DbConnectionManager.get('prod').executeBatch([
+        { sql: 'UPDATE wp_options SET option_value = ?', params: ['a'] },
+        { sql: 'DELETE FROM wp_blogs WHERE blog_id = ?;', params: [9] },
+      ]);
+
+      expect(result).toEqual({ affectedRows: 3, insertId: 0 });
+      expect(cliInputs()).toHaveLength(1);
+      expect(cliInputs()[0].split('\n')).toEqual([
+        'SET @wfuwp_affected = 0;',
+        "UPDATE wp_options SET option_value = 'a';",
+        'SET @wfuwp_affected = @wfuwp_affected + ROW_COUNT();',
+        'DELETE FROM wp_blogs WHERE blog_id = 9;',
+        'SET @wfuwp_affected = @wfuwp_affected + ROW_COUNT();',
+        'SELECT @wfuwp_affected AS affectedRows, LAST_INSERT_ID() AS insertId;',
+      ]);
+    });
+
+    it('turns client errors into DbError with the MySQL code', async () => {
+      mockExecSync.mockImplementation(() => {
+        throw Object.assign(new Error('Command failed'), {
+          stderr:
+            "ERROR 1146 (42S02) at line 1: Table 'wordpress.wp_99_posts' doesn't exist\n",
+        });
+      });
+
+      const error = await DbConnectionManager.get('prod')
+        .query('SELECT * FROM wp_99_posts')
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(DbError);
+      expect(error).toMatchObject({
+        code: 'ER_NO_SUCH_TABLE',
+        errno: 1146,
+        sqlState: '42S02',
+      });
+      expect(error.message).toContain("Table 'wordpress.wp_99_posts'");
+    });
+  });
+
+  describe('native backend', () => {
+    const pool = {
+      query: jest.fn(),
+      getConnection: jest.fn(),
+      end: jest.fn(),
+    };
+    const pooled = { query: jest.fn(), release: jest.fn() };
+
+    beforeEach(() => {
+      mockConfig.getDatabaseBackend.mockReturnValue('native');
+      mockCreatePool.mockReturnValue(pool as any);
+      pool.getConnection.mockResolvedValue(pooled);
+      pool.end.mockResolvedValue(undefined);
+    });
+
+    it('formats parameters the same way as the cli backend', async () => {
+      pool.query.mockResolvedValue([[{ blog_id: 1 }], []]);
+
+      const rows = await DbConnectionManager.get('prod').query(
+        'SELECT blog_id FROM ?? WHERE domain = ?',
+        ['wp_blogs', "www.wfu.edu'; --"]
+      );
+
+      expect(rows).toEqual([{ blog_id: 1 }]);
+      expect(pool.query).toHaveBeenCalledWith(
+        "SELECT blog_id FROM `wp_blogs` WHERE domain = 'www.wfu.edu\\'; --'"
+      );
+    });
+
+    it('runs a batch on one pooled connection and releases it', async () => {
+      pooled.query
+        .mockResolvedValueOnce([{ affectedRows: 2, insertId: 0 }, undefined])
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Deadlock found'), {
+            code: 'ER_LOCK_DEADLOCK',
+            errno: 1213,
+            sqlState: '40001',
+          })
+        );
+
+      const error = await DbConnectionManager.get('prod')
+        .executeBatch([
+          { sql: 'UPDATE a SET b = 1' },
+          { sql: 'UPDATE c SET d = 1' },
+        ])
+        .catch((caught) => caught);
+
+      expect(pooled.query).toHaveBeenCalledTimes(2);
+      expect(pooled.release).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(DbError);
+      expect(DbConnectionManager.isRetryableError(error)).toBe(true);
+    });
+
+    it('ends pools on closeAll', async () => {
+      DbConnectionManager.get('prod');
+
+      await DbConnectionManager.closeAll();
+
+      expect(pool.end).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('only retries connection and lock errors', () => {
+      expect(
+        DbConnectionManager.isRetryableError(
+          new DbError('refused', 'ECONNREFUSED')
+        )
+      ).toBe(true);
+      expect(
+        DbConnectionManager.isRetryableError(
+          new DbError('syntax', 'ER_PARSE_ERROR', 1064)
+        )
+      ).toBe(false);
+      expect(DbConnectionManager.isRetryableError(new Error('boom'))).toBe(
+        false
+      );
+    });
+  });
+});
@@ -2,15 +2,22 @@ import { EnvironmentCleanupService } from '../../src/utils/environment-cleanup';
 import { Config } from '../../src/utils/config';
 import { DatabaseOperations } from '../../src/utils/database';
 import { SiteEnumerator } from '../../src/utils/site-enumerator';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { SqlBuilder } from '../../src/utils/sql';
+import { ChangeSnapshot } from '../../src/utils/change-snapshot';
 
 jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
 jest.mock('../../src/utils/database');
 jest.mock('../../src/utils/site-enumerator');
 jest.mock('../../src/utils/backup-recovery');
+jest.mock('../../src/utils/change-snapshot');
 
 const mockConfig = Config as jest.Mocked<typeof Config>;
 const mockDatabaseOperations = DatabaseOperations as jest.Mocked<typeof DatabaseOperations>;
 const mockSiteEnumerator = SiteEnumerator as jest.Mocked<typeof SiteEnumerator>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<typeof DbConnectionManager>;
+const mockChangeSnapshot = ChangeSnapshot as jest.Mocked<typeof ChangeSnapshot>;
 
 describe('EnvironmentCleanupService', () => {
   beforeEach(() => {
@@ -49,11 +56,11 @@ describe('EnvironmentCleanupService', () => {
         });
 
       mockDatabaseOperations.getSiteTables
-        .mockReturnValueOnce(['wp_99_posts', 'wp_99_options', 'wp_99_postmeta'])
-        .mockReturnValueOnce(['wp_posts', 'wp_options'])
-        .mockReturnValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_postmeta'])
-        .mockReturnValueOnce(['wp_43_posts', 'wp_43_options'])
-        .mockReturnValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_postmeta']);
+        .mockResolvedValueOnce(['wp_99_posts', 'wp_99_options', 'wp_99_postmeta'])
+        .mockResolvedValueOnce(['wp_posts', 'wp_options'])
+        .mockResolvedValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_postmeta'])
+        .mockResolvedValueOnce(['wp_43_posts', 'wp_43_options'])
+        .mockResolvedValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_postmeta']);
 
       const result = await EnvironmentCleanupService.compareEnvironments('prod', ['dev']);
 
@@ -84,8 +91,8 @@ describe('EnvironmentCleanupService', () => {
         });
 
       mockDatabaseOperations.getSiteTables
-        .mockReturnValueOnce(['wp_43_posts', 'wp_43_options'])
-        .mockReturnValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_custom_table']);
+        .mockResolvedValueOnce(['wp_43_posts', 'wp_43_options'])
+        .mockResolvedValueOnce(['wp_43_posts', 'wp_43_options', 'wp_43_custom_table']);
 
       const result = await EnvironmentCleanupService.compareEnvironments('prod', ['dev']);
 
@@ -104,7 +111,7 @@ describe('EnvironmentCleanupService', () => {
   describe('deleteSiteFromEnvironment', () => {
     it('should delete site and tables successfully', async () => {
       mockSiteEnumerator.validateSiteExists.mockResolvedValue(true);
-      mockDatabaseOperations.getSiteTables.mockReturnValue(['wp_43_posts', 'wp_43_options']);
+      mockDatabaseOperations.getSiteTables.mockResolvedValue(['wp_43_posts', 'wp_43_options']);
       
       // Mock the private static methods used by deleteSiteFromEnvironment
       const deleteSiteFromBlogsTableSpy = jest.spyOn(EnvironmentCleanupService as any, 'deleteSiteFromBlogsTable').mockResolvedValue(undefined);
@@ -126,6 +133,29 @@ describe('EnvironmentCleanupService', () => {
       dropTablesSpy.mockRestore();
     });
 
+    it('should quote hostile table names and site IDs', async () => {
+      const execute = jest.fn().mockResolvedValue({ affectedRows: 1, insertId: 0 });
+      mockDbConnectionManager.get.mockReturnValue({ execute } as any);
+      mockSiteEnumerator.validateSiteExists.mockResolvedValue(true);
+      mockDatabaseOperations.getSiteTables.mockResolvedValue([
+        'wp_43_x`; DROP TABLE wp_blogs; --',
+        "wp_43_it's",
+      ]);
+
+      const result = await EnvironmentCleanupService.deleteSiteFromEnvironment(43, 'dev', {
+        dryRun: false,
+        createBackup: false,
+      });
+      const sql = execute.mock.calls.map(([query, params]) => SqlBuilder.format(query, params));
+
+      expect(result.errors).toHaveLength(0);
+      expect(sql).toEqual([
+        'DELETE FROM wp_blogs WHERE blog_id = 43',
+        'DROP TABLE IF EXISTS `wp_43_x``; DROP TABLE wp_blogs; --`',
+        "DROP TABLE IF EXISTS `wp_43_it's`",
+      ]);
+    });
+
     it('should handle non-existent site', async () => {
       mockSiteEnumerator.validateSiteExists.mockResolvedValue(false);
 
@@ -143,7 +173,7 @@ describe('EnvironmentCleanupService', () => {
 
     it('should handle dry run mode', async () => {
       mockSiteEnumerator.validateSiteExists.mockResolvedValue(true);
-      mockDatabaseOperations.getSiteTables.mockReturnValue(['wp_43_posts']);
+      mockDatabaseOperations.getSiteTables.mockResolvedValue(['wp_43_posts']);
 
       const result = await EnvironmentCleanupService.deleteSiteFromEnvironment(43, 'dev', {
         dryRun: true,
@@ -210,7 +240,7 @@ describe('EnvironmentCleanupService', () => {
 
       mockSiteEnumerator.validateSiteExists.mockResolvedValue(true);
       mockDatabaseOperations.getSiteTables.mockImplementation(
-        (siteId: any, environment: any) => {
+        async (siteId: any, environment: any) => {
           if (String(siteId) === '99') return ['wp_99_posts'];
           return environment === 'prod'
             ? ['wp_43_posts']
@@ -235,6 +265,72 @@ describe('EnvironmentCleanupService', () => {
     });
   });
 
+  describe('performEnvironmentCleanup snapshots', () => {
+    const site = (blogId: number) => ({
+      blogId,
+      domain: `site${blogId}.test`,
+      path: '/',
+      registeredDate: '',
+      lastUpdated: '',
+      isPublic: true,
+      isArchived: false,
+      isMature: false,
+      isSpam: false,
+      isDeleted: false,
+    });
+    let deleteSiteFromBlogsTableSpy: jest.SpyInstance;
+    let dropTablesSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      deleteSiteFromBlogsTableSpy = jest.spyOn(EnvironmentCleanupService as any, 'deleteSiteFromBlogsTable').mockResolvedValue(undefined);
+      dropTablesSpy = jest.spyOn(EnvironmentCleanupService as any, 'dropTables').mockResolvedValue(undefined);
+      mockSiteEnumerator.enumerateSites
+        .mockResolvedValueOnce({ sites: [site(43)], totalCount: 1, filteredCount: 1, environment: 'prod' })
+        .mockResolvedValueOnce({ sites: [site(43), site(99)], totalCount: 2, filteredCount: 2, environment: 'dev' });
+      mockSiteEnumerator.validateSiteExists.mockResolvedValue(true);
+      mockDatabaseOperations.getSiteTables.mockImplementation(
+        async (siteId: any, environment: any) => {
+          if (String(siteId) === '99') return ['wp_99_posts'];
+          return environment === 'prod' ? ['wp_43_posts'] : ['wp_43_posts', 'wp_43_custom'];
+        }
+      );
+    });
+
+    afterEach(() => {
+      deleteSiteFromBlogsTableSpy.mockRestore();
+      dropTablesSpy.mockRestore();
+    });
+
+    it('should take one snapshot of everything it is about to change', async () => {
+      mockChangeSnapshot.capture.mockResolvedValue({ snapshotId: 'snapshot-1' } as any);
+
+      const results = await EnvironmentCleanupService.performEnvironmentCleanup('prod', ['dev'], {
+        dryRun: false,
+        createBackup: true,
+      });
+
+      expect(mockChangeSnapshot.capture).toHaveBeenCalledTimes(1);
+      expect(mockChangeSnapshot.capture).toHaveBeenCalledWith('dev', ['wp_99_posts', 'wp_43_custom'], {
+        rows: { wp_blogs: 'blog_id IN (99)' },
+      });
+      expect(results[0].snapshotId).toBe('snapshot-1');
+      expect(results[0].deletedSites).toEqual([99]);
+    });
+
+    it('should leave an environment alone when its snapshot fails', async () => {
+      mockChangeSnapshot.capture.mockRejectedValue(new Error('mysqldump failed: Access denied'));
+
+      const results = await EnvironmentCleanupService.performEnvironmentCleanup('prod', ['dev'], {
+        dryRun: false,
+        createBackup: true,
+      });
+
+      expect(results[0].errors).toEqual(['Environment cleanup failed: mysqldump failed: Access denied']);
+      expect(deleteSiteFromBlogsTableSpy).not.toHaveBeenCalled();
+      expect(dropTablesSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('generateCleanupReport', () => {
     it('should generate comprehensive report', async () => {
       const comparisons = [{
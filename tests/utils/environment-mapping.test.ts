@@ -0,0 +1,412 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EnvironmentMappingService } from '../../src/utils/environment-mapping';
+import { Config } from '../../src/utils/config';
+import { SerializedReplace } from '../../src/utils/serialized-replace';
+import { SiteEnumerator, SiteInfo } from '../../src/utils/site-enumerator';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/site-enumerator');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockSiteEnumerator = SiteEnumerator as jest.Mocked<typeof SiteEnumerator>;
+
+function site(domain: string, path = '/'): SiteInfo {
+  return {
+    blogId: 43,
+    domain,
+    path,
+    registeredDate: '2023-01-01',
+    lastUpdated: '2023-12-01',
+    isPublic: true,
+    isArchived: false,
+    isMature: false,
+    isSpam: false,
+    isDeleted: false,
+  };
+}
+
+describe('EnvironmentMappingService', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    projectDir = mkdtempSync(join(tmpdir(), 'env-mapping-test-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    mockConfig.getMappingsConfig.mockReturnValue({});
+    mockConfig.getConfigFilePath.mockReturnValue('/home/u/.wfuwp/config.json');
+    mockConfig.getValidEnvironments.mockReturnValue([
+      'dev',
+      'uat',
+      'pprd',
+      'prod',
+      'local',
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('getEnvironmentMapping', () => {
+    it('returns the built-in rules when nothing is configured', () => {
+      const mapping = EnvironmentMappingService.getEnvironmentMapping(
+        'prod',
+        'pprd'
+      );
+      expect(mapping.urlReplacements[0]).toEqual({
+        from: 'https://www.wfu.edu',
+        to: 'https://pprd.wfu.edu',
+      });
+      expect(
+        EnvironmentMappingService.getMappingSources('prod', 'pprd')
+      ).toEqual([{ source: 'built-in' }]);
+    });
+
+    it('puts project and config rules ahead of the built-ins', () => {
+      mockConfig.getMappingsConfig.mockReturnValue({
+        'prod->pprd': {
+          urlReplacements: [{ from: 'news.wfu.edu', to: 'news-pprd.wfu.edu' }],
+        },
+      });
+      writeFileSync(
+        join(projectDir, '.wfuwp-mappings.json'),
+        JSON.stringify({
+          'prod->pprd': {
+            s3Replacements: [{ from: 'cdn.wfu.edu', to: 'cdn-pprd.wfu.edu' }],
+          },
+        })
+      );
+
+      const mapping = EnvironmentMappingService.getEnvironmentMapping(
+        'prod',
+        'pprd'
+      );
+
+      expect(mapping.urlReplacements[0]).toEqual({
+        from: 'news.wfu.edu',
+        to: 'news-pprd.wfu.edu',
+      });
+      expect(mapping.s3Replacements[0]).toEqual({
+        from: 'cdn.wfu.edu',
+        to: 'cdn-pprd.wfu.edu',
+      });
+      expect(
+        EnvironmentMappingService.getMappingSources('prod', 'pprd').map(
+          (source) => source.source
+        )
+      ).toEqual(['project', 'config', 'built-in']);
+    });
+
+    it('drops the built-ins when replaceBuiltIn is set', () => {
+      mockConfig.getMappingsConfig.mockReturnValue({
+        'uat->dev': {
+          replaceBuiltIn: true,
+          urlReplacements: [{ from: 'uat.wfu.edu', to: 'dev.wfu.edu' }],
+        },
+      });
+
+      const mapping = EnvironmentMappingService.getEnvironmentMapping(
+        'uat',
+        'dev'
+      );
+
+      expect(mapping.urlReplacements).toEqual([
+        { from: 'uat.wfu.edu', to: 'dev.wfu.edu' },
+        { from: 'wp.cdn.aws.dev.wfu.edu', to: 'wp.cdn.aws.wfu.edu' },
+        { from: '.wp.cdn.aws.dev.wfu.edu', to: '.wp.cdn.aws.wfu.edu' },
+      ]);
+      expect(mapping.s3Replacements).toEqual([]);
+    });
+
+    it('supports paths declared only in config', () => {
+      mockConfig.getMappingsConfig.mockReturnValue({
+        'pprd->local': {
+          urlReplacements: [{ from: 'pprd.wfu.edu', to: 'wfu.local' }],
+        },
+      });
+
+      expect(
+        EnvironmentMappingService.isMigrationPathSupported('pprd', 'local')
+      ).toBe(true);
+      expect(EnvironmentMappingService.getSupportedMigrationPaths()).toContain(
+        'pprd->local'
+      );
+    });
+
+    it('rejects unknown environments in mapping keys', () => {
+      mockConfig.getMappingsConfig.mockReturnValue({
+        'prod->staging': { urlReplacements: [] },
+      });
+
+      expect(() =>
+        EnvironmentMappingService.getEnvironmentMapping('prod', 'pprd')
+      ).toThrow('Invalid mapping key "prod->staging" in config.json');
+    });
+
+    it('rejects malformed rules in the project file', () => {
+      writeFileSync(
+        join(projectDir, '.wfuwp-mappings.json'),
+        JSON.stringify({ 'prod->pprd': { urlReplacements: [{ from: '' }] } })
+      );
+
+      expect(() =>
+        EnvironmentMappingService.getEnvironmentMapping('prod', 'pprd')
+      ).toThrow('Invalid urlReplacements for "prod->pprd"');
+    });
+  });
+
+  describe('validateReplacementOrder', () => {
+    it('finds no problems in the built-in prod->pprd rules', () => {
+      const mapping = EnvironmentMappingService.getEnvironmentMapping(
+        'prod',
+        'pprd'
+      );
+      expect(
+        EnvironmentMappingService.validateReplacementOrder([
+          ...mapping.urlReplacements,
+          ...mapping.s3Replacements,
+        ])
+      ).toEqual([]);
+    });
+
+    it('flags a generic rule that runs before a specific one', () => {
+      const issues = EnvironmentMappingService.validateReplacementOrder([
+        { from: '.wfu.edu', to: '.pprd.wfu.edu' },
+        { from: 'www.wfu.edu', to: 'pprd.wfu.edu' },
+      ]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ index: 1, shadowedBy: 0 });
+      expect(issues[0].message).toContain(
+        '"www.wfu.edu" becomes "www.pprd.wfu.edu" instead of "pprd.wfu.edu"'
+      );
+    });
+
+    it('ignores shadowed rules that produce the same result', () => {
+      expect(
+        EnvironmentMappingService.validateReplacementOrder([
+          { from: 'uat.wfu.edu', to: 'dev.wfu.edu' },
+          { from: '.uat.wfu.edu', to: '.dev.wfu.edu' },
+        ])
+      ).toEqual([]);
+    });
+
+    it('ignores cleanup rules that target earlier output', () => {
+      expect(
+        EnvironmentMappingService.validateReplacementOrder([
+          { from: '.wfu.edu', to: '.pprd.wfu.edu' },
+          { from: 'pprd.pprd.wfu.edu', to: 'pprd.wfu.edu' },
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('getSiteReplacements', () => {
+    beforeEach(() => {
+      mockSiteEnumerator.getMappedDomains.mockResolvedValue([]);
+    });
+
+    it('maps a vanity domain to the target wp_blogs domain', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        site(
+          env === 'prod' ? 'magazine.wakeforest.edu' : 'magazine.pprd.wfu.edu'
+        )
+      );
+      mockSiteEnumerator.getMappedDomains.mockResolvedValue([
+        'wfumagazine.com',
+      ]);
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(result.domains).toEqual([
+        {
+          sourceDomain: 'magazine.wakeforest.edu',
+          targetDomain: 'magazine.pprd.wfu.edu',
+          origin: 'wp_blogs',
+        },
+        {
+          sourceDomain: 'wfumagazine.com',
+          targetDomain: 'magazine.pprd.wfu.edu',
+          origin: 'wp_domain_mapping',
+        },
+      ]);
+      expect(result.replacements).toEqual([
+        {
+          from: '//magazine.wakeforest.edu',
+          to: '//magazine.pprd.wfu.edu',
+          pathBoundary: true,
+        },
+        {
+          from: '//wfumagazine.com',
+          to: '//magazine.pprd.wfu.edu',
+          pathBoundary: true,
+        },
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('adds nothing for domains the environment rules already handle', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        site(env === 'prod' ? 'news.wfu.edu' : 'news.pprd.wfu.edu')
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(result.replacements).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns when the target has no domain for a vanity site', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        env === 'prod' ? site('magazine.wakeforest.edu') : null
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(result.replacements).toEqual([]);
+      expect(result.warnings[0]).toContain(
+        'No pprd domain known for magazine.wakeforest.edu'
+      );
+    });
+
+    it('takes the target domain from another site ID when given one', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (id, env) =>
+        env === 'prod'
+          ? site('magazine.wakeforest.edu')
+          : id === 97
+            ? site('alumni.pprd.wfu.edu')
+            : null
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd',
+        97
+      );
+
+      expect(mockSiteEnumerator.getSiteInfo).toHaveBeenCalledWith(97, 'pprd');
+      expect(result.replacements).toEqual([
+        {
+          from: '//magazine.wakeforest.edu',
+          to: '//alumni.pprd.wfu.edu',
+          pathBoundary: true,
+        },
+      ]);
+    });
+
+    it('maps vanity domains to the target site path', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        env === 'prod'
+          ? site('www.wfu.edu', '/magazine/')
+          : site('pprd.wfu.edu', '/magazine/')
+      );
+      mockSiteEnumerator.getMappedDomains.mockResolvedValue([
+        'wfumagazine.com',
+      ]);
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(result.domains).toEqual([
+        {
+          sourceDomain: 'wfumagazine.com',
+          targetDomain: 'pprd.wfu.edu/magazine',
+          origin: 'wp_domain_mapping',
+        },
+      ]);
+      expect(
+        SerializedReplace.replace(
+          'https://wfumagazine.com/ and https://wfumagazine.com/2024/issue/',
+          result.replacements
+        )
+      ).toBe(
+        'https://pprd.wfu.edu/magazine/ and https://pprd.wfu.edu/magazine/2024/issue/'
+      );
+    });
+
+    it('moves the wp_blogs address to a target site with another path', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        env === 'prod'
+          ? site('www.wakeforest.edu', '/magazine/')
+          : site('alumni.pprd.wfu.edu', '/class-notes/')
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd',
+        97
+      );
+
+      expect(result.replacements).toEqual([
+        {
+          from: '//www.wakeforest.edu/magazine',
+          to: '//alumni.pprd.wfu.edu/class-notes',
+          pathBoundary: true,
+        },
+      ]);
+    });
+
+    it('leaves lookalike domains alone', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        site(env === 'prod' ? 'vanity.org' : 'vanity.pprd.wfu.edu')
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(
+        SerializedReplace.replace(
+          'https://vanity.org/a https://vanity.org.uk/b https://vanity.organic.com/c',
+          result.replacements
+        )
+      ).toBe(
+        'https://vanity.pprd.wfu.edu/a https://vanity.org.uk/b https://vanity.organic.com/c'
+      );
+    });
+
+    it('turns a domain mapping lookup failure into a warning', async () => {
+      mockSiteEnumerator.getSiteInfo.mockImplementation(async (_id, env) =>
+        site(
+          env === 'prod' ? 'magazine.wakeforest.edu' : 'magazine.pprd.wfu.edu'
+        )
+      );
+      mockSiteEnumerator.getMappedDomains.mockRejectedValue(
+        new Error('Failed to read domain mappings: access denied')
+      );
+
+      const result = await EnvironmentMappingService.getSiteReplacements(
+        43,
+        'prod',
+        'pprd'
+      );
+
+      expect(result.replacements).toHaveLength(1);
+      expect(result.warnings).toEqual([
+        'Failed to read domain mappings: access denied',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { DatabaseOperations } from '../../src/utils/database';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { MediaAudit } from '../../src/utils/media-audit';
+import {
+  S3ObjectEntry,
+  S3Storage,
+  S3StorageManager,
+} from '../../src/utils/s3-storage';
+
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+
+const mockDatabaseOperations = DatabaseOperations as jest.Mocked<
+  typeof DatabaseOperations
+>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+// Builds PHP serialize() output for the metadata fixtures
+function serialize(value: unknown): string {
+  if (typeof value === 'number') {
+    return `i:${value};`;
+  }
+  if (typeof value === 'string') {
+    return `s:${Buffer.byteLength(value)}:"${value}";`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  return `a:${entries.length}:{${entries
+    .map(([key, item]) => serialize(key) + serialize(item))
+    .join('')}}`;
+}
+
+function object(key: string, size: number): S3ObjectEntry {
+  return { key, size, etag: key, lastModified: '2026-10-01T00:00:00Z' };
+}
+
+describe('MediaAudit', () => {
+  let buckets: Record<string, S3ObjectEntry[]>;
+  let storage: jest.Mocked<S3Storage>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([
+      'wp_43_postmeta',
+      'wp_43_posts',
+    ]);
+    const query = jest.fn().mockImplementation(async (sql: string) =>
+      sql.startsWith('SELECT ID')
+        ? [{ ID: '7' }, { ID: '8' }, { ID: '9' }]
+        : [
+            {
+              post_id: '7',
+              meta_key: '_wp_attached_file',
+              meta_value: '2024/01/café-scaled.jpg',
+            },
+            {
+              post_id: '7',
+              meta_key: '_wp_attachment_metadata',
+              meta_value: serialize({
+                file: '2024/01/café-scaled.jpg',
+                filesize: 2000,
+                sizes: {
+                  thumbnail: { file: 'café-150x150.jpg', filesize: 100 },
+                  medium: { file: 'café-300x200.jpg', filesize: 300 },
+                },
+                original_image: 'café.jpg',
+              }),
+            },
+            {
+              post_id: '7',
+              meta_key: '_wp_attachment_backup_sizes',
+              meta_value: serialize({
+                'full-orig': { file: 'café-e1700000000.jpg', filesize: 50 },
+              }),
+            },
+            {
+              post_id: '8',
+              meta_key: '_wp_attached_file',
+              meta_value: 'wp-content/uploads/sites/43/report.pdf',
+            },
+            {
+              post_id: '8',
+              meta_key: '_wp_attachment_metadata',
+              meta_value: 'a:1:{s:4:"file"',
+            },
+          ]
+    );
+    mockDbConnectionManager.get.mockReturnValue({ query } as any);
+
+    buckets = {
+      'wfu-cer-wordpress-uat-us-east-1': [
+        object('sites/43/2024/01/café-scaled.jpg', 2000),
+        object('sites/43/2024/01/café-150x150.jpg', 100),
+        object('sites/43/2024/01/old-banner.png', 4096),
+        object('sites/43/gravity_forms/43-abc/entry.csv', 10),
+      ],
+      'wfu-cer-wordpress-prod-us-east-1': [
+        object('sites/43/2024/01/café.jpg', 9000),
+        object('sites/43/2024/01/café-300x200.jpg', 300),
+        object('sites/43/report.pdf', 700),
+      ],
+    };
+    storage = {
+      listObjects: jest.fn(async (bucket: string, prefix: string) =>
+        (buckets[bucket] || []).filter((entry) => entry.key.startsWith(prefix))
+      ),
+      copyObject: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<S3Storage>;
+    jest.spyOn(S3StorageManager, 'get').mockReturnValue(storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports files the attachments name that S3 lacks and uploads no attachment names', async () => {
+    const report = await MediaAudit.audit(43, 'uat');
+
+    expect(mockDbConnectionManager.get('uat').query).toHaveBeenCalledWith(
+      expect.stringContaining('pm.meta_key IN (?)'),
+      [
+        'wp_43_postmeta',
+        'wp_43_posts',
+        [
+          '_wp_attached_file',
+          '_wp_attachment_metadata',
+          '_wp_attachment_backup_sizes',
+        ],
+      ]
+    );
+    expect(report).toEqual(
+      expect.objectContaining({
+        location: 's3://wfu-cer-wordpress-uat-us-east-1/sites/43/',
+        attachments: 3,
+        expected: 6,
+        missingBytes: 350,
+        orphanedBytes: 4096,
+        skipped: 1,
+      })
+    );
+    expect(report.missing).toEqual([
+      {
+        key: '2024/01/café.jpg',
+        attachmentId: 7,
+        variant: 'original',
+        size: null,
+      },
+      {
+        key: '2024/01/café-300x200.jpg',
+        attachmentId: 7,
+        variant: 'medium',
+        size: 300,
+      },
+      {
+        key: '2024/01/café-e1700000000.jpg',
+        attachmentId: 7,
+        variant: 'full-orig',
+        size: 50,
+      },
+      { key: 'report.pdf', attachmentId: 8, variant: 'full', size: null },
+    ]);
+    expect(report.orphaned.map((entry) => entry.key)).toEqual([
+      '2024/01/old-banner.png',
+    ]);
+    expect(report.warnings).toEqual([
+      expect.stringMatching(
+        /^Attachment 8: could not read _wp_attachment_metadata/
+      ),
+      'Attachment 9 has no _wp_attached_file',
+    ]);
+  });
+
+  it('copies the missing files another environment has', async () => {
+    const report = await MediaAudit.audit(43, 'uat');
+
+    const plan = await MediaAudit.planFix(report, 'prod');
+    expect(plan.copy.map((file) => [file.key, file.size])).toEqual([
+      ['2024/01/café.jpg', 9000],
+      ['2024/01/café-300x200.jpg', 300],
+      ['report.pdf', 700],
+    ]);
+    expect(plan.unavailable.map((file) => file.key)).toEqual([
+      '2024/01/café-e1700000000.jpg',
+    ]);
+
+    storage.copyObject.mockImplementation(async (_bucket, key) => {
+      if (key.endsWith('report.pdf')) {
+        throw new Error('Access Denied');
+      }
+    });
+    const result = await MediaAudit.fix(plan);
+
+    expect(storage.copyObject).toHaveBeenCalledWith(
+      'wfu-cer-wordpress-prod-us-east-1',
+      'sites/43/2024/01/café.jpg',
+      'wfu-cer-wordpress-uat-us-east-1',
+      'sites/43/2024/01/café.jpg',
+      9000
+    );
+    expect(result).toEqual({
+      copied: 2,
+      copiedBytes: 9300,
+      failed: [{ key: 'report.pdf', error: 'Access Denied' }],
+    });
+  });
+
+  it('refuses a site without attachment tables', async () => {
+    mockDatabaseOperations.getSiteTables.mockResolvedValue(['wp_43_posts']);
+
+    await expect(MediaAudit.audit(43, 'uat')).rejects.toThrow(
+      'Table wp_43_postmeta not found in uat'
+    );
+  });
+});
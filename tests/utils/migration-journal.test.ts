@@ -0,0 +1,117 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MigrationJournal } from '../../src/utils/migration-journal';
+
+describe('MigrationJournal', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'migration-journal-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('create', () => {
+    it('writes a running journal into its own directory', () => {
+      const journal = MigrationJournal.create('43', 'prod', 'uat', workDir);
+
+      expect(journal.migrationId).toMatch(/^migration-43-[\dT-]+-[a-z0-9]+$/);
+      expect(journal.workDir).toBe(join(workDir, journal.migrationId));
+
+      const saved = JSON.parse(
+        readFileSync(join(journal.workDir, 'journal.json'), 'utf8')
+      );
+      expect(saved).toMatchObject({
+        siteId: '43',
+        sourceEnv: 'prod',
+        targetEnv: 'uat',
+        status: 'running',
+        steps: {},
+      });
+      expect(existsSync(join(journal.workDir, 'journal.json.tmp'))).toBe(false);
+    });
+  });
+
+  describe('step tracking', () => {
+    it('persists every step transition to disk', () => {
+      const journal = MigrationJournal.create('43', 'prod', 'uat', workDir);
+
+      MigrationJournal.startStep(journal, 'export');
+      MigrationJournal.finishStep(journal, 'export', 'completed', '12 tables');
+      MigrationJournal.startStep(journal, 'transform');
+
+      const loaded = MigrationJournal.load(journal.migrationId, workDir);
+      expect(loaded.steps.export).toMatchObject({
+        status: 'completed',
+        message: '12 tables',
+      });
+      expect(loaded.steps.transform?.status).toBe('started');
+      expect(MigrationJournal.getLastCompletedStep(loaded)).toBe('export');
+    });
+
+    it('records the failing step and error', () => {
+      const journal = MigrationJournal.create('43', 'prod', 'uat', workDir);
+      MigrationJournal.startStep(journal, 'import');
+      MigrationJournal.markFailed(journal, 'import', 'connection lost');
+
+      const loaded = MigrationJournal.load(journal.migrationId, workDir);
+      expect(loaded.status).toBe('failed');
+      expect(loaded.failedStep).toBe('import');
+      expect(loaded.error).toBe('connection lost');
+      expect(MigrationJournal.isStepCompleted(loaded, 'import')).toBe(false);
+    });
+
+    it('reopens target-side steps after a rollback', () => {
+      const journal = MigrationJournal.create('43', 'prod', 'uat', workDir);
+      for (const step of ['export', 'transform', 'backup', 'import'] as const) {
+        MigrationJournal.finishStep(journal, step);
+      }
+      MigrationJournal.markFailed(journal, 's3-sync', 'access denied');
+      MigrationJournal.markRolledBack(journal);
+
+      expect(journal.status).toBe('rolled-back');
+      expect(MigrationJournal.isStepCompleted(journal, 'backup')).toBe(true);
+      expect(MigrationJournal.isStepCompleted(journal, 'import')).toBe(false);
+      expect(MigrationJournal.getLastCompletedStep(journal)).toBe('backup');
+    });
+  });
+
+  describe('load', () => {
+    it('throws for an unknown migration', () => {
+      expect(() => MigrationJournal.load('migration-missing', workDir)).toThrow(
+        'Migration journal not found'
+      );
+    });
+  });
+
+  describe('listMigrations', () => {
+    it('returns journals newest first and skips other directories', () => {
+      const first = MigrationJournal.create('43', 'prod', 'uat', workDir);
+      first.startedAt = '2026-05-01T00:00:00.000Z';
+      MigrationJournal.save(first);
+      const second = MigrationJournal.create('12', 'prod', 'pprd', workDir);
+      second.startedAt = '2026-05-02T00:00:00.000Z';
+      MigrationJournal.save(second);
+      MigrationJournal.getMigrationsDirectory(join(workDir, 'not-a-journal'));
+
+      const migrations = MigrationJournal.listMigrations(workDir);
+
+      expect(migrations.map((migration) => migration.migrationId)).toEqual([
+        second.migrationId,
+        first.migrationId,
+      ]);
+    });
+  });
+
+  describe('read', () => {
+    it('reads a journal from its directory, wherever that is', () => {
+      const journal = MigrationJournal.create('43', 'prod', 'uat', workDir);
+
+      expect(MigrationJournal.read(journal.workDir)).toEqual(journal);
+      expect(MigrationJournal.read(join(workDir, 'gone'))).toBeUndefined();
+    });
+  });
+});
@@ -1,9 +1,24 @@
 import { NetworkTableOperations } from '../../src/utils/network-tables';
 import { Config } from '../../src/utils/config';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { SqlBuilder } from '../../src/utils/sql';
+import {
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
 
 const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
 
 describe('NetworkTableOperations', () => {
   beforeEach(() => {
@@ -43,39 +58,146 @@ describe('NetworkTableOperations', () => {
   });
 
   describe('getExistingNetworkTables', () => {
-    it('throws for an unconfigured environment', () => {
+    it('throws for an unconfigured environment', async () => {
       mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(false);
       mockConfig.getEnvironmentConfig.mockReturnValue({} as any);
-      expect(() =>
+      await expect(
         NetworkTableOperations.getExistingNetworkTables('bogus')
-      ).toThrow("Environment 'bogus' is not configured");
+      ).rejects.toThrow("Environment 'bogus' is not configured");
     });
   });
 
   describe('validateNetworkTablesForMigration', () => {
-    it('throws when the source has no migrateable network tables', () => {
+    it('throws when the source has no migrateable network tables', async () => {
       jest
         .spyOn(NetworkTableOperations, 'getExistingNetworkTables')
-        .mockImplementation((env: string) =>
+        .mockImplementation(async (env: string) =>
           env === 'prod' ? ['wp_users'] : ['wp_blogs']
         );
-      expect(() =>
+      await expect(
         NetworkTableOperations.validateNetworkTablesForMigration('prod', 'uat')
-      ).toThrow(/No migrateable network tables found/);
+      ).rejects.toThrow(/No migrateable network tables found/);
     });
 
-    it('passes when source has migrateable tables present', () => {
+    it('passes when source has migrateable tables present', async () => {
       jest
         .spyOn(NetworkTableOperations, 'getExistingNetworkTables')
-        .mockReturnValue([
+        .mockResolvedValue([
           'wp_blogs',
           'wp_site',
           'wp_sitemeta',
           'wp_blogmeta',
         ]);
-      expect(() =>
+      await expect(
         NetworkTableOperations.validateNetworkTablesForMigration('prod', 'uat')
-      ).not.toThrow();
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('transformNetworkTablesForEnvironment', () => {
+    it('escapes hostile replacement strings and LIKE wildcards', async () => {
+      mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+      mockConfig.getEnvironmentConfig.mockReturnValue({
+        host: 'db.example.com',
+        database: 'wordpress',
+      } as any);
+      const execute = jest
+        .fn()
+        .mockResolvedValue({ affectedRows: 0, insertId: 0 });
+      mockDbConnectionManager.get.mockReturnValue({
+        query: jest.fn().mockResolvedValue([{ Field: 'domain' }]),
+        execute,
+      } as any);
+      jest
+        .spyOn(NetworkTableOperations, 'getExistingNetworkTables')
+        .mockResolvedValue(['wp_blogs']);
+
+      await NetworkTableOperations.transformNetworkTablesForEnvironment('uat', [
+        { from: "it's_100%\\$(id)", to: "'; DROP TABLE wp_site; --" },
+      ]);
+
+      const [query, params] = execute.mock.calls[0];
+      expect(SqlBuilder.format(query, params)).toBe(
+        "UPDATE `wp_blogs` SET `domain` = REPLACE(`domain`, 'it\\'s_100%\\\\$(id)', '\\'; DROP TABLE wp_site; --') WHERE `domain` LIKE '%it\\'s\\\\_100\\\\%\\\\\\\\$(id)%'"
+      );
+    });
+  });
+
+  describe('transformSqlFile', () => {
+    let workDir: string;
+
+    beforeEach(() => {
+      workDir = mkdtempSync(join(tmpdir(), 'network-tables-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('rewrites serialized values inside INSERT literals', async () => {
+      const sqlFile = join(workDir, 'dump.sql');
+      writeFileSync(
+        sqlFile,
+        '-- Host: db.wfu.edu\n' +
+          "INSERT INTO `wp_43_options` VALUES (1,'siteurl','https://www.wfu.edu','yes')," +
+          "(2,'widget_text','a:1:{s:3:\\\"url\\\";s:24:\\\"https://www.wfu.edu/it\\'s\\\";}','yes');\n"
+      );
+
+      await NetworkTableOperations.transformSqlFile(sqlFile, [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+      ]);
+
+      const result = readFileSync(sqlFile, 'utf8');
+      expect(result).toContain("(1,'siteurl','https://pprd.wfu.edu','yes')");
+      expect(result).toContain(
+        '\'a:1:{s:3:\\"url\\";s:25:\\"https://pprd.wfu.edu/it\\\'s\\";}\''
+      );
+      expect(result).toContain('-- Host: db.wfu.edu');
+    });
+
+    it('leaves untouched literals byte-for-byte identical', async () => {
+      const sqlFile = join(workDir, 'dump.sql');
+      const original =
+        "INSERT INTO `wp_43_posts` VALUES (1,'Line one\\nLine two','Café');\n";
+      writeFileSync(sqlFile, original);
+
+      await NetworkTableOperations.transformSqlFile(sqlFile, [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+      ]);
+
+      expect(readFileSync(sqlFile, 'utf8')).toBe(original);
+    });
+
+    it('writes to another file and leaves the input as it was', async () => {
+      const sqlFile = join(workDir, 'dump.sql');
+      const original =
+        "INSERT INTO `wp_43_options` VALUES (1,'siteurl','https://www.wfu.edu','yes');\n";
+      writeFileSync(sqlFile, original);
+
+      await NetworkTableOperations.transformSqlFile(
+        sqlFile,
+        [{ from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' }],
+        false,
+        { outputPath: join(workDir, 'transformed.sql') }
+      );
+
+      expect(readFileSync(sqlFile, 'utf8')).toBe(original);
+      expect(readFileSync(join(workDir, 'transformed.sql'), 'utf8')).toContain(
+        "(1,'siteurl','https://pprd.wfu.edu','yes')"
+      );
+      expect(readdirSync(workDir).sort()).toEqual([
+        'dump.sql',
+        'transformed.sql',
+      ]);
+    });
+
+    it('throws when the SQL file does not exist', async () => {
+      await expect(
+        NetworkTableOperations.transformSqlFile(
+          join(workDir, 'missing.sql'),
+          []
+        )
+      ).rejects.toThrow('SQL file not found');
     });
   });
 });
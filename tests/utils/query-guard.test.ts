@@ -0,0 +1,54 @@
+import { QueryGuard } from '../../src/utils/query-guard';
+
+describe('QueryGuard', () => {
+  describe('splitStatements', () => {
+    it('splits on semicolons outside quotes and comments', () => {
+      expect(
+        QueryGuard.splitStatements(
+          "SELECT 'a;b'; SELECT `c;d` -- e;f\n; /* g;h */ SELECT 1;"
+        )
+      ).toEqual(["SELECT 'a;b'", 'SELECT `c;d` -- e;f', '/* g;h */ SELECT 1']);
+    });
+
+    it('drops empty and comment-only statements', () => {
+      expect(QueryGuard.splitStatements(' ; -- nothing\n;')).toEqual([]);
+    });
+  });
+
+  describe('isReadOnly', () => {
+    it.each([
+      'SELECT * FROM wp_blogs',
+      'select option_value from wp_options where option_name = "siteurl";',
+      '  (SELECT 1) UNION (SELECT 2)',
+      'SHOW TABLES',
+      'DESCRIBE wp_posts',
+      'EXPLAIN SELECT * FROM wp_posts',
+      'WITH recent AS (SELECT ID FROM wp_posts) SELECT * FROM recent',
+      "SELECT REPLACE(option_value, 'http:', 'https:') FROM wp_options",
+      "SELECT * FROM wp_posts WHERE post_title = 'DELETE FROM wp_posts'",
+      'SELECT `update`, `delete` FROM t',
+      '-- UPDATE x\nSELECT 1',
+    ])('allows %s', (sql) => {
+      expect(QueryGuard.isReadOnly(sql)).toBe(true);
+    });
+
+    it.each([
+      'UPDATE wp_options SET option_value = 1',
+      'DELETE FROM wp_blogs WHERE blog_id = 9',
+      'DROP TABLE wp_43_posts',
+      'TRUNCATE wp_43_posts',
+      'INSERT INTO wp_options VALUES (1)',
+      'SET GLOBAL read_only = 0',
+      'WITH old AS (SELECT ID FROM wp_posts) DELETE FROM wp_posts WHERE ID IN (SELECT ID FROM old)',
+      'EXPLAIN ANALYZE UPDATE wp_posts SET post_status = 1',
+      "SELECT * FROM wp_users INTO OUTFILE '/tmp/users.csv'",
+      'SELECT 1; DROP TABLE wp_blogs',
+      'SELECT 1 /*! ; DELETE FROM wp_blogs */',
+      "SELECT 'unterminated",
+      '/* UPDATE',
+      '',
+    ])('refuses %s', (sql) => {
+      expect(QueryGuard.isReadOnly(sql)).toBe(false);
+    });
+  });
+});
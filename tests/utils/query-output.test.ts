@@ -0,0 +1,60 @@
+import { QueryOutput } from '../../src/utils/query-output';
+
+// chalk styling is irrelevant to layout, so compare plain text
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\u001b\[\d+m/g, '');
+
+const rows = [
+  { blog_id: 1, domain: 'www.wfu.edu', path: '/' },
+  { blog_id: 43, domain: 'magazine.wfu.edu', path: null },
+];
+
+describe('QueryOutput', () => {
+  it('lays out a table with padded columns and a row count', () => {
+    expect(plain(QueryOutput.format(rows, 'table')).split('\n')).toEqual([
+      'blog_id | domain           | path',
+      '--------+------------------+-----',
+      '1       | www.wfu.edu      | /   ',
+      '43      | magazine.wfu.edu | NULL',
+      '2 rows',
+    ]);
+  });
+
+  it('shows line breaks escaped and cuts long values in tables', () => {
+    const output = plain(
+      QueryOutput.formatTable([{ value: `a\nb${'x'.repeat(100)}` }])
+    );
+
+    expect(output.split('\n')[2]).toBe(`a\\nb${'x'.repeat(55)}…`);
+  });
+
+  it('reports an empty result', () => {
+    expect(plain(QueryOutput.format([], 'table'))).toBe('Empty set');
+  });
+
+  it('prints JSON with buffers as text', () => {
+    expect(
+      JSON.parse(
+        QueryOutput.format([{ id: 1, data: Buffer.from('hi') }], 'json')
+      )
+    ).toEqual([{ id: 1, data: 'hi' }]);
+  });
+
+  it('quotes CSV fields with commas, quotes and line breaks', () => {
+    expect(
+      QueryOutput.format(
+        [
+          { id: 1, title: 'Hello, "world"', body: 'line1\nline2' },
+          { id: 2, title: null, body: 'plain' },
+        ],
+        'csv'
+      )
+    ).toBe('id,title,body\n1,"Hello, ""world""","line1\nline2"\n2,,plain');
+  });
+
+  it('includes columns that only appear in later rows', () => {
+    expect(QueryOutput.formatCsv([{ a: 1 }, { a: 2, b: 3 }])).toBe(
+      'a,b\n1,\n2,3'
+    );
+  });
+});
@@ -0,0 +1,514 @@
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import {
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Config } from '../../src/utils/config';
+import {
+  S3StorageError,
+  S3StorageManager,
+  S3TransferProgress,
+} from '../../src/utils/s3-storage';
+
+jest.mock('child_process');
+jest.mock('../../src/utils/config');
+
+const mockExecFileSync = execFileSync as jest.MockedFunction<
+  typeof execFileSync
+>;
+const mockConfig = Config as jest.Mocked<typeof Config>;
+
+// Just enough of the S3 REST API, path-style, for the sdk backend: buckets
+// map keys to bodies, listings return two keys a page, multipart uploads
+// are kept in `uploads` until completed or aborted and HEAD answers with any
+// `headers` given for the key
+function startFakeS3(
+  buckets: Record<string, Map<string, Buffer>>,
+  uploads: Map<string, Buffer[]> = new Map(),
+  headers: Map<string, Record<string, string>> = new Map()
+): Promise<Server> {
+  const readBody = (request: IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk) => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  const etag = (body: Buffer): string =>
+    `"${createHash('md5').update(body).digest('hex')}"`;
+  const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url!, 'http://localhost');
+    const [bucketName, ...keyParts] = url.pathname.slice(1).split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    const bucket = buckets[bucketName];
+    const body = await readBody(request);
+    const notFound = (code: string): void => {
+      response.writeHead(404, { 'Content-Type': 'application/xml' });
+      response.end(
+        `<Error><Code>${code}</Code><Message>${code}</Message></Error>`
+      );
+    };
+
+    if (!bucket) {
+      return notFound('NoSuchBucket');
+    }
+    if (request.method === 'HEAD' && key) {
+      const object = bucket.get(key);
+      if (!object) {
+        response.writeHead(404);
+        return response.end();
+      }
+      response.writeHead(200, {
+        ...headers.get(key),
+        'Content-Length': object.length,
+      });
+      return response.end();
+    }
+    if (request.method === 'HEAD') {
+      response.writeHead(200);
+      return response.end();
+    }
+    if (request.method === 'GET' && !key) {
+      const prefix = url.searchParams.get('prefix') || '';
+      const keys = [...bucket.keys()]
+        .filter((name) => name.startsWith(prefix))
+        .sort();
+      const start = Number(url.searchParams.get('continuation-token') || 0);
+      const page = keys.slice(start, start + 2);
+      const truncated = start + 2 < keys.length;
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end(
+        `<ListBucketResult><Name>${bucketName}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><IsTruncated>${truncated}</IsTruncated>${
+          truncated
+            ? `<NextContinuationToken>${start + 2}</NextContinuationToken>`
+            : ''
+        }${page
+          .map(
+            (name) =>
+              `<Contents><Key>${escapeXml(name)}</Key><LastModified>2026-10-0${keys.indexOf(name) + 1}T00:00:00.000Z</LastModified><ETag>${etag(bucket.get(name)!)}</ETag><Size>${bucket.get(name)!.length}</Size></Contents>`
+          )
+          .join('')}</ListBucketResult>`
+      );
+    }
+    if (request.method === 'POST' && url.searchParams.has('delete')) {
+      for (const [, name] of body.toString().matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        bucket.delete(name);
+      }
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end('<DeleteResult></DeleteResult>');
+    }
+    if (request.method === 'POST' && url.searchParams.has('uploads')) {
+      const uploadId = `upload-${uploads.size + 1}`;
+      uploads.set(uploadId, []);
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end(
+        `<InitiateMultipartUploadResult><Bucket>${bucketName}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`
+      );
+    }
+    if (request.method === 'POST' && url.searchParams.has('uploadId')) {
+      const parts = uploads.get(url.searchParams.get('uploadId')!)!;
+      const order = [
+        ...body.toString().matchAll(/<PartNumber>(\d+)<\/PartNumber>/g),
+      ].map(([, number]) => Number(number));
+      const object = Buffer.concat(order.map((number) => parts[number - 1]));
+      bucket.set(key, object);
+      uploads.delete(url.searchParams.get('uploadId')!);
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end(
+        `<CompleteMultipartUploadResult><Key>${escapeXml(key)}</Key><ETag>${etag(object)}</ETag></CompleteMultipartUploadResult>`
+      );
+    }
+    if (request.method === 'DELETE' && url.searchParams.has('uploadId')) {
+      uploads.delete(url.searchParams.get('uploadId')!);
+      response.writeHead(204);
+      return response.end();
+    }
+    if (
+      request.method === 'PUT' &&
+      request.headers['x-amz-copy-source'] &&
+      url.searchParams.has('uploadId')
+    ) {
+      const source = decodeURIComponent(
+        String(request.headers['x-amz-copy-source'])
+      );
+      const [sourceBucket, ...sourceKey] = source.split('/');
+      const object = buckets[sourceBucket]?.get(sourceKey.join('/'));
+      if (!object) {
+        return notFound('NoSuchKey');
+      }
+      // Whatever of the range the object has
+      const [, start, end] = String(
+        request.headers['x-amz-copy-source-range']
+      ).match(/^bytes=(\d+)-(\d+)$/)!;
+      const part = object.subarray(Number(start), Number(end) + 1);
+      uploads.get(url.searchParams.get('uploadId')!)![
+        Number(url.searchParams.get('partNumber')) - 1
+      ] = part;
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end(
+        `<CopyPartResult><ETag>${etag(part)}</ETag></CopyPartResult>`
+      );
+    }
+    if (request.method === 'PUT' && request.headers['x-amz-copy-source']) {
+      const source = decodeURIComponent(
+        String(request.headers['x-amz-copy-source'])
+      );
+      const [sourceBucket, ...sourceKey] = source.split('/');
+      const object = buckets[sourceBucket]?.get(sourceKey.join('/'));
+      if (!object) {
+        return notFound('NoSuchKey');
+      }
+      bucket.set(key, object);
+      response.writeHead(200, { 'Content-Type': 'application/xml' });
+      return response.end(
+        `<CopyObjectResult><ETag>${etag(object)}</ETag></CopyObjectResult>`
+      );
+    }
+    if (request.method === 'PUT') {
+      bucket.set(key, body);
+      response.writeHead(200, { ETag: etag(body) });
+      return response.end();
+    }
+    if (request.method === 'GET') {
+      const object = bucket.get(key);
+      if (!object) {
+        return notFound('NoSuchKey');
+      }
+      response.writeHead(200, {
+        'Content-Length': object.length,
+        ETag: etag(object),
+      });
+      return response.end(object);
+    }
+    response.writeHead(405);
+    response.end();
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  );
+}
+
+describe('S3StorageManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('cli backend', () => {
+    beforeEach(() => {
+      mockConfig.getS3Backend.mockReturnValue('cli');
+    });
+
+    it('lists objects from the JSON output with the endpoint and region', async () => {
+      mockExecFileSync.mockReturnValue(
+        JSON.stringify({
+          Contents: [
+            {
+              Key: 'backups/uat/site-43/a.sql.gz',
+              Size: 10,
+              ETag: '"abc"',
+              LastModified: '2026-10-01T00:00:00Z',
+            },
+          ],
+        }) as any
+      );
+      const storage = S3StorageManager.get({
+        endpoint: 'http://localhost:9000',
+        region: 'us-east-1',
+      });
+
+      await expect(
+        storage.listObjects('wfuwp-backups', 'backups/uat/site-43/')
+      ).resolves.toEqual([
+        {
+          key: 'backups/uat/site-43/a.sql.gz',
+          size: 10,
+          etag: 'abc',
+          lastModified: '2026-10-01T00:00:00Z',
+        },
+      ]);
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'aws',
+        [
+          's3api',
+          'list-objects-v2',
+          '--bucket',
+          'wfuwp-backups',
+          '--prefix',
+          'backups/uat/site-43/',
+          '--max-items',
+          '10000',
+          '--output',
+          'json',
+          '--endpoint-url',
+          'http://localhost:9000',
+          '--region',
+          'us-east-1',
+        ],
+        expect.anything()
+      );
+    });
+
+    it('lists a page at a time, resuming from the NextToken', async () => {
+      const entry = (key: string) => ({
+        Key: key,
+        Size: 1,
+        ETag: '"abc"',
+        LastModified: '2026-10-01T00:00:00Z',
+      });
+      mockExecFileSync
+        .mockReturnValueOnce(
+          JSON.stringify({
+            Contents: [entry('sites/43/a.jpg')],
+            NextToken: 'page-2',
+          }) as any
+        )
+        .mockReturnValueOnce(
+          JSON.stringify({ Contents: [entry('sites/43/b.jpg')] }) as any
+        );
+
+      const objects = await S3StorageManager.get().listObjects(
+        'bucket',
+        'sites/43/'
+      );
+
+      expect(objects.map((object) => object.key)).toEqual([
+        'sites/43/a.jpg',
+        'sites/43/b.jpg',
+      ]);
+      expect(mockExecFileSync).toHaveBeenCalledTimes(2);
+      expect(mockExecFileSync.mock.calls[0][1]).not.toContain(
+        '--starting-token'
+      );
+      expect(mockExecFileSync.mock.calls[1][1]).toEqual(
+        expect.arrayContaining(['--starting-token', 'page-2'])
+      );
+    });
+
+    it('points at the sdk backend when the AWS CLI is missing', async () => {
+      mockExecFileSync.mockImplementation(() => {
+        throw Object.assign(new Error('spawn aws ENOENT'), { code: 'ENOENT' });
+      });
+
+      await expect(S3StorageManager.get().headBucket('b')).rejects.toThrow(
+        /AWS CLI is not installed.*s3\.backend sdk/
+      );
+    });
+  });
+
+  describe('sdk backend', () => {
+    const environment = { ...process.env };
+    let buckets: Record<string, Map<string, Buffer>>;
+    let uploads: Map<string, Buffer[]>;
+    let headers: Map<string, Record<string, string>>;
+    let server: Server;
+    let endpoint: string;
+    let workDir: string;
+
+    beforeAll(() => {
+      process.env.AWS_ACCESS_KEY_ID = 'test';
+      process.env.AWS_SECRET_ACCESS_KEY = 'test';
+    });
+
+    afterAll(() => {
+      process.env = environment;
+    });
+
+    beforeEach(async () => {
+      mockConfig.getS3Backend.mockReturnValue('sdk');
+      buckets = {
+        source: new Map([
+          ['sites/43/2026/10/a.jpg', Buffer.from('first')],
+          ['sites/43/2026/10/b c.jpg', Buffer.from('second')],
+          ['sites/43/2026/10/c.pdf', Buffer.from('third')],
+          ['sites/44/d.jpg', Buffer.from('other site')],
+        ]),
+        target: new Map(),
+      };
+      uploads = new Map();
+      headers = new Map();
+      server = await startFakeS3(buckets, uploads, headers);
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      workDir = mkdtempSync(join(tmpdir(), 's3-storage-test-'));
+    });
+
+    afterEach(async () => {
+      rmSync(workDir, { recursive: true, force: true });
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('lists every page of a prefix', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+
+      const objects = await storage.listObjects('source', 'sites/43/');
+
+      expect(objects.map((object) => object.key)).toEqual([
+        'sites/43/2026/10/a.jpg',
+        'sites/43/2026/10/b c.jpg',
+        'sites/43/2026/10/c.pdf',
+      ]);
+      expect(objects[0]).toEqual({
+        key: 'sites/43/2026/10/a.jpg',
+        size: 5,
+        etag: createHash('md5').update('first').digest('hex'),
+        lastModified: '2026-10-01T00:00:00.000Z',
+      });
+    });
+
+    it('uploads and downloads files, reporting progress', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+      const filePath = join(workDir, 'backup.sql');
+      writeFileSync(filePath, 'CREATE TABLE wp_43_posts;');
+      const uploads: S3TransferProgress[] = [];
+      const downloads: S3TransferProgress[] = [];
+
+      await storage.uploadFile(filePath, 'target', 'backups/backup.sql', {
+        storageClass: 'STANDARD_IA',
+        onProgress: (progress) => uploads.push(progress),
+      });
+      await storage.downloadFile(
+        'target',
+        'backups/backup.sql',
+        join(workDir, 'copy.sql'),
+        { onProgress: (progress) => downloads.push(progress) }
+      );
+
+      expect(buckets.target.get('backups/backup.sql')!.toString()).toBe(
+        'CREATE TABLE wp_43_posts;'
+      );
+      expect(readFileSync(join(workDir, 'copy.sql'), 'utf8')).toBe(
+        'CREATE TABLE wp_43_posts;'
+      );
+      expect(uploads[uploads.length - 1]).toEqual({ loaded: 25, total: 25 });
+      expect(downloads[downloads.length - 1]).toEqual({
+        loaded: 25,
+        total: 25,
+      });
+      await expect(
+        storage.getObjectText('target', 'backups/backup.sql')
+      ).resolves.toBe('CREATE TABLE wp_43_posts;');
+    });
+
+    it('copies and deletes objects server-side', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+
+      await storage.copyObject(
+        'source',
+        'sites/43/2026/10/b c.jpg',
+        'target',
+        'sites/98/2026/10/b c.jpg'
+      );
+      await storage.deleteObjects('source', [
+        'sites/43/2026/10/a.jpg',
+        'sites/43/2026/10/c.pdf',
+      ]);
+
+      expect([...buckets.target.keys()]).toEqual(['sites/98/2026/10/b c.jpg']);
+      expect([...buckets.source.keys()]).toEqual([
+        'sites/43/2026/10/b c.jpg',
+        'sites/44/d.jpg',
+      ]);
+    });
+
+    it('copies objects over 5 GB in parts', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+      headers.set('sites/43/2026/10/b c.jpg', {
+        'Content-Type': 'image/jpeg',
+        'Content-Encoding': 'identity',
+        'Cache-Control': 'max-age=31536000',
+        'Content-Disposition': 'inline',
+        'x-amz-meta-alt': 'Quad',
+        'x-amz-storage-class': 'STANDARD_IA',
+      });
+      const sizes: number[] = [];
+      let created: IncomingMessage['headers'] = {};
+      server.on('request', (request: IncomingMessage) => {
+        if (request.url!.includes('?uploads')) {
+          created = request.headers;
+        }
+        const range = request.headers['x-amz-copy-source-range'];
+        const [, start, end] = String(range).match(/(\d+)-(\d+)/) || [];
+        if (range) {
+          sizes.push(Number(end) - Number(start) + 1);
+        }
+      });
+
+      // The size given stands in for a 6 GB object
+      await storage.copyObject(
+        'source',
+        'sites/43/2026/10/b c.jpg',
+        'target',
+        'sites/98/2026/10/b c.jpg',
+        6 * 1024 ** 3
+      );
+
+      expect(created).toEqual(
+        expect.objectContaining({
+          'content-type': 'image/jpeg',
+          'content-encoding': 'identity',
+          'cache-control': 'max-age=31536000',
+          'content-disposition': 'inline',
+          'x-amz-meta-alt': 'Quad',
+          'x-amz-storage-class': 'STANDARD_IA',
+        })
+      );
+      expect(sizes).toHaveLength(12);
+      expect(sizes.reduce((total, size) => total + size, 0)).toBe(
+        6 * 1024 ** 3
+      );
+      expect(buckets.target.get('sites/98/2026/10/b c.jpg')!.toString()).toBe(
+        'second'
+      );
+      expect(uploads.size).toBe(0);
+    });
+
+    it('aborts a multipart copy that fails', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+      // The source goes away once the upload has started, so the parts fail
+      server.on('request', (request: IncomingMessage) => {
+        if (request.url!.includes('?uploads')) {
+          buckets.source.delete('sites/43/2026/10/a.jpg');
+        }
+      });
+
+      await expect(
+        storage.copyObject(
+          'source',
+          'sites/43/2026/10/a.jpg',
+          'target',
+          'sites/98/2026/10/a.jpg',
+          6 * 1024 ** 3
+        )
+      ).rejects.toThrow(
+        'Copy s3://source/sites/43/2026/10/a.jpg to s3://target/sites/98/2026/10/a.jpg failed'
+      );
+      expect(uploads.size).toBe(0);
+      expect(buckets.target.size).toBe(0);
+    });
+
+    it('leaves no partial file behind when a download fails', async () => {
+      const storage = S3StorageManager.get({ endpoint });
+
+      const error = await storage
+        .downloadFile('source', 'missing.sql', join(workDir, 'missing.sql'))
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(S3StorageError);
+      expect(error.message).toMatch(
+        /^Download s3:\/\/source\/missing.sql failed/
+      );
+      expect(error.code).toBe('NoSuchKey');
+      expect(readdirSync(workDir)).toEqual([]);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 import { S3Operations } from '../../src/utils/s3';
 import { Config } from '../../src/utils/config';
 
@@ -6,6 +6,9 @@ jest.mock('child_process');
 jest.mock('../../src/utils/config');
 
 const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockExecFileSync = execFileSync as jest.MockedFunction<
+  typeof execFileSync
+>;
 const mockConfig = Config as jest.Mocked<typeof Config>;
 
 describe('S3Operations', () => {
@@ -42,4 +45,49 @@ describe('S3Operations', () => {
       ).rejects.toThrow(/S3 configuration is incomplete/);
     });
   });
+
+  describe('findLatestObject', () => {
+    beforeEach(() => {
+      mockExecSync.mockReturnValue('' as any);
+      mockConfig.getS3Config.mockReturnValue({ bucket: 'wfuwp-backups' });
+      mockConfig.hasRequiredS3Config.mockReturnValue(true);
+    });
+
+    it('picks the most recently modified object under the prefix', async () => {
+      mockExecFileSync.mockReturnValue(
+        JSON.stringify({
+          Contents: [
+            ['backups/uat/site-43/', 0, '2026-10-20T00:00:00Z'],
+            ['backups/uat/site-43/b.sql.gz', 30, '2026-10-12T08:00:00Z'],
+            ['backups/uat/site-43/c.sql.gz', 20, '2026-10-12T09:30:00Z'],
+            ['backups/uat/site-43/a.sql.gz', 10, '2026-10-01T00:00:00Z'],
+          ].map(([Key, Size, LastModified]) => ({
+            Key,
+            Size,
+            ETag: '"e"',
+            LastModified,
+          })),
+        }) as any
+      );
+
+      const latest = await S3Operations.findLatestObject(
+        'backups/uat/site-43/'
+      );
+
+      expect(latest?.key).toBe('backups/uat/site-43/c.sql.gz');
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'aws',
+        expect.arrayContaining(['--bucket', 'wfuwp-backups']),
+        expect.anything()
+      );
+    });
+
+    it('returns null when nothing is there', async () => {
+      mockExecFileSync.mockReturnValue('' as any);
+
+      await expect(
+        S3Operations.findLatestObject('backups/uat/site-43/')
+      ).resolves.toBeNull();
+    });
+  });
 });
@@ -1,9 +1,16 @@
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { S3StorageManager } from '../../src/utils/s3-storage';
 import { S3Sync } from '../../src/utils/s3sync';
 
 jest.mock('child_process');
 
 const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
+const mockExecFileSync = execFileSync as jest.MockedFunction<
+  typeof execFileSync
+>;
 
 describe('S3Sync', () => {
   beforeEach(() => {
@@ -60,4 +67,383 @@ describe('S3Sync', () => {
       expect(S3Sync.validateSiteId(id)).toBe(false);
     });
   });
+
+  describe('syncWordPressFiles', () => {
+    it('copies into another site folder when given a target site', async () => {
+      mockExecSync.mockReturnValue('copy: a.jpg\ncopy: b.jpg\n' as any);
+
+      const result = await S3Sync.syncWordPressFiles('43', 'uat', 'uat', {
+        targetSiteId: '97',
+      });
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'aws s3 sync s3://wfu-cer-wordpress-uat-us-east-1/sites/43/ s3://wfu-cer-wordpress-uat-us-east-1/sites/97/',
+        expect.anything()
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, filesTransferred: 2 })
+      );
+    });
+
+    it('passes include and exclude globs to aws s3 sync', async () => {
+      mockExecSync.mockReturnValue('copy: 2026/a.jpg\n' as any);
+
+      await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        include: ['2026/*'],
+        exclude: ['*.pdf', "it's/*"],
+      });
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        "aws s3 sync s3://wfu-cer-wordpress-prod-us-east-1/sites/43/ s3://wfu-cer-wordpress-uat-us-east-1/sites/43/ --exclude '*' --include '2026/*' --exclude '*.pdf' --exclude 'it'\\''s/*'",
+        expect.anything()
+      );
+    });
+  });
+
+  describe('planSync and verification', () => {
+    const source = 's3://wfu-cer-wordpress-prod-us-east-1/sites/43/';
+    const destination = 's3://wfu-cer-wordpress-uat-us-east-1/sites/43/';
+    let buckets: Record<string, Record<string, [number, string, string]>>;
+    let syncCommands: string[];
+
+    const object = (size: number, lastModified: string, etag = `e${size}`) =>
+      [size, `"${etag}"`, lastModified] as [number, string, string];
+
+    beforeEach(() => {
+      buckets = {
+        'wfu-cer-wordpress-prod-us-east-1': {
+          'sites/43/2026/10/new.jpg': object(2048, '2026-10-10T00:00:00Z'),
+          'sites/43/2026/10/brochure.pdf': object(4096, '2026-10-11T00:00:00Z'),
+          'sites/43/2025/old.jpg': object(1024, '2025-01-01T00:00:00Z'),
+          'sites/43/2025/resized.jpg': object(512, '2026-10-12T00:00:00Z'),
+          'sites/43/big[1].mov': object(9000, '2026-10-13T00:00:00Z', 'abc-2'),
+        },
+        'wfu-cer-wordpress-uat-us-east-1': {
+          'sites/43/2025/old.jpg': object(1024, '2025-02-01T00:00:00Z'),
+          'sites/43/2025/resized.jpg': object(256, '2026-09-01T00:00:00Z'),
+          'sites/43/2024/stale.jpg': object(100, '2024-01-01T00:00:00Z'),
+        },
+      };
+      syncCommands = [];
+      mockExecSync.mockImplementation(((command: string) => {
+        syncCommands.push(command);
+        return '';
+      }) as any);
+      mockExecFileSync.mockImplementation(((
+        command: string,
+        args: string[]
+      ) => {
+        const bucket = args[args.indexOf('--bucket') + 1];
+        if (args[1] === 'delete-objects') {
+          const { Objects } = JSON.parse(args[args.indexOf('--delete') + 1]);
+          for (const { Key } of Objects) {
+            delete buckets[bucket][Key];
+          }
+          return '';
+        }
+        expect(args.slice(0, 2)).toEqual(['s3api', 'list-objects-v2']);
+        const prefix = args[args.indexOf('--prefix') + 1];
+        const contents = Object.entries(buckets[bucket] || {})
+          .filter(([key]) => key.startsWith(prefix))
+          .map(([Key, [Size, ETag, LastModified]]) => ({
+            Key,
+            Size,
+            ETag,
+            LastModified,
+          }));
+        return contents.length > 0
+          ? JSON.stringify({ Contents: contents })
+          : '';
+      }) as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('plans copies and deletions like aws s3 sync, within the filters', async () => {
+      const plan = await S3Sync.planSync('43', 'prod', 'uat', {
+        exclude: ['*.pdf', '*.mov'],
+        delete: true,
+      });
+
+      expect(plan.copy.map((item) => item.key)).toEqual([
+        '2026/10/new.jpg',
+        '2025/resized.jpg',
+      ]);
+      expect(plan.unchanged).toBe(1);
+      expect(plan.delete.map((item) => item.key)).toEqual(['2024/stale.jpg']);
+      expect(S3Sync.summarizePlan(plan)).toEqual({
+        copied: 2,
+        copiedBytes: 2560,
+        deleted: 1,
+        deletedBytes: 100,
+      });
+    });
+
+    it('syncs only the files modified since a date, key by key', async () => {
+      const result = await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        since: new Date('2026-10-11T00:00:00Z'),
+        include: ['2026/*', '*.mov'],
+      });
+
+      expect(syncCommands).toEqual([
+        `aws s3 sync '${source}2026/10/' '${destination}2026/10/' --exclude '*' --include 'brochure.pdf'`,
+        `aws s3 sync '${source}' '${destination}' --exclude '*' --include 'big[[]1].mov'`,
+      ]);
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: true,
+          filesTransferred: 2,
+          message: 'Synced 2 files (12.8 KB)',
+        })
+      );
+    });
+
+    it('mirrors with --delete by applying the plan and summarizes what changed', async () => {
+      const result = await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        include: ['2024/*', '2025/*'],
+        delete: true,
+      });
+
+      expect(syncCommands).toEqual([
+        `aws s3 sync '${source}2025/' '${destination}2025/' --exclude '*' --include 'resized.jpg'`,
+      ]);
+      expect(
+        buckets['wfu-cer-wordpress-uat-us-east-1']['sites/43/2024/stale.jpg']
+      ).toBeUndefined();
+      expect(result.summary).toEqual({
+        copied: 1,
+        copiedBytes: 512,
+        deleted: 1,
+        deletedBytes: 100,
+      });
+      expect(result.message).toBe(
+        'Synced 1 files (512.0 B), deleted 1 files (100.0 B)'
+      );
+    });
+
+    it('reports missing and different objects after the sync', async () => {
+      // The sync "ran" but only some objects arrived
+      buckets['wfu-cer-wordpress-uat-us-east-1']['sites/43/big[1].mov'] =
+        object(9000, '2026-10-14T00:00:00Z', 'def-3');
+      const result = await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        verify: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.verification).toEqual({
+        checked: 5,
+        missing: ['2026/10/new.jpg', '2026/10/brochure.pdf'],
+        mismatched: ['2025/resized.jpg'],
+      });
+      expect(result.message).toContain(
+        'verification failed: 2 missing, 1 different'
+      );
+    });
+
+    it('copies and deletes object by object on the sdk backend', async () => {
+      const storage = {
+        backend: 'sdk',
+        listObjects: jest.fn(async (bucket: string, prefix: string) =>
+          Object.entries(buckets[bucket] || {})
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, [size, etag, lastModified]]) => ({
+              key,
+              size,
+              etag: etag.replace(/"/g, ''),
+              lastModified,
+            }))
+        ),
+        copyObject: jest.fn(),
+        deleteObjects: jest.fn(),
+      };
+      jest.spyOn(S3StorageManager, 'get').mockReturnValue(storage as any);
+
+      const result = await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        exclude: ['*.pdf', '*.mov'],
+        delete: true,
+      });
+
+      expect(syncCommands).toEqual([]);
+      expect(storage.copyObject).toHaveBeenCalledTimes(2);
+      expect(storage.copyObject).toHaveBeenCalledWith(
+        'wfu-cer-wordpress-prod-us-east-1',
+        'sites/43/2026/10/new.jpg',
+        'wfu-cer-wordpress-uat-us-east-1',
+        'sites/43/2026/10/new.jpg',
+        2048
+      );
+      expect(storage.deleteObjects).toHaveBeenCalledWith(
+        'wfu-cer-wordpress-uat-us-east-1',
+        ['sites/43/2024/stale.jpg']
+      );
+      expect(result.message).toBe(
+        'Synced 2 files (2.5 KB), deleted 1 files (100.0 B)'
+      );
+    });
+
+    describe('whole bucket', () => {
+      let workDir: string;
+
+      beforeEach(() => {
+        Object.assign(buckets['wfu-cer-wordpress-prod-us-east-1'], {
+          'sites/7/2026/logo.png': object(300, '2026-10-01T00:00:00Z'),
+          'favicon.ico': object(10, '2026-10-01T00:00:00Z'),
+        });
+        Object.assign(buckets['wfu-cer-wordpress-uat-us-east-1'], {
+          'sites/7/2026/logo.png': object(200, '2026-09-01T00:00:00Z'),
+          'sites/12/old.pdf': object(50, '2025-01-01T00:00:00Z'),
+        });
+        workDir = mkdtempSync(join(tmpdir(), 's3sync-test-'));
+      });
+
+      afterEach(() => {
+        rmSync(workDir, { recursive: true, force: true });
+      });
+
+      it('diffs the plan per site and flags the thresholds it exceeds', async () => {
+        const plan = await S3Sync.planBucketSync('prod', 'uat', {
+          delete: true,
+        });
+
+        expect(plan).toEqual(
+          expect.objectContaining({
+            fromEnv: 'prod',
+            toEnv: 'uat',
+            source: 's3://wfu-cer-wordpress-prod-us-east-1/',
+            destination: 's3://wfu-cer-wordpress-uat-us-east-1/',
+            overwrite: ['sites/43/2025/resized.jpg', 'sites/7/2026/logo.png'],
+          })
+        );
+        const diff = S3Sync.diffBucketPlan(plan);
+        expect(diff.folders.map((counts) => counts.folder)).toEqual([
+          '',
+          'sites/7',
+          'sites/12',
+          'sites/43',
+        ]);
+        expect(diff.folders[3]).toEqual({
+          folder: 'sites/43',
+          added: 3,
+          addedBytes: 15144,
+          overwritten: 1,
+          overwrittenBytes: 512,
+          deleted: 1,
+          deletedBytes: 100,
+        });
+        expect(diff.total).toEqual({
+          added: 4,
+          addedBytes: 15154,
+          overwritten: 2,
+          overwrittenBytes: 812,
+          deleted: 2,
+          deletedBytes: 150,
+        });
+
+        expect(
+          S3Sync.exceededThresholds(diff, {
+            overwrites: 1,
+            deletes: 2,
+            bytes: 10000,
+          })
+        ).toEqual([
+          '2 objects overwritten, more than 1 (s3.confirmOverwrites)',
+          '15.6 KB to copy, more than 9.8 KB (s3.confirmSize)',
+        ]);
+        expect(
+          S3Sync.exceededThresholds(diff, {
+            overwrites: 2,
+            deletes: 2,
+            bytes: 20000,
+          })
+        ).toEqual([]);
+      });
+
+      it('applies a saved plan folder by folder, deleting only what it lists', async () => {
+        const planPath = join(workDir, 'plan.json');
+        S3Sync.saveBucketPlan(
+          await S3Sync.planBucketSync('prod', 'uat', {
+            include: ['sites/7/*', 'sites/12/*', '*.ico'],
+            delete: true,
+          }),
+          planPath
+        );
+        // Appears after planning, so the plan leaves it alone
+        buckets['wfu-cer-wordpress-uat-us-east-1']['sites/12/new.pdf'] = object(
+          60,
+          '2026-10-15T00:00:00Z'
+        );
+
+        const plan = S3Sync.loadBucketPlan(planPath, 'prod', 'uat');
+        const result = await S3Sync.syncEntireBucket('prod', 'uat', {
+          plan,
+        });
+
+        expect(syncCommands).toEqual([
+          `aws s3 sync 's3://wfu-cer-wordpress-prod-us-east-1/sites/7/2026/' 's3://wfu-cer-wordpress-uat-us-east-1/sites/7/2026/' --exclude '*' --include 'logo.png'`,
+          `aws s3 sync 's3://wfu-cer-wordpress-prod-us-east-1/' 's3://wfu-cer-wordpress-uat-us-east-1/' --exclude '*' --include 'favicon.ico'`,
+        ]);
+        expect(
+          Object.keys(buckets['wfu-cer-wordpress-uat-us-east-1']).filter(
+            (key) => key.startsWith('sites/12/')
+          )
+        ).toEqual(['sites/12/new.pdf']);
+        expect(result).toEqual(
+          expect.objectContaining({
+            success: true,
+            message: 'Synced 2 files (310.0 B), deleted 1 files (50.0 B)',
+          })
+        );
+      });
+
+      it('refuses a file that is not a bucket sync plan', () => {
+        const planPath = join(workDir, 'plan.json');
+        writeFileSync(planPath, JSON.stringify({ copy: [] }));
+
+        expect(() => S3Sync.loadBucketPlan(planPath, 'prod', 'uat')).toThrow(
+          `${planPath} is not a whole-bucket sync plan`
+        );
+      });
+
+      it('refuses a plan for other environments or buckets', async () => {
+        const planPath = join(workDir, 'plan.json');
+        const plan = await S3Sync.planBucketSync('prod', 'uat', {
+          delete: true,
+        });
+        S3Sync.saveBucketPlan(plan, planPath);
+
+        expect(() => S3Sync.loadBucketPlan(planPath, 'prod', 'pprd')).toThrow(
+          `${planPath} syncs prod to uat, not prod to pprd`
+        );
+
+        // Edited to point somewhere else
+        S3Sync.saveBucketPlan(
+          { ...plan, destination: 's3://wfu-cer-wordpress-prod-us-east-1/' },
+          planPath
+        );
+        expect(() => S3Sync.loadBucketPlan(planPath, 'prod', 'uat')).toThrow(
+          'The plan syncs s3://wfu-cer-wordpress-prod-us-east-1/ to s3://wfu-cer-wordpress-prod-us-east-1/, but prod to uat syncs s3://wfu-cer-wordpress-prod-us-east-1/ to s3://wfu-cer-wordpress-uat-us-east-1/'
+        );
+        const result = await S3Sync.syncEntireBucket('prod', 'pprd', { plan });
+        expect(result.success).toBe(false);
+        expect(result.message).toMatch(
+          /^Full S3 bucket sync failed: The plan syncs .* to s3:\/\/wfu-cer-wordpress-uat-us-east-1\/, but prod to pprd/
+        );
+        expect(syncCommands).toEqual([]);
+      });
+    });
+
+    it('previews a plan without syncing on a dry run', async () => {
+      const result = await S3Sync.syncWordPressFiles('43', 'prod', 'uat', {
+        delete: true,
+        dryRun: true,
+      });
+
+      expect(syncCommands).toEqual([]);
+      expect(result.message).toBe(
+        'Would sync 4 files (15.3 KB) and delete 1 files (100.0 B)'
+      );
+    });
+  });
 });
@@ -0,0 +1,264 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SerializedReplace } from '../../src/utils/serialized-replace';
+import { EnvironmentMappingService } from '../../src/utils/environment-mapping';
+
+interface FixtureRow {
+  table: string;
+  field: string;
+  name: string;
+  value: string;
+}
+
+// Minimal PHP unserialize() used to prove rewritten values are still valid.
+// Throws on any length mismatch, just like PHP would fail to unserialize.
+function unserialize(value: string): any {
+  const bytes = Buffer.from(value, 'utf8').toString('latin1');
+  let pos = 0;
+
+  const readUntil = (char: string): string => {
+    const end = bytes.indexOf(char, pos);
+    if (end === -1) throw new Error(`Missing '${char}'`);
+    const chunk = bytes.slice(pos, end);
+    pos = end + 1;
+    return chunk;
+  };
+
+  const parse = (): any => {
+    const type = bytes[pos];
+    pos += 2;
+    switch (type) {
+      case 'N':
+        return null;
+      case 'b':
+        return readUntil(';') === '1';
+      case 'i':
+      case 'd':
+        return Number(readUntil(';'));
+      case 's': {
+        const length = parseInt(readUntil(':'), 10);
+        const str = bytes.slice(pos + 1, pos + 1 + length);
+        if (bytes.slice(pos + 1 + length, pos + 3 + length) !== '";') {
+          throw new Error(`Bad string length ${length} at ${pos}`);
+        }
+        pos += length + 3;
+        return Buffer.from(str, 'latin1').toString('utf8');
+      }
+      case 'a':
+      case 'O': {
+        if (type === 'O') {
+          const nameLength = parseInt(readUntil(':'), 10);
+          pos += nameLength + 3;
+        }
+        const count = parseInt(readUntil(':'), 10);
+        pos += 1;
+        const result: Record<string, any> = {};
+        for (let i = 0; i < count; i++) {
+          const key = parse();
+          result[key] = parse();
+        }
+        pos += 1;
+        return result;
+      }
+      default:
+        throw new Error(`Unknown type ${type}`);
+    }
+  };
+
+  const result = parse();
+  if (pos !== bytes.length) throw new Error('Trailing data');
+  return result;
+}
+
+describe('SerializedReplace', () => {
+  const rows: FixtureRow[] = JSON.parse(
+    readFileSync(join(__dirname, '../fixtures/serialized-rows.json'), 'utf8')
+  );
+  const row = (name: string): string =>
+    rows.find((fixture) => fixture.name === name)!.value;
+
+  const prodToPprd = SerializedReplace.fromMapping(
+    EnvironmentMappingService.getEnvironmentMapping('prod', 'pprd')
+  );
+
+  describe('replace', () => {
+    it('should replace text in plain values', () => {
+      expect(
+        SerializedReplace.replace('Visit https://www.wfu.edu today', [
+          { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+        ])
+      ).toBe('Visit https://pprd.wfu.edu today');
+    });
+
+    it('should only replace at a path boundary when asked', () => {
+      const replacement = {
+        from: '//wfu.edu/news',
+        to: '//wfu.edu/events',
+        pathBoundary: true,
+      };
+
+      expect(
+        SerializedReplace.replace(
+          'https://wfu.edu/news, https://wfu.edu/news/, https://wfu.edu/newsroom/ and https://wfu.edu/news.html',
+          [replacement]
+        )
+      ).toBe(
+        'https://wfu.edu/events, https://wfu.edu/events/, https://wfu.edu/newsroom/ and https://wfu.edu/news.html'
+      );
+      const rewritten = SerializedReplace.replace(
+        'a:2:{s:4:"home";s:20:"https://wfu.edu/news";s:5:"other";s:16:"//wfu.edu/newsé";}',
+        [replacement]
+      );
+      expect(unserialize(rewritten)).toEqual({
+        home: 'https://wfu.edu/events',
+        other: '//wfu.edu/newsé',
+      });
+    });
+
+    it('should apply replacements in order', () => {
+      expect(
+        SerializedReplace.replace('a', [
+          { from: 'a', to: 'b' },
+          { from: 'b', to: 'c' },
+        ])
+      ).toBe('c');
+    });
+
+    it('should return the value unchanged when there are no replacements', () => {
+      expect(SerializedReplace.replace(row('widget_text'), [])).toBe(
+        row('widget_text')
+      );
+    });
+
+    it('should keep fixture rows valid before replacement', () => {
+      rows.forEach((fixture) => {
+        expect(() => unserialize(fixture.value)).not.toThrow();
+      });
+    });
+
+    it('should rewrite string lengths in widget data', () => {
+      const result = SerializedReplace.replace(row('widget_text'), prodToPprd);
+
+      const widget = unserialize(result);
+      expect(widget['2'].text).toBe(
+        '<a href="https://pprd.wfu.edu/about">About</a>'
+      );
+      expect(widget['2'].filter).toBe(true);
+      expect(widget._multiwidget).toBe(1);
+      expect(result).toContain('s:46:"<a href=');
+    });
+
+    it('should rewrite theme_mod objects', () => {
+      const result = SerializedReplace.replace(
+        row('theme_mods_wfu'),
+        prodToPprd
+      );
+
+      const mods = unserialize(result);
+      expect(mods.header_image).toContain('wfu-cer-wordpress-pprd-us-east-1');
+      expect(mods.header_image_data.url).toContain(
+        'wfu-cer-wordpress-pprd-us-east-1'
+      );
+      expect(mods.header_image_data.width).toBe(1920);
+      expect(result).toContain('O:8:"stdClass":3:{');
+    });
+
+    it('should count multibyte characters as bytes in ACF values', () => {
+      const result = SerializedReplace.replace(row('acf_link'), [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+        { from: 'Café', to: 'Cafés' },
+      ]);
+
+      const link = unserialize(result);
+      expect(link.url).toBe('https://pprd.wfu.edu/news/');
+      expect(link.title).toBe('Cafés News');
+      expect(result).toContain('s:11:"Cafés News"');
+    });
+
+    it('should rewrite escaped URLs in JSON nested inside serialized values', () => {
+      const result = SerializedReplace.replace(row('acf_json_settings'), [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+        { from: 'prod.wp.cdn.aws.wfu.edu', to: 'pprd.wp.cdn.aws.wfu.edu' },
+      ]);
+
+      const settings = unserialize(result);
+      expect(JSON.parse(settings.config)).toEqual({
+        url: 'https://pprd.wfu.edu/events',
+        image: 'https://pprd.wp.cdn.aws.wfu.edu/sites/43/hero.png',
+      });
+    });
+
+    it('should rewrite serialized values nested in serialized strings', () => {
+      const result = SerializedReplace.replace(
+        row('double_serialized'),
+        prodToPprd
+      );
+
+      const inner = unserialize(unserialize(result));
+      expect(inner.home).toBe('https://pprd.wfu.edu');
+      expect(inner.ratio).toBe(1.5);
+      expect(inner.hidden).toBeNull();
+    });
+
+    it('should not replace inside array keys', () => {
+      const value = 'a:1:{s:11:"www.wfu.edu";s:11:"www.wfu.edu";}';
+      const result = SerializedReplace.replace(value, [
+        { from: 'www.wfu.edu', to: 'pprd.wfu.edu' },
+      ]);
+
+      expect(result).toBe('a:1:{s:11:"www.wfu.edu";s:12:"pprd.wfu.edu";}');
+    });
+
+    it('should fall back to plain replacement for malformed serialized data', () => {
+      const value = 'a:1:{s:3:"url";s:99:"https://www.wfu.edu";}';
+      const result = SerializedReplace.replace(value, [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+      ]);
+
+      expect(result).toBe('a:1:{s:3:"url";s:99:"https://pprd.wfu.edu";}');
+    });
+
+    it('should copy custom serialized objects verbatim', () => {
+      const value = 'C:11:"ArrayObject":21:{x:i:0;a:0:{};m:a:0:{}}';
+      expect(
+        SerializedReplace.replace(value, [{ from: 'Array', to: 'List' }])
+      ).toBe(value);
+    });
+  });
+
+  describe('replaceBuffer', () => {
+    it('should return a buffer with updated byte lengths', () => {
+      const input = Buffer.from('s:19:"https://www.wfu.edu";', 'utf8');
+      const result = SerializedReplace.replaceBuffer(input, [
+        { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+      ]);
+
+      expect(result.toString('utf8')).toBe('s:20:"https://pprd.wfu.edu";');
+    });
+  });
+
+  describe('getSearchNeedles', () => {
+    it('should include JSON escaped forms of URLs', () => {
+      expect(
+        SerializedReplace.getSearchNeedles([
+          { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+          { from: 'www.wfu.edu', to: 'pprd.wfu.edu' },
+          { from: '', to: 'ignored' },
+        ])
+      ).toEqual([
+        'https://www.wfu.edu',
+        'https:\\/\\/www.wfu.edu',
+        'www.wfu.edu',
+      ]);
+    });
+  });
+
+  describe('isSerialized', () => {
+    it('should detect serialized values', () => {
+      rows.forEach((fixture) => {
+        expect(SerializedReplace.isSerialized(fixture.value)).toBe(true);
+      });
+      expect(SerializedReplace.isSerialized('https://www.wfu.edu')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { Config } from '../../src/utils/config';
+import { DatabaseOperations } from '../../src/utils/database';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import {
+  S3Storage,
+  S3StorageError,
+  S3StorageManager,
+} from '../../src/utils/s3-storage';
+import { SiteArchive } from '../../src/utils/site-archive';
+import { SiteEnumerator, SiteInfo } from '../../src/utils/site-enumerator';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+jest.mock('../../src/utils/site-enumerator');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDatabaseOperations = DatabaseOperations as jest.Mocked<
+  typeof DatabaseOperations
+>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+const mockSiteEnumerator = SiteEnumerator as jest.Mocked<typeof SiteEnumerator>;
+
+const fixturePath = join(__dirname, '../fixtures/site-43-dump.sql');
+
+const blogRow = {
+  blog_id: 43,
+  site_id: 1,
+  domain: 'uat.wfu.edu',
+  path: '/magazine/',
+  registered: '2023-01-01 00:00:00',
+  last_updated: '2023-12-01 00:00:00',
+  public: 1,
+  archived: 0,
+  mature: 0,
+  spam: 0,
+  deleted: 0,
+  lang_id: 0,
+};
+
+function site(blogId: number, domain: string, path = '/'): SiteInfo {
+  return {
+    blogId,
+    domain,
+    path,
+    registeredDate: '2023-01-01',
+    lastUpdated: '2023-12-01',
+    isPublic: true,
+    isArchived: false,
+    isMature: false,
+    isSpam: false,
+    isDeleted: false,
+  };
+}
+
+function listFiles(directory: string): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+  return readdirSync(directory).flatMap((entry) => {
+    const entryPath = join(directory, entry);
+    return statSync(entryPath).isDirectory()
+      ? listFiles(entryPath)
+      : [entryPath];
+  });
+}
+
+// Local S3 stand-in where s3://bucket/key lives at <root>/bucket/key; returns
+// the uploaded locations in order. tar runs for real
+function useFakeS3(root: string): string[] {
+  const uploads: string[] = [];
+  const toPath = (bucket: string, key: string): string =>
+    join(root, bucket, key);
+  const read = (bucket: string, key: string): string => {
+    if (!existsSync(toPath(bucket, key))) {
+      throw new S3StorageError(
+        `Read s3://${bucket}/${key} failed: NoSuchKey`,
+        'NoSuchKey'
+      );
+    }
+    return toPath(bucket, key);
+  };
+
+  const storage = {
+    backend: 'cli',
+    listObjects: async (bucket: string, prefix: string) =>
+      listFiles(join(root, bucket))
+        .map((file) => relative(join(root, bucket), file))
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => ({ key, size: 0, etag: '', lastModified: '' })),
+    uploadFile: async (filePath: string, bucket: string, key: string) => {
+      uploads.push(`s3://${bucket}/${key}`);
+      mkdirSync(dirname(toPath(bucket, key)), { recursive: true });
+      copyFileSync(filePath, toPath(bucket, key));
+    },
+    downloadFile: async (bucket: string, key: string, filePath: string) => {
+      copyFileSync(read(bucket, key), filePath);
+    },
+  } as unknown as S3Storage;
+  jest.spyOn(S3StorageManager, 'get').mockReturnValue(storage);
+  jest
+    .spyOn(S3StorageManager, 'getForConfiguredBucket')
+    .mockReturnValue(storage);
+
+  return uploads;
+}
+
+describe('SiteArchive', () => {
+  const uploadsDir = 'wfu-cer-wordpress-uat-us-east-1/sites';
+  let root: string;
+  let s3Root: string;
+  let uploads: string[];
+  let sites: SiteInfo[];
+  let execute: jest.Mock;
+  let imported: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    root = mkdtempSync(join(tmpdir(), 'site-archive-test-'));
+    s3Root = join(root, 's3');
+    uploads = useFakeS3(s3Root);
+    mkdirSync(join(s3Root, uploadsDir, '43/2024/01'), { recursive: true });
+    writeFileSync(join(s3Root, uploadsDir, '43/2024/01/cover.jpg'), 'jpeg');
+    sites = [site(1, 'uat.wfu.edu')];
+    imported = [];
+
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getS3Config.mockReturnValue({});
+    mockSiteEnumerator.enumerateSites.mockImplementation(async (env) => ({
+      sites,
+      totalCount: sites.length,
+      filteredCount: sites.length,
+      environment: env,
+    }));
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([
+      'wp_43_options',
+      'wp_43_posts',
+    ]);
+    mockDatabaseOperations.exportSiteTables.mockImplementation(
+      async (_id, _env, outputPath) => {
+        copyFileSync(fixturePath, outputPath);
+        return { filePath: outputPath, tableCount: 2, fileSize: 0 };
+      }
+    );
+    mockDatabaseOperations.importSqlFile.mockImplementation(async (file) => {
+      imported.push(readFileSync(file, 'utf8'));
+      return { success: true, tableCount: 2 };
+    });
+
+    execute = jest.fn().mockImplementation(async (sql: string) => ({
+      affectedRows: 1,
+      insertId: sql.startsWith('INSERT INTO wp_blogs') ? 98 : 0,
+    }));
+    const query = jest.fn().mockImplementation(async (sql: string) =>
+      sql.includes('FROM wp_blogs')
+        ? [blogRow]
+        : [
+            {
+              user_id: 5,
+              meta_key: 'wp_43_capabilities',
+              meta_value: 'a:1:{s:6:"editor";b:1;}',
+            },
+          ]
+    );
+    mockDbConnectionManager.get.mockReturnValue({ query, execute } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('archives a site to a directory and restores it under its blog_id', async () => {
+    const { location, manifest } = await SiteArchive.create(
+      43,
+      'uat',
+      join(root, 'archives')
+    );
+
+    expect(readdirSync(location).sort()).toEqual([
+      'database.sql',
+      'manifest.json',
+      'uploads.tar.gz',
+      'user-roles.json',
+      'wp_blogs.json',
+    ]);
+    expect(readdirSync(join(root, 'archives'))).toHaveLength(1);
+    expect(manifest).toEqual(
+      expect.objectContaining({
+        siteId: 43,
+        domain: 'uat.wfu.edu',
+        path: '/magazine/',
+        tables: ['wp_43_options', 'wp_43_posts'],
+        uploads: {
+          location: 's3://wfu-cer-wordpress-uat-us-east-1/sites/43/',
+          files: 1,
+        },
+      })
+    );
+
+    // The site is deleted, uploads included
+    rmSync(join(s3Root, uploadsDir, '43'), { recursive: true });
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([]);
+
+    const plan = await SiteArchive.planUnarchive(location, root);
+    expect(plan.siteId).toBe(43);
+    const result = await SiteArchive.unarchive(plan);
+
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_blogs (`blog_id`, `site_id`'),
+      Object.values(blogRow)
+    );
+    expect(mockDatabaseOperations.importSqlFile).toHaveBeenCalledWith(
+      join(location, 'database.sql'),
+      undefined,
+      undefined,
+      undefined
+    );
+    expect(result).toEqual({
+      siteId: 43,
+      tables: ['wp_43_options', 'wp_43_posts'],
+      userRolesRestored: 1,
+      uploads: expect.objectContaining({ success: true, filesTransferred: 1 }),
+    });
+    expect(
+      readFileSync(join(s3Root, uploadsDir, '43/2024/01/cover.jpg'), 'utf8')
+    ).toBe('jpeg');
+  });
+
+  it('restores an S3 archive under a new blog_id when the old one is taken', async () => {
+    const { location } = await SiteArchive.create(
+      43,
+      'uat',
+      's3://archive-bucket/decommissioned'
+    );
+    expect(location).toMatch(
+      /^s3:\/\/archive-bucket\/decommissioned\/site-43-uat-[\dT-]+\/$/
+    );
+    // manifest.json goes last so a partial upload is never restorable
+    expect(uploads[uploads.length - 1]).toBe(`${location}manifest.json`);
+    expect(S3StorageManager.getForConfiguredBucket).not.toHaveBeenCalled();
+
+    sites.push(site(43, 'uat.wfu.edu', '/alumni/'));
+    const plan = await SiteArchive.planUnarchive(location, root);
+    expect(plan.siteId).toBeNull();
+    expect(plan.blogIdTaken).toBe('blog_id 43 is now uat.wfu.edu/alumni/');
+
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([]);
+    const result = await SiteArchive.unarchive(plan, { skipS3: true });
+
+    expect(result.siteId).toBe(98);
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_blogs (`site_id`'),
+      expect.arrayContaining(['uat.wfu.edu', '/magazine/'])
+    );
+    expect(imported[0]).toContain('CREATE TABLE `wp_98_options`');
+    expect(imported[0]).not.toContain('wp_43_');
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_usermeta'),
+      [
+        5,
+        'wp_98_capabilities',
+        'a:1:{s:6:"editor";b:1;}',
+        5,
+        'wp_98_capabilities',
+      ]
+    );
+    expect(result.uploads).toBeNull();
+  });
+
+  it('refuses an archive whose files do not match the manifest', async () => {
+    const { location } = await SiteArchive.create(
+      43,
+      'uat',
+      join(root, 'archives')
+    );
+    writeFileSync(join(location, 'database.sql'), 'DROP TABLE wp_users;');
+
+    await expect(SiteArchive.planUnarchive(location, root)).rejects.toThrow(
+      'database.sql does not match its checksum'
+    );
+  });
+
+  it('leaves no archive behind when a part fails', async () => {
+    mockDatabaseOperations.exportSiteTables.mockRejectedValue(
+      new Error('mysqldump failed')
+    );
+
+    await expect(
+      SiteArchive.create(43, 'uat', join(root, 'archives'))
+    ).rejects.toThrow('mysqldump failed');
+    expect(readdirSync(join(root, 'archives'))).toEqual([]);
+  });
+
+  it('removes the restored site again when the import fails', async () => {
+    const { location } = await SiteArchive.create(
+      43,
+      'uat',
+      join(root, 'archives')
+    );
+    mockDatabaseOperations.getSiteTables.mockResolvedValue([]);
+    mockDatabaseOperations.importSqlFile.mockRejectedValue(
+      new Error('Database import failed: access denied')
+    );
+    const plan = await SiteArchive.planUnarchive(location, root);
+
+    await expect(SiteArchive.unarchive(plan)).rejects.toThrow(
+      'Unarchive failed and site 43 was removed again: Database import failed: access denied'
+    );
+    expect(execute).toHaveBeenCalledWith('DROP TABLE IF EXISTS ??', [
+      'wp_43_posts',
+    ]);
+    expect(execute).toHaveBeenLastCalledWith(
+      'DELETE FROM wp_blogs WHERE blog_id = ?',
+      [43]
+    );
+  });
+});
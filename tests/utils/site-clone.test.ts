@@ -0,0 +1,184 @@
+import { copyFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Config } from '../../src/utils/config';
+import { DatabaseOperations } from '../../src/utils/database';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { S3Sync } from '../../src/utils/s3sync';
+import { SiteClone } from '../../src/utils/site-clone';
+import { SiteEnumerator, SiteInfo } from '../../src/utils/site-enumerator';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+jest.mock('../../src/utils/s3sync');
+jest.mock('../../src/utils/site-enumerator');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDatabaseOperations = DatabaseOperations as jest.Mocked<
+  typeof DatabaseOperations
+>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+const mockS3Sync = S3Sync as jest.Mocked<typeof S3Sync>;
+const mockSiteEnumerator = SiteEnumerator as jest.Mocked<typeof SiteEnumerator>;
+
+const fixturePath = join(__dirname, '../fixtures/site-43-dump.sql');
+
+function site(blogId: number, domain: string, path = '/'): SiteInfo {
+  return {
+    blogId,
+    domain,
+    path,
+    registeredDate: '2023-01-01',
+    lastUpdated: '2023-12-01',
+    isPublic: true,
+    isArchived: false,
+    isMature: false,
+    isSpam: false,
+    isDeleted: false,
+  };
+}
+
+describe('SiteClone', () => {
+  let sites: Record<string, SiteInfo[]>;
+  let execute: jest.Mock;
+  let imported: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sites = {
+      prod: [site(1, 'www.wfu.edu'), site(43, 'www.wfu.edu', '/magazine/')],
+      uat: [site(1, 'uat.wfu.edu'), site(43, 'uat.wfu.edu', '/magazine/')],
+    };
+    imported = [];
+
+    mockConfig.hasRequiredEnvironmentConfig.mockReturnValue(true);
+    mockConfig.getMappingsConfig.mockReturnValue({});
+    mockSiteEnumerator.getSiteInfo.mockImplementation(
+      async (id, env) => sites[env]?.find((info) => info.blogId === id) || null
+    );
+    mockSiteEnumerator.enumerateSites.mockImplementation(async (env) => ({
+      sites: sites[env] || [],
+      totalCount: (sites[env] || []).length,
+      filteredCount: (sites[env] || []).length,
+      environment: env,
+    }));
+    mockDatabaseOperations.getSiteTables.mockImplementation(async (id) =>
+      id === '43' ? ['wp_43_options', 'wp_43_posts'] : []
+    );
+    mockDatabaseOperations.exportSiteTables.mockImplementation(
+      async (_id, _env, outputPath) => {
+        copyFileSync(fixturePath, outputPath);
+        return { filePath: outputPath, tableCount: 2, fileSize: 0 };
+      }
+    );
+    mockDatabaseOperations.importSqlFile.mockImplementation(async (file) => {
+      imported.push(readFileSync(file, 'utf8'));
+      return { success: true, tableCount: 2 };
+    });
+    mockS3Sync.syncWordPressFiles.mockResolvedValue({
+      success: true,
+      filesTransferred: 12,
+      message: 'Synced 12 files',
+    });
+
+    execute = jest.fn().mockImplementation(async (sql: string) => ({
+      affectedRows: 3,
+      insertId: sql.startsWith('INSERT INTO wp_blogs') ? 98 : 0,
+    }));
+    mockDbConnectionManager.get.mockReturnValue({ execute } as any);
+  });
+
+  it('copies a site under a new blog_id within an environment', async () => {
+    const plan = await SiteClone.plan(43, {
+      environment: 'uat',
+      domain: 'uat.wfu.edu',
+      path: 'fall26',
+    });
+    expect(plan.path).toBe('/fall26/');
+    expect(plan.replacements).toEqual([
+      {
+        from: '//uat.wfu.edu/magazine',
+        to: '//uat.wfu.edu/fall26',
+        pathBoundary: true,
+      },
+    ]);
+
+    const result = await SiteClone.clone(plan);
+
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_blogs'),
+      ['uat.wfu.edu', '/fall26/', 1]
+    );
+    expect(result).toEqual({
+      newSiteId: 98,
+      tables: ['wp_98_options', 'wp_98_posts'],
+      userRolesCopied: 3,
+      s3: expect.objectContaining({ success: true }),
+    });
+    expect(imported[0]).toContain('CREATE TABLE `wp_98_options`');
+    expect(imported[0]).toContain("'wp_98_user_roles'");
+    expect(imported[0]).not.toContain('wp_43_');
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_usermeta'),
+      ['wp_98_capabilities', 'wp_43_capabilities']
+    );
+    expect(mockS3Sync.syncWordPressFiles).toHaveBeenCalledWith(
+      '43',
+      'uat',
+      'uat',
+      { targetSiteId: '98', verbose: undefined }
+    );
+  });
+
+  it('rewrites the environment URLs when cloning across environments', async () => {
+    const plan = await SiteClone.plan(43, {
+      environment: 'pprd',
+      fromEnv: 'prod',
+      domain: 'fall26.pprd.wfu.edu',
+    });
+
+    expect(plan.copyUserRoles).toBe(false);
+    await SiteClone.clone(plan, { skipS3: true });
+
+    expect(imported[0]).toContain("'https://fall26.pprd.wfu.edu'");
+    expect(execute).not.toHaveBeenCalledWith(
+      expect.stringContaining('wp_usermeta'),
+      expect.anything()
+    );
+    expect(mockS3Sync.syncWordPressFiles).not.toHaveBeenCalled();
+  });
+
+  it('refuses an address another site already has', async () => {
+    await expect(
+      SiteClone.plan(43, {
+        environment: 'uat',
+        domain: 'uat.wfu.edu',
+        path: '/magazine',
+      })
+    ).rejects.toThrow('uat.wfu.edu/magazine/ is already site 43 in uat');
+  });
+
+  it('removes the new site when the import fails', async () => {
+    mockDatabaseOperations.importSqlFile.mockRejectedValue(
+      new Error('Database import failed: access denied')
+    );
+    const plan = await SiteClone.plan(43, {
+      environment: 'uat',
+      domain: 'fall26.uat.wfu.edu',
+    });
+
+    await expect(SiteClone.clone(plan)).rejects.toThrow(
+      'Clone failed and site 98 was removed again: Database import failed: access denied'
+    );
+    expect(execute).toHaveBeenCalledWith('DROP TABLE IF EXISTS ??', [
+      'wp_98_posts',
+    ]);
+    expect(execute).toHaveBeenLastCalledWith(
+      'DELETE FROM wp_blogs WHERE blog_id = ?',
+      [98]
+    );
+    expect(mockS3Sync.syncWordPressFiles).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { SiteDiff } from '../../src/utils/site-diff';
+import { DatabaseOperations } from '../../src/utils/database';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+
+jest.mock('../../src/utils/database');
+jest.mock('../../src/utils/db-connection');
+
+const mockDatabase = DatabaseOperations as jest.Mocked<
+  typeof DatabaseOperations
+>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\u001b\[\d+m/g, '');
+
+// Per-environment fixture: table -> columns, row count and checksum
+const environments: Record<
+  string,
+  Record<string, { columns: string[]; rows: number; checksum: string }>
+> = {
+  prod: {
+    wp_43_posts: { columns: ['ID', 'post_title'], rows: 120, checksum: '11' },
+    wp_43_options: { columns: ['option_id'], rows: 300, checksum: '22' },
+    wp_43_links: { columns: ['link_id'], rows: 2, checksum: '33' },
+  },
+  pprd: {
+    wp_43_posts: {
+      columns: ['ID', 'post_title', 'legacy_id'],
+      rows: 118,
+      checksum: '10',
+    },
+    wp_43_options: { columns: ['option_id'], rows: 300, checksum: '23' },
+    wp_43_termmeta: { columns: ['meta_id'], rows: 5, checksum: '44' },
+  },
+};
+
+describe('SiteDiff', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabase.getSiteTables.mockImplementation(async (_siteId, env) =>
+      Object.keys(environments[env])
+    );
+    mockDatabase.getTableColumns.mockImplementation(
+      async (table, env) => environments[env][table].columns
+    );
+    mockDbConnectionManager.get.mockImplementation(
+      (env: string) =>
+        ({
+          query: jest.fn(async (sql: string, params: string[]) => {
+            const table = environments[env][params[0]];
+            return sql.startsWith('CHECKSUM')
+              ? [{ Table: `wordpress.${params[0]}`, Checksum: table.checksum }]
+              : [{ count: table.rows }];
+          }),
+        }) as any
+    );
+  });
+
+  it('reports missing tables, column differences and row counts', async () => {
+    const report = await SiteDiff.compare('43', 'prod', 'pprd');
+
+    expect(report.tables).toEqual([
+      {
+        table: 'wp_43_links',
+        status: 'source-only',
+        sourceRows: 2,
+        targetRows: null,
+        sourceOnlyColumns: [],
+        targetOnlyColumns: [],
+      },
+      {
+        table: 'wp_43_options',
+        status: 'same',
+        sourceRows: 300,
+        targetRows: 300,
+        sourceOnlyColumns: [],
+        targetOnlyColumns: [],
+      },
+      {
+        table: 'wp_43_posts',
+        status: 'changed',
+        sourceRows: 120,
+        targetRows: 118,
+        sourceOnlyColumns: [],
+        targetOnlyColumns: ['legacy_id'],
+      },
+      {
+        table: 'wp_43_termmeta',
+        status: 'target-only',
+        sourceRows: null,
+        targetRows: 5,
+        sourceOnlyColumns: [],
+        targetOnlyColumns: [],
+      },
+    ]);
+    expect(report.summary).toEqual({
+      same: 1,
+      changed: 1,
+      'source-only': 1,
+      'target-only': 1,
+    });
+  });
+
+  it('only runs CHECKSUM TABLE when asked and flags differing checksums', async () => {
+    const withoutChecksums = await SiteDiff.compare('43', 'prod', 'pprd');
+    const queries = mockDbConnectionManager.get.mock.results.flatMap(
+      (result) => result.value.query.mock.calls
+    );
+    expect(queries.some(([sql]: [string]) => sql.startsWith('CHECKSUM'))).toBe(
+      false
+    );
+    expect(withoutChecksums.summary.same).toBe(1);
+
+    const report = await SiteDiff.compare('43', 'prod', 'pprd', {
+      checksum: true,
+    });
+    const options = report.tables.find((t) => t.table === 'wp_43_options');
+    expect(options).toMatchObject({
+      status: 'changed',
+      sourceChecksum: '22',
+      targetChecksum: '23',
+    });
+  });
+
+  it('quotes table names in row count queries', async () => {
+    const query = jest.fn().mockResolvedValue([{ count: '7' }]);
+    mockDbConnectionManager.get.mockReturnValue({ query } as any);
+
+    expect(await SiteDiff.getRowCount('wp_43_`posts', 'prod')).toBe(7);
+    expect(query).toHaveBeenCalledWith('SELECT COUNT(*) AS count FROM ??', [
+      'wp_43_`posts',
+    ]);
+  });
+
+  it('formats a table with per-environment row counts and a summary', async () => {
+    const report = await SiteDiff.compare('43', 'prod', 'pprd', {
+      checksum: true,
+    });
+    const lines = plain(SiteDiff.format(report, 'table')).split('\n');
+
+    expect(lines[0]).toBe('Site 43: prod → pprd');
+    expect(lines[1]).toMatch(
+      /^table +\| status +\| prod rows \| pprd rows \| columns +\| checksum$/
+    );
+    expect(lines[5]).toMatch(
+      /^wp_43_posts +\| changed +\| 120 +\| 118 +\| \+legacy_id \| differs/
+    );
+    expect(lines[lines.length - 1]).toBe(
+      '0 same, 2 changed, 1 only in prod, 1 only in pprd'
+    );
+  });
+
+  it('formats JSON as the full report', async () => {
+    const report = await SiteDiff.compare('43', 'prod', 'pprd');
+
+    expect(JSON.parse(SiteDiff.format(report, 'json'))).toEqual(report);
+  });
+});
@@ -1,19 +1,48 @@
-import { execSync } from 'child_process';
 import { SiteEnumerator } from '../../src/utils/site-enumerator';
 import { Config } from '../../src/utils/config';
+import { DbConnectionManager } from '../../src/utils/db-connection';
 
-jest.mock('child_process');
 jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
 
-const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
 const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+
+function blog(
+  blogId: string,
+  domain: string,
+  registered: string,
+  archived = '0'
+): Record<string, string> {
+  return {
+    blog_id: blogId,
+    domain,
+    path: '/',
+    registered,
+    last_updated: '2023-12-01',
+    public: '1',
+    archived,
+    mature: '0',
+    spam: '0',
+    deleted: '0',
+    lang_id: '0',
+  };
+}
 
-// blog_id, domain, path, registered, last_updated, public, archived, mature, spam, deleted, lang_id
 const ROWS = [
-  '1\twfu.edu\t/\t2023-01-01\t2023-12-01\t1\t0\t0\t0\t0\t0',
-  '2\tnews.wfu.edu\t/\t2023-02-01\t2023-12-01\t1\t0\t0\t0\t0\t0',
-  '3\told.wfu.edu\t/\t2023-03-01\t2023-12-01\t1\t1\t0\t0\t0\t0',
-].join('\n');
+  blog('1', 'wfu.edu', '2023-01-01'),
+  blog('2', 'news.wfu.edu', '2023-02-01'),
+  blog('3', 'old.wfu.edu', '2023-03-01', '1'),
+];
+
+const connection = {
+  query: jest.fn(),
+  execute: jest.fn(),
+  executeBatch: jest.fn(),
+  close: jest.fn(),
+};
 
 describe('SiteEnumerator', () => {
   beforeEach(() => {
@@ -25,7 +54,8 @@ describe('SiteEnumerator', () => {
       password: 'p',
       database: 'd',
     } as any);
-    mockExecSync.mockReturnValue(ROWS as any);
+    connection.query.mockResolvedValue(ROWS);
+    mockDbConnectionManager.get.mockReturnValue(connection as any);
   });
 
   describe('enumerateSites', () => {
@@ -101,4 +131,38 @@ describe('SiteEnumerator', () => {
       ).resolves.toBe(false);
     });
   });
+
+  describe('getSiteInfo', () => {
+    it('finds the main site', async () => {
+      const site = await SiteEnumerator.getSiteInfo(1, 'prod');
+      expect(site).toMatchObject({ blogId: 1, domain: 'wfu.edu' });
+    });
+  });
+
+  describe('getMappedDomains', () => {
+    it('returns an empty list when there is no domain mapping table', async () => {
+      connection.query.mockResolvedValueOnce([]);
+      await expect(SiteEnumerator.getMappedDomains(2, 'prod')).resolves.toEqual(
+        []
+      );
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns the domains mapped to the site', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ 'Tables_in_d (wp_domain_mapping)': 'x' }])
+        .mockResolvedValueOnce([
+          { domain: 'news.wakeforest.edu' },
+          { domain: 'wfunews.com' },
+        ]);
+
+      await expect(SiteEnumerator.getMappedDomains(2, 'prod')).resolves.toEqual(
+        ['news.wakeforest.edu', 'wfunews.com']
+      );
+      expect(connection.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('WHERE blog_id = ?'),
+        [2]
+      );
+    });
+  });
 });
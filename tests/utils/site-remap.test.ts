@@ -0,0 +1,282 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Config } from '../../src/utils/config';
+import { DbConnectionManager } from '../../src/utils/db-connection';
+import { SerializedReplace } from '../../src/utils/serialized-replace';
+import { SiteEnumerator, SiteInfo } from '../../src/utils/site-enumerator';
+import { SiteRemap } from '../../src/utils/site-remap';
+import { SqlStreamTransformer } from '../../src/utils/sql-stream-transformer';
+
+jest.mock('../../src/utils/config');
+jest.mock('../../src/utils/db-connection');
+jest.mock('../../src/utils/site-enumerator');
+
+const mockConfig = Config as jest.Mocked<typeof Config>;
+const mockDbConnectionManager = DbConnectionManager as jest.Mocked<
+  typeof DbConnectionManager
+>;
+const mockSiteEnumerator = SiteEnumerator as jest.Mocked<typeof SiteEnumerator>;
+
+const fixturePath = join(__dirname, '../fixtures/site-43-dump.sql');
+
+function site(blogId: number, domain: string, path = '/'): SiteInfo {
+  return {
+    blogId,
+    domain,
+    path,
+    registeredDate: '2023-01-01',
+    lastUpdated: '2023-12-01',
+    isPublic: true,
+    isArchived: false,
+    isMature: false,
+    isSpam: false,
+    isDeleted: false,
+  };
+}
+
+describe('SiteRemap', () => {
+  let sites: Record<string, SiteInfo[]>;
+  let execute: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sites = {
+      prod: [site(43, 'www.wfu.edu', '/magazine/')],
+      pprd: [site(43, 'pprd.wfu.edu', '/magazine/')],
+    };
+    mockConfig.getMappingsConfig.mockReturnValue({});
+    mockSiteEnumerator.getSiteInfo.mockImplementation(
+      async (id, env) => sites[env]?.find((info) => info.blogId === id) || null
+    );
+    mockSiteEnumerator.getMappedDomains.mockResolvedValue([]);
+    mockSiteEnumerator.enumerateSites.mockImplementation(async (env) => ({
+      sites: sites[env] || [],
+      totalCount: (sites[env] || []).length,
+      filteredCount: (sites[env] || []).length,
+      environment: env,
+    }));
+    execute = jest.fn().mockResolvedValue({ affectedRows: 1, insertId: 0 });
+    mockDbConnectionManager.get.mockReturnValue({ execute } as any);
+  });
+
+  it('clones a site under another ID in the same environment', async () => {
+    sites.pprd.push(site(97, 'pprd.wfu.edu', '/alumni/'));
+
+    const plan = await SiteRemap.plan(['wp_43_options', 'wp_43_posts'], {
+      to: 'pprd',
+      asSite: 97,
+    });
+
+    expect(plan.tablePrefix).toEqual({ from: 'wp_43_', to: 'wp_97_' });
+    expect(plan.tables).toEqual(['wp_97_options', 'wp_97_posts']);
+    expect(plan.replacements).toEqual([
+      {
+        from: '//pprd.wfu.edu/magazine',
+        to: '//pprd.wfu.edu/alumni',
+        pathBoundary: true,
+      },
+    ]);
+    expect(plan.blog).toEqual(
+      expect.objectContaining({ action: 'update', path: '/alumni/' })
+    );
+
+    await SiteRemap.syncBlogRow(plan);
+    expect(execute).toHaveBeenCalledWith(
+      'UPDATE wp_blogs SET last_updated = NOW() WHERE blog_id = ?',
+      [97]
+    );
+  });
+
+  it('rewrites a prod dump for pprd and adds the missing wp_blogs row', async () => {
+    sites.pprd = [];
+    const plan = await SiteRemap.plan(['wp_43_options', 'wp_43_posts'], {
+      to: 'pprd',
+      asSite: 97,
+      fromEnv: 'prod',
+    });
+    const workDir = mkdtempSync(join(tmpdir(), 'site-remap-test-'));
+    try {
+      const outputPath = join(workDir, 'site-97.sql');
+      await SqlStreamTransformer.transformFile(fixturePath, outputPath, {
+        replacements: plan.replacements,
+        tablePrefix: plan.tablePrefix,
+      });
+      const output = readFileSync(outputPath, 'utf8');
+
+      expect(output).toContain('CREATE TABLE `wp_97_options`');
+      expect(output).not.toContain('wp_43_');
+      expect(output).toContain("'wp_97_user_roles'");
+      expect(output).toContain("'https://pprd.wfu.edu/magazine'");
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+
+    expect(plan.blog).toEqual({
+      action: 'insert',
+      domain: 'pprd.wfu.edu',
+      path: '/magazine/',
+      isPublic: true,
+    });
+    await SiteRemap.syncBlogRow(plan);
+    expect(execute).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO wp_blogs'),
+      [97, 'pprd.wfu.edu', '/magazine/', 1]
+    );
+  });
+
+  it('moves the site path when restoring into another environment and site', async () => {
+    sites.pprd.push(site(97, 'pprd.wfu.edu', '/alumni/'));
+
+    const plan = await SiteRemap.plan(['wp_43_options', 'wp_43_posts'], {
+      to: 'pprd',
+      asSite: 97,
+      fromEnv: 'prod',
+    });
+
+    expect(plan.replacements[plan.replacements.length - 1]).toEqual({
+      from: '//pprd.wfu.edu/magazine',
+      to: '//pprd.wfu.edu/alumni',
+      pathBoundary: true,
+    });
+    expect(
+      SerializedReplace.replace(
+        'https://www.wfu.edu/magazine/2024/ https://www.wfu.edu/magazines/',
+        plan.replacements
+      )
+    ).toBe('https://pprd.wfu.edu/alumni/2024/ https://pprd.wfu.edu/magazines/');
+    expect(plan.blog).toEqual(
+      expect.objectContaining({ action: 'update', path: '/alumni/' })
+    );
+  });
+
+  it('adds a wp_blogs row at the given address in the same environment', async () => {
+    const plan = await SiteRemap.plan(['wp_43_options'], {
+      to: 'prod',
+      asSite: 97,
+      domain: 'WWW.wfu.edu',
+      path: 'alumni',
+    });
+
+    expect(plan.replacements).toEqual([
+      {
+        from: '//www.wfu.edu/magazine',
+        to: '//www.wfu.edu/alumni',
+        pathBoundary: true,
+      },
+    ]);
+    expect(plan.blog).toEqual({
+      action: 'insert',
+      domain: 'www.wfu.edu',
+      path: '/alumni/',
+      isPublic: true,
+    });
+  });
+
+  it('needs an address for a new site in the same environment', async () => {
+    await expect(
+      SiteRemap.plan(['wp_43_options'], { to: 'prod', asSite: 97 })
+    ).rejects.toThrow(
+      'Site 97 is not in prod wp_blogs; give its address with --domain and --path'
+    );
+  });
+
+  it('refuses to add a wp_blogs row at an address another site has', async () => {
+    await expect(
+      SiteRemap.plan(['wp_43_options'], {
+        to: 'prod',
+        asSite: 97,
+        domain: 'www.wfu.edu',
+        path: '/magazine/',
+      })
+    ).rejects.toThrow('www.wfu.edu/magazine/ belongs to site 43');
+  });
+
+  it('refuses an address for a site that already exists', async () => {
+    sites.prod.push(site(97, 'www.wfu.edu', '/alumni/'));
+
+    await expect(
+      SiteRemap.plan(['wp_43_options'], {
+        to: 'prod',
+        asSite: 97,
+        domain: 'www.wfu.edu',
+      })
+    ).rejects.toThrow('--domain and --path are only for a new site');
+  });
+
+  it('only remaps dumps holding a single site', async () => {
+    await expect(
+      SiteRemap.plan(['wp_43_options', 'wp_users'], { to: 'prod', asSite: 97 })
+    ).rejects.toThrow(
+      '--as-site only restores site tables; this dump also has wp_users'
+    );
+    await expect(
+      SiteRemap.plan(['wp_43_options', 'wp_44_options'], {
+        to: 'prod',
+        asSite: 97,
+      })
+    ).rejects.toThrow('this dump has sites 43, 44');
+    await expect(
+      SiteRemap.plan(['wp_43_options'], { to: 'prod', asSite: 1 })
+    ).rejects.toThrow('--as-site must be a site ID greater than 1');
+  });
+
+  it('applies only the environment rules to a network dump', async () => {
+    const plan = await SiteRemap.plan(
+      ['wp_blogs', 'wp_options', 'wp_43_options'],
+      { to: 'pprd', fromEnv: 'prod' }
+    );
+
+    expect(plan.tablePrefix).toBeUndefined();
+    expect(plan.blog).toBeUndefined();
+    expect(plan.replacements[0]).toEqual({
+      from: 'https://www.wfu.edu',
+      to: 'https://pprd.wfu.edu',
+    });
+  });
+
+  describe('getAddressReplacements', () => {
+    it('rewrites a subdirectory address only at a path boundary', () => {
+      const replacements = SiteRemap.getAddressReplacements(
+        { domain: 'wfu.edu', path: '/news/' },
+        { domain: 'wfu.edu', path: '/events/' }
+      );
+
+      expect(replacements).toEqual([
+        { from: '//wfu.edu/news', to: '//wfu.edu/events', pathBoundary: true },
+      ]);
+      const statement = String.raw`INSERT INTO wp_43_options VALUES (1,'home','https://wfu.edu/news'),(2,'links','<a href=\"https://wfu.edu/news/about?x=1\">About</a> <a href=\"https://wfu.edu/newsroom/\">Newsroom</a>'),(3,'feed','{\"url\":\"https:\\/\\/wfu.edu\\/news#top\"}');`;
+      expect(
+        SqlStreamTransformer.transformStatement(statement, { replacements })
+      ).toBe(
+        statement
+          .replace("'https://wfu.edu/news'", "'https://wfu.edu/events'")
+          .replace('wfu.edu/news/about', 'wfu.edu/events/about')
+          .replace('wfu.edu\\\\/news#top', 'wfu.edu\\\\/events#top')
+      );
+    });
+
+    it('leaves a longer domain alone when rewriting a subdomain site', () => {
+      const [replacement] = SiteRemap.getAddressReplacements(
+        { domain: 'news.wfu.edu', path: '/' },
+        { domain: 'events.wfu.edu', path: '/' }
+      );
+
+      expect(
+        SerializedReplace.replace(
+          'https://news.wfu.edu/ and https://news.wfu.edu.example.com/',
+          [replacement]
+        )
+      ).toBe('https://events.wfu.edu/ and https://news.wfu.edu.example.com/');
+    });
+
+    it('has nothing to rewrite between identical addresses', () => {
+      expect(
+        SiteRemap.getAddressReplacements(
+          { domain: 'wfu.edu', path: '/news/' },
+          { domain: 'wfu.edu', path: '/news/' }
+        )
+      ).toEqual([]);
+    });
+  });
+});
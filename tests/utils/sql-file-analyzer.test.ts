@@ -1,5 +1,6 @@
 import { existsSync, mkdirSync, writeFileSync, unlinkSync, rmSync } from 'fs';
 import { join } from 'path';
+import { gzipSync } from 'zlib';
 import { SqlFileAnalyzer } from '../../src/utils/sql-file-analyzer';
 
 describe('SqlFileAnalyzer', () => {
@@ -142,4 +143,63 @@ DROP TABLE IF EXISTS some_table;
       expect(count).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('getTableNamesInSqlFile', () => {
+    const dump = `
+DROP TABLE IF EXISTS \`wp_43_posts\`;
+CREATE TABLE \`wp_43_posts\` (id int);
+CREATE TABLE IF NOT EXISTS wp_43_options (id int);
+INSERT INTO \`wp_43_posts\` VALUES (1);
+`;
+
+    it('should list table names in file order', async () => {
+      const testFile = join(testDir, 'names.sql');
+      writeFileSync(testFile, dump);
+
+      const names = await SqlFileAnalyzer.getTableNamesInSqlFile(testFile);
+      expect(names).toEqual(['wp_43_posts', 'wp_43_options']);
+    });
+
+    it('should read gzip-compressed dumps', async () => {
+      const testFile = join(testDir, 'names.sql.gz');
+      writeFileSync(testFile, gzipSync(dump));
+
+      expect(await SqlFileAnalyzer.getTableNamesInSqlFile(testFile)).toEqual([
+        'wp_43_posts',
+        'wp_43_options',
+      ]);
+      expect(await SqlFileAnalyzer.countTablesInSqlFile(testFile)).toBe(2);
+    });
+  });
+
+  describe('getTableStats', () => {
+    it('should count INSERT statements and estimate rows per table', async () => {
+      const testFile = join(testDir, 'stats.sql');
+      writeFileSync(
+        testFile,
+        `
+CREATE TABLE \`wp_43_posts\` (id int);
+INSERT INTO \`wp_43_posts\` VALUES (1,'a'),(2,'b'),(3,'c');
+INSERT INTO \`wp_43_posts\` VALUES (4,'d');
+CREATE TABLE \`wp_43_options\` (id int);
+INSERT INTO \`wp_43_links\` VALUES (1,'x'),(2,'y');
+`
+      );
+
+      const stats = await SqlFileAnalyzer.getTableStats(testFile);
+      expect(stats.map(({ name }) => name)).toEqual([
+        'wp_43_posts',
+        'wp_43_options',
+        'wp_43_links',
+      ]);
+      expect(stats[0]).toMatchObject({
+        hasCreate: true,
+        insertStatements: 2,
+        estimatedRows: 4,
+      });
+      expect(stats[0].insertBytes).toBeGreaterThan(0);
+      expect(stats[1]).toMatchObject({ insertStatements: 0, estimatedRows: 0 });
+      expect(stats[2]).toMatchObject({ hasCreate: false, estimatedRows: 2 });
+    });
+  });
+});
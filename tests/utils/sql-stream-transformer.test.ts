@@ -0,0 +1,206 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+  SqlStreamTransformer,
+  SqlTransformOptions,
+  SqlTransformProgress,
+} from '../../src/utils/sql-stream-transformer';
+
+const fixturePath = join(__dirname, '../fixtures/site-43-dump.sql');
+const fixture = readFileSync(fixturePath);
+
+const replacements = [
+  { from: 'https://www.wfu.edu', to: 'https://pprd.wfu.edu' },
+];
+
+// Feed the dump through the statement stream in chunks of the given size and
+// collect what comes out, one entry per emitted statement
+async function streamInChunks(
+  input: Buffer,
+  chunkSize: number,
+  options: SqlTransformOptions = {}
+): Promise<string[]> {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < input.length; offset += chunkSize) {
+    chunks.push(input.subarray(offset, offset + chunkSize));
+  }
+  const statements: string[] = [];
+  await pipeline(
+    Readable.from(chunks),
+    SqlStreamTransformer.createStatementStream(options),
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        statements.push(chunk.toString('latin1'));
+        callback();
+      },
+    })
+  );
+  return statements;
+}
+
+describe('SqlStreamTransformer', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), 'sql-stream-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('createStatementStream', () => {
+    it('splits the same statements regardless of chunk size', async () => {
+      const whole = await streamInChunks(fixture, fixture.length);
+
+      for (const chunkSize of [1, 2, 3, 7]) {
+        expect(await streamInChunks(fixture, chunkSize)).toEqual(whole);
+      }
+      expect(whole.join('')).toBe(fixture.toString('latin1'));
+    });
+
+    it('keeps semicolons and comment markers inside literals in one statement', async () => {
+      const statements = await streamInChunks(fixture, 5);
+      const insert = statements.find((statement) =>
+        statement.startsWith('INSERT INTO `wp_43_options`')
+      );
+
+      expect(insert).toContain("it\\'s; done\\n-- not a comment");
+      expect(insert?.trimEnd().endsWith(');')).toBe(true);
+    });
+
+    it('emits leading comment lines as their own statements', async () => {
+      const statements = await streamInChunks(fixture, 3);
+
+      expect(statements[0]).toBe(
+        '-- MySQL dump 10.13  Distrib 8.0.36, for Linux (x86_64)\n'
+      );
+      expect(statements).toContain('/*!40101 SET NAMES utf8mb4 */;\n');
+    });
+  });
+
+  describe('transformStatement', () => {
+    it('rewrites table prefixes in identifiers and per-prefix option names', () => {
+      const result = SqlStreamTransformer.transformStatement(
+        "INSERT INTO `wp_43_options` VALUES (2,'wp_43_user_roles','wp_43_x y');\n",
+        { tablePrefix: { from: 'wp_43_', to: 'wp_12_' } }
+      );
+
+      expect(result).toBe(
+        "INSERT INTO `wp_12_options` VALUES (2,'wp_12_user_roles','wp_43_x y');\n"
+      );
+    });
+
+    it('fixes serialized lengths after a URL rewrite', () => {
+      const result = SqlStreamTransformer.transformStatement(
+        `INSERT INTO \`wp_43_options\` VALUES (3,'a:1:{s:4:\\"home\\";s:19:\\"https://www.wfu.edu\\";}');\n`,
+        { replacements }
+      );
+
+      expect(result).toBe(
+        `INSERT INTO \`wp_43_options\` VALUES (3,'a:1:{s:4:\\"home\\";s:20:\\"https://pprd.wfu.edu\\";}');\n`
+      );
+    });
+
+    it('returns the statement untouched when there is nothing to apply', () => {
+      const statement = "INSERT INTO `t` VALUES ('https://www.wfu.edu');\n";
+      expect(SqlStreamTransformer.transformStatement(statement, {})).toBe(
+        statement
+      );
+    });
+  });
+
+  describe('transformFile', () => {
+    it('rewrites the fixture dump', async () => {
+      const outputPath = join(workDir, 'out.sql');
+
+      const result = await SqlStreamTransformer.transformFile(
+        fixturePath,
+        outputPath,
+        { replacements, tablePrefix: { from: 'wp_43_', to: 'wp_12_' } }
+      );
+      const output = readFileSync(outputPath, 'utf8');
+
+      expect(result.tables).toEqual(['wp_43_options', 'wp_43_posts']);
+      expect(result.bytesRead).toBe(fixture.length);
+      expect(output).not.toContain('wp_43_');
+      expect(output).not.toContain('www.wfu.edu');
+      expect(output).toContain(
+        's:7:\\"siteurl\\";s:29:\\"https://pprd.wfu.edu/magazine\\"'
+      );
+      expect(output).toContain(
+        '<a href=\\"https://pprd.wfu.edu/magazine/\\">Café</a>'
+      );
+      expect(output).toContain('-- Host: db.wfu.edu    Database: wordpress');
+    });
+
+    it('reads and writes gzip dumps', async () => {
+      const inputPath = join(workDir, 'dump.sql.gz');
+      const outputPath = join(workDir, 'out.sql.gz');
+      writeFileSync(inputPath, gzipSync(fixture));
+
+      await SqlStreamTransformer.transformFile(inputPath, outputPath, {
+        replacements,
+      });
+
+      expect(SqlStreamTransformer.isGzipFile(inputPath)).toBe(true);
+      expect(SqlStreamTransformer.isGzipFile(outputPath)).toBe(true);
+      const output = gunzipSync(readFileSync(outputPath)).toString('utf8');
+      expect(output).toContain('https://pprd.wfu.edu/magazine');
+    });
+
+    it('writes plain output from gzip input when asked', async () => {
+      const inputPath = join(workDir, 'dump.sql.gz');
+      const outputPath = join(workDir, 'out.sql');
+      writeFileSync(inputPath, gzipSync(fixture));
+
+      await SqlStreamTransformer.transformFile(inputPath, outputPath, {
+        gzipOutput: false,
+      });
+
+      expect(SqlStreamTransformer.isGzipFile(outputPath)).toBe(false);
+      expect(readFileSync(outputPath)).toEqual(fixture);
+    });
+
+    it('leaves out every statement of the tables it is told to skip', async () => {
+      const outputPath = join(workDir, 'out.sql');
+
+      const result = await SqlStreamTransformer.transformFile(
+        fixturePath,
+        outputPath,
+        { includeTable: (table) => table !== 'wp_43_options' }
+      );
+      const output = readFileSync(outputPath, 'utf8');
+
+      expect(result.tables).toEqual(['wp_43_posts']);
+      expect(output).not.toMatch(/^[^-].*`wp_43_options`/m);
+      expect(output).toContain('CREATE TABLE `wp_43_posts`');
+      expect(output.match(/UNLOCK TABLES;/g)).toHaveLength(1);
+      expect(output).toContain('/*!40101 SET NAMES utf8mb4 */;');
+    });
+
+    it('reports progress by bytes and tables', async () => {
+      const progress: SqlTransformProgress[] = [];
+
+      const result = await SqlStreamTransformer.transformFile(
+        fixturePath,
+        join(workDir, 'out.sql'),
+        { onProgress: (update) => progress.push({ ...update }) }
+      );
+
+      expect(progress).toHaveLength(result.statements);
+      expect(progress[progress.length - 1]).toMatchObject({
+        totalBytes: fixture.length,
+        tables: 2,
+        currentTable: 'wp_43_posts',
+      });
+      expect(
+        progress.every((update) => update.bytesRead <= update.totalBytes)
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { SqlBuilder } from '../../src/utils/sql';
+
+describe('SqlBuilder', () => {
+  describe('format', () => {
+    it('escapes values and quotes identifiers in order', () => {
+      expect(
+        SqlBuilder.format(
+          'SELECT ?? FROM ?? WHERE option_name = ? AND id > ?',
+          ['option_value', 'wp_43_options', "it's", 7]
+        )
+      ).toBe(
+        "SELECT `option_value` FROM `wp_43_options` WHERE option_name = 'it\\'s' AND id > 7"
+      );
+    });
+
+    it('neutralizes quotes, backslashes and statement breaks in values', () => {
+      expect(
+        SqlBuilder.format('UPDATE t SET v = ?', [
+          'x\\\'; DROP TABLE wp_blogs; -- "$(id)"',
+        ])
+      ).toBe(
+        "UPDATE t SET v = 'x\\\\\\'; DROP TABLE wp_blogs; -- \\\"$(id)\\\"'"
+      );
+    });
+
+    it('does not substitute placeholders that appear inside params', () => {
+      expect(SqlBuilder.format('SELECT ? , ?', ['what?', '?? and ?'])).toBe(
+        "SELECT 'what?' , '?? and ?'"
+      );
+    });
+
+    it('formats NULL, numbers, booleans and buffers', () => {
+      expect(
+        SqlBuilder.format('VALUES (?, ?, ?, ?)', [
+          null,
+          -1.5,
+          true,
+          Buffer.from('hi'),
+        ])
+      ).toBe("VALUES (NULL, -1.5, true, X'6869')");
+    });
+
+    it('leaves SQL without params untouched', () => {
+      expect(SqlBuilder.format("SELECT 'why?'")).toBe("SELECT 'why?'");
+    });
+
+    it('throws when placeholders and params do not match', () => {
+      expect(() => SqlBuilder.format('SELECT ?, ?', [1])).toThrow(
+        'Missing SQL parameter 2'
+      );
+      expect(() => SqlBuilder.format('SELECT ?', [1, 2])).toThrow(
+        'Expected 1 SQL parameters but received 2'
+      );
+    });
+
+    it('rejects non-string identifier params', () => {
+      expect(() => SqlBuilder.format('SELECT * FROM ??', [1])).toThrow(
+        'SQL identifier parameter 1 must be a string'
+      );
+    });
+  });
+
+  describe('identifier', () => {
+    it('doubles backticks and keeps dots inside the name', () => {
+      expect(SqlBuilder.identifier('wp_43_x`; DROP TABLE wp_blogs; --')).toBe(
+        '`wp_43_x``; DROP TABLE wp_blogs; --`'
+      );
+      expect(SqlBuilder.identifier('other_db.wp_users')).toBe(
+        '`other_db.wp_users`'
+      );
+    });
+
+    it('rejects names MySQL cannot store', () => {
+      expect(() => SqlBuilder.identifier('')).toThrow('Invalid SQL identifier');
+      expect(() => SqlBuilder.identifier('a'.repeat(65))).toThrow(
+        'Invalid SQL identifier'
+      );
+      expect(() => SqlBuilder.identifier('wp_\0x')).toThrow(
+        'Invalid SQL identifier'
+      );
+      expect(() => SqlBuilder.identifier('wp_posts ')).toThrow(
+        'Invalid SQL identifier'
+      );
+    });
+  });
+
+  describe('hex', () => {
+    it('encodes strings as UTF-8 bytes', () => {
+      expect(SqlBuilder.hex("Café'")).toBe("UNHEX('436166c3a927')");
+      expect(SqlBuilder.hex(Buffer.from([0, 255]))).toBe("UNHEX('00ff')");
+      expect(SqlBuilder.hex('')).toBe("''");
+    });
+  });
+
+  describe('LIKE patterns', () => {
+    it('escapes wildcards so they match literally', () => {
+      expect(SqlBuilder.startsWithPattern('wp_4_')).toBe('wp\\_4\\_%');
+      expect(SqlBuilder.containsPattern('100%\\')).toBe('%100\\%\\\\%');
+    });
+  });
+});